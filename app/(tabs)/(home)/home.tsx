@@ -10,15 +10,17 @@ import {
   StatusBar,
   RefreshControl,
   ImageBackground,
+  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { Check, Calendar, Clock, TrendingUp, Award, ChevronRight } from "lucide-react-native";
+import { Check, Calendar, Clock, TrendingUp, Award, ChevronRight, RotateCcw, CloudOff } from "lucide-react-native";
 import { router } from "expo-router";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { useTheme } from "@/providers/ThemeProvider";
 import { useUser } from "@/providers/UserProvider";
 import { useGoals } from "@/providers/GoalsProvider";
+import { RescheduleProposal } from "@/services/rescheduleService";
 import TaskDetailModal from "@/app/components/TaskDetailModal";
 import ViewAllTasksModal from "@/app/components/ViewAllTasksModal";
 import { shadowSm } from "@/ui/depth";
@@ -30,7 +32,8 @@ export default function HomeScreen() {
   const insets = useSafeAreaInsets();
 
   const { user } = useUser();
-  const { tasks, goals, toggleTask, getTasksStats, getTodaysProgress } = useGoals();
+  const { tasks, goals, toggleTask, getTasksStats, getTodaysProgress, rescheduleProposals, acceptReschedule, skipMissed, pendingSyncCount } = useGoals();
+  const [resolvingProposalId, setResolvingProposalId] = useState<string | null>(null);
   
   // Handle case where user is still loading or null
   if (!user) {
@@ -230,6 +233,32 @@ export default function HomeScreen() {
     handleCloseTaskModal();
   };
 
+  const formatSlotTime = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const describeProposal = (proposal: RescheduleProposal) => {
+    if (proposal.kind === 'move') return `Move to ${formatSlotTime(proposal.slots[0].start)}`;
+    if (proposal.kind === 'redistribute') {
+      return `Split into ${proposal.slots.length} sessions from ${formatSlotTime(proposal.slots[0].start)}`;
+    }
+    return 'No free time before the target date';
+  };
+
+  const handleResolveProposal = async (proposalId: string, action: 'accept' | 'skip') => {
+    if (Platform.OS !== "web") {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setResolvingProposalId(proposalId);
+    try {
+      if (action === 'accept') await acceptReschedule(proposalId);
+      else await skipMissed(proposalId);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to update the missed session');
+    } finally {
+      setResolvingProposalId(null);
+    }
+  };
+
   const handleViewAllGoals = async () => {
     if (Platform.OS !== "web") {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -450,6 +479,9 @@ export default function HomeScreen() {
       shadowRadius: 8,
       elevation: 4,
     },
+    syncBadge: {
+      marginTop: 8,
+    },
     dateText: {
       color: '#ffffff',
       fontSize: 14,
@@ -647,6 +679,27 @@ export default function HomeScreen() {
       flexDirection: 'row',
       alignItems: 'center',
     },
+    missedSection: {
+      marginTop: 20,
+    },
+    proposalActions: {
+      flexDirection: 'row',
+      marginTop: 10,
+    },
+    proposalButton: {
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 12,
+      marginRight: 8,
+    },
+    proposalButtonSecondary: {
+      backgroundColor: isDark ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.05)',
+    },
+    proposalButtonText: {
+      fontSize: 14,
+      fontWeight: "600" as const,
+      color: 'white',
+    },
     upcomingSection: {
       marginTop: 10,
       paddingHorizontal: 20,
@@ -865,6 +918,14 @@ export default function HomeScreen() {
               <Calendar size={16} color="#ffffff" />
               <Text style={styles.dateText}>{formatDate()}</Text>
             </View>
+            {pendingSyncCount > 0 && (
+              <View style={[styles.dateContainer, styles.syncBadge]}>
+                <CloudOff size={16} color="#ffffff" />
+                <Text style={styles.dateText}>
+                  {pendingSyncCount} {pendingSyncCount === 1 ? "change" : "changes"} waiting to sync
+                </Text>
+              </View>
+            )}
           </View>
         </Animated.View>
 
@@ -931,6 +992,60 @@ export default function HomeScreen() {
           );
         })()}
 
+        {rescheduleProposals.length > 0 && (
+          <View style={[styles.taskSection, styles.missedSection]}>
+            <View style={styles.taskCard}>
+              <View style={styles.taskHeader}>
+                <Text style={styles.taskTitle}>Missed Sessions</Text>
+                <Text style={styles.taskSubtitle}>{rescheduleProposals.length} to reschedule</Text>
+              </View>
+              {rescheduleProposals.map((proposal, index) => (
+                <View
+                  key={proposal.id}
+                  style={[styles.taskItem, index === rescheduleProposals.length - 1 && styles.taskItemLast]}
+                  testID={`missed-session-${index}`}
+                >
+                  <View style={styles.taskContent}>
+                    <Text style={styles.taskName}>{proposal.title}</Text>
+                    {proposal.goalTitle && (
+                      <Text style={styles.taskGoal}>{proposal.goalTitle}</Text>
+                    )}
+                    <Text style={styles.taskTime}>
+                      Missed {formatSlotTime(proposal.missedAt)} · {proposal.minutes} min
+                    </Text>
+                    <View style={styles.timeContainer}>
+                      <RotateCcw size={12} color={colors.textSecondary} style={timeIconStyle} />
+                      <Text style={styles.taskTime}>{describeProposal(proposal)}</Text>
+                    </View>
+                    <View style={styles.proposalActions}>
+                      {proposal.slots.length > 0 && (
+                        <TouchableOpacity
+                          style={[styles.proposalButton, { backgroundColor: colors.primary }]}
+                          onPress={() => handleResolveProposal(proposal.id, 'accept')}
+                          disabled={resolvingProposalId === proposal.id}
+                          activeOpacity={0.7}
+                          testID={`accept-reschedule-${index}`}
+                        >
+                          <Text style={styles.proposalButtonText}>Accept</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={[styles.proposalButton, styles.proposalButtonSecondary]}
+                        onPress={() => handleResolveProposal(proposal.id, 'skip')}
+                        disabled={resolvingProposalId === proposal.id}
+                        activeOpacity={0.7}
+                        testID={`skip-missed-${index}`}
+                      >
+                        <Text style={[styles.proposalButtonText, { color: colors.textSecondary }]}>Skip</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Today&apos;s Tasks</Text>
           <TouchableOpacity 
@@ -12,7 +12,7 @@ import {
   Alert,
   ImageBackground,
 } from 'react-native';
-import { Send, CheckCircle, Sparkles, MessageSquare, Target, Crown, Plus } from 'lucide-react-native';
+import { Send, CheckCircle, Sparkles, MessageSquare, Target, Crown, Plus, Square, History } from 'lucide-react-native';
 import { Image } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '@/providers/ThemeProvider';
@@ -22,17 +22,26 @@ import { useSubscription } from '@/providers/SubscriptionProvider';
 import { useNotifications } from '@/providers/NotificationProvider';
 import { aiService } from '@/lib/ai-service';
 import { ensureUserProfile } from '@/services/goalPlanning';
+import { anchorTimeZone, getTimeZoneSettings } from '@/services/timeZoneService';
+import { getAvailability } from '@/services/availabilityService';
 import { notificationService } from '@/services/notifications';
+import { Conversation, getConversationMessages } from '@/services/chatHistoryService';
+import ChatHistoryModal from '@/app/components/ChatHistoryModal';
 import { supabase } from '@/lib/supabase-client';
 import { router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { shadowSm, shadowMd, insetTopLight, insetBottomDark } from '@/ui/depth';
 
+// can_create_chat's weekly_limit for free tiers
+const WEEKLY_CHAT_LIMIT = 10;
+
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // Assistant replies: still arriving, stopped by the user, or cut off by the connection
+  status?: 'streaming' | 'stopped' | 'interrupted';
 }
 
 export default function ChatScreen() {
@@ -51,11 +60,18 @@ export default function ChatScreen() {
   const [conversationComplete, setConversationComplete] = useState(false);
   const [goalCreationMode, setGoalCreationMode] = useState(false);
   const [chatCount, setChatCount] = useState(0);
-  const [chatLimit, setChatLimit] = useState(3);
+  // coach_chat counts a chat once per id against can_create_chat's weekly limit
+  const chatIdRef = useRef<string | undefined>(undefined);
+  // Aborts the reply that is streaming in, if any
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const chatLimit = WEEKLY_CHAT_LIMIT;
 
   useEffect(() => {
     initializeConversation();
     loadChatCount();
+    return () => streamAbortRef.current?.abort();
   }, []);
 
   const loadChatCount = async () => {
@@ -103,23 +119,6 @@ export default function ChatScreen() {
     }
   };
 
-  const incrementChatCount = async () => {
-    if (!user) return;
-    
-    try {
-      await supabase
-        .from('chat_usage')
-        .insert({
-          user_id: user.id,
-          created_at: new Date().toISOString()
-        });
-      
-      setChatCount(prev => prev + 1);
-    } catch (error) {
-      console.error('Error incrementing chat count:', error);
-    }
-  };
-
   const handleNewChat = async () => {
     if (Platform.OS !== 'web') {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -157,12 +156,41 @@ export default function ChatScreen() {
   };
 
   const resetConversation = () => {
+    streamAbortRef.current?.abort();
     setMessages([]);
     setInputText('');
     setIsLoading(false);
     setIsCreating(false);
     setConversationComplete(false);
     setGoalCreationMode(false);
+    chatIdRef.current = undefined;
+  };
+
+  // Resume a past thread: its id goes back to coach_chat so the chat is not counted again
+  const handleOpenConversation = async (conversation: Conversation) => {
+    setShowHistory(false);
+    if (conversation.id === chatIdRef.current) return;
+    try {
+      const stored = await getConversationMessages(conversation.id);
+      resetConversation();
+      chatIdRef.current = conversation.id;
+      setMessages(stored.map(m => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.created_at),
+        status: m.status ?? undefined,
+      })));
+      setTimeout(() => {
+        scrollViewRef.current?.scrollToEnd({ animated: false });
+      }, 100);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to open chat');
+    }
+  };
+
+  const handleConversationDeleted = (conversationId: string) => {
+    if (conversationId === chatIdRef.current) resetConversation();
   };
 
   const initializeConversation = () => {
@@ -175,7 +203,7 @@ export default function ChatScreen() {
     if (!isPremium && chatCount >= chatLimit) {
       Alert.alert(
         'Chat Limit Reached',
-        'You\'ve reached your weekly limit of 3 free AI chats. Upgrade to Premium for unlimited access!',
+        `You've reached your weekly limit of ${chatLimit} free AI chats. Upgrade to Premium for unlimited access!`,
         [
           { text: 'Cancel', style: 'cancel' },
           { text: 'Upgrade', onPress: () => router.push('/(tabs)/settings') }
@@ -211,12 +239,13 @@ export default function ChatScreen() {
     setMessages([welcomeMessage]);
   };
 
-  const addMessage = (role: 'user' | 'assistant', content: string) => {
+  const addMessage = (role: 'user' | 'assistant', content: string, status?: Message['status']) => {
     const newMessage: Message = {
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       role,
       content,
       timestamp: new Date(),
+      status,
     };
     setMessages(prev => [...prev, newMessage]);
     
@@ -224,57 +253,24 @@ export default function ChatScreen() {
     setTimeout(() => {
     scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
+    return newMessage.id;
+  };
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...update(m) } : m)));
+  };
+
+  const handleStopStreaming = () => {
+    streamAbortRef.current?.abort();
   };
 
   const handleSendMessage = async () => {
     if (!inputText.trim() || isLoading || isCreating) return;
 
-    // Check chat limit for non-premium users (only at start of conversation)
-    if (!isPremium && messages.length === 0) {
-      // Double-check with server-side function for accuracy
-      try {
-        const { data: canChat, error } = await supabase
-          .rpc('can_create_chat', { p_user_id: user?.id });
-        
-        if (error) {
-          console.error('Error checking chat limit:', error);
-        } else if (!canChat) {
-          Alert.alert(
-            'Chat Limit Reached',
-            `You've reached your weekly limit of ${chatLimit} AI chats. Upgrade to Premium for unlimited access!`,
-            [
-              { text: 'Cancel', style: 'cancel' },
-              { text: 'Upgrade', onPress: () => router.push('/(tabs)/settings') }
-            ]
-          );
-          return;
-        }
-      } catch (error) {
-        console.error('Error validating chat limit:', error);
-        // Fallback to client-side check
-        if (chatCount >= chatLimit) {
-          Alert.alert(
-            'Chat Limit Reached',
-            `You've reached your weekly limit of ${chatLimit} AI chats. Upgrade to Premium for unlimited access!`,
-            [
-              { text: 'Cancel', style: 'cancel' },
-              { text: 'Upgrade', onPress: () => router.push('/(tabs)/settings') }
-            ]
-          );
-          return;
-        }
-      }
-    }
-
     const userMessage = inputText.trim();
     setInputText('');
     addMessage('user', userMessage);
 
-    // Track chat usage for non-premium users (only at start of conversation)
-    if (!isPremium && messages.length === 0) {
-      await incrementChatCount();
-    }
-
     setIsLoading(true);
 
     try {
@@ -290,6 +286,12 @@ export default function ChatScreen() {
         content: userMessage
       });
 
+      // The reply is shown as it streams in, from its first piece
+      const reply: { id: string | null } = { id: null };
+      const abort = new AbortController();
+      streamAbortRef.current = abort;
+      setIsStreaming(true);
+
       // Call AI service to get response with optional onboarding context
       const response = await aiService.generateResponse(conversationHistory, {
         age: profile?.age ?? null,
@@ -298,10 +300,55 @@ export default function ChatScreen() {
         weightKg: profile?.weightKg ?? null,
         unitSystem: profile?.unitSystem ?? null,
         dateOfBirth: profile?.dateOfBirth ?? null,
+      }, chatIdRef.current, {
+        signal: abort.signal,
+        onDelta: (text) => {
+          if (!reply.id) {
+            reply.id = addMessage('assistant', text, 'streaming');
+          } else {
+            updateMessage(reply.id, m => ({ content: m.content + text }));
+          }
+          scrollViewRef.current?.scrollToEnd({ animated: false });
+        },
       });
+      if (streamAbortRef.current === abort) streamAbortRef.current = null;
+      setIsStreaming(false);
+
+      // The weekly limit is enforced by coach_chat when a chat starts
+      if (response.limitReached) {
+        // Give the message back so it can be sent after upgrading
+        setMessages(prev => prev.slice(0, -1));
+        setInputText(userMessage);
+        Alert.alert(
+          'Chat Limit Reached',
+          `You've reached your weekly limit of ${chatLimit} AI chats. Upgrade to Premium for unlimited access!`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Upgrade', onPress: () => router.push('/(tabs)/settings') }
+          ]
+        );
+        loadChatCount();
+        return;
+      }
+      if (!chatIdRef.current && response.chatId) {
+        chatIdRef.current = response.chatId;
+        if (!isPremium) loadChatCount();
+      }
       
+      if (response.cancelled || response.interrupted) {
+        // Keep what arrived; an empty stopped reply is dropped
+        if (reply.id) {
+          updateMessage(reply.id, () => ({ content: response.message, status: response.cancelled ? 'stopped' : 'interrupted' }));
+        }
+        return;
+      }
+
       if (response.success && response.message) {
-        addMessage('assistant', response.message);
+        if (reply.id) {
+          updateMessage(reply.id, () => ({ content: response.message, status: undefined }));
+        } else {
+          addMessage('assistant', response.message);
+        }
         
         // Check if the AI indicates the conversation is complete AND we're in goal creation mode
         if (goalCreationMode && (
@@ -318,6 +365,8 @@ export default function ChatScreen() {
       console.error('Error in AI conversation:', error);
       addMessage('assistant', 'Sorry, I encountered an error. Please try again.');
     } finally {
+      streamAbortRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
@@ -335,22 +384,34 @@ export default function ChatScreen() {
       // Ensure user profile exists
       await ensureUserProfile(supabase, user.id);
 
+      // Sessions are anchored to the home zone or float with the device (user setting) and fit availability windows
+      const [zone, availability] = await Promise.all([getTimeZoneSettings(user.id), getAvailability(user.id)]);
+
       // Call the AI service to create the goal plan from the conversation, with optional user context
       const planResponse = await aiService.createGoalFromConversation(conversationHistory, {
         age: profile?.age ?? null,
         gender: profile?.gender ?? null,
         heightCm: profile?.heightCm ?? null,
         weightKg: profile?.weightKg ?? null,
+        timeZone: anchorTimeZone(zone),
+        availability,
       });
       
       if (planResponse.success && planResponse.goal && planResponse.tasks) {
         // The database function will automatically assign a color if not provided
         // Store the goal and tasks in the database
-        const { data: goal_id, error: rpcError } = await supabase.rpc('create_goal_with_tasks', {
-          p_user_id: user.id,
-          p_goal: planResponse.goal,
-          p_tasks: planResponse.tasks
-        });
+        // Recurring sessions are stored as RRULEs; fall back to one row per task when none were built
+        const { data: goal_id, error: rpcError } = planResponse.rules && planResponse.rules.length > 0
+          ? await supabase.rpc('create_goal_with_rules', {
+              p_user_id: user.id,
+              p_goal: planResponse.goal,
+              p_rules: planResponse.rules
+            })
+          : await supabase.rpc('create_goal_with_tasks', {
+              p_user_id: user.id,
+              p_goal: planResponse.goal,
+              p_tasks: planResponse.tasks
+            });
 
         if (rpcError) {
           throw new Error(`Failed to create goal: ${rpcError.message}`);
@@ -448,6 +509,11 @@ export default function ChatScreen() {
 
   const renderMessage = (message: Message) => {
     const isUser = message.role === 'user';
+    const statusNote = message.status === 'stopped'
+      ? ' · Stopped'
+      : message.status === 'interrupted'
+        ? ' · Connection lost'
+        : '';
     
     return (
       <View key={message.id} style={[styles.messageContainer, isUser ? styles.userMessage : styles.assistantMessage]}>
@@ -464,9 +530,13 @@ export default function ChatScreen() {
         ]}>
           <Text style={[styles.messageText, { color: isUser ? 'white' : colors.text }]}>
             {renderMarkdownBold(message.content)}
+            {message.status === 'streaming' && (
+              <Text style={{ color: colors.primary }}>▍</Text>
+            )}
           </Text>
           <Text style={[styles.timestamp, isUser ? styles.userTimestamp : styles.assistantTimestamp]}>
             {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {statusNote}
           </Text>
         </View>
       </View>
@@ -513,20 +583,34 @@ export default function ChatScreen() {
         <Text style={[styles.headerTitle, { color: colors.text }]}>
           {goalCreationMode ? 'Create Goal with AI' : 'AI Chat Assistant'}
         </Text>
-        {messages.length > 0 && (
-          <TouchableOpacity
-            style={[styles.newChatButton, { 
-              backgroundColor: isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(255, 255, 255, 0.8)',
-              borderColor: colors.border 
-            }]}
-            onPress={handleNewChat}
-          >
-            <Plus size={18} color={colors.primary} />
-            <Text style={[styles.newChatButtonText, { color: colors.primary }]}>
-              New Chat
-            </Text>
-          </TouchableOpacity>
-        )}
+        <View style={styles.headerActions}>
+          {user && (
+            <TouchableOpacity
+              style={[styles.newChatButton, { 
+                backgroundColor: isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(255, 255, 255, 0.8)',
+                borderColor: colors.border 
+              }]}
+              onPress={() => setShowHistory(true)}
+              accessibilityLabel="Chat history"
+            >
+              <History size={18} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+          {messages.length > 0 && (
+            <TouchableOpacity
+              style={[styles.newChatButton, { 
+                backgroundColor: isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(255, 255, 255, 0.8)',
+                borderColor: colors.border 
+              }]}
+              onPress={handleNewChat}
+            >
+              <Plus size={18} color={colors.primary} />
+              <Text style={[styles.newChatButtonText, { color: colors.primary }]}>
+                New Chat
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
       {/* Chat Usage Bar - Only for Free Users */}
@@ -594,7 +678,7 @@ export default function ChatScreen() {
         showsVerticalScrollIndicator={false}
       >
         {messages.length === 0 ? renderStarterButtons() : messages.map(renderMessage)}
-        {isLoading && (
+        {isLoading && !messages.some(m => m.status === 'streaming') && (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color={colors.primary} />
             <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
@@ -621,6 +705,15 @@ export default function ChatScreen() {
           <View pointerEvents="none" style={insetTopLight(colors as any, isDark, 0.08)} />
           <View pointerEvents="none" style={insetBottomDark(colors as any, isDark, 0.08)} />
         </View>
+          {isStreaming ? (
+          <TouchableOpacity
+            style={[styles.sendButton, { backgroundColor: colors.primary }]}
+            onPress={handleStopStreaming}
+            accessibilityLabel="Stop response"
+          >
+            <Square size={16} color={colors.background} fill={colors.background} />
+          </TouchableOpacity>
+          ) : (
           <TouchableOpacity
             style={[
               styles.sendButton,
@@ -638,8 +731,19 @@ export default function ChatScreen() {
             <Send size={20} color={colors.background} />
           )}
           </TouchableOpacity>
+          )}
       </View>
       </KeyboardAvoidingView>
+      {user && (
+        <ChatHistoryModal
+          visible={showHistory}
+          userId={user.id}
+          activeConversationId={chatIdRef.current}
+          onClose={() => setShowHistory(false)}
+          onOpen={handleOpenConversation}
+          onDeleted={handleConversationDeleted}
+        />
+      )}
     </View>
   );
 }
@@ -664,6 +768,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     flex: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   newChatButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -19,12 +19,8 @@ import {
   ViewStyle,
   ModalProps,
 } from "react-native";
-import * as Linking from 'expo-linking';
-import * as WebBrowser from 'expo-web-browser';
 import { LinearGradient } from "expo-linear-gradient";
 import { Crown, Shield, FileText, X, Lock, Sun, Moon, Monitor, Sparkles, Calendar, Edit3, Save } from "lucide-react-native";
-import * as ExpoCalendar from 'expo-calendar';
-import { requestCalendarPermission } from "@/app/services/appleCalendar";
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Picker } from '@react-native-picker/picker';
 import * as Haptics from "expo-haptics";
@@ -36,7 +32,27 @@ import { useSubscription } from "@/providers/SubscriptionProvider";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { supabase } from "@/lib/supabase-client";
 import { subscriptionService } from "@/services/subscriptionService";
+import { getTimeZoneSettings, setHomeTimeZone, setTimeZoneMode, TimeZoneSettings } from "@/services/timeZoneService";
 import SubscriptionManagementModal from "@/app/components/SubscriptionManagementModal";
+import AvailabilityModal from "@/app/components/AvailabilityModal";
+import CalendarFeedModal from "@/app/components/CalendarFeedModal";
+import GoogleCalendarsModal from "@/app/components/GoogleCalendarsModal";
+import CaldavModal from "@/app/components/CaldavModal";
+import IcsImportModal from "@/app/components/IcsImportModal";
+import { getAvailability } from "@/services/availabilityService";
+import { Availability, DEFAULT_AVAILABILITY, formatWindowsText } from "@/lib/ai/availability";
+import { shareCalendarExport } from "@/services/calendarExportService";
+import { GoogleReconnectRequiredError, setGoogleTaskSyncEnabled } from "@/services/googleTaskSyncService";
+import {
+  CalendarProvider,
+  CalendarProviderId,
+  getCalendarProviders,
+  googleCalendarProvider,
+  ProviderMap,
+  ProviderStatus,
+  resolveCalendarProviders,
+  setShowProviderEvents,
+} from "@/services/calendarProviders";
 
 type ModalWrapperProps = ModalProps & {
   children: ReactNode;
@@ -76,6 +92,23 @@ export default function SettingsScreen() {
   
   const [taskReminderMinutes, setTaskReminderMinutes] = useState(notificationPreferences.taskReminderMinutes);
   const [showDobPicker, setShowDobPicker] = useState<boolean>(false);
+  const [timeZoneSettings, setTimeZoneSettings] = useState<TimeZoneSettings | null>(null);
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [availabilityModalVisible, setAvailabilityModalVisible] = useState<boolean>(false);
+  const [exportingCalendar, setExportingCalendar] = useState<boolean>(false);
+  const [calendarFeedModalVisible, setCalendarFeedModalVisible] = useState<boolean>(false);
+  const [icsImportModalVisible, setIcsImportModalVisible] = useState<boolean>(false);
+  const [syncTasksToGoogle, setSyncTasksToGoogle] = useState<boolean>(false);
+  const [googleCalendarsModalVisible, setGoogleCalendarsModalVisible] = useState<boolean>(false);
+  const [caldavModalVisible, setCaldavModalVisible] = useState<boolean>(false);
+  const [providerStatus, setProviderStatus] = useState<ProviderMap<ProviderStatus>>({});
+  const [showProviderEvents, setShowProviderEventsState] = useState<ProviderMap<boolean>>({});
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getTimeZoneSettings(user.id).then(setTimeZoneSettings);
+    getAvailability(user.id).then(setAvailability);
+  }, [user?.id]);
   
   // Handle case where user is still loading or null
   if (!user) {
@@ -87,10 +120,6 @@ export default function SettingsScreen() {
   const [termsModalVisible, setTermsModalVisible] = useState<boolean>(false);
   const [changePasswordModalVisible, setChangePasswordModalVisible] = useState<boolean>(false);
   const [subscriptionModalVisible, setSubscriptionModalVisible] = useState<boolean>(false);
-  const [calendarConnected, setCalendarConnected] = useState<boolean>(false);
-  const [showGoogleEvents, setShowGoogleEvents] = useState<boolean>(false);
-  const [appleConnected, setAppleConnected] = useState<boolean>(false);
-  const [showAppleEvents, setShowAppleEvents] = useState<boolean>(false);
   const [currentPassword, setCurrentPassword] = useState<string>('');
   const [newPassword, setNewPassword] = useState<string>('');
   const [confirmPassword, setConfirmPassword] = useState<string>('');
@@ -175,31 +204,15 @@ export default function SettingsScreen() {
 
   const refreshCalendarStatus = async () => {
     try {
-      const [{ data: ca }, perm, { data: prof }] = await Promise.all([
-        supabase.from('calendar_accounts').select('id').limit(1),
-        ExpoCalendar.getCalendarPermissionsAsync(),
+      const [{ status, show }, { data: prof }] = await Promise.all([
+        resolveCalendarProviders(user.id),
         supabase.from('user_planning_profile').select('preferences').eq('user_id', user.id).maybeSingle(),
       ]);
-      const googleConnected = (ca?.length ?? 0) > 0;
-      setCalendarConnected(googleConnected);
-      const prefs = (prof as any)?.preferences || {};
-      const hasShowG = Object.prototype.hasOwnProperty.call(prefs, 'showGoogleEvents');
-      const hasShowA = Object.prototype.hasOwnProperty.call(prefs, 'showAppleEvents');
-      const effectiveShowGoogle = hasShowG ? !!prefs.showGoogleEvents : googleConnected;
-      const effectiveShowApple = hasShowA ? !!prefs.showAppleEvents : perm.status === 'granted';
-      if (!hasShowG || !hasShowA) {
-        const merged = { ...prefs };
-        if (!hasShowG) merged.showGoogleEvents = effectiveShowGoogle;
-        if (!hasShowA) merged.showAppleEvents = effectiveShowApple;
-        await supabase.from('user_planning_profile')
-          .upsert({ user_id: user.id, preferences: merged }, { onConflict: 'user_id' });
-      }
-      setShowGoogleEvents(effectiveShowGoogle);
-      setShowAppleEvents(effectiveShowApple);
-      setAppleConnected(perm.status === 'granted');
+      setProviderStatus(status);
+      setShowProviderEventsState(show);
+      setSyncTasksToGoogle(!!(prof as any)?.preferences?.syncTasksToGoogle);
     } catch (e) {
-      setCalendarConnected(false);
-      setAppleConnected(false);
+      setProviderStatus({});
     }
   };
 
@@ -207,115 +220,84 @@ export default function SettingsScreen() {
     refreshCalendarStatus();
   }, []);
 
-  const handleConnectCalendar = async () => {
+  const updateAnchorToHomeZone = async (val: boolean) => {
     try {
-      const { data: session } = await supabase.auth.getSession();
-      const jwt = session.session?.access_token;
-      const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
-      if (!supaUrl || !jwt) {
-        Alert.alert('Error', 'Missing configuration or session.');
-        return;
-      }
-      const projRef = supaUrl.replace('https://','').split('.')[0];
-      const returnUrl = Linking.createURL('/calendar-connected');
-      const startUrl = `https://${projRef}.functions.supabase.co/calendar_proxy/oauth/start?token=${encodeURIComponent(jwt)}&return_url=${encodeURIComponent(returnUrl)}`;
-      await WebBrowser.openAuthSessionAsync(startUrl, returnUrl);
-      // After closing, refresh connection state
-      await refreshCalendarStatus();
-    } catch (e:any) {
-      Alert.alert('Error', e.message || 'Failed to start calendar connection');
+      await setTimeZoneMode(user.id, val ? 'home' : 'device');
+      setTimeZoneSettings(await getTimeZoneSettings(user.id));
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update time zone preference');
     }
   };
 
-  const handleConnectAppleCalendar = async () => {
+  const handleUseDeviceAsHomeZone = async () => {
+    if (!timeZoneSettings) return;
     try {
-      const granted = await requestCalendarPermission();
-      setAppleConnected(granted);
-      if (!granted) {
-        Alert.alert('Permission required', 'Please allow Calendar access in Settings to show Apple Calendar events.');
-      } else {
-        await updateShowAppleEvents(true);
-      }
+      await setHomeTimeZone(user.id, timeZoneSettings.deviceTimeZone);
+      setTimeZoneSettings(await getTimeZoneSettings(user.id));
     } catch (e: any) {
-      Alert.alert('Error', e?.message || 'Failed to request calendar permission');
+      Alert.alert('Error', e?.message || 'Failed to update home time zone');
     }
   };
 
-  const updateShowGoogleEvents = async (val: boolean) => {
+  // e.g. "Mon 09:00–17:00 · Sat 10:00–12:00 · 1 profile"
+  const describeAvailability = (value: Availability | null) => {
+    const source = value ?? DEFAULT_AVAILABILITY;
+    const days = [1, 2, 3, 4, 5, 6, 0]
+      .filter(d => (source.weekly[d]?.length ?? 0) > 0)
+      .map(d => `${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][d]} ${formatWindowsText(source.weekly[d])}`);
+    const parts = days.length > 0 ? days : ['No weekly hours'];
+    if (source.profiles.length > 0) {
+      parts.push(`${source.profiles.length} profile${source.profiles.length === 1 ? '' : 's'}`);
+    }
+    return parts.join(' · ');
+  };
+
+  // Providers whose accounts are managed in a modal rather than by `connect` alone
+  const manageProvider: Partial<Record<CalendarProviderId, () => void>> = {
+    google: () => setGoogleCalendarsModalVisible(true),
+    caldav: () => setCaldavModalVisible(true),
+  };
+
+  const handleConnectProvider = async (provider: CalendarProvider) => {
+    if (!provider.connect) {
+      manageProvider[provider.id]?.();
+      return;
+    }
     try {
-      if (val) {
-        // Ensure connection exists
-        const { data: ca } = await supabase
-          .from('calendar_accounts')
-          .select('id')
-          .limit(1);
-        const connected = (ca?.length ?? 0) > 0;
-        if (!connected) {
-          await handleConnectCalendar();
-          const { data: ca2 } = await supabase
-            .from('calendar_accounts')
-            .select('id')
-            .limit(1);
-          const connected2 = (ca2?.length ?? 0) > 0;
-          if (!connected2) {
-            // Revert if still not connected
-            setShowGoogleEvents(false);
-            const { data } = await supabase
-              .from('user_planning_profile')
-              .select('preferences')
-              .eq('user_id', user.id)
-              .maybeSingle();
-            const newPrefs = { ...(data?.preferences || {}), showGoogleEvents: false };
-            await supabase.from('user_planning_profile')
-              .upsert({ user_id: user.id, preferences: newPrefs }, { onConflict: 'user_id' });
-            return;
-          }
-        }
+      const connected = await provider.connect(user.id);
+      if (!connected && provider.connectHint) {
+        Alert.alert('Permission required', provider.connectHint);
       }
-      setShowGoogleEvents(val);
-      const { data } = await supabase
-        .from('user_planning_profile')
-        .select('preferences')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      const newPrefs = { ...(data?.preferences || {}), showGoogleEvents: val };
-      await supabase.from('user_planning_profile')
-        .upsert({ user_id: user.id, preferences: newPrefs }, { onConflict: 'user_id' });
-    } catch {}
+      // After closing, refresh connection state
+      await refreshCalendarStatus();
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || `Failed to connect ${provider.name}`);
+    }
   };
 
-  const updateShowAppleEvents = async (val: boolean) => {
+  const updateShowProviderEvents = async (provider: CalendarProvider, val: boolean) => {
+    setShowProviderEventsState(prev => ({ ...prev, [provider.id]: val }));
     try {
-      if (val) {
-        const perm = await ExpoCalendar.getCalendarPermissionsAsync();
-        let granted = perm.status === 'granted';
-        if (!granted) {
-          granted = await requestCalendarPermission();
-        }
-        if (!granted) {
-          // Revert and persist false
-          setShowAppleEvents(false);
-          const { data } = await supabase
-            .from('user_planning_profile')
-            .select('preferences')
-            .eq('user_id', user.id)
-            .maybeSingle();
-          const newPrefs = { ...(data?.preferences || {}), showAppleEvents: false };
-          await supabase.from('user_planning_profile')
-            .upsert({ user_id: user.id, preferences: newPrefs }, { onConflict: 'user_id' });
-          return;
-        }
+      await setShowProviderEvents(user.id, provider, val);
+    } catch {
+      setShowProviderEventsState(prev => ({ ...prev, [provider.id]: !val }));
+    }
+  };
+
+  const updateSyncTasksToGoogle = async (val: boolean) => {
+    try {
+      await setGoogleTaskSyncEnabled(user.id, val);
+      setSyncTasksToGoogle(val);
+    } catch (e: any) {
+      if (e instanceof GoogleReconnectRequiredError) {
+        Alert.alert('Reconnect Google Calendar', e.message, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Reconnect', onPress: () => handleConnectProvider(googleCalendarProvider) },
+        ]);
+      } else {
+        Alert.alert('Error', e?.message || 'Failed to update Google Calendar sync');
       }
-      setShowAppleEvents(val);
-      const { data } = await supabase
-        .from('user_planning_profile')
-        .select('preferences')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      const newPrefs = { ...(data?.preferences || {}), showAppleEvents: val };
-      await supabase.from('user_planning_profile')
-        .upsert({ user_id: user.id, preferences: newPrefs }, { onConflict: 'user_id' });
-    } catch {}
+    }
   };
 
   const openAccountModal = async () => {
@@ -447,6 +429,18 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleExportCalendar = async () => {
+    if (!user?.id) return;
+    setExportingCalendar(true);
+    try {
+      await shareCalendarExport(user.id);
+    } catch (error: any) {
+      Alert.alert('Export failed', error?.message || 'Could not export your goals.');
+    } finally {
+      setExportingCalendar(false);
+    }
+  };
+
   const handlePrivacyPolicy = async () => {
     if (Platform.OS !== "web") {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -1330,73 +1324,163 @@ export default function SettingsScreen() {
           <View style={styles.settingItem}>
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Google Calendar</Text>
+                <Text style={styles.settingLabel}>Home time zone</Text>
                 <Text style={styles.settingDescription}>
-                  {calendarConnected ? 'Connected' : 'Not connected'}
+                  {timeZoneSettings ? timeZoneSettings.homeTimeZone : 'Loading...'}
                 </Text>
               </View>
-              <TouchableOpacity 
-                style={styles.actionButton} 
-                activeOpacity={0.7}
-                onPress={handleConnectCalendar}
-                testID="connect-calendar-button"
-              >
-                <Text style={styles.actionButtonText}>{calendarConnected ? 'Reconnect' : 'Connect'}</Text>
-              </TouchableOpacity>
+              {timeZoneSettings && timeZoneSettings.homeTimeZone !== timeZoneSettings.deviceTimeZone && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  activeOpacity={0.7}
+                  onPress={handleUseDeviceAsHomeZone}
+                  testID="use-device-timezone-button"
+                >
+                  <Text style={styles.actionButtonText}>Use {timeZoneSettings.deviceTimeZone}</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
           <View style={styles.settingItem}>
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Show Google events in Momentum</Text>
-                <Text style={styles.settingDescription}>Display read-only Google events on your Momentum calendar</Text>
+                <Text style={styles.settingLabel}>Keep sessions in home time zone</Text>
+                <Text style={styles.settingDescription}>When on, sessions stay at their home-zone time while you travel. When off, they follow the device time zone.</Text>
               </View>
               <Switch
-                value={showGoogleEvents}
-                onValueChange={updateShowGoogleEvents}
+                value={timeZoneSettings?.mode === 'home'}
+                onValueChange={updateAnchorToHomeZone}
                 trackColor={{ false: colors.border, true: colors.primary }}
-                thumbColor={showGoogleEvents ? 'white' : '#f4f3f4'}
-                disabled={!calendarConnected}
+                thumbColor={timeZoneSettings?.mode === 'home' ? 'white' : '#f4f3f4'}
+                disabled={!timeZoneSettings}
               />
             </View>
           </View>
-          {Platform.OS === 'ios' && (
-            <>
-              <View style={styles.settingItem}>
+          <View style={styles.settingItem}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Availability</Text>
+                <Text style={styles.settingDescription}>{describeAvailability(availability)}</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.actionButton}
+                activeOpacity={0.7}
+                onPress={() => setAvailabilityModalVisible(true)}
+                testID="edit-availability-button"
+              >
+                <Text style={styles.actionButtonText}>Edit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          {getCalendarProviders().map(provider => {
+            const connected = !!providerStatus[provider.id]?.connected;
+            const manage = manageProvider[provider.id];
+            return (
+              <View key={provider.id} style={styles.settingItem}>
                 <View style={styles.settingRow}>
                   <View style={styles.settingInfo}>
-                    <Text style={styles.settingLabel}>Apple Calendar (On-device)</Text>
-                    <Text style={styles.settingDescription}>
-                      {appleConnected ? 'Connected' : 'Not connected'}
-                    </Text>
+                    <Text style={styles.settingLabel}>{provider.name}</Text>
+                    <Text style={styles.settingDescription}>{providerStatus[provider.id]?.summary ?? 'Not connected'}</Text>
                   </View>
-                  <TouchableOpacity 
-                    style={styles.actionButton} 
+                  <TouchableOpacity
+                    style={styles.actionButton}
                     activeOpacity={0.7}
-                    onPress={handleConnectAppleCalendar}
-                    testID="connect-apple-calendar-button"
+                    onPress={connected && manage ? manage : () => handleConnectProvider(provider)}
+                    testID={`connect-${provider.id}-calendar-button`}
                   >
-                    <Text style={styles.actionButtonText}>{appleConnected ? 'Reconnect' : 'Connect'}</Text>
+                    <Text style={styles.actionButtonText}>{connected ? (manage ? 'Manage' : 'Reconnect') : 'Connect'}</Text>
                   </TouchableOpacity>
                 </View>
               </View>
-              <View style={[styles.settingItem, styles.settingItemLast]}>
-                <View style={styles.settingRow}>
-                  <View style={styles.settingInfo}>
-                    <Text style={styles.settingLabel}>Show Apple events (Experimental)</Text>
-                    <Text style={styles.settingDescription}>Display read-only Apple on-device events on your Momentum calendar. Experimental: may not work on all devices.</Text>
-                  </View>
-                  <Switch
-                    value={showAppleEvents}
-                    onValueChange={updateShowAppleEvents}
-                    trackColor={{ false: colors.border, true: colors.primary }}
-                    thumbColor={showAppleEvents ? 'white' : '#f4f3f4'}
-                    disabled={!appleConnected}
-                  />
+            );
+          })}
+          <View style={styles.settingItem}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Calendar feed</Text>
+                <Text style={styles.settingDescription}>Subscribe from Apple, Google or Outlook calendar with a private link that stays up to date</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.actionButton}
+                activeOpacity={0.7}
+                onPress={() => setCalendarFeedModalVisible(true)}
+                testID="manage-calendar-feeds-button"
+              >
+                <Text style={styles.actionButtonText}>Manage</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          {getCalendarProviders().map(provider => (
+            <View key={provider.id} style={styles.settingItem}>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Show {provider.name} events{provider.experimental ? ' (Experimental)' : ''}</Text>
+                  <Text style={styles.settingDescription}>
+                    Display read-only {provider.name} events on your Momentum calendar.{provider.experimental ? ' Experimental: may not work on all devices.' : ''}
+                  </Text>
                 </View>
+                <Switch
+                  value={!!showProviderEvents[provider.id]}
+                  onValueChange={(val) => updateShowProviderEvents(provider, val)}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor={showProviderEvents[provider.id] ? 'white' : '#f4f3f4'}
+                  disabled={!providerStatus[provider.id]?.connected}
+                />
               </View>
-            </>
-          )}
+            </View>
+          ))}
+          <View style={styles.settingItem}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Add tasks to Google Calendar</Text>
+                <Text style={styles.settingDescription}>Keep your tasks in a Momentum calendar in Google. Moving an event there moves the task.</Text>
+              </View>
+              <Switch
+                value={syncTasksToGoogle}
+                onValueChange={updateSyncTasksToGoogle}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={syncTasksToGoogle ? 'white' : '#f4f3f4'}
+                disabled={!providerStatus.google?.connected}
+              />
+            </View>
+          </View>
+          <View style={styles.settingItem}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Export to calendar (.ics)</Text>
+                <Text style={styles.settingDescription}>Share all goals and tasks as an iCalendar file. Importing it again updates the same events.</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.actionButton}
+                activeOpacity={0.7}
+                onPress={handleExportCalendar}
+                disabled={exportingCalendar}
+                testID="export-calendar-button"
+              >
+                {exportingCalendar ? (
+                  <ActivityIndicator size="small" color={colors.text} />
+                ) : (
+                  <Text style={styles.actionButtonText}>Export</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+          <View style={[styles.settingItem, styles.settingItemLast]}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Import from calendar (.ics)</Text>
+                <Text style={styles.settingDescription}>Turn a syllabus, training program or exported calendar into tasks of a goal</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.actionButton}
+                activeOpacity={0.7}
+                onPress={() => setIcsImportModalVisible(true)}
+                testID="import-calendar-button"
+              >
+                <Text style={styles.actionButtonText}>Import</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
         </View>
 
         <View style={styles.section}>
@@ -2073,6 +2157,40 @@ export default function SettingsScreen() {
         visible={subscriptionModalVisible}
         onClose={() => setSubscriptionModalVisible(false)}
       />
+
+      <AvailabilityModal
+        visible={availabilityModalVisible}
+        userId={user.id}
+        availability={availability}
+        onClose={() => setAvailabilityModalVisible(false)}
+        onSaved={setAvailability}
+      />
+
+      <GoogleCalendarsModal
+        visible={googleCalendarsModalVisible}
+        userId={user.id}
+        onClose={() => setGoogleCalendarsModalVisible(false)}
+        onConnect={() => handleConnectProvider(googleCalendarProvider)}
+        onAccountsChanged={refreshCalendarStatus}
+      />
+
+      <CaldavModal
+        visible={caldavModalVisible}
+        onClose={() => setCaldavModalVisible(false)}
+        onAccountsChanged={refreshCalendarStatus}
+      />
+
+      <CalendarFeedModal
+        visible={calendarFeedModalVisible}
+        userId={user.id}
+        onClose={() => setCalendarFeedModalVisible(false)}
+      />
+
+      <IcsImportModal
+        visible={icsImportModalVisible}
+        userId={user.id}
+        onClose={() => setIcsImportModalVisible(false)}
+      />
     </View>
   );
 }
\ No newline at end of file
@@ -20,12 +20,18 @@ import { useUser } from '../../providers/UserProvider';
 import { useSubscription } from '../../providers/SubscriptionProvider';
 import { useNotifications } from '../../providers/NotificationProvider';
 import { aiService } from '../../lib/ai-service';
+import { DraftPlanZ } from '../../lib/ai/planSchema';
+import { formatIssues, StructuredFailure, StructuredOutputError } from '../../lib/ai/structuredOutput';
 import { ensureUserProfile } from '../../services/goalPlanning';
 import { notificationService } from '../../services/notifications';
 import { supabase } from '../../lib/supabase-client';
 import { featureGate, Feature } from '../../services/featureGate';
+import { anchorTimeZone, getTimeZoneSettings } from '../../services/timeZoneService';
+import { getAvailability } from '../../services/availabilityService';
 import { shadowSm, shadowMd, insetTopLight, insetBottomDark } from '@/ui/depth';
-import { getEventsInRange } from '@/app/services/appleCalendar';
+import { SchedulePlan } from '@/services/schedulePreviewService';
+import { confirmWorkload, getNewGoalWarnings } from '@/services/workloadService';
+import SchedulePreviewModal from './SchedulePreviewModal';
 
 interface Message {
   id: string;
@@ -40,6 +46,22 @@ interface AIGoalCreationModalProps {
   onGoalCreated: (goal: any) => void;
 }
 
+// Issues shown under a failed plan; the rest are in the logs
+const MAX_SHOWN_ISSUES = 3;
+
+function planFailureMessage(failure: StructuredFailure): string {
+  if (failure.kind === 'provider') {
+    return `Sorry, the AI service is unavailable right now (${failure.message}). Please try again in a moment.`;
+  }
+  const tries = failure.attempts === 1 ? '1 try' : `${failure.attempts} tries`;
+  const issues = failure.issues.slice(0, MAX_SHOWN_ISSUES).map(issue => `• ${issue}`);
+  return [
+    `Sorry, I could not put together a valid plan after ${tries}. What came back had these problems:`,
+    ...issues,
+    'Try again, or add more detail about the goal and your schedule.',
+  ].join('\n');
+}
+
 export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }: AIGoalCreationModalProps) {
   const { colors, isDark } = useTheme();
   const { user } = useAuth();
@@ -55,6 +77,8 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
   const [isCreating, setIsCreating] = useState(false);
   const [conversationComplete, setConversationComplete] = useState(false);
   const [isPremiumRequired, setIsPremiumRequired] = useState(false);
+  const [previewPlan, setPreviewPlan] = useState<SchedulePlan | null>(null);
+  const chatIdRef = useRef<string | undefined>(undefined);
 
   useEffect(() => {
     if (visible) {
@@ -79,6 +103,7 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
     setIsCreating(false);
     setConversationComplete(false);
     setIsPremiumRequired(false);
+    chatIdRef.current = undefined;
   };
   
   const checkPremiumAccess = async () => {
@@ -153,7 +178,8 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
         weightKg: userProfile?.weightKg ?? null,
         unitSystem: userProfile?.unitSystem ?? null,
         dateOfBirth: userProfile?.dateOfBirth ?? null,
-      });
+      }, chatIdRef.current);
+      chatIdRef.current = response.chatId;
       
       if (response.success && response.message) {
         addMessage('assistant', response.message);
@@ -176,6 +202,33 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
     }
   };
 
+  const finishGoalCreation = (goal: any, taskCount: number, goalId: any) => {
+    // Notifications are scheduled by the centralized scheduler based on user preferences and due times
+
+    addMessage('assistant', `🎉 **Goal Created Successfully!**\n\nYour goal "${goal.title}" has been created with ${taskCount} scheduled tasks. You can now track your progress and follow your personalized plan!\n\n✅ Goal added to your goals list\n✅ Tasks scheduled on your calendar\n✅ Notifications set up for reminders\n\nGood luck on your journey! 🚀`);
+
+    // Call the callback to refresh the goals list
+    if (onGoalCreated) {
+      onGoalCreated({ id: goalId, ...goal });
+    }
+
+    // Close the modal after a short delay
+    setTimeout(() => {
+      onClose();
+    }, 3000);
+  };
+
+  const handlePreviewCommitted = (goalId: string) => {
+    const plan = previewPlan;
+    setPreviewPlan(null);
+    if (plan) finishGoalCreation(plan.goal, plan.tasks.length, goalId);
+  };
+
+  const handlePreviewClosed = () => {
+    setPreviewPlan(null);
+    addMessage('assistant', 'Your plan was not saved. Let me know if you want to change anything, or ask me to create it again.');
+  };
+
   const handleGoalCreation = async (conversationHistory: Array<{role: string, content: string}>) => {
     if (!user) {
       addMessage('assistant', 'Please make sure you\'re logged in to create a goal.');
@@ -189,52 +242,50 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
       // Ensure user profile exists
       await ensureUserProfile(supabase, user.id);
 
-      // Try new planner_v2 pipeline behind SMART_SCHEDULING feature flag; fallback to legacy
+      // Home-anchored vs device-floating session times (user setting) and availability windows
+      const [zone, availability] = await Promise.all([getTimeZoneSettings(user.id), getAvailability(user.id)]);
+
+      // planner_v2 behind the SMART_SCHEDULING feature flag; the legacy planner only
+      // when planner_v2 cannot be reached or is not deployed
       let planResponse: any = null;
-      try {
-        const access = await featureGate.canAccessFeature(Feature.SMART_SCHEDULING, user.id);
-        if (access.hasAccess) {
-          const supaUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-          const projectRef = supaUrl.replace('https://','').split('.')[0];
-          const base = `https://${projectRef}.functions.supabase.co`;
-          const session = await supabase.auth.getSession();
-          const jwt = session.data.session?.access_token;
-          if (!jwt) throw new Error('No session');
-
-          // Planner call
-          const chatSummary = conversationHistory.slice(-10).map(m => `${m.role}: ${m.content}`).join('\n');
-          const plannerRes = await fetch(`${base}/planner_v2`, {
+      const access = await featureGate.canAccessFeature(Feature.SMART_SCHEDULING, user.id);
+      if (access.hasAccess) {
+        const supaUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+        const projectRef = supaUrl.replace('https://','').split('.')[0];
+        const base = `https://${projectRef}.functions.supabase.co`;
+        const session = await supabase.auth.getSession();
+        const jwt = session.data.session?.access_token;
+        if (!jwt) throw new Error('No session');
+
+        // Planner call
+        const chatSummary = conversationHistory.slice(-10).map(m => `${m.role}: ${m.content}`).join('\n');
+        let plannerRes: Response | null = null;
+        try {
+          plannerRes = await fetch(`${base}/planner_v2`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${jwt}` },
             body: JSON.stringify({ intent: conversationHistory[conversationHistory.length - 1]?.content || 'Create a personalized plan', constraints: {}, chatSummary }),
           });
-          if (!plannerRes.ok) throw new Error(`planner_v2 ${plannerRes.status}`);
-          const { plan } = await plannerRes.json();
-
-          // Scheduler commit
-          // Collect on-device Apple busy windows (iOS) for the 42-day horizon
-          const now = new Date();
-          const horizonEnd = new Date(now.getTime() + 42 * 24 * 3600 * 1000);
-          let extraBusy: Array<{ start: string; end: string }> = [];
-          if (Platform.OS === 'ios') {
-            try {
-              const appleEvents = await getEventsInRange({ start: now, end: horizonEnd });
-              extraBusy = appleEvents
-                .filter(e => !e.allDay)
-                .map(e => ({ start: e.start, end: e.end }));
-            } catch (_) {}
-          }
-          const schedRes = await fetch(`${base}/schedule_v1`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${jwt}` },
-            body: JSON.stringify({ plan, commit: true, extraBusy }),
-          });
-          if (!schedRes.ok) throw new Error(`schedule_v1 ${schedRes.status}`);
-          const schedJson = await schedRes.json();
-          planResponse = { success: true, goal: plan.goal, tasks: plan.tasks, goalId: schedJson.goalId };
+        } catch (e) {
+          console.warn('planner_v2 unreachable, using the legacy planner:', e);
+        }
+
+        if (plannerRes && plannerRes.status !== 404) {
+          const body = await plannerRes.json().catch(() => null);
+          // 422/502: the model never produced a valid plan; tell the user instead of planning another way
+          if (body?.failure) throw new StructuredOutputError(body.failure);
+          if (!plannerRes.ok) throw new Error(body?.error || `planner_v2 ${plannerRes.status}`);
+          // planner_v2 already checked the plan; a mismatch here means the two schemas drifted
+          const parsed = DraftPlanZ.safeParse(body?.plan);
+          if (!parsed.success) throw new Error(`planner_v2 plan: ${formatIssues(parsed.error.issues).join('; ')}`);
+          const plan = parsed.data;
+
+          // Nothing is saved yet: SchedulePreviewModal places the plan with schedule_v1,
+          // lets the user adjust it and commits it
+          addMessage('assistant', 'Here is how your plan fits into your calendar. Drag sessions or change the days and session length, then add it to your calendar.');
+          setPreviewPlan(plan);
+          return;
         }
-      } catch (e) {
-        // ignore and fallback
       }
 
       if (!planResponse) {
@@ -246,6 +297,8 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
           weightKg: userProfile?.weightKg ?? null,
           unitSystem: userProfile?.unitSystem ?? null,
           dateOfBirth: userProfile?.dateOfBirth ?? null,
+          timeZone: anchorTimeZone(zone),
+          availability,
         });
       }
       
@@ -255,37 +308,46 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
         // If new pipeline already committed, skip DB RPC
         let newGoalId: any = planResponse.goalId;
         if (!newGoalId) {
-          const { data: goal_id, error: rpcError } = await supabase.rpc('create_goal_with_tasks', {
-            p_user_id: user.id,
-            p_goal: planResponse.goal,
-            p_tasks: planResponse.tasks
-          });
+          // Warn before adding more than the calendar has room for
+          const warnings = await getNewGoalWarnings(
+            user.id,
+            { title: planResponse.goal.title, targetDate: planResponse.goal.target_date },
+            planResponse
+          );
+          if (!(await confirmWorkload(warnings))) {
+            addMessage('assistant', 'Okay, I did not create the goal. Tell me what to change, for example fewer days per week or a later target date.');
+            return;
+          }
+
+          // Recurring sessions are stored as RRULEs; fall back to one row per task when none were built
+          const { data: goal_id, error: rpcError } = planResponse.rules && planResponse.rules.length > 0
+            ? await supabase.rpc('create_goal_with_rules', {
+                p_user_id: user.id,
+                p_goal: planResponse.goal,
+                p_rules: planResponse.rules
+              })
+            : await supabase.rpc('create_goal_with_tasks', {
+                p_user_id: user.id,
+                p_goal: planResponse.goal,
+                p_tasks: planResponse.tasks
+              });
           if (rpcError) {
             throw new Error(`Failed to create goal: ${rpcError.message}`);
           }
           newGoalId = goal_id;
         }
 
-        // Notifications are scheduled by the centralized scheduler based on user preferences and due times
-
-        addMessage('assistant', `🎉 **Goal Created Successfully!**\n\nYour goal "${planResponse.goal.title}" has been created with ${planResponse.tasks.length} scheduled tasks. You can now track your progress and follow your personalized plan!\n\n✅ Goal added to your goals list\n✅ Tasks scheduled on your calendar\n✅ Notifications set up for reminders\n\nGood luck on your journey! 🚀`);
-
-        // Call the callback to refresh the goals list
-        if (onGoalCreated) {
-          onGoalCreated({ id: newGoalId, ...planResponse.goal });
-        }
-
-        // Close the modal after a short delay
-        setTimeout(() => {
-          onClose();
-        }, 3000);
-
+        finishGoalCreation(planResponse.goal, planResponse.tasks.length, newGoalId);
+      } else if (planResponse.failure) {
+        throw new StructuredOutputError(planResponse.failure);
       } else {
         throw new Error(planResponse.error || 'Failed to create goal plan');
       }
     } catch (error) {
       console.error('Error creating goal:', error);
-      addMessage('assistant', `Sorry, I encountered an error while creating your goal: ${error.message}. Please try again.`);
+      addMessage('assistant', error instanceof StructuredOutputError
+        ? planFailureMessage(error.failure)
+        : `Sorry, I encountered an error while creating your goal: ${error.message}. Please try again.`);
     } finally {
       setIsCreating(false);
     }
@@ -458,6 +520,12 @@ export default function AIGoalCreationModal({ visible, onClose, onGoalCreated }:
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+      <SchedulePreviewModal
+        visible={!!previewPlan}
+        plan={previewPlan}
+        onClose={handlePreviewClosed}
+        onCommitted={handlePreviewCommitted}
+      />
     </Modal>
   );
 }
@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Save, Plus, Trash2 } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import {
+  Availability,
+  DEFAULT_AVAILABILITY,
+  formatWindowsText,
+  parseWindowsText,
+  WeeklyWindows,
+} from '../../lib/ai/availability';
+import { DAY_NAMES_FULL } from '../../lib/ai/dayParser';
+import { saveAvailability } from '../../services/availabilityService';
+
+interface AvailabilityModalProps {
+  visible: boolean;
+  userId: string;
+  availability: Availability | null;
+  onClose: () => void;
+  onSaved: (availability: Availability) => void;
+}
+
+// Monday first, the way people think about their week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type WeeklyText = Record<number, string>;
+
+interface ProfileDraft {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  weekly: WeeklyText;
+}
+
+function toWeeklyText(weekly: WeeklyWindows): WeeklyText {
+  return Object.fromEntries(WEEKDAY_ORDER.map(d => [d, formatWindowsText(weekly[d])]));
+}
+
+/** Parsed windows, or the first weekday whose text is not a valid list of windows. */
+function parseWeeklyText(text: WeeklyText): { weekly: WeeklyWindows } | { invalidDay: number } {
+  const weekly: WeeklyWindows = {};
+  for (const day of WEEKDAY_ORDER) {
+    const windows = parseWindowsText(text[day] || '');
+    if (!windows) return { invalidDay: day };
+    if (windows.length > 0) weekly[day] = windows;
+  }
+  return { weekly };
+}
+
+export default function AvailabilityModal({ visible, userId, availability, onClose, onSaved }: AvailabilityModalProps) {
+  const { colors } = useTheme();
+  const [weeklyText, setWeeklyText] = useState<WeeklyText>({});
+  const [profiles, setProfiles] = useState<ProfileDraft[]>([]);
+  const [peakText, setPeakText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const source = availability ?? DEFAULT_AVAILABILITY;
+    setWeeklyText(toWeeklyText(source.weekly));
+    setProfiles(source.profiles.map(p => ({ ...p, weekly: toWeeklyText(p.weekly) })));
+    setPeakText(formatWindowsText(source.peak));
+  }, [visible, availability]);
+
+  const updateProfile = (id: string, changes: Partial<ProfileDraft>) => {
+    setProfiles(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const addProfile = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    setProfiles(prev => [
+      ...prev,
+      { id: `profile-${Date.now()}`, name: '', startDate: today, endDate: today, weekly: toWeeklyText({}) },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const weekly = parseWeeklyText(weeklyText);
+    if ('invalidDay' in weekly) {
+      Alert.alert('Invalid hours', `Check ${DAY_NAMES_FULL[weekly.invalidDay]}. Use times like 06:00-07:30, 18:00-21:00.`);
+      return;
+    }
+
+    const peak = parseWindowsText(peakText);
+    if (!peak) {
+      Alert.alert('Invalid hours', 'Check your peak energy hours. Use times like 08:00-11:00.');
+      return;
+    }
+
+    const parsedProfiles = [];
+    for (const profile of profiles) {
+      const name = profile.name.trim() || 'Untitled profile';
+      if (!DATE_RE.test(profile.startDate) || !DATE_RE.test(profile.endDate) || profile.startDate > profile.endDate) {
+        Alert.alert('Invalid dates', `"${name}" needs a start and end date (YYYY-MM-DD), with the start first.`);
+        return;
+      }
+      const profileWeekly = parseWeeklyText(profile.weekly);
+      if ('invalidDay' in profileWeekly) {
+        Alert.alert('Invalid hours', `Check ${DAY_NAMES_FULL[profileWeekly.invalidDay]} in "${name}".`);
+        return;
+      }
+      parsedProfiles.push({ id: profile.id, name, startDate: profile.startDate, endDate: profile.endDate, weekly: profileWeekly.weekly });
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveAvailability(userId, { weekly: weekly.weekly, profiles: parsedProfiles, peak });
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to save availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderWeek = (text: WeeklyText, onChange: (day: number, value: string) => void) => (
+    WEEKDAY_ORDER.map(day => (
+      <View key={day} style={styles.dayRow}>
+        <Text style={[styles.dayLabel, { color: colors.text }]}>{DAY_NAMES_FULL[day].slice(0, 3)}</Text>
+        <TextInput
+          style={[styles.input, styles.dayInput, { backgroundColor: colors.card, color: colors.text }]}
+          value={text[day] ?? ''}
+          onChangeText={value => onChange(day, value)}
+          placeholder="Unavailable"
+          placeholderTextColor={colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+    ))
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Availability</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={[styles.saveButton, { backgroundColor: colors.primary }]}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.background} />
+            ) : (
+              <Save size={20} color={colors.background} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Weekly hours</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              One or more windows per day, e.g. 06:00-07:30, 18:00-21:00. Leave a day empty when you are not available.
+            </Text>
+            {renderWeek(weeklyText, (day, value) => setWeeklyText(prev => ({ ...prev, [day]: value })))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Peak energy hours</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              When you focus best, e.g. 08:00-11:00. Demanding tasks are scheduled here and light ones outside it.
+            </Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={peakText}
+              onChangeText={setPeakText}
+              placeholder="Not set"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Profiles</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Named date ranges such as Vacation or Exam week. They replace your weekly hours on those dates.
+            </Text>
+            {profiles.map(profile => (
+              <View key={profile.id} style={[styles.profileCard, { borderColor: colors.border }]}>
+                <View style={styles.profileHeader}>
+                  <TextInput
+                    style={[styles.input, styles.profileName, { backgroundColor: colors.card, color: colors.text }]}
+                    value={profile.name}
+                    onChangeText={name => updateProfile(profile.id, { name })}
+                    placeholder="Profile name"
+                    placeholderTextColor={colors.textSecondary}
+                  />
+                  <TouchableOpacity
+                    onPress={() => setProfiles(prev => prev.filter(p => p.id !== profile.id))}
+                    style={styles.removeButton}
+                  >
+                    <Trash2 size={20} color={colors.danger} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.dateRow}>
+                  <TextInput
+                    style={[styles.input, styles.dateInput, { backgroundColor: colors.card, color: colors.text }]}
+                    value={profile.startDate}
+                    onChangeText={startDate => updateProfile(profile.id, { startDate })}
+                    placeholder="Start (YYYY-MM-DD)"
+                    placeholderTextColor={colors.textSecondary}
+                    autoCapitalize="none"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.dateInput, { backgroundColor: colors.card, color: colors.text }]}
+                    value={profile.endDate}
+                    onChangeText={endDate => updateProfile(profile.id, { endDate })}
+                    placeholder="End (YYYY-MM-DD)"
+                    placeholderTextColor={colors.textSecondary}
+                    autoCapitalize="none"
+                  />
+                </View>
+                {renderWeek(profile.weekly, (day, value) => updateProfile(profile.id, { weekly: { ...profile.weekly, [day]: value } }))}
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.addButton, { borderColor: colors.primary }]}
+              onPress={addProfile}
+              activeOpacity={0.7}
+            >
+              <Plus size={18} color={colors.primary} />
+              <Text style={[styles.addButtonText, { color: colors.primary }]}>Add profile</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  saveButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 0,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dayLabel: {
+    width: 48,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  dayInput: {
+    flex: 1,
+  },
+  profileCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  profileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  profileName: {
+    flex: 1,
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
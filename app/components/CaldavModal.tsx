@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Plus, Trash2 } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import {
+  CALDAV_SERVER_HINTS,
+  CaldavAccount,
+  connectCaldavAccount,
+  listCaldavAccounts,
+  removeCaldavAccount,
+} from '../../services/caldavService';
+
+interface CaldavModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAccountsChanged: (accounts: CaldavAccount[]) => void;
+}
+
+export default function CaldavModal({ visible, onClose, onAccountsChanged }: CaldavModalProps) {
+  const { colors } = useTheme();
+  const [accounts, setAccounts] = useState<CaldavAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [connecting, setConnecting] = useState(false);
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const updateAccounts = useCallback((next: CaldavAccount[]) => {
+    setAccounts(next);
+    onAccountsChanged(next);
+  }, [onAccountsChanged]);
+
+  const loadAccounts = useCallback(async () => {
+    setLoading(true);
+    try {
+      updateAccounts(await listCaldavAccounts());
+    } catch {
+      setAccounts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [updateAccounts]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setServerUrl('');
+    setUsername('');
+    setPassword('');
+    loadAccounts();
+  }, [visible, loadAccounts]);
+
+  const handleConnect = async () => {
+    setConnecting(true);
+    try {
+      const account = await connectCaldavAccount(serverUrl, username, password);
+      updateAccounts([...accounts.filter(a => a.id !== account.id), account]);
+      setServerUrl('');
+      setUsername('');
+      setPassword('');
+    } catch (error: any) {
+      Alert.alert('Could not connect', error?.message || 'Failed to connect the CalDAV account');
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleRemove = (account: CaldavAccount) => {
+    Alert.alert(
+      'Remove account',
+      `Momentum will stop reading calendars of ${account.username}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeCaldavAccount(account.id);
+              updateAccounts(accounts.filter(a => a.id !== account.id));
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const canConnect = !!serverUrl.trim() && !!username.trim() && !!password && !connecting;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>CalDAV calendars</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Connected</Text>
+            {loading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : accounts.length === 0 ? (
+              <Text style={[styles.helpText, { color: colors.textSecondary }]}>No CalDAV accounts yet.</Text>
+            ) : (
+              accounts.map(account => (
+                <View key={account.id} style={[styles.accountCard, { borderColor: colors.border }]}>
+                  <View style={styles.accountHeader}>
+                    <View style={styles.accountInfo}>
+                      <Text style={[styles.accountName, { color: colors.text }]} numberOfLines={1}>{account.username}</Text>
+                      <Text style={[styles.accountMeta, { color: colors.textSecondary }]} numberOfLines={1}>{account.server_url}</Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleRemove(account)} style={styles.closeButton}>
+                      <Trash2 size={18} color={colors.danger} />
+                    </TouchableOpacity>
+                  </View>
+                  {account.calendars.map(calendar => (
+                    <View key={calendar.url} style={styles.calendarRow}>
+                      <View style={[styles.colorDot, { backgroundColor: calendar.color || colors.primary }]} />
+                      <Text style={[styles.calendarName, { color: colors.text }]} numberOfLines={1}>{calendar.name}</Text>
+                    </View>
+                  ))}
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Add account</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Busy times from these calendars are kept free when Momentum schedules tasks. Use an app-specific password where your provider offers one (required for iCloud and Fastmail).
+            </Text>
+            <View style={styles.chips}>
+              {CALDAV_SERVER_HINTS.map(hint => (
+                <TouchableOpacity
+                  key={hint.name}
+                  style={[styles.chip, { borderColor: colors.primary }]}
+                  onPress={() => setServerUrl(hint.url)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>{hint.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={serverUrl}
+              onChangeText={setServerUrl}
+              placeholder="Server address (https://…)"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={username}
+              onChangeText={setUsername}
+              placeholder="Username or email"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <TouchableOpacity
+              style={[styles.addButton, { borderColor: canConnect ? colors.primary : colors.border }]}
+              onPress={handleConnect}
+              disabled={!canConnect}
+              activeOpacity={0.7}
+            >
+              {connecting ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <>
+                  <Plus size={18} color={canConnect ? colors.primary : colors.textSecondary} />
+                  <Text style={[styles.addButtonText, { color: canConnect ? colors.primary : colors.textSecondary }]}>Connect</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 0,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  accountCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  accountHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  accountMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  calendarName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  Linking,
+  Share,
+} from 'react-native';
+import { X, Plus, Trash2, Link2, CalendarPlus } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import { useGoals } from '../../providers/GoalsProvider';
+import {
+  CalendarFeedToken,
+  createCalendarFeed,
+  feedHttpsUrl,
+  feedWebcalUrl,
+  listCalendarFeeds,
+  revokeCalendarFeed,
+} from '../../services/calendarFeedService';
+
+interface CalendarFeedModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+export default function CalendarFeedModal({ visible, userId, onClose }: CalendarFeedModalProps) {
+  const { colors } = useTheme();
+  const { goals } = useGoals();
+  const [feeds, setFeeds] = useState<CalendarFeedToken[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>([]);
+
+  const loadFeeds = useCallback(async () => {
+    setLoading(true);
+    try {
+      setFeeds(await listCalendarFeeds(userId));
+    } catch {
+      setFeeds([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName('');
+    setSelectedGoalIds([]);
+    loadFeeds();
+  }, [visible, loadFeeds]);
+
+  const toggleGoal = (goalId: string) => {
+    setSelectedGoalIds(prev => (prev.includes(goalId) ? prev.filter(id => id !== goalId) : [...prev, goalId]));
+  };
+
+  const describeGoals = (goalIds: string[] | null) => {
+    if (!goalIds || goalIds.length === 0) return 'All goals';
+    const titles = goalIds.map(id => goals.find(g => g.id === id)?.title).filter(Boolean);
+    return titles.length > 0 ? titles.join(', ') : `${goalIds.length} goals`;
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const feed = await createCalendarFeed(userId, name, selectedGoalIds);
+      setFeeds(prev => [feed, ...prev]);
+      setName('');
+      setSelectedGoalIds([]);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to create calendar feed');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSubscribe = async (feed: CalendarFeedToken) => {
+    const url = feedWebcalUrl(feed.token);
+    if (!url) {
+      Alert.alert('Error', 'Missing configuration.');
+      return;
+    }
+    try {
+      await Linking.openURL(url);
+    } catch {
+      Alert.alert('No calendar app', 'Share the link instead and add it as a subscribed calendar.');
+    }
+  };
+
+  const handleShare = async (feed: CalendarFeedToken) => {
+    const url = feedHttpsUrl(feed.token);
+    if (!url) {
+      Alert.alert('Error', 'Missing configuration.');
+      return;
+    }
+    await Share.share({ title: feed.name, message: url });
+  };
+
+  const handleRevoke = (feed: CalendarFeedToken) => {
+    Alert.alert(
+      'Revoke feed',
+      `Calendars subscribed to "${feed.name}" will stop updating. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeCalendarFeed(feed.id);
+              setFeeds(prev => prev.filter(f => f.id !== feed.id));
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to revoke calendar feed');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Calendar feeds</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>New feed</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              A private link any calendar app can subscribe to. It shows your upcoming tasks and stays current. Pick goals to limit it, or none for all goals.
+            </Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="Feed name (e.g. Fitness)"
+              placeholderTextColor={colors.textSecondary}
+            />
+            <View style={styles.chips}>
+              {goals.map(goal => {
+                const selected = selectedGoalIds.includes(goal.id);
+                return (
+                  <TouchableOpacity
+                    key={goal.id}
+                    style={[
+                      styles.chip,
+                      { borderColor: goal.color || colors.primary },
+                      selected && { backgroundColor: goal.color || colors.primary },
+                    ]}
+                    onPress={() => toggleGoal(goal.id)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? 'white' : colors.text }]} numberOfLines={1}>
+                      {goal.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.addButton, { borderColor: colors.primary }]}
+              onPress={handleCreate}
+              disabled={creating}
+              activeOpacity={0.7}
+            >
+              {creating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <>
+                  <Plus size={18} color={colors.primary} />
+                  <Text style={[styles.addButtonText, { color: colors.primary }]}>Create feed</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Active feeds</Text>
+            {loading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : feeds.length === 0 ? (
+              <Text style={[styles.helpText, { color: colors.textSecondary }]}>No feeds yet.</Text>
+            ) : (
+              feeds.map(feed => (
+                <View key={feed.id} style={[styles.feedCard, { borderColor: colors.border }]}>
+                  <Text style={[styles.feedName, { color: colors.text }]}>{feed.name}</Text>
+                  <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+                    {describeGoals(feed.goal_ids)}
+                    {feed.last_accessed_at ? ` · last synced ${new Date(feed.last_accessed_at).toLocaleDateString()}` : ' · never synced'}
+                  </Text>
+                  <View style={styles.feedActions}>
+                    <TouchableOpacity style={styles.feedAction} onPress={() => handleSubscribe(feed)}>
+                      <CalendarPlus size={18} color={colors.primary} />
+                      <Text style={[styles.feedActionText, { color: colors.primary }]}>Subscribe</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.feedAction} onPress={() => handleShare(feed)}>
+                      <Link2 size={18} color={colors.primary} />
+                      <Text style={[styles.feedActionText, { color: colors.primary }]}>Share link</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.feedAction} onPress={() => handleRevoke(feed)}>
+                      <Trash2 size={18} color={colors.danger} />
+                      <Text style={[styles.feedActionText, { color: colors.danger }]}>Revoke</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 0,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  feedCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  feedName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  feedActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  feedAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  feedActionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
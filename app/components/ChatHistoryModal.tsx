@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Search, Trash2 } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import {
+  Conversation,
+  deleteConversation,
+  listConversations,
+  searchConversations,
+} from '../../services/chatHistoryService';
+
+interface ChatHistoryModalProps {
+  visible: boolean;
+  userId: string;
+  activeConversationId?: string;
+  onClose: () => void;
+  onOpen: (conversation: Conversation) => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+function formatWhen(iso: string): string {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export default function ChatHistoryModal({ visible, userId, activeConversationId, onClose, onOpen, onDeleted }: ChatHistoryModalProps) {
+  const { colors } = useTheme();
+  const [query, setQuery] = useState('');
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async (text: string) => {
+    setLoading(true);
+    try {
+      setConversations(text.trim() ? await searchConversations(text) : await listConversations(userId));
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to load chat history');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setTimeout(() => load(query), query ? SEARCH_DELAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [visible, query, load]);
+
+  const handleDelete = (conversation: Conversation) => {
+    Alert.alert(
+      'Delete chat',
+      `"${conversation.title}" and its messages will be deleted. It still counts towards this week's chats.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteConversation(conversation.id);
+              setConversations(prev => prev.filter(c => c.id !== conversation.id));
+              onDeleted(conversation.id);
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to delete chat');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Search snippets mark hits with **; show them bold
+  const renderSnippet = (snippet: string) =>
+    snippet.split(/(\*\*[^*]+\*\*)/g).map((part, idx) =>
+      /^\*\*[^*]+\*\*$/.test(part)
+        ? <Text key={idx} style={{ fontWeight: '700', color: colors.text }}>{part.slice(2, -2)}</Text>
+        : <React.Fragment key={idx}>{part}</React.Fragment>
+    );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Chat History</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={[styles.searchBox, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Search size={18} color={colors.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search your chats"
+            placeholderTextColor={colors.textSecondary}
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {loading && conversations.length === 0 ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : conversations.length === 0 ? (
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              {query.trim() ? 'No chats match your search.' : 'No past chats yet.'}
+            </Text>
+          ) : (
+            conversations.map(conversation => (
+              <View key={conversation.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+                <TouchableOpacity
+                  style={styles.rowBody}
+                  onPress={() => onOpen(conversation)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.rowHeader}>
+                    <Text
+                      style={[styles.rowTitle, { color: conversation.id === activeConversationId ? colors.primary : colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {conversation.title}
+                    </Text>
+                    <Text style={[styles.rowWhen, { color: colors.textSecondary }]}>
+                      {formatWhen(conversation.last_message_at)}
+                    </Text>
+                  </View>
+                  {conversation.snippet ? (
+                    <Text style={[styles.snippet, { color: colors.textSecondary }]} numberOfLines={2}>
+                      {renderSnippet(conversation.snippet)}
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDelete(conversation)} style={styles.closeButton}>
+                  <Trash2 size={18} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  helpText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowBody: {
+    flex: 1,
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowWhen: {
+    fontSize: 12,
+  },
+  snippet: {
+    fontSize: 13,
+  },
+});
@@ -10,7 +10,7 @@ import {
   Alert,
   ImageBackground,
 } from 'react-native';
-import { X, Calendar, Clock, CheckCircle, Circle, Target, Edit3 } from 'lucide-react-native';
+import { X, Calendar, Clock, CheckCircle, Circle, Target, Edit3, Share2 } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../providers/ThemeProvider';
 import { useAuth } from '../../providers/AuthProvider';
@@ -18,6 +18,7 @@ import { supabase } from '../../lib/supabase-client';
 import { useGoals } from '../../providers/GoalsProvider';
 import { useSubscription } from '../../providers/SubscriptionProvider';
 import { shadowSm } from '@/ui/depth';
+import { shareCalendarExport } from '@/services/calendarExportService';
 // GoalEditModal is now rendered at a higher level to avoid nested modals
 import TaskEditModal from './TaskEditModal';
 import TaskViewModal from './TaskViewModal';
@@ -271,6 +272,15 @@ export default function GoalModal({ visible, goal, onClose, onTaskToggle, onGoal
     onClose();
   };
 
+  const handleExportGoal = async () => {
+    if (!user || !currentGoal) return;
+    try {
+      await shareCalendarExport(user.id, currentGoal.id || (currentGoal as any).goal_id);
+    } catch (error: any) {
+      Alert.alert('Export failed', error?.message || 'Could not export this goal.');
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -352,6 +362,9 @@ export default function GoalModal({ visible, goal, onClose, onTaskToggle, onGoal
             </View>
           </View>
           <View style={styles.headerActions}>
+            <TouchableOpacity style={styles.editButton} onPress={handleExportGoal}>
+              <Share2 size={20} color={colors.primary} />
+            </TouchableOpacity>
             <TouchableOpacity 
               style={styles.editButton}
               onPress={() => {
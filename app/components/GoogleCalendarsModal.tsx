@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Save, Plus, Trash2 } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import {
+  GoogleAccount,
+  GoogleCalendar,
+  listGoogleAccounts,
+  listGoogleCalendars,
+  removeGoogleAccount,
+  setGoogleCalendarSelection,
+} from '../../services/googleCalendarService';
+
+interface GoogleCalendarsModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+  onConnect: () => Promise<void>;
+  onAccountsChanged: () => void;
+}
+
+export default function GoogleCalendarsModal({ visible, userId, onClose, onConnect, onAccountsChanged }: GoogleCalendarsModalProps) {
+  const { colors } = useTheme();
+  const [accounts, setAccounts] = useState<GoogleAccount[]>([]);
+  const [calendars, setCalendars] = useState<GoogleCalendar[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const nextAccounts = await listGoogleAccounts(userId);
+      setAccounts(nextAccounts);
+      setCalendars(nextAccounts.length > 0 ? await listGoogleCalendars() : []);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to load Google calendars');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (visible) load();
+  }, [visible, load]);
+
+  const toggle = (key: string, field: 'busy' | 'shown') => {
+    setCalendars(prev => prev.map(c => (c.key === key ? { ...c, [field]: !c[field] } : c)));
+  };
+
+  const handleConnect = async () => {
+    await onConnect();
+    await load();
+    onAccountsChanged();
+  };
+
+  const handleRemove = (account: GoogleAccount) => {
+    Alert.alert(
+      'Remove account',
+      `Momentum will stop reading ${account.email || 'this account'}'s calendars. Tasks already added to its Momentum calendar stay in Google.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeGoogleAccount(account.id);
+              await load();
+              onAccountsChanged();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await setGoogleCalendarSelection(userId, calendars);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to save calendar choices');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSwitch = (calendar: GoogleCalendar, field: 'busy' | 'shown') => (
+    <Switch
+      value={calendar[field]}
+      onValueChange={() => toggle(calendar.key, field)}
+      trackColor={{ false: colors.border, true: colors.primary }}
+      thumbColor={calendar[field] ? 'white' : '#f4f3f4'}
+    />
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Google Calendar</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={[styles.saveButton, { backgroundColor: colors.primary }]}
+            disabled={saving || loading}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.background} />
+            ) : (
+              <Save size={20} color={colors.background} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Accounts</Text>
+            {accounts.map(account => (
+              <View key={account.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+                <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                  {account.email || 'Google account'}
+                </Text>
+                <TouchableOpacity onPress={() => handleRemove(account)} style={styles.closeButton}>
+                  <Trash2 size={18} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.addButton, { borderColor: colors.primary }]}
+              onPress={handleConnect}
+              activeOpacity={0.7}
+            >
+              <Plus size={18} color={colors.primary} />
+              <Text style={[styles.addButtonText, { color: colors.primary }]}>
+                {accounts.length > 0 ? 'Add or reconnect an account' : 'Connect an account'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Calendars</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Busy: events block time when Momentum schedules tasks. Show: events appear in the Calendar tab.
+            </Text>
+            {loading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : calendars.length === 0 ? (
+              <Text style={[styles.helpText, { color: colors.textSecondary }]}>No calendars.</Text>
+            ) : (
+              accounts.map(account => {
+                const accountCalendars = calendars.filter(c => c.accountId === account.id);
+                if (accountCalendars.length === 0) return null;
+                return (
+                  <View key={account.id} style={styles.group}>
+                    <Text style={[styles.groupTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                      {account.email || 'Google account'}
+                    </Text>
+                    <View style={styles.columnHeaders}>
+                      <Text style={[styles.columnHeader, { color: colors.textSecondary }]}>Busy</Text>
+                      <Text style={[styles.columnHeader, { color: colors.textSecondary }]}>Show</Text>
+                    </View>
+                    {accountCalendars.map(calendar => (
+                      <View key={calendar.key} style={[styles.row, { borderBottomColor: colors.border }]}>
+                        <View style={[styles.colorDot, { backgroundColor: calendar.color || colors.primary }]} />
+                        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                          {calendar.name}
+                        </Text>
+                        {renderSwitch(calendar, 'busy')}
+                        {renderSwitch(calendar, 'shown')}
+                      </View>
+                    ))}
+                  </View>
+                );
+              })
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  saveButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  columnHeaders: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  columnHeader: {
+    width: 51,
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 12,
+    gap: 8,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,336 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Download } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import { useGoals } from '../../providers/GoalsProvider';
+import {
+  commitIcsImport,
+  fetchImportedUids,
+  fetchIcsFromUrl,
+  IcsImportPreview,
+  importRangeForGoal,
+  previewIcsImport,
+} from '../../services/calendarImportService';
+
+interface IcsImportModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+const NEW_GOAL = 'new';
+const PREVIEW_ROWS = 25;
+
+function formatTaskTime(dueAt: string, allDay: boolean): string {
+  const d = new Date(dueAt);
+  const date = d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  return allDay ? `${date} · all day` : `${date} · ${d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+export default function IcsImportModal({ visible, userId, onClose }: IcsImportModalProps) {
+  const { colors } = useTheme();
+  const { goals, refreshGoals, refreshTasks } = useGoals();
+  const [url, setUrl] = useState('');
+  const [pasted, setPasted] = useState('');
+  const [ics, setIcs] = useState<string | null>(null);
+  const [existingUids, setExistingUids] = useState<Set<string>>(new Set());
+  const [target, setTarget] = useState<string>(NEW_GOAL);
+  const [newGoalTitle, setNewGoalTitle] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setUrl('');
+    setPasted('');
+    setIcs(null);
+    setTarget(NEW_GOAL);
+    setNewGoalTitle('');
+  }, [visible]);
+
+  const preview = useMemo<IcsImportPreview | { error: string } | null>(() => {
+    if (!ics) return null;
+    const goal = target === NEW_GOAL ? null : goals.find(g => g.id === target);
+    try {
+      return previewIcsImport(ics, importRangeForGoal(goal), existingUids);
+    } catch (error: any) {
+      return { error: error?.message || 'Could not read this calendar file.' };
+    }
+  }, [ics, target, goals, existingUids]);
+
+  const handleLoad = async () => {
+    setLoading(true);
+    try {
+      const text = pasted.trim() ? pasted : await fetchIcsFromUrl(url);
+      setExistingUids(await fetchImportedUids(userId));
+      setIcs(text);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to load the calendar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || 'error' in preview) return;
+    setImporting(true);
+    try {
+      await commitIcsImport(userId, target === NEW_GOAL ? { title: newGoalTitle } : { goalId: target }, preview);
+      await Promise.all([refreshGoals(), refreshTasks()]);
+      Alert.alert('Imported', `${preview.newCount} tasks added, ${preview.updateCount} updated.`);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to import the calendar');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderPreview = () => {
+    if (!preview) return null;
+    if ('error' in preview) {
+      return <Text style={[styles.helpText, { color: colors.danger }]}>{preview.error}</Text>;
+    }
+    return (
+      <>
+        <Text style={[styles.summary, { color: colors.text }]}>
+          {preview.newCount} new · {preview.updateCount} already imported (updated) · {preview.skippedCount} skipped
+        </Text>
+        {preview.truncated && (
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Only the first {preview.tasks.length} occurrences are imported. Pick a goal with a shorter date range to import later ones.
+          </Text>
+        )}
+        {preview.tasks.slice(0, PREVIEW_ROWS).map(task => (
+          <View key={task.ics_uid} style={[styles.taskRow, { borderBottomColor: colors.border }]}>
+            <Text style={[styles.taskTitle, { color: colors.text }]} numberOfLines={1}>{task.title}</Text>
+            <Text style={[styles.taskMeta, { color: colors.textSecondary }]}>
+              {formatTaskTime(task.due_at, task.all_day)}
+              {task.duration_minutes ? ` · ${task.duration_minutes} min` : ''}
+              {task.existing ? ' · update' : ''}
+            </Text>
+          </View>
+        ))}
+        {preview.tasks.length > PREVIEW_ROWS && (
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            and {preview.tasks.length - PREVIEW_ROWS} more
+          </Text>
+        )}
+      </>
+    );
+  };
+
+  const canImport = !!preview && !('error' in preview) && preview.tasks.length > 0 && !importing;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Import calendar</Text>
+          <TouchableOpacity onPress={handleImport} style={styles.closeButton} disabled={!canImport}>
+            {importing ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Download size={24} color={canImport ? colors.primary : colors.textSecondary} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={[styles.label, { color: colors.text }]}>Calendar file</Text>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Link to an .ics file (class syllabus, training program, a calendar&apos;s secret address) or paste its contents.
+            </Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+              value={url}
+              onChangeText={setUrl}
+              placeholder="https:// or webcal:// link"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <TextInput
+              style={[styles.input, styles.pasteInput, { backgroundColor: colors.card, color: colors.text }]}
+              value={pasted}
+              onChangeText={setPasted}
+              placeholder="BEGIN:VCALENDAR…"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.loadButton, { borderColor: colors.primary }]}
+              onPress={handleLoad}
+              disabled={loading || (!url.trim() && !pasted.trim())}
+              activeOpacity={0.7}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={[styles.loadButtonText, { color: colors.primary }]}>Preview</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {ics && (
+            <View style={styles.section}>
+              <Text style={[styles.label, { color: colors.text }]}>Add to</Text>
+              <View style={styles.chips}>
+                {[{ id: NEW_GOAL, title: 'New goal', color: colors.primary }, ...goals].map(goal => {
+                  const selected = target === goal.id;
+                  const color = goal.color || colors.primary;
+                  return (
+                    <TouchableOpacity
+                      key={goal.id}
+                      style={[styles.chip, { borderColor: color }, selected && { backgroundColor: color }]}
+                      onPress={() => setTarget(goal.id)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? 'white' : colors.text }]} numberOfLines={1}>
+                        {goal.title}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {target === NEW_GOAL && (
+                <TextInput
+                  style={[styles.input, { backgroundColor: colors.card, color: colors.text }]}
+                  value={newGoalTitle}
+                  onChangeText={setNewGoalTitle}
+                  placeholder={(preview && !('error' in preview) && preview.calendarName) || 'Goal title'}
+                  placeholderTextColor={colors.textSecondary}
+                />
+              )}
+            </View>
+          )}
+
+          <View style={styles.section}>{renderPreview()}</View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 0,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  pasteInput: {
+    minHeight: 100,
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  loadButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  loadButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  taskRow: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  taskTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  taskMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
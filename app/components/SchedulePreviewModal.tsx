@@ -0,0 +1,648 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import { X, ChevronLeft, ChevronRight, Minus, Plus, AlertTriangle } from 'lucide-react-native';
+import { newGoalWarnings, WorkloadInput } from '@/lib/ai/workload';
+import { useTheme } from '../../providers/ThemeProvider';
+import { useAuth } from '../../providers/AuthProvider';
+import {
+  PlannedSession,
+  SCHEDULE_HORIZON_DAYS,
+  ScheduleInfeasibleError,
+  ScheduleOptions,
+  SchedulePlan,
+  SchedulePreview,
+  ScheduledBlock,
+  commitSchedule,
+  getScheduledBlocks,
+  previewSchedule,
+} from '../../services/schedulePreviewService';
+import { loadWorkloadInput, NEW_GOAL_ID } from '../../services/workloadService';
+
+interface SchedulePreviewModalProps {
+  visible: boolean;
+  plan: SchedulePlan | null;
+  onClose: () => void;
+  onCommitted: (goalId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIRST_HOUR = 6;
+const LAST_HOUR = 23;
+const HOUR_HEIGHT = 32;
+const SNAP_MINUTES = 15;
+const HOUR_LABEL_WIDTH = 36;
+const WEEKS_AHEAD = Math.ceil(SCHEDULE_HORIZON_DAYS / 7);
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function startOfWeek(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+/** Column and vertical extent of an interval in the week grid; null when it is not in the visible hours of this week. */
+function placeInWeek(start: number, end: number, weekStart: Date): { column: number; top: number; height: number } | null {
+  const startDate = new Date(start);
+  const dayStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const column = Math.round((dayStart.getTime() - weekStart.getTime()) / DAY_MS);
+  if (column < 0 || column > 6) return null;
+  const gridStart = dayStart.getTime() + FIRST_HOUR * 3600 * 1000;
+  const gridEnd = dayStart.getTime() + LAST_HOUR * 3600 * 1000;
+  const from = Math.max(start, gridStart);
+  const to = Math.min(end, gridEnd);
+  if (to <= from) return null;
+  return {
+    column,
+    top: ((from - gridStart) / 3600000) * HOUR_HEIGHT,
+    height: Math.max(((to - from) / 3600000) * HOUR_HEIGHT, 12),
+  };
+}
+
+/** Session moved by whole days and snapped minutes, keeping its length. */
+function moveSession(session: PlannedSession, dayDelta: number, minuteDelta: number): PlannedSession {
+  const moved = new Date(session.start);
+  moved.setDate(moved.getDate() + dayDelta);
+  moved.setMinutes(moved.getMinutes() + minuteDelta);
+  const snapMs = SNAP_MINUTES * 60 * 1000;
+  const start = Math.round(moved.getTime() / snapMs) * snapMs;
+  return { ...session, start, end: start + (session.end - session.start) };
+}
+
+interface DraggableSessionProps {
+  title: string;
+  subtitle: string;
+  color: string;
+  style: { left: number; top: number; width: number; height: number };
+  columnWidth: number;
+  onDragStart: () => void;
+  onDrop: (dayDelta: number, minuteDelta: number) => void;
+}
+
+function DraggableSession({ title, subtitle, color, style, columnWidth, onDragStart, onDrop }: DraggableSessionProps) {
+  const pan = useRef(new Animated.ValueXY()).current;
+  // The responder is created once; read the latest props from here
+  const latest = useRef({ columnWidth, onDragStart, onDrop });
+  latest.current = { columnWidth, onDragStart, onDrop };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => latest.current.onDragStart(),
+      onPanResponderMove: Animated.event([null, { dx: pan.x, dy: pan.y }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, gesture) => {
+        pan.setValue({ x: 0, y: 0 });
+        const width = latest.current.columnWidth || 1;
+        latest.current.onDrop(
+          Math.round(gesture.dx / width),
+          Math.round(gesture.dy / (HOUR_HEIGHT / (60 / SNAP_MINUTES))) * SNAP_MINUTES,
+        );
+      },
+      onPanResponderTerminate: () => {
+        pan.setValue({ x: 0, y: 0 });
+        latest.current.onDrop(0, 0);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      {...responder.panHandlers}
+      style={[
+        styles.block,
+        style,
+        { backgroundColor: color, transform: pan.getTranslateTransform(), zIndex: 2 },
+      ]}
+    >
+      <Text style={styles.blockTitle} numberOfLines={1}>{title}</Text>
+      {style.height >= 28 && <Text style={styles.blockSubtitle} numberOfLines={1}>{subtitle}</Text>}
+    </Animated.View>
+  );
+}
+
+export default function SchedulePreviewModal({ visible, plan, onClose, onCommitted }: SchedulePreviewModalProps) {
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const [options, setOptions] = useState<ScheduleOptions>({ daysPerWeek: 7 });
+  const [preview, setPreview] = useState<SchedulePreview | null>(null);
+  const [sessions, setSessions] = useState<PlannedSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [existing, setExisting] = useState<ScheduledBlock[]>([]);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [gridWidth, setGridWidth] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [workloadInput, setWorkloadInput] = useState<WorkloadInput | null>(null);
+
+  const firstWeek = useMemo(() => startOfWeek(new Date()), []);
+  const lastWeek = useMemo(() => addDays(firstWeek, 7 * WEEKS_AHEAD), [firstWeek]);
+  const columnWidth = gridWidth > 0 ? (gridWidth - HOUR_LABEL_WIDTH) / 7 : 0;
+  const titles = useMemo(() => new Map((plan?.tasks || []).map(t => [t.id, t.title])), [plan]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setOptions({ daysPerWeek: 7 });
+    setPreview(null);
+    setSessions([]);
+    setWeekStart(startOfWeek(new Date()));
+  }, [visible, plan]);
+
+  // Re-flow the plan whenever the options change; a short delay lets steppers settle
+  useEffect(() => {
+    if (!visible || !plan || !user) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await previewSchedule(user.id, plan, options);
+        if (cancelled) return;
+        setPreview(result);
+        setSessions(result.sessions);
+        // Jump to the week the plan starts in
+        if (result.sessions.length > 0) setWeekStart(startOfWeek(new Date(result.sessions[0].start)));
+      } catch (error: any) {
+        if (!cancelled) Alert.alert('Preview failed', error?.message || 'Could not schedule this plan');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [visible, plan, user, options]);
+
+  // Current load of the other goals, to warn when this plan overcommits a week or pushes a goal past its target
+  useEffect(() => {
+    if (!visible || !user) return;
+    let cancelled = false;
+    setWorkloadInput(null);
+    loadWorkloadInput(user.id)
+      .then(input => { if (!cancelled) setWorkloadInput(input); })
+      .catch(error => console.warn('Error loading workload:', error));
+    return () => { cancelled = true; };
+  }, [visible, user]);
+
+  const workloadWarnings = useMemo(() => {
+    if (!workloadInput || !plan || sessions.length === 0) return [];
+    return newGoalWarnings(
+      workloadInput,
+      { id: NEW_GOAL_ID, title: plan.goal.title, targetDate: plan.goal.targetDate ?? null },
+      sessions.map(s => ({ goalId: NEW_GOAL_ID, start: s.start, minutes: Math.round((s.end - s.start) / 60000) }))
+    );
+  }, [workloadInput, plan, sessions]);
+
+  useEffect(() => {
+    if (!visible || !user) return;
+    let cancelled = false;
+    getScheduledBlocks(user.id, weekStart, addDays(weekStart, 7))
+      .then(blocks => { if (!cancelled) setExisting(blocks); })
+      .catch(() => { if (!cancelled) setExisting([]); });
+    return () => { cancelled = true; };
+  }, [visible, user, weekStart]);
+
+  const handleDrop = useCallback((index: number, dayDelta: number, minuteDelta: number) => {
+    setDragging(false);
+    if (dayDelta === 0 && minuteDelta === 0) return;
+    setSessions(prev => {
+      const moved = moveSession(prev[index], dayDelta, minuteDelta);
+      if (moved.start < Date.now()) return prev;
+      const next = prev.slice();
+      next[index] = moved;
+      return next;
+    });
+  }, []);
+
+  const stepDays = (delta: number) => {
+    setOptions(prev => ({ ...prev, daysPerWeek: Math.min(7, Math.max(1, (prev.daysPerWeek ?? 7) + delta)) }));
+  };
+
+  // Starts from an hour; going below 15 minutes hands session length back to the plan
+  const stepMinutes = (delta: number) => {
+    setOptions(prev => {
+      if (prev.sessionMinutes === undefined) return { ...prev, sessionMinutes: 60 };
+      const next = prev.sessionMinutes + delta;
+      if (next < SNAP_MINUTES) return { ...prev, sessionMinutes: undefined };
+      return { ...prev, sessionMinutes: Math.min(240, next) };
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!user || !plan) return;
+    setCommitting(true);
+    try {
+      const goalId = await commitSchedule(user.id, plan, sessions, options);
+      onCommitted(goalId);
+    } catch (error: any) {
+      if (error instanceof ScheduleInfeasibleError) {
+        Alert.alert('Plan does not fit', error.message);
+      } else {
+        Alert.alert('Error', error?.message || 'Failed to save the plan');
+      }
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const handleGridLayout = (event: LayoutChangeEvent) => setGridWidth(event.nativeEvent.layout.width);
+
+  const renderBackground = (key: string, start: number, end: number, color: string, title?: string) => {
+    const placed = placeInWeek(start, end, weekStart);
+    if (!placed || columnWidth === 0) return null;
+    return (
+      <View
+        key={key}
+        style={[
+          styles.block,
+          {
+            left: HOUR_LABEL_WIDTH + placed.column * columnWidth + 1,
+            top: placed.top,
+            width: columnWidth - 2,
+            height: placed.height,
+            backgroundColor: color,
+          },
+        ]}
+      >
+        {title && <Text style={[styles.blockTitle, { color: colors.text }]} numberOfLines={1}>{title}</Text>}
+      </View>
+    );
+  };
+
+  const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR }, (_, i) => FIRST_HOUR + i);
+  const weekEnd = addDays(weekStart, 6);
+  const canCommit = !!preview && preview.feasible && sessions.length > 0 && !loading && !committing;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Preview plan</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.content} scrollEnabled={!dragging} showsVerticalScrollIndicator={false}>
+          {plan && (
+            <Text style={[styles.goalTitle, { color: colors.text }]} numberOfLines={2}>{plan.goal.title}</Text>
+          )}
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Drag a session to move it. Changing the days or session length re-plans every session.
+          </Text>
+
+          <View style={[styles.optionsCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <View style={styles.optionRow}>
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Days per week</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity onPress={() => stepDays(-1)} style={styles.stepButton}>
+                  <Minus size={18} color={colors.primary} />
+                </TouchableOpacity>
+                <Text style={[styles.stepValue, { color: colors.text }]}>{options.daysPerWeek ?? 7}</Text>
+                <TouchableOpacity onPress={() => stepDays(1)} style={styles.stepButton}>
+                  <Plus size={18} color={colors.primary} />
+                </TouchableOpacity>
+              </View>
+            </View>
+            <View style={styles.optionRow}>
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Session length</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity onPress={() => stepMinutes(-SNAP_MINUTES)} style={styles.stepButton}>
+                  <Minus size={18} color={colors.primary} />
+                </TouchableOpacity>
+                <Text style={[styles.stepValue, { color: colors.text }]}>
+                  {options.sessionMinutes ? `${options.sessionMinutes} min` : 'Auto'}
+                </Text>
+                <TouchableOpacity onPress={() => stepMinutes(SNAP_MINUTES)} style={styles.stepButton}>
+                  <Plus size={18} color={colors.primary} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.weekNav}>
+            <TouchableOpacity
+              onPress={() => setWeekStart(addDays(weekStart, -7))}
+              disabled={weekStart <= firstWeek}
+              style={styles.closeButton}
+            >
+              <ChevronLeft size={22} color={weekStart <= firstWeek ? colors.textMuted : colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.weekLabel, { color: colors.text }]}>
+              {weekStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} – {weekEnd.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+            </Text>
+            <TouchableOpacity
+              onPress={() => setWeekStart(addDays(weekStart, 7))}
+              disabled={weekStart >= lastWeek}
+              style={styles.closeButton}
+            >
+              <ChevronRight size={22} color={weekStart >= lastWeek ? colors.textMuted : colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.dayHeaderRow}>
+            <View style={{ width: HOUR_LABEL_WIDTH }} />
+            {WEEKDAY_LABELS.map((label, i) => (
+              <Text key={label} style={[styles.dayHeader, { color: colors.textSecondary }]}>
+                {label} {addDays(weekStart, i).getDate()}
+              </Text>
+            ))}
+          </View>
+
+          <View
+            style={[styles.grid, { height: hours.length * HOUR_HEIGHT, borderColor: colors.border }]}
+            onLayout={handleGridLayout}
+          >
+            {hours.map((hour, i) => (
+              <View key={hour} style={[styles.hourRow, { top: i * HOUR_HEIGHT, borderTopColor: colors.border }]}>
+                <Text style={[styles.hourLabel, { color: colors.textMuted }]}>{hour}:00</Text>
+              </View>
+            ))}
+            {(preview?.busy || []).map((b, i) => renderBackground(`busy-${i}`, b.start, b.end, colors.border))}
+            {existing.map(b => renderBackground(`task-${b.id}`, b.start, b.end, `${colors.info}40`, b.title))}
+            {columnWidth > 0 && sessions.map((session, index) => {
+              const placed = placeInWeek(session.start, session.end, weekStart);
+              if (!placed) return null;
+              return (
+                <DraggableSession
+                  key={`${session.taskId}-${index}-${session.start}`}
+                  title={titles.get(session.taskId) || 'Session'}
+                  subtitle={`${formatTime(session.start)} – ${formatTime(session.end)}`}
+                  color={colors.primary}
+                  style={{
+                    left: HOUR_LABEL_WIDTH + placed.column * columnWidth + 1,
+                    top: placed.top,
+                    width: columnWidth - 2,
+                    height: placed.height,
+                  }}
+                  columnWidth={columnWidth}
+                  onDragStart={() => setDragging(true)}
+                  onDrop={(dayDelta, minuteDelta) => handleDrop(index, dayDelta, minuteDelta)}
+                />
+              );
+            })}
+            {loading && (
+              <View style={styles.gridOverlay}>
+                <ActivityIndicator size="small" color={colors.primary} />
+              </View>
+            )}
+          </View>
+
+          <View style={styles.legend}>
+            <View style={[styles.legendDot, { backgroundColor: colors.primary }]} />
+            <Text style={[styles.legendText, { color: colors.textSecondary }]}>This plan</Text>
+            <View style={[styles.legendDot, { backgroundColor: `${colors.info}40` }]} />
+            <Text style={[styles.legendText, { color: colors.textSecondary }]}>Your tasks</Text>
+            <View style={[styles.legendDot, { backgroundColor: colors.border }]} />
+            <Text style={[styles.legendText, { color: colors.textSecondary }]}>Busy</Text>
+          </View>
+
+          {preview && preview.infeasible.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.label, { color: colors.text }]}>Does not fit</Text>
+              {preview.infeasible.map(item => (
+                <View key={item.taskId} style={styles.issueRow}>
+                  <AlertTriangle size={16} color={colors.warning} />
+                  <Text style={[styles.issueText, { color: colors.text }]}>
+                    {item.title}: {item.detail}
+                  </Text>
+                </View>
+              ))}
+              <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+                Try more days per week or longer sessions.
+              </Text>
+            </View>
+          )}
+
+          {workloadWarnings.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.label, { color: colors.text }]}>Workload</Text>
+              {workloadWarnings.map(warning => (
+                <View key={warning} style={styles.issueRow}>
+                  <AlertTriangle size={16} color={colors.warning} />
+                  <Text style={[styles.issueText, { color: colors.text }]}>{warning}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {preview && preview.warnings.length > 0 && (
+            <View style={styles.section}>
+              {preview.warnings.map(warning => (
+                <Text key={warning} style={[styles.helpText, { color: colors.textSecondary }]}>{warning}</Text>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={[styles.footer, { borderTopColor: colors.border }]}>
+          <TouchableOpacity
+            style={[styles.commitButton, { backgroundColor: canCommit ? colors.primary : colors.border }]}
+            onPress={handleCommit}
+            disabled={!canCommit}
+            activeOpacity={0.8}
+          >
+            {committing ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.commitButtonText}>Add to calendar</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  goalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  helpText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  optionsCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  optionLabel: {
+    fontSize: 16,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    padding: 6,
+  },
+  stepValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  weekNav: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dayHeaderRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  dayHeader: {
+    flex: 1,
+    fontSize: 11,
+    textAlign: 'center',
+  },
+  grid: {
+    position: 'relative',
+    borderBottomWidth: 1,
+  },
+  hourRow: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  hourLabel: {
+    width: HOUR_LABEL_WIDTH,
+    fontSize: 10,
+  },
+  block: {
+    position: 'absolute',
+    borderRadius: 4,
+    paddingHorizontal: 2,
+    overflow: 'hidden',
+  },
+  blockTitle: {
+    color: 'white',
+    fontSize: 9,
+    fontWeight: '600',
+  },
+  blockSubtitle: {
+    color: 'white',
+    fontSize: 8,
+  },
+  gridOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    marginRight: 8,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 6,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  commitButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  commitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -18,7 +18,7 @@ import { X, Save, Calendar, Clock, Plus } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../providers/ThemeProvider';
 import { useAuth } from '../../providers/AuthProvider';
-import { supabase } from '../../lib/supabase-client';
+import { useGoals } from '../../providers/GoalsProvider';
 import { shadowSm } from '@/ui/depth';
 
 interface TaskCreationModalProps {
@@ -38,6 +38,7 @@ export default function TaskCreationModal({
 }: TaskCreationModalProps) {
   const { colors, isDark, isGalaxy } = useTheme();
   const { user } = useAuth();
+  const { createTask } = useGoals();
   const insets = useSafeAreaInsets();
   
   const [title, setTitle] = useState('');
@@ -115,15 +116,8 @@ export default function TaskCreationModal({
         seq: 1, // Will be updated by the database
       };
 
-      const { data: task, error } = await supabase
-        .from('tasks')
-        .insert([taskData])
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
-      }
+      // Queued in GoalsProvider so tasks can be added offline
+      const task = await createTask(taskData);
 
       console.log('Task created:', task);
       console.log('Final due date saved:', dueAt);
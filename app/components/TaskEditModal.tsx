@@ -17,8 +17,15 @@ import { X, Save, Trash2, Calendar, Clock } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../providers/ThemeProvider';
 import { useAuth } from '../../providers/AuthProvider';
-import { supabase } from '../../lib/supabase-client';
+import { useGoals } from '../../providers/GoalsProvider';
 import { shadowSm } from '@/ui/depth';
+import {
+  deleteOccurrence,
+  isOccurrenceId,
+  promptRecurrenceScope,
+  resolveOccurrence,
+  updateOccurrence,
+} from '@/services/recurrenceService';
 
 interface Task {
   id: string;
@@ -34,6 +41,9 @@ interface Task {
   seq: number;
   created_at: string;
   updated_at: string;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  is_occurrence?: boolean;
 }
 
 interface TaskEditModalProps {
@@ -47,6 +57,7 @@ interface TaskEditModalProps {
 export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, onTaskDeleted }: TaskEditModalProps) {
   const { colors, isDark } = useTheme();
   const { user } = useAuth();
+  const { updateTask, deleteTask } = useGoals();
   const insets = useSafeAreaInsets();
   
   const [title, setTitle] = useState('');
@@ -85,6 +96,11 @@ export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, o
       return;
     }
 
+    // Recurring tasks ask whether the edit applies to this occurrence or the rest of the series
+    const isRecurring = !!task.recurrence_rule_id || isOccurrenceId(task.id);
+    const scope = isRecurring ? await promptRecurrenceScope('edit') : null;
+    if (isRecurring && !scope) return;
+
     setLoading(true);
     try {
       const dueDateTime = new Date(`${dueDate}T${dueTime}:00`);
@@ -92,7 +108,6 @@ export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, o
         title: title.trim(),
         notes: notes.trim() || null,
         due_at: dueDateTime.toISOString(),
-        updated_at: new Date().toISOString(),
       };
 
       if (duration) {
@@ -102,14 +117,18 @@ export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, o
         }
       }
 
-      const { error } = await supabase
-        .from('tasks')
-        .update(updateData)
-        .eq('id', task.id)
-        .eq('user_id', user.id);
-
-      if (error) {
-        throw error;
+      if (scope) {
+        const ref = await resolveOccurrence(task);
+        if (!ref) throw new Error('Recurrence rule not found');
+        await updateOccurrence(ref.rule, ref.instanceAt, {
+          title: updateData.title,
+          notes: updateData.notes,
+          due_at: updateData.due_at,
+          duration_minutes: updateData.duration_minutes,
+        }, scope);
+      } else {
+        // Queued in GoalsProvider: applied offline and synced later
+        await updateTask(task.id, updateData);
       }
 
       const updatedTask = {
@@ -130,9 +149,28 @@ export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, o
     }
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!task) return;
 
+    if (task.recurrence_rule_id || isOccurrenceId(task.id)) {
+      const scope = await promptRecurrenceScope('delete');
+      if (!scope) return;
+      setLoading(true);
+      try {
+        const ref = await resolveOccurrence(task);
+        if (!ref) throw new Error('Recurrence rule not found');
+        await deleteOccurrence(ref.rule, ref.instanceAt, scope);
+        onTaskDeleted(task.id);
+        onClose();
+      } catch (error) {
+        console.error('Error deleting recurring task:', error);
+        Alert.alert('Error', 'Failed to delete task. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
     Alert.alert(
       'Delete Task',
       'Are you sure you want to delete this task? This action cannot be undone.',
@@ -152,15 +190,7 @@ export default function TaskEditModal({ visible, task, onClose, onTaskUpdated, o
 
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', task.id)
-        .eq('user_id', user.id);
-
-      if (error) {
-        throw error;
-      }
+      await deleteTask(task.id);
 
       onTaskDeleted(task.id);
       onClose();
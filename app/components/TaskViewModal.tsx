@@ -9,11 +9,21 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { X, Edit3, Trash2, Calendar, Clock, CheckCircle, Circle } from 'lucide-react-native';
+import { X, Edit3, Trash2, Calendar, Clock, CheckCircle, Circle, AlertTriangle } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../providers/ThemeProvider';
 import { useAuth } from '../../providers/AuthProvider';
 import { supabase } from '../../lib/supabase-client';
+import {
+  deleteOccurrence,
+  isOccurrenceId,
+  materializeOccurrence,
+  promptRecurrenceScope,
+  resolveOccurrence,
+} from '@/services/recurrenceService';
+import { updateTaskSessionStatus } from '@/services/taskSessionService';
+import { TaskSession } from '@/types/task';
+import { ConflictEvent } from '@/lib/ai/conflicts';
 
 interface Task {
   id: string;
@@ -29,6 +39,13 @@ interface Task {
   seq: number;
   created_at: string;
   updated_at: string;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  is_occurrence?: boolean;
+  // Set when the calendar shows one session of a split task
+  session?: TaskSession;
+  session_index?: number;
+  session_count?: number;
 }
 
 interface TaskViewModalProps {
@@ -38,9 +55,12 @@ interface TaskViewModalProps {
   onEdit: (task: Task) => void;
   onTaskUpdated: (updatedTask: Task) => void;
   onTaskDeleted: (taskId: string) => void;
+  // External events the task overlaps, and the action that moves it out of their way
+  conflicts?: ConflictEvent[];
+  onMoveToFreeSlot?: () => Promise<void>;
 }
 
-export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUpdated, onTaskDeleted }: TaskViewModalProps) {
+export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUpdated, onTaskDeleted, conflicts, onMoveToFreeSlot }: TaskViewModalProps) {
   const { colors, isDark } = useTheme();
   const { user } = useAuth();
   const insets = useSafeAreaInsets();
@@ -82,6 +102,33 @@ export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUp
     
     setLoading(true);
     try {
+      // One session of a split task: the task completes itself once every session is done
+      if (task.session) {
+        await updateTaskSessionStatus(task.session.id, newStatus);
+        onTaskUpdated({
+          ...task,
+          status: newStatus,
+          session: {
+            ...task.session,
+            status: newStatus,
+            completed_at: newStatus === 'done' ? new Date().toISOString() : null,
+          },
+        });
+        return;
+      }
+
+      // Occurrences of a recurring rule have no row until they are first changed
+      if (isOccurrenceId(task.id)) {
+        const ref = await resolveOccurrence(task);
+        if (!ref) throw new Error('Recurrence rule not found');
+        const saved = await materializeOccurrence(ref.rule, ref.instanceAt, {
+          status: newStatus,
+          completed_at: newStatus === 'done' ? new Date().toISOString() : null,
+        });
+        onTaskUpdated(saved);
+        return;
+      }
+
       const { error } = await supabase
         .from('tasks')
         .update({
@@ -112,9 +159,41 @@ export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUp
     }
   };
 
-  const handleDelete = () => {
+  const handleMoveToFreeSlot = async () => {
+    if (!onMoveToFreeSlot) return;
+    setLoading(true);
+    try {
+      await onMoveToFreeSlot();
+    } catch (error) {
+      console.error('Error moving task:', error);
+      Alert.alert('Error', 'Failed to move task. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
     if (!task) return;
 
+    if (task.recurrence_rule_id || isOccurrenceId(task.id)) {
+      const scope = await promptRecurrenceScope('delete');
+      if (!scope) return;
+      setLoading(true);
+      try {
+        const ref = await resolveOccurrence(task);
+        if (!ref) throw new Error('Recurrence rule not found');
+        await deleteOccurrence(ref.rule, ref.instanceAt, scope);
+        onTaskDeleted(task.id);
+        onClose();
+      } catch (error) {
+        console.error('Error deleting recurring task:', error);
+        Alert.alert('Error', 'Failed to delete task. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
     Alert.alert(
       'Delete Task',
       'Are you sure you want to delete this task? This action cannot be undone.',
@@ -247,6 +326,32 @@ export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUp
             </View>
           </View>
 
+          {/* Overlapping external events */}
+          {conflicts && conflicts.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Conflicts</Text>
+              {conflicts.map(event => (
+                <View key={event.id} style={styles.dateTimeRow}>
+                  <AlertTriangle size={20} color={colors.warning} />
+                  <Text style={[styles.dateTimeText, styles.conflictText, { color: colors.text }]} numberOfLines={2}>
+                    {`${event.title} · ${event.source} · ${event.allDay ? 'All day' : `${formatTime(event.start)} – ${formatTime(event.end)}`}`}
+                  </Text>
+                </View>
+              ))}
+              {onMoveToFreeSlot && !isCompleted && (
+                <TouchableOpacity
+                  style={[styles.moveButton, { borderColor: colors.primary }]}
+                  onPress={handleMoveToFreeSlot}
+                  disabled={loading}
+                >
+                  <Text style={[styles.moveButtonText, { color: colors.primary }]}>
+                    Move to next free slot
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Duration */}
           {task.duration_minutes && (
             <View style={styles.section}>
@@ -265,6 +370,11 @@ export default function TaskViewModal({ visible, task, onClose, onEdit, onTaskUp
                 {isCompleted ? 'Completed' : 'Pending'}
               </Text>
             </View>
+            {task.session && task.session_count && (
+              <Text style={[styles.durationText, { color: colors.textSecondary }]}>
+                Session {(task.session_index ?? 0) + 1} of {task.session_count}
+              </Text>
+            )}
           </View>
 
           {/* Delete Button */}
@@ -373,6 +483,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  conflictText: {
+    flex: 1,
+  },
+  moveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  moveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   deleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import { useTheme } from '../../providers/ThemeProvider';
+import { shadowSm } from '@/ui/depth';
+import { describeWorkload, formatMinutes, WorkloadGoal, WorkloadReport } from '@/lib/ai/workload';
+
+interface WorkloadChartProps {
+  report: WorkloadReport;
+  goals: WorkloadGoal[];
+}
+
+const CHART_HEIGHT = 96;
+
+/** Planned minutes per week, stacked by goal, against the free time that week. */
+export default function WorkloadChart({ report, goals }: WorkloadChartProps) {
+  const { colors, isDark } = useTheme();
+  const maxMinutes = Math.max(1, ...report.weeks.map(w => Math.max(w.committedMinutes, w.freeMinutes)));
+  const scale = CHART_HEIGHT / maxMinutes;
+  const warnings = describeWorkload(report);
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }, shadowSm(isDark)]}>
+      <Text style={[styles.title, { color: colors.text }]}>Weekly load</Text>
+      <View style={[styles.chart, { height: CHART_HEIGHT }]}>
+        {report.weeks.map(week => (
+          <View key={week.weekStart} style={styles.column}>
+            <View style={[styles.bar, { height: CHART_HEIGHT }]}>
+              {goals.map(goal => {
+                const minutes = week.byGoal[goal.id];
+                if (!minutes) return null;
+                return (
+                  <View
+                    key={goal.id}
+                    style={{ height: minutes * scale, backgroundColor: goal.color || colors.primary }}
+                  />
+                );
+              })}
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.capacity,
+                  { bottom: week.freeMinutes * scale, borderTopColor: week.overcommitted ? colors.warning : colors.textSecondary },
+                ]}
+              />
+            </View>
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {report.weeks.map(week => (
+          <View key={week.weekStart} style={styles.column}>
+            <Text style={[styles.weekLabel, { color: week.overcommitted ? colors.warning : colors.textSecondary }]}>
+              {new Date(week.weekStart).toLocaleDateString([], { month: 'numeric', day: 'numeric' })}
+            </Text>
+            <Text style={[styles.weekLabel, { color: week.overcommitted ? colors.warning : colors.textMuted }]}>
+              {formatMinutes(week.committedMinutes)}
+            </Text>
+          </View>
+        ))}
+      </View>
+      <Text style={[styles.legend, { color: colors.textSecondary }]}>
+        Bars are planned work per goal; the line is your free time after calendar events.
+      </Text>
+      {warnings.map(warning => (
+        <View key={warning} style={styles.warningRow}>
+          <AlertTriangle size={14} color={colors.warning} />
+          <Text style={[styles.warningText, { color: colors.text }]}>{warning}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bar: {
+    width: 20,
+    justifyContent: 'flex-end',
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+    overflow: 'visible',
+  },
+  capacity: {
+    position: 'absolute',
+    left: -6,
+    right: -6,
+    borderTopWidth: 2,
+  },
+  labels: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  weekLabel: {
+    fontSize: 10,
+  },
+  legend: {
+    fontSize: 11,
+    marginTop: 8,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginTop: 6,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+  },
+});
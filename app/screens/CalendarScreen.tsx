@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -19,16 +19,35 @@ import {
 } from 'react-native';
 import * as Linking from 'expo-linking';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
-import { ChevronDown, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, CheckCircle, Circle, X } from 'lucide-react-native';
+import { ChevronDown, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, CheckCircle, Circle, X, CloudOff, AlertTriangle } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../providers/ThemeProvider';
 import { useAuth } from '../../providers/AuthProvider';
+import { useGoals } from '../../providers/GoalsProvider';
 import { supabase, createNewSupabaseClient } from '../../lib/supabase-client';
 import GoalModal from '../components/GoalModal';
 import TaskViewModal from '../components/TaskViewModal';
 import { shadowSm } from '@/ui/depth';
-import { getEventsInRange } from '@/app/services/appleCalendar';
-import * as ExpoCalendar from 'expo-calendar';
+import {
+  expandRuleOccurrences,
+  fetchRecurrenceRules,
+  isOccurrenceId,
+  materializeOccurrence,
+  parseOccurrenceId,
+  RecurrenceRule,
+} from '@/services/recurrenceService';
+import {
+  CalendarProvider,
+  ExternalEvent,
+  getCalendarProviders,
+  ProviderMap,
+  resolveCalendarProviders,
+} from '@/services/calendarProviders';
+import { getSessionProgress, sortSessions, TASK_SESSIONS_EMBED, updateTaskSessionStatus } from '@/services/taskSessionService';
+import { ConflictEvent, ConflictTask, eventInterval, findConflicts, taskInterval } from '@/lib/ai/conflicts';
+import { Interval } from '@/lib/ai/intervals';
+import { findFreeSlotForTask, moveTaskToSlot } from '@/services/conflictService';
+import { TaskSession } from '@/types/task';
 
 interface Task {
   id: string;
@@ -40,6 +59,14 @@ interface Task {
   completed_at?: string;
   seq: number;
   goal_id: string;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  is_occurrence?: boolean;
+  task_sessions?: TaskSession[];
+  // Split tasks are shown once per session; these describe the session an entry stands for
+  session?: TaskSession;
+  session_index?: number;
+  session_count?: number;
   goal?: {
     id: string;
     title: string;
@@ -60,12 +87,23 @@ interface Goal {
   color?: string;
 }
 
+// Sessions of a split task share the task id, so conflicts are keyed per session
+function conflictKey(task: Task): string {
+  return task.session?.id ?? task.id;
+}
+
+function toConflictTask(task: Task): ConflictTask {
+  return { key: conflictKey(task), start: task.due_at, minutes: task.duration_minutes };
+}
+
 export default function CalendarScreen() {
   const { colors, isDark, isGalaxy } = useTheme();
   const { user } = useAuth();
+  const { pendingSyncCount } = useGoals();
   const insets = useSafeAreaInsets();
   
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [recurrenceRules, setRecurrenceRules] = useState<RecurrenceRule[]>([]);
   const [goals, setGoals] = useState<Goal[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -74,15 +112,13 @@ export default function CalendarScreen() {
   const [showGoalModal, setShowGoalModal] = useState(false);
   const [showTaskViewModal, setShowTaskViewModal] = useState(false);
   const [selectedTask, setSelectedTask] = useState<any>(null);
-  const [selectedGoogleEvent, setSelectedGoogleEvent] = useState<any>(null);
+  const [selectedExternalEvent, setSelectedExternalEvent] = useState<{ provider: CalendarProvider; event: ExternalEvent } | null>(null);
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
   const [showMonthView, setShowMonthView] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [realtimeRefreshKey, setRealtimeRefreshKey] = useState(0);
-  const [showGoogleEvents, setShowGoogleEvents] = useState(false);
-  const [showAppleEvents, setShowAppleEvents] = useState(false);
-  const [googleEvents, setGoogleEvents] = useState<Array<{id:string; title:string; start:string; end:string; allDay?:boolean}>>([]);
-  const [appleEvents, setAppleEvents] = useState<Array<{id:string; title:string; start:string; end:string; allDay?:boolean}>>([]);
+  const [showEvents, setShowEvents] = useState<ProviderMap<boolean>>({});
+  const [externalEvents, setExternalEvents] = useState<ProviderMap<ExternalEvent[]>>({});
   
   // Animation values for swipe gestures
   const translateX = useRef(new Animated.Value(0)).current;
@@ -124,12 +160,16 @@ export default function CalendarScreen() {
   const fetchTasks = useCallback(async () => {
     if (!user) return;
 
+    // Recurring sessions are expanded for the visible window (see visibleTasks)
+    fetchRecurrenceRules(user.id).then(setRecurrenceRules);
+
     try {
       // Try to fetch with color field first, fallback to without color if it fails
       let { data, error } = await supabase
         .from('tasks')
         .select(`
           *,
+          ${TASK_SESSIONS_EMBED},
           goal:goals(id, title, description, color)
         `)
         .eq('user_id', user.id)
@@ -141,6 +181,7 @@ export default function CalendarScreen() {
         .from('tasks')
         .select(`
           *,
+          ${TASK_SESSIONS_EMBED},
           goal:goals(id, title, description)
         `)
         .eq('user_id', user.id)
@@ -168,6 +209,7 @@ export default function CalendarScreen() {
               .from('tasks')
               .select(`
                 *,
+                ${TASK_SESSIONS_EMBED},
                 goal:goals(id, title, description, color)
               `)
               .eq('user_id', user.id)
@@ -177,6 +219,7 @@ export default function CalendarScreen() {
                 .from('tasks')
                 .select(`
                   *,
+                  ${TASK_SESSIONS_EMBED},
                   goal:goals(id, title, description)
                 `)
                 .eq('user_id', user.id)
@@ -248,108 +291,69 @@ export default function CalendarScreen() {
     }
   }, [user]);
 
-  const resolveAndPersistCalendarPrefs = useCallback(async (): Promise<{ google: boolean; apple: boolean }> => {
-    if (!user) return { google: false, apple: false };
+  const resolveAndPersistCalendarPrefs = useCallback(async (): Promise<ProviderMap<boolean>> => {
+    if (!user) return {};
     try {
-      const [{ data: ca }, { data: prof }, perm] = await Promise.all([
-        supabase.from('calendar_accounts').select('id').limit(1),
-        supabase.from('user_planning_profile').select('preferences').eq('user_id', user.id).maybeSingle(),
-        ExpoCalendar.getCalendarPermissionsAsync(),
-      ]);
-      const googleConnected = (ca?.length ?? 0) > 0;
-      const prefs = (prof as any)?.preferences || {};
-      const hasShowG = Object.prototype.hasOwnProperty.call(prefs, 'showGoogleEvents');
-      const hasShowA = Object.prototype.hasOwnProperty.call(prefs, 'showAppleEvents');
-      const effective = {
-        google: hasShowG ? !!prefs.showGoogleEvents : googleConnected,
-        apple: hasShowA ? !!prefs.showAppleEvents : perm.status === 'granted',
-      };
-      if (!hasShowG || !hasShowA) {
-        const merged = { ...prefs };
-        if (!hasShowG) merged.showGoogleEvents = effective.google;
-        if (!hasShowA) merged.showAppleEvents = effective.apple;
-        await supabase
-          .from('user_planning_profile')
-          .upsert({ user_id: user.id, preferences: merged }, { onConflict: 'user_id' });
-      }
-      setShowGoogleEvents(effective.google);
-      setShowAppleEvents(effective.apple);
-      return effective;
+      const { show } = await resolveCalendarProviders(user.id);
+      // Keep the same object when nothing changed so dependent callbacks stay stable
+      setShowEvents(prev => JSON.stringify(prev) === JSON.stringify(show) ? prev : show);
+      return show;
     } catch {
-      return { google: showGoogleEvents, apple: showAppleEvents };
+      return showEvents;
     }
-  }, [user, showGoogleEvents, showAppleEvents]);
+  }, [user, showEvents]);
+
+  const syncExternalEvents = useCallback((show: ProviderMap<boolean>) => {
+    if (!user) return Promise.resolve();
+    return Promise.all(
+      getCalendarProviders()
+        .filter(provider => show[provider.id] && provider.sync)
+        .map(provider => provider.sync!(user.id).catch(() => {}))
+    ).then(() => {});
+  }, [user]);
 
-  const fetchGoogleEvents = useCallback(async (force?: boolean) => {
-    if (!user || (!showGoogleEvents && !force)) return;
-    try {
-      // Check connection
-      const acc = await supabase.from('calendar_accounts').select('id').limit(1);
-      if (acc.error || (acc.data?.length ?? 0) === 0) { setGoogleEvents([]); return; }
-      // Compute window (month around currentDate)
-      const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-      start.setDate(start.getDate() - 7);
-      const end = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
-      end.setDate(end.getDate() + 7);
-      const supaUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const projectRef = supaUrl.replace('https://','').split('.')[0];
-      const session = await supabase.auth.getSession();
-      const jwt = session.data.session?.access_token;
-      if (!jwt) return;
-      const url = `https://${projectRef}.functions.supabase.co/calendar_proxy/events?start=${encodeURIComponent(start.toISOString())}&end=${encodeURIComponent(end.toISOString())}`;
-      const res = await fetch(url, { headers: { Authorization: `Bearer ${jwt}` } });
-      if (!res.ok) { 
-        if (res.status === 404) { setGoogleEvents([]); }
-        return; 
+  const fetchExternalEvents = useCallback(async (show: ProviderMap<boolean> = showEvents) => {
+    if (!user) return;
+    // Compute window (month around currentDate)
+    const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+    start.setDate(start.getDate() - 7);
+    const end = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+    end.setDate(end.getDate() + 7);
+    await Promise.all(getCalendarProviders().map(async (provider) => {
+      if (!show[provider.id]) return;
+      try {
+        const events = await provider.fetchEvents(user.id, { start, end });
+        setExternalEvents(prev => ({ ...prev, [provider.id]: events }));
+      } catch (e) {
+        // Preserve last known events on transient errors
       }
-      const json = await res.json();
-      const ev: any[] = json.events || [];
-      setGoogleEvents(ev.map(e => ({ id: `${e.calendarId}:${e.id}`, title: e.title, start: e.start, end: e.end, allDay: e.allDay, location: e.location || null, htmlLink: e.htmlLink || null })));
-    } catch (e) {
-      // Preserve last known events on transient errors
-    }
-  }, [user, showGoogleEvents, currentDate]);
+    }));
+  }, [user, showEvents, currentDate]);
 
-  const fetchAppleEvents = useCallback(async (force?: boolean) => {
-    if (!user || (!showAppleEvents && !force) || Platform.OS !== 'ios') return;
-    try {
-      // Compute window (month around currentDate)
-      const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-      start.setDate(start.getDate() - 7);
-      const end = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
-      end.setDate(end.getDate() + 7);
-      const ev = await getEventsInRange({ start, end });
-      setAppleEvents(ev.map(e => ({ id: `${e.calendarId}:${e.id}`, title: e.title, start: e.start, end: e.end, allDay: e.allDay })));
-    } catch (e) {
-      // Preserve last known events on transient errors
-    }
-  }, [user, showAppleEvents, currentDate]);
+  // Latest fetchExternalEvents for the realtime listeners, which outlive date changes
+  const fetchExternalEventsRef = useRef(fetchExternalEvents);
+  fetchExternalEventsRef.current = fetchExternalEvents;
 
   useEffect(() => {
     const fetchData = async () => {
       setLoading(true);
-      const prefs = await resolveAndPersistCalendarPrefs();
+      const show = await resolveAndPersistCalendarPrefs();
+      syncExternalEvents(show);
       await Promise.all([fetchTasks(), fetchGoals()]);
-      await Promise.all([
-        fetchGoogleEvents(prefs.google === true),
-        fetchAppleEvents(prefs.apple === true),
-      ]);
+      await fetchExternalEvents(show);
       setLoading(false);
     };
 
     fetchData();
-  }, [fetchTasks, fetchGoals, resolveAndPersistCalendarPrefs, fetchGoogleEvents, fetchAppleEvents]);
+  }, [fetchTasks, fetchGoals, resolveAndPersistCalendarPrefs, syncExternalEvents, fetchExternalEvents]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    const prefs = await resolveAndPersistCalendarPrefs();
-    await Promise.all([fetchGoals(), fetchTasks()]);
-    await Promise.all([
-      fetchGoogleEvents(prefs.google === true),
-      fetchAppleEvents(prefs.apple === true),
-    ]);
+    const show = await resolveAndPersistCalendarPrefs();
+    await Promise.all([fetchGoals(), fetchTasks(), syncExternalEvents(show)]);
+    await fetchExternalEvents(show);
     setRefreshing(false);
-  }, [fetchGoals, fetchTasks, fetchGoogleEvents, fetchAppleEvents, resolveAndPersistCalendarPrefs]);
+  }, [fetchGoals, fetchTasks, syncExternalEvents, fetchExternalEvents, resolveAndPersistCalendarPrefs]);
 
   // Periodic refresh for general data consistency (no preference rewrites)
   useEffect(() => {
@@ -357,49 +361,39 @@ export default function CalendarScreen() {
     const slowPollInterval = setInterval(() => {
       (async () => {
         await Promise.all([fetchGoals(), fetchTasks()]);
-        await Promise.all([
-          fetchGoogleEvents(),
-          fetchAppleEvents(),
-        ]);
+        await fetchExternalEvents();
       })().catch(()=>{});
     }, 60000); // Poll every 60 seconds
 
     return () => {
       clearInterval(slowPollInterval);
     };
-  }, [user, fetchGoals, fetchTasks, fetchGoogleEvents, fetchAppleEvents]);
+  }, [user, fetchGoals, fetchTasks, fetchExternalEvents]);
 
   // Refetch when currentDate (visible window) changes with a short debounce
   useEffect(() => {
     if (!user) return;
     if (dateDebounceRef.current) clearTimeout(dateDebounceRef.current);
     dateDebounceRef.current = setTimeout(() => {
-      fetchGoogleEvents();
-      fetchAppleEvents();
+      fetchExternalEvents();
     }, 300);
     return () => {
       if (dateDebounceRef.current) clearTimeout(dateDebounceRef.current);
     };
-  }, [user, currentDate, fetchGoogleEvents, fetchAppleEvents]);
+  }, [user, currentDate, fetchExternalEvents]);
 
-  // React to toggle changes: fetch when enabled, clear when disabled
+  // React to toggle changes: fetch the shown providers, clear the hidden ones
   useEffect(() => {
     if (!user) return;
-    if (showGoogleEvents) {
-      fetchGoogleEvents(true);
-    } else {
-      setGoogleEvents([]);
-    }
-  }, [user, showGoogleEvents, fetchGoogleEvents]);
-
-  useEffect(() => {
-    if (!user || Platform.OS !== 'ios') return;
-    if (showAppleEvents) {
-      fetchAppleEvents(true);
-    } else {
-      setAppleEvents([]);
-    }
-  }, [user, showAppleEvents, fetchAppleEvents]);
+    setExternalEvents(prev => {
+      const next: ProviderMap<ExternalEvent[]> = {};
+      getCalendarProviders().forEach(provider => {
+        if (showEvents[provider.id] && prev[provider.id]) next[provider.id] = prev[provider.id];
+      });
+      return next;
+    });
+    fetchExternalEvents();
+  }, [user, showEvents, fetchExternalEvents]);
 
   // Note: Task colors now reference goal colors directly from goals state
   // No need to update individual task colors anymore
@@ -477,18 +471,88 @@ export default function CalendarScreen() {
       )
       .subscribe();
 
+    // Listen for changes to recurrence rules (series edits, cancelled occurrences)
+    const rulesSubscription = supabase
+      .channel('calendar_recurrence_rules_changes')
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'recurrence_rules',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchRecurrenceRules(user.id).then(setRecurrenceRules);
+        }
+      )
+      .subscribe();
+
+    // Listen for session changes of split tasks
+    const sessionsSubscription = supabase
+      .channel('calendar_task_sessions_changes')
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_sessions',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchTasks();
+        }
+      )
+      .subscribe();
+
     return () => {
       tasksSubscription.unsubscribe();
       goalsSubscription.unsubscribe();
+      rulesSubscription.unsubscribe();
+      sessionsSubscription.unsubscribe();
     };
   }, [user, fetchTasks, fetchGoals, realtimeRefreshKey]);
 
+  // Server-side event caches of shown providers (e.g. google_events, kept by calendar_proxy)
+  const changesTables = useMemo(
+    () => getCalendarProviders()
+      .filter(provider => showEvents[provider.id] && provider.changesTable)
+      .map(provider => provider.changesTable!)
+      .join(','),
+    [showEvents]
+  );
+
+  useEffect(() => {
+    if (!user || !changesTables) return;
+    let debounce: ReturnType<typeof setTimeout> | null = null;
+    const subscriptions = changesTables.split(',').map(table => supabase
+      .channel(`calendar_${table}_changes`)
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table,
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          // A sync writes many rows at once; refetch once it settles
+          if (debounce) clearTimeout(debounce);
+          debounce = setTimeout(() => fetchExternalEventsRef.current(), 500);
+        }
+      )
+      .subscribe());
+
+    return () => {
+      if (debounce) clearTimeout(debounce);
+      subscriptions.forEach(subscription => subscription.unsubscribe());
+    };
+  }, [user, changesTables, realtimeRefreshKey]);
+
   // Refresh data when app comes back to foreground
   useEffect(() => {
     const handleAppStateChange = (nextAppState: string) => {
       if (nextAppState === 'active' && user) {
         console.log('CalendarScreen: App became active - refreshing data and realtime');
         Promise.all([fetchGoals(), fetchTasks()]).catch(() => {});
+        syncExternalEvents(showEvents);
         // Reinitialize realtime listeners to avoid stale connections
         setRealtimeRefreshKey((k) => k + 1);
       }
@@ -496,12 +560,131 @@ export default function CalendarScreen() {
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [user, fetchGoals, fetchTasks]);
+  }, [user, fetchGoals, fetchTasks, syncExternalEvents, showEvents]);
+
+  // Task rows plus recurring occurrences for the month around currentDate (±7 days, like external events).
+  // A task split into sessions becomes one entry per session, placed at the session's start.
+  const visibleTasks = useMemo(() => {
+    const rows: Task[] = tasks.flatMap((task) => {
+      const sessions = sortSessions(task.task_sessions);
+      if (sessions.length === 0) return [task];
+      return sessions.map((session, index) => ({
+        ...task,
+        due_at: session.start_at,
+        duration_minutes: Math.round((new Date(session.end_at).getTime() - new Date(session.start_at).getTime()) / 60000),
+        status: session.status,
+        completed_at: session.completed_at ?? undefined,
+        session,
+        session_index: index,
+        session_count: sessions.length,
+      }));
+    });
+    if (recurrenceRules.length === 0) return rows;
+    const start = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+    start.setDate(start.getDate() - 7);
+    const end = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0, 23, 59, 59);
+    end.setDate(end.getDate() + 7);
+    const occurrences: Task[] = expandRuleOccurrences(recurrenceRules, tasks, { start, end }).map((o) => {
+      const goal = goals.find(g => (g.id || g.goal_id) === o.goal_id);
+      return {
+        ...o,
+        goal: goal ? { id: o.goal_id, title: goal.title, description: goal.description, color: goal.color } : undefined,
+      };
+    });
+    return [...rows, ...occurrences];
+  }, [tasks, recurrenceRules, goals, currentDate]);
+
+  const shownEvents = useMemo((): ConflictEvent[] => (
+    getCalendarProviders()
+      .filter(provider => showEvents[provider.id])
+      .flatMap(provider => (externalEvents[provider.id] || []).map(e => ({
+        id: e.id,
+        title: e.title,
+        start: e.start,
+        end: e.end,
+        allDay: e.allDay,
+        source: provider.name,
+      })))
+  ), [externalEvents, showEvents]);
+
+  // Pending tasks that overlap an event of a shown calendar provider
+  const conflicts = useMemo(
+    () => findConflicts(visibleTasks.filter(t => t.status === 'pending').map(toConflictTask), shownEvents),
+    [visibleTasks, shownEvents]
+  );
+
+  // Local dates with at least one conflict, for the week and month indicators
+  const conflictDates = useMemo(() => {
+    const dates = new Set<string>();
+    visibleTasks.forEach(task => {
+      if (!conflicts[conflictKey(task)]) return;
+      const d = new Date(task.due_at);
+      dates.add(d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0'));
+    });
+    return dates;
+  }, [visibleTasks, conflicts]);
+
+  const handleMoveToFreeSlot = async (task: Task) => {
+    if (!user) return;
+    const knownBusy = [
+      ...visibleTasks
+        .filter(t => t.status === 'pending' && conflictKey(t) !== conflictKey(task))
+        .map(t => taskInterval(toConflictTask(t))),
+      ...shownEvents.map(eventInterval).filter((iv): iv is Interval => iv !== null),
+    ];
+    const slot = await findFreeSlotForTask(user.id, task, knownBusy);
+    if (!slot) {
+      Alert.alert('No free slot', 'Nothing fits in your available hours over the next two weeks.');
+      return;
+    }
+    await moveTaskToSlot(user.id, task, slot);
+    setShowTaskViewModal(false);
+    fetchTasks();
+    Alert.alert('Task moved', `Moved to ${new Date(slot.start).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`);
+  };
+
+  const applySessionUpdate = (taskId: string, session: TaskSession) => {
+    setTasks(prev =>
+      prev.map(t =>
+        t.id === taskId
+          ? { ...t, task_sessions: (t.task_sessions || []).map(s => (s.id === session.id ? { ...s, ...session } : s)) }
+          : t
+      )
+    );
+  };
 
   const handleTaskToggle = async (task: Task) => {
     if (!user) return;
 
+    // Completing a virtual occurrence creates its override row; realtime/refetch picks it up
+    if (isOccurrenceId(task.id)) {
+      const ref = parseOccurrenceId(task.id);
+      const rule = ref ? recurrenceRules.find(r => r.id === ref.ruleId) : undefined;
+      if (!ref || !rule) return;
+      try {
+        await materializeOccurrence(rule, ref.instanceAt, { status: 'done', completed_at: new Date().toISOString() });
+        fetchTasks();
+      } catch (error) {
+        console.error('Error completing recurring task:', error);
+        Alert.alert('Error', 'Failed to update task');
+      }
+      return;
+    }
+
     const newStatus = task.status === 'done' ? 'pending' : 'done';
+
+    if (task.session) {
+      try {
+        await updateTaskSessionStatus(task.session.id, newStatus);
+        applySessionUpdate(task.id, { ...task.session, status: newStatus });
+        // The trigger may have completed the whole task
+        fetchTasks();
+      } catch (error) {
+        console.error('Error updating task session:', error);
+        Alert.alert('Error', 'Failed to update task');
+      }
+      return;
+    }
     
     try {
       const { error } = await supabase
@@ -534,7 +717,7 @@ export default function CalendarScreen() {
   };
 
   const handleTaskToggleForModal = async (taskId: string, completed: boolean) => {
-    const task = tasks.find(t => t.id === taskId);
+    const task = visibleTasks.find(t => t.id === taskId);
     if (task) {
       await handleTaskToggle(task);
     }
@@ -564,7 +747,7 @@ export default function CalendarScreen() {
   };
 
   const getTasksForDate = (date: string) => {
-    const filteredTasks = tasks.filter(task => {
+    const filteredTasks = visibleTasks.filter(task => {
       // Parse the task date and convert to local date string
       const taskDate = new Date(task.due_at);
       const taskDateString = taskDate.getFullYear() + '-' + 
@@ -644,9 +827,12 @@ export default function CalendarScreen() {
       const d = new Date(iso);
       return d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0');
     };
-    const countGoogle = showGoogleEvents ? googleEvents.filter(e => dateFromEvent(e.start, e.allDay) === dateString).length : 0;
-    const countApple = showAppleEvents ? appleEvents.filter(e => dateFromEvent(e.start, e.allDay) === dateString).length : 0;
-    return countTasks + countGoogle + countApple;
+    const countExternal = getCalendarProviders().reduce((count, provider) => (
+      count + (showEvents[provider.id]
+        ? (externalEvents[provider.id] || []).filter(e => dateFromEvent(e.start, e.allDay) === dateString).length
+        : 0)
+    ), 0);
+    return countTasks + countExternal;
   };
 
   // Format date for display
@@ -1094,6 +1280,14 @@ export default function CalendarScreen() {
               />
             </TouchableOpacity>
           </View>
+          {pendingSyncCount > 0 && (
+            <View style={[styles.syncBadge, { backgroundColor: colors.card }]}>
+              <CloudOff size={14} color={colors.textSecondary} />
+              <Text style={[styles.syncBadgeText, { color: colors.textSecondary }]}>
+                {pendingSyncCount} pending
+              </Text>
+            </View>
+          )}
       </View>
 
       {/* Week View Calendar - only show when month is not expanded */}
@@ -1162,7 +1356,7 @@ export default function CalendarScreen() {
                                 key={dotIndex}
                                 style={[
                                   styles.eventDot,
-                                  { backgroundColor: isDark ? 'white' : 'black' }
+                                  { backgroundColor: conflictDates.has(dateString) ? colors.warning : (isDark ? 'white' : 'black') }
                                 ]}
                               />
                             ))}
@@ -1227,7 +1421,7 @@ export default function CalendarScreen() {
                                   key={dotIndex}
                                   style={[
                                     styles.eventDot,
-                                    { backgroundColor: isDark ? 'white' : 'black' }
+                                    { backgroundColor: conflictDates.has(dateString) ? colors.warning : (isDark ? 'white' : 'black') }
                                   ]}
                                 />
                               ))}
@@ -1310,7 +1504,7 @@ export default function CalendarScreen() {
                                 key={dotIndex}
                                 style={[
                                   styles.eventDot,
-                                  { backgroundColor: isDark ? 'white' : 'black' }
+                                  { backgroundColor: conflictDates.has(dateString) ? colors.warning : (isDark ? 'white' : 'black') }
                                 ]}
                               />
                             ))}
@@ -1344,7 +1538,7 @@ export default function CalendarScreen() {
           </Text>
         </View>
 
-        {tasksForSelectedDate.length > 0 || (showGoogleEvents && googleEvents.length > 0) || (showAppleEvents && appleEvents.length > 0) ? (
+        {tasksForSelectedDate.length > 0 || getCalendarProviders().some(p => showEvents[p.id] && (externalEvents[p.id]?.length ?? 0) > 0) ? (
           <View style={styles.eventsList}>
             {tasksForSelectedDate.map((task) => {
               // Find the goal for this task from the goals state
@@ -1358,7 +1552,7 @@ export default function CalendarScreen() {
               
               return (
                 <TouchableOpacity
-                  key={task.id}
+                  key={task.session?.id ?? task.id}
                   style={[
                     styles.eventCard,
                     { backgroundColor: colors.card },
@@ -1385,6 +1579,22 @@ export default function CalendarScreen() {
                       >
                         {task.title}
                       </Text>
+                      {conflicts[conflictKey(task)] && (
+                        <View style={styles.conflictRow}>
+                          <AlertTriangle size={12} color={colors.warning} />
+                          <Text style={[styles.eventTime, { color: colors.warning }]} numberOfLines={1}>
+                            {`Overlaps ${conflicts[conflictKey(task)].map(e => e.title).join(', ')}`}
+                          </Text>
+                        </View>
+                      )}
+                      {task.session && task.task_sessions && (() => {
+                        const progress = getSessionProgress(task.task_sessions);
+                        return (
+                          <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
+                            {`Session ${(task.session_index ?? 0) + 1} of ${task.session_count} · ${progress.done}/${progress.total} done`}
+                          </Text>
+                        );
+                      })()}
                   
                   <View style={styles.eventFooter}>
                     <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
@@ -1408,9 +1618,9 @@ export default function CalendarScreen() {
                 </TouchableOpacity>
               );
             })}
-            {showGoogleEvents && (
-              <>
-                {googleEvents.filter(e => {
+            {getCalendarProviders().filter(provider => showEvents[provider.id]).map(provider => (
+              <React.Fragment key={provider.id}>
+                {(externalEvents[provider.id] || []).filter(e => {
                   const ds = e.allDay && typeof e.start === 'string'
                     ? e.start.slice(0,10)
                     : (() => {
@@ -1419,11 +1629,11 @@ export default function CalendarScreen() {
                       })();
                   return ds === selectedDate;
                 }).map(ev => (
-                  <TouchableOpacity key={ev.id} style={[styles.eventCard, { backgroundColor: colors.card }, shadowSm(isDark)]} activeOpacity={0.7} onPress={() => setSelectedGoogleEvent(ev)}>
+                  <TouchableOpacity key={ev.id} style={[styles.eventCard, { backgroundColor: colors.card }, shadowSm(isDark)]} activeOpacity={0.7} onPress={() => setSelectedExternalEvent({ provider, event: ev })}>
                     <View style={styles.eventContent}>
                       <View style={styles.eventCategoryContainer}>
-                        <View style={[styles.eventColorIndicator, { backgroundColor: '#34A853' }]} />
-                        <Text style={[styles.eventCategory, { color: '#34A853' }]}>Google Calendar</Text>
+                        <View style={[styles.eventColorIndicator, { backgroundColor: provider.color }]} />
+                        <Text style={[styles.eventCategory, { color: provider.color }]}>{provider.name}</Text>
                       </View>
                       <Text style={[styles.eventTitle, { color: colors.text }]} numberOfLines={2}>{ev.title}</Text>
                       <View style={styles.eventFooter}>
@@ -1437,38 +1647,8 @@ export default function CalendarScreen() {
                     <ChevronRight size={16} color={colors.textSecondary} />
                   </TouchableOpacity>
                 ))}
-              </>
-            )}
-            {showAppleEvents && Platform.OS === 'ios' && (
-              <>
-                {appleEvents.filter(e => {
-                  const ds = e.allDay && typeof e.start === 'string'
-                    ? e.start.slice(0,10)
-                    : (() => {
-                        const dt = new Date(e.start);
-                        return dt.getFullYear() + '-' + String(dt.getMonth()+1).padStart(2,'0') + '-' + String(dt.getDate()).padStart(2,'0');
-                      })();
-                  return ds === selectedDate;
-                }).map(ev => (
-                  <View key={ev.id} style={[styles.eventCard, { backgroundColor: colors.card }, shadowSm(isDark)]}>
-                    <View style={styles.eventContent}>
-                      <View style={styles.eventCategoryContainer}>
-                        <View style={[styles.eventColorIndicator, { backgroundColor: '#007AFF' }]} />
-                        <Text style={[styles.eventCategory, { color: '#007AFF' }]}>Apple Calendar</Text>
-                      </View>
-                      <Text style={[styles.eventTitle, { color: colors.text }]} numberOfLines={2}>{ev.title}</Text>
-                      <View style={styles.eventFooter}>
-                        <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
-                          {new Date(ev.start).toLocaleTimeString('en-US',{hour:'numeric',minute:'2-digit'})}
-                          {` – `}
-                          {new Date(ev.end).toLocaleTimeString('en-US',{hour:'numeric',minute:'2-digit'})}
-                        </Text>
-                      </View>
-                    </View>
-                  </View>
-                ))}
-              </>
-            )}
+              </React.Fragment>
+            ))}
           </View>
         ) : (
           <View style={styles.emptyState}>
@@ -1498,64 +1678,74 @@ export default function CalendarScreen() {
       <TaskViewModal
         visible={showTaskViewModal}
         task={selectedTask}
+        conflicts={selectedTask ? conflicts[conflictKey(selectedTask)] : undefined}
+        onMoveToFreeSlot={() => handleMoveToFreeSlot(selectedTask)}
         onClose={() => setShowTaskViewModal(false)}
         onEdit={() => setShowTaskViewModal(false)}
         onTaskUpdated={(t:any) => {
-          setTasks(prev => prev.map(x => x.id === t.id ? { ...x, ...t } : x));
+          if (t.session) {
+            applySessionUpdate(t.id, t.session);
+            fetchTasks();
+          } else {
+            setTasks(prev => prev.map(x => x.id === t.id ? { ...x, ...t } : x));
+          }
           setShowTaskViewModal(false);
         }}
         onTaskDeleted={(id:string) => {
           setTasks(prev => prev.filter(x => x.id !== id));
+          // Deleting an occurrence edits its rule rather than a tasks row
+          if (isOccurrenceId(id)) fetchTasks();
           setShowTaskViewModal(false);
         }}
       />
 
-      {/* Google event info (read-only) */}
-      <Modal visible={!!selectedGoogleEvent} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setSelectedGoogleEvent(null)}>
+      {/* External calendar event info (read-only) */}
+      <Modal visible={!!selectedExternalEvent} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setSelectedExternalEvent(null)}>
         <View style={[styles.gcModalContainer, { backgroundColor: colors.background }]}>
           <View style={[styles.gcHeader, { borderBottomColor: isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)' }]}> 
-            <Text style={[styles.gcHeaderTitle, { color: colors.text }]}>Google Calendar Event</Text>
-            <TouchableOpacity onPress={() => setSelectedGoogleEvent(null)} style={styles.gcHeaderClose}>
+            <Text style={[styles.gcHeaderTitle, { color: colors.text }]}>{selectedExternalEvent?.provider.name} Event</Text>
+            <TouchableOpacity onPress={() => setSelectedExternalEvent(null)} style={styles.gcHeaderClose}>
               <X size={20} color={colors.text} />
             </TouchableOpacity>
           </View>
-          {selectedGoogleEvent && (
+          {selectedExternalEvent && (
             <ScrollView style={styles.gcContent} showsVerticalScrollIndicator={false}>
-              <Text style={[styles.gcTitle, { color: colors.text }]} numberOfLines={3}>{selectedGoogleEvent.title || '(no title)'}</Text>
+              <Text style={[styles.gcTitle, { color: colors.text }]} numberOfLines={3}>{selectedExternalEvent.event.title || '(no title)'}</Text>
 
               <View style={styles.gcRow}>
                 <CalendarIcon size={18} color={colors.textSecondary} />
                 <Text style={[styles.gcText, { color: colors.text }]}>
-                  {new Date(selectedGoogleEvent.start).toLocaleString()} – {new Date(selectedGoogleEvent.end).toLocaleString()}
+                  {new Date(selectedExternalEvent.event.start).toLocaleString()} – {new Date(selectedExternalEvent.event.end).toLocaleString()}
                 </Text>
               </View>
-              {selectedGoogleEvent.allDay && (
+              {selectedExternalEvent.event.allDay && (
                 <View style={styles.gcRow}>
                   <Clock size={18} color={colors.textSecondary} />
                   <Text style={[styles.gcText, { color: colors.text }]}>All-day</Text>
                 </View>
               )}
-              {selectedGoogleEvent.location ? (
+              {selectedExternalEvent.event.location ? (
                 <View style={styles.gcRow}>
                   <Text style={[styles.gcLabel, { color: colors.textSecondary }]}>Location</Text>
-                  <Text style={[styles.gcText, { color: colors.text }]}>{selectedGoogleEvent.location}</Text>
+                  <Text style={[styles.gcText, { color: colors.text }]}>{selectedExternalEvent.event.location}</Text>
                 </View>
               ) : null}
 
               <View style={styles.gcActions}>
-                <TouchableOpacity
-                  style={[styles.gcPrimaryButton, { backgroundColor: colors.primary }]}
-                  onPress={() => {
-                    const link = selectedGoogleEvent.htmlLink || 'https://calendar.google.com';
-                    Linking.openURL(link).catch(()=>{});
-                  }}
-                  activeOpacity={0.8}
-                >
-                  <Text style={[styles.gcPrimaryButtonText, { color: colors.background }]}>Open in Google Calendar</Text>
-                </TouchableOpacity>
+                {selectedExternalEvent.event.htmlLink ? (
+                  <TouchableOpacity
+                    style={[styles.gcPrimaryButton, { backgroundColor: colors.primary }]}
+                    onPress={() => {
+                      Linking.openURL(selectedExternalEvent.event.htmlLink!).catch(()=>{});
+                    }}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.gcPrimaryButtonText, { color: colors.background }]}>Open in {selectedExternalEvent.provider.name}</Text>
+                  </TouchableOpacity>
+                ) : null}
                 <TouchableOpacity
                   style={[styles.gcSecondaryButton, { borderColor: colors.border }]}
-                  onPress={() => setSelectedGoogleEvent(null)}
+                  onPress={() => setSelectedExternalEvent(null)}
                   activeOpacity={0.8}
                 >
                   <Text style={[styles.gcSecondaryButtonText, { color: colors.text }]}>Close</Text>
@@ -1587,6 +1777,19 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  syncBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
   yearText: {
     fontSize: 14,
     fontWeight: '400',
@@ -1655,6 +1858,11 @@ const styles = StyleSheet.create({
     height: 4,
     borderRadius: 2,
   },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   scrollContainer: {
     flex: 1,
   },
@@ -1787,7 +1995,7 @@ const styles = StyleSheet.create({
     left: 0,
     height: 80, // Match container height
   },
-  // Google event modal styles
+  // External event modal styles
   gcModalContainer: {
     flex: 1,
   },
@@ -23,6 +23,9 @@ import GoalEditModal from '../components/GoalEditModal';
 import GoalCreationChoiceModal from '../components/GoalCreationChoiceModal';
 import ManualGoalCreationModal from '../components/ManualGoalCreationModal';
 import TaskCreationModal from '../components/TaskCreationModal';
+import WorkloadChart from '../components/WorkloadChart';
+import { getWorkload } from '../../services/workloadService';
+import { WorkloadGoal, WorkloadReport } from '@/lib/ai/workload';
 import { shadowSm, insetTopLight, insetBottomDark, lighten } from '@/ui/depth';
 
 interface Goal {
@@ -59,6 +62,7 @@ export default function GoalsScreen() {
   const [showTaskCreationModal, setShowTaskCreationModal] = useState(false);
   const [selectedGoalForTask, setSelectedGoalForTask] = useState<GoalWithProgress | null>(null);
   const [showGoalEditModal, setShowGoalEditModal] = useState(false);
+  const [workload, setWorkload] = useState<{ report: WorkloadReport; goals: WorkloadGoal[] } | null>(null);
 
   const fetchGoals = useCallback(async () => {
     if (!user) return;
@@ -145,6 +149,19 @@ export default function GoalsScreen() {
     fetchGoals();
   }, [fetchGoals]);
 
+  // The load chart follows the goals list, which refetches on goal and task changes
+  useEffect(() => {
+    if (!user || goals.length === 0) {
+      setWorkload(null);
+      return;
+    }
+    let cancelled = false;
+    getWorkload(user.id)
+      .then(({ input, report }) => { if (!cancelled) setWorkload({ report, goals: input.goals }); })
+      .catch(error => console.warn('Error loading workload:', error));
+    return () => { cancelled = true; };
+  }, [user, goals]);
+
   // Set up Realtime listeners
   useEffect(() => {
     if (!user) return;
@@ -472,6 +489,7 @@ export default function GoalsScreen() {
             tintColor={colors.primary}
           />
         }
+        ListHeaderComponent={workload ? <WorkloadChart report={workload.report} goals={workload.goals} /> : null}
         ListEmptyComponent={renderEmptyState}
         showsVerticalScrollIndicator={false}
       />
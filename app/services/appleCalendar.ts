@@ -23,6 +23,15 @@ export async function requestCalendarPermission(): Promise<boolean> {
   }
 }
 
+export async function hasCalendarPermission(): Promise<boolean> {
+  if (Platform.OS !== 'ios') return false;
+  try {
+    return (await Calendar.getCalendarPermissionsAsync()).status === 'granted';
+  } catch {
+    return false;
+  }
+}
+
 export async function listEventCalendars(): Promise<Calendar.Calendar[]> {
   if (Platform.OS !== 'ios') return [];
   try {
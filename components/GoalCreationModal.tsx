@@ -18,6 +18,10 @@ import { useAuth } from '@/providers/AuthProvider';
 import { useGoals } from '@/providers/GoalsProvider';
 import { useUser } from '@/providers/UserProvider';
 import { aiService } from '@/lib/ai-service';
+import { featureGate, Feature } from '@/services/featureGate';
+import { SchedulePlan } from '@/services/schedulePreviewService';
+import { confirmWorkload, getNewGoalWarnings } from '@/services/workloadService';
+import SchedulePreviewModal from '@/app/components/SchedulePreviewModal';
 
 interface Message {
   id: string;
@@ -70,7 +74,7 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
   const { colors, isDark } = useTheme();
   const { user } = useAuth();
   const { user: userProfile } = useUser();
-  const { addGoal } = useGoals();
+  const { addGoal, refreshGoals, refreshTasks } = useGoals();
   const insets = useSafeAreaInsets();
   const scrollViewRef = useRef<ScrollView>(null);
   
@@ -80,6 +84,7 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
   const [currentStage, setCurrentStage] = useState<ConversationStage>(CONVERSATION_STAGES.INITIAL);
   const [goalData, setGoalData] = useState<GoalData>({});
   const [generatedPlan, setGeneratedPlan] = useState<any>(null);
+  const [previewPlan, setPreviewPlan] = useState<SchedulePlan | null>(null);
 
   // AI service will be used directly
 
@@ -199,7 +204,7 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
         dateOfBirth: userProfile?.dateOfBirth ?? null,
       });
 
-      addMessage('assistant', response.content);
+      addMessage('assistant', response.message);
       
       // Don't progress conversation here - let the user respond first
       // The conversation will progress when the user sends their next message
@@ -505,6 +510,33 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
           dateOfBirth: userProfile?.dateOfBirth ?? null,
         });
 
+        // With smart scheduling the user places the tasks in the schedule preview, which saves the goal
+        const access = await featureGate.canAccessFeature(Feature.SMART_SCHEDULING, user.id);
+        if (access.hasAccess && tasks?.length) {
+          setPreviewPlan({
+            goal: { title: goal.title, description: goal.description },
+            tasks: tasks.map((task: any, index: number) => ({
+              id: `task-${index + 1}`,
+              title: task.title,
+              notes: task.description,
+              estimatedMinutes: task.estimated_duration || 60,
+              earliestStartDate: task.date,
+            })),
+          });
+          return;
+        }
+
+        const warnings = await getNewGoalWarnings(user.id, { title: goal.title }, {
+          tasks: (tasks || []).map((task: any) => ({
+            due_at: task.date ? new Date(`${task.date}T${task.time || '09:00'}`).toISOString() : undefined,
+            duration_minutes: task.estimated_duration,
+          })),
+        });
+        if (!(await confirmWorkload(warnings))) {
+          addMessage('assistant', "No problem! Would you like me to modify the plan or start over with a different goal?");
+          return;
+        }
+
         const newGoal = {
           title: goal.title,
           description: goal.description,
@@ -545,6 +577,22 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
     }
   };
 
+  const handlePreviewCommitted = async (goalId: string) => {
+    const plan = previewPlan;
+    setPreviewPlan(null);
+    await Promise.all([refreshGoals(), refreshTasks()]);
+    addMessage('assistant', `Perfect! Your goal has been added with ${plan?.tasks.length || 0} scheduled tasks. You can track your progress and follow your personalized plan. Good luck! 🎯`);
+    onGoalCreated({ id: goalId, ...plan?.goal });
+    setTimeout(() => {
+      onClose();
+    }, 2000);
+  };
+
+  const handlePreviewClosed = () => {
+    setPreviewPlan(null);
+    addMessage('assistant', "No problem! Would you like me to modify the plan or start over with a different goal?");
+  };
+
   const styles = StyleSheet.create({
     modalContainer: {
       flex: 1,
@@ -791,6 +839,12 @@ export default function GoalCreationModal({ visible, onClose, onGoalCreated, edi
           </View>
         </View>
       </KeyboardAvoidingView>
+      <SchedulePreviewModal
+        visible={!!previewPlan}
+        plan={previewPlan}
+        onClose={handlePreviewClosed}
+        onCommitted={handlePreviewCommitted}
+      />
     </Modal>
   );
 }
\ No newline at end of file
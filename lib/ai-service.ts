@@ -1,10 +1,11 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { parseDayExpression, parseDayTimes, DayOfWeek } from './ai/dayParser';
-import { buildScheduleWithDayTimes } from './ai/scheduler';
+import { buildRecurrenceRulesWithDayTimes, buildScheduleWithDayTimes, RecurrenceRuleDraft } from './ai/scheduler';
+import { Availability } from './ai/availability';
 import { parseTargetDateFromText, toISODateString } from './ai/dateParser';
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.EXPO_PUBLIC_GEMINI_API_KEY || '');
+import { sseLines } from './ai/llm';
+import { Plan, PlanZ } from './ai/planSchema';
+import { formatIssues, StructuredFailure, StructuredOutputError } from './ai/structuredOutput';
+import { supabase } from './supabase-client';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -29,32 +30,168 @@ export interface UserContext {
   dateOfBirth?: string | null; // YYYY-MM-DD
 }
 
+export interface CoachReply {
+  success: boolean;
+  message: string;
+  chatId?: string; // pass back with the next turn so the chat counts once against the weekly limit
+  limitReached?: boolean; // free tier: no chats left this week
+  cancelled?: boolean; // stopped by the caller; message is what had arrived
+  interrupted?: boolean; // the connection dropped mid-answer; message is what had arrived
+}
+
+export interface CoachStreamOptions {
+  onDelta?: (text: string) => void; // each piece of the answer as it arrives
+  signal?: AbortSignal; // aborting keeps what had arrived
+}
+
+class CoachStreamError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'CoachStreamError';
+  }
+}
+
+export interface GoalPlanResult {
+  success: boolean;
+  goal?: any;
+  tasks?: any[];
+  rules?: RecurrenceRuleDraft[];
+  error?: string;
+  failure?: StructuredFailure; // set when the model never produced a valid plan
+}
+
+/** Only what the coach needs: the profile fields the prompts mention. */
+function coachContext(userContext?: UserContext) {
+  const { age, gender, heightCm, weightKg, unitSystem, dateOfBirth } = userContext || {};
+  return { age, gender, heightCm, weightKg, unitSystem, dateOfBirth };
+}
+
 class AIService {
-  private model: any;
-  private proModel: any;
   private conversationState: Map<string, string> = new Map();
 
-  constructor() {
-    console.log('🔧 AI Service Constructor Debug:');
-    console.log('- EXPO_PUBLIC_GEMINI_API_KEY:', process.env.EXPO_PUBLIC_GEMINI_API_KEY ? 'SET' : 'NOT SET');
-    console.log('- API Key length:', process.env.EXPO_PUBLIC_GEMINI_API_KEY?.length || 0);
-    
-    try {
-      this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-      console.log('✅ Gemini model initialized successfully');
-    } catch (error) {
-      console.warn('❌ Gemini AI not initialized:', error);
-      this.model = null;
-    }
+  private async coachChatEndpoint(): Promise<{ url: string; jwt: string }> {
+    const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+    const { data: { session } } = await supabase.auth.getSession();
+    const jwt = session?.access_token;
+    if (!supaUrl || !jwt) throw new Error('Missing configuration or session.');
+    const projRef = supaUrl.replace('https://', '').split('.')[0];
+    return { url: `https://${projRef}.functions.supabase.co/coach_chat`, jwt };
+  }
 
-    // Initialize Gemini Pro for higher quality plan generation
-    try {
-      this.proModel = genAI.getGenerativeModel({ model: "gemini-2.0-pro" });
-      console.log('✅ Gemini PRO model initialized successfully');
-    } catch (error) {
-      console.warn('❌ Gemini PRO not initialized:', error);
-      this.proModel = null;
+  /** POST to the coach_chat edge function, which holds the model key and enforces the chat quota. */
+  private async callCoachChat(body: Record<string, unknown>): Promise<Response> {
+    const { url, jwt } = await this.coachChatEndpoint();
+    return fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  /**
+   * A plan from coach_chat's plan mode, which re-prompts the model until the reply
+   * matches PlanZ. Checked against PlanZ again here; throws StructuredOutputError
+   * when no valid plan came back.
+   */
+  private async requestPlan(messages: { role: string; content: string }[], userContext?: UserContext): Promise<Plan> {
+    const res = await this.callCoachChat({ mode: 'plan', messages, userContext: coachContext(userContext) });
+    const body = await res.json().catch(() => null);
+    if (res.status === 403) {
+      throw new Error('AI goal creation is a Premium feature.');
+    }
+    if (body?.failure) {
+      throw new StructuredOutputError(body.failure);
+    }
+    if (!res.ok) {
+      throw new Error(body?.error || `coach_chat ${res.status}`);
+    }
+    const parsed = PlanZ.safeParse(body?.plan);
+    if (!parsed.success) {
+      throw new StructuredOutputError({
+        kind: 'invalid_schema',
+        message: 'The plan did not match the expected format',
+        issues: formatIssues(parsed.error.issues),
+        attempts: 1,
+      });
     }
+    return parsed.data;
+  }
+
+  /**
+   * Streams a coach_chat reply. React Native's fetch cannot read a body as it arrives,
+   * but XMLHttpRequest reports progress with the text so far, so the server-sent events
+   * are split from that. Resolves with the last status when the request ends or is
+   * aborted; rejects only when it could not be made or failed before any event.
+   */
+  private async streamCoachChat(
+    body: Record<string, unknown>,
+    onEvent: (event: any) => void,
+    signal?: AbortSignal
+  ): Promise<{ status: number; aborted: boolean; dropped: boolean; text: string }> {
+    const { url, jwt } = await this.coachChatEndpoint();
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let seen = 0;
+      let events = 0;
+      let settled = false;
+
+      const drain = (final: boolean) => {
+        if (xhr.status !== 200) return;
+        const text = xhr.responseText || '';
+        const end = final ? text.length : text.lastIndexOf('\n') + 1;
+        if (end <= seen) return;
+        const chunk = text.slice(seen, end);
+        seen = end;
+        for (const data of sseLines(chunk)) {
+          try {
+            onEvent(JSON.parse(data));
+            events++;
+          } catch (error) {
+            console.warn('Skipping malformed coach_chat event:', data, error);
+          }
+        }
+      };
+      const finish = (result: { aborted?: boolean; dropped?: boolean }) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ status: xhr.status, aborted: !!result.aborted, dropped: !!result.dropped, text: xhr.responseText || '' });
+      };
+      const fail = (message: string) => {
+        if (events > 0) return finish({ dropped: true });
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        reject(new CoachStreamError(message, xhr.status));
+      };
+      const onAbort = () => {
+        drain(false);
+        xhr.abort();
+        finish({ aborted: true });
+      };
+
+      xhr.open('POST', url);
+      xhr.setRequestHeader('Authorization', `Bearer ${jwt}`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      xhr.onprogress = () => drain(false);
+      xhr.onload = () => {
+        drain(true);
+        finish({});
+      };
+      xhr.onerror = () => {
+        drain(false);
+        fail('coach_chat connection failed');
+      };
+      xhr.ontimeout = () => {
+        drain(false);
+        fail('coach_chat timed out');
+      };
+
+      if (signal?.aborted) return finish({ aborted: true });
+      signal?.addEventListener('abort', onAbort);
+      xhr.send(JSON.stringify(body));
+    });
   }
 
   private extractSchedulingPreferences(conversationHistory: Array<{role: string, content: string}>): {
@@ -148,118 +285,72 @@ class AIService {
     return `${hhStr}:${mmStr}`;
   }
 
-	async generateResponse(messages: ChatMessage[], userContext?: UserContext): Promise<{success: boolean, message: string}> {
+	async generateResponse(
+    messages: ChatMessage[],
+    userContext?: UserContext,
+    chatId?: string,
+    options: CoachStreamOptions = {}
+  ): Promise<CoachReply> {
     console.log('🤖 AI Service Debug Info:');
-    console.log('- Model available:', !!this.model);
-    console.log('- API Key available:', !!process.env.EXPO_PUBLIC_GEMINI_API_KEY);
-    console.log('- API Key value:', process.env.EXPO_PUBLIC_GEMINI_API_KEY ? 'SET' : 'NOT SET');
     console.log('- Messages received:', messages.length);
     console.log('- Last message:', messages[messages.length - 1]?.content);
-    
-    // Always try Gemini API first if we have a key
-		if (process.env.EXPO_PUBLIC_GEMINI_API_KEY && process.env.EXPO_PUBLIC_GEMINI_API_KEY !== 'your_gemini_api_key_here') {
-      console.log('🚀 Attempting Gemini API call...');
-      try {
-				const response = await this.callGeminiAPI(messages, userContext);
-        console.log('✅ Gemini API response received');
-        return { success: true, message: response.content };
-      } catch (error: any) {
-        console.error('❌ Gemini API failed:', error);
-        console.error('Error details:', {
-          message: error?.message,
-          stack: error?.stack,
-          name: error?.name
-        });
-        console.log('🔄 Falling back to mock response');
-        const mockResponse = this.getMockResponse(messages);
-        return { success: true, message: mockResponse.content };
-      }
-    }
-    
-    console.log('⚠️ Using mock response (no valid API key)');
-    const mockResponse = this.getMockResponse(messages);
-    return { success: true, message: mockResponse.content };
-  }
-
-	private async callGeminiAPI(messages: ChatMessage[], userContext?: UserContext): Promise<AIResponse> {
-    if (!this.model) {
-      throw new Error('Gemini model not initialized');
-    }
 
+    // Server-sent events: { chatId }, then { delta }s and { done } or { error }
+    let message = '';
+    let replyChatId = chatId;
+    let done = false;
+    let streamError: string | null = null;
     try {
-      // Create a system prompt to guide the AI's behavior
-			const ctx = userContext || {};
-			const contextBlock = `USER CONTEXT (use only if relevant to calibrate guidance; never echo private data):\n- Age: ${ctx.age ?? 'N/A'}\n- Gender: ${ctx.gender ?? 'N/A'}\n- Height (cm): ${ctx.heightCm ?? 'N/A'}\n- Weight (kg): ${ctx.weightKg ?? 'N/A'}\n- Units: ${ctx.unitSystem ?? 'N/A'}`;
-			const systemPrompt = `You are a helpful AI coach for goal setting and planning. Your role is to:
-
-          **CRITICAL RULE: Ask ONLY ONE question at a time. Never ask multiple questions in a single response.**
-
-          1. Be conversational, friendly, and encouraging
-          2. Help users create specific, achievable goals
-          3. Ask ONE follow-up question per response based on what they share
-          4. Keep responses concise and focused (1-2 sentences max)
-          5. Build on previous answers to create a natural conversation flow
-          6. When you have enough information to create a plan, say "I have all the information I need to create your personalized plan. Let me put together a structured goal and training schedule for you."
-
-          ${contextBlock}
-
-          Information you need to gather (ask ONE at a time):
-          - What is their specific goal?
-          - When do they want to achieve it? **CRITICAL: If they give a vague timeframe like "end of term", "end of semester", "end of year", you MUST ask for a specific date (e.g., "When specifically does your term end? Please provide a date like December 15th")**
-          - How much time can they commit per week?
-          - What days work best for them? (Be very specific - ask for exact days like "Tuesdays, Thursdays, Saturdays" or "weekdays")
-          - What time of day works best?
-          - Any specific preferences or constraints?
-
-          **IMPORTANT: When asking about days, be very specific. Ask for exact days of the week (e.g., "What days of the week work best for you? For example, Tuesdays and Thursdays, or weekdays, or weekends?"). This is crucial for proper scheduling.**
-
-          **CRITICAL DATE RULE: If a user says "end of term", "end of semester", "end of the year", or any vague timeframe, you MUST ask them for a specific date. Say something like "When specifically does your term end? Please provide a date like December 15th or January 30th."**
-
-          **REMEMBER: Always ask only ONE question per response. Never combine questions like "What is your goal and when do you want to achieve it?" - instead ask "What is your goal?" first, then in the next response ask about timing.**`;
-
-      // Convert messages to Gemini format with system prompt
-      const chat = this.model.startChat({
-        history: [
-          {
-            role: 'user',
-            parts: [{ text: systemPrompt }]
-          },
-          {
-            role: 'model', 
-            parts: [{ text: 'I understand! I\'m here to help you create a personalized goal and training plan. Let\'s start by understanding what you want to achieve. What type of goal are you looking to work on? (fitness, learning, health, career, or personal)' }]
-          },
-          ...messages.slice(0, -1).map(msg => ({
-            role: msg.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: msg.content }]
-          })),
-        ],
-      });
-
-      const lastMessage = messages[messages.length - 1];
-      console.log('📤 Sending to Gemini:', lastMessage.content);
-      
-      const result = await chat.sendMessage(lastMessage.content);
-      const response = await result.response;
-      const text = response.text();
-
-      console.log('📥 Gemini response:', text);
-
-      return {
-        content: text,
-        usage: {
-          promptTokens: 0, // Gemini doesn't provide detailed usage in this API
-          completionTokens: 0,
-          totalTokens: 0,
+      const result = await this.streamCoachChat(
+        { mode: 'chat', chatId, messages, userContext: coachContext(userContext) },
+        (event) => {
+          if (event.chatId) replyChatId = event.chatId;
+          if (event.delta) {
+            message += event.delta;
+            options.onDelta?.(event.delta);
+          }
+          if (event.done) done = true;
+          if (event.error) streamError = String(event.error);
+        },
+        options.signal
+      );
+
+      if (result.aborted) {
+        console.log('⏹️ Coach response cancelled');
+        return { success: true, message, chatId: replyChatId, cancelled: true };
+      }
+      if (result.status === 429) {
+        return { success: false, message: '', chatId, limitReached: true };
+      }
+      if (result.status !== 200) {
+        let error: string | undefined;
+        try {
+          error = JSON.parse(result.text)?.error;
+        } catch {
+          // not JSON
         }
-      };
+        throw new CoachStreamError(error || `coach_chat ${result.status}`, result.status);
+      }
+      // The model failed or the connection closed before { done }: keep what arrived
+      if (message && (!done || streamError || result.dropped)) {
+        console.warn('⚠️ Coach response interrupted:', streamError || 'connection closed');
+        return { success: true, message, chatId: replyChatId, interrupted: true };
+      }
+      if (streamError) throw new CoachStreamError(streamError);
+
+      console.log('✅ Coach response received');
+      return { success: true, message, chatId: replyChatId };
     } catch (error: any) {
-      console.error('❌ Gemini API call failed:', error);
+      console.error('❌ Coach chat failed:', error);
       console.error('Error details:', {
         message: error?.message,
         stack: error?.stack,
         name: error?.name
       });
-      throw error;
+      console.log('🔄 Falling back to mock response');
+      const mockResponse = this.getMockResponse(messages);
+      options.onDelta?.(mockResponse.content);
+      return { success: true, message: mockResponse.content, chatId: replyChatId };
     }
   }
 
@@ -331,56 +422,20 @@ class AIService {
     };
   }
 
-  async generateGoalPlan(goalData: any, userContext?: UserContext): Promise<any> {
-    const ctx = userContext || {};
-    const contextText = `\n\nUSER CONTEXT (use only to calibrate plan; never echo private data):\n- Age: ${ctx.age ?? 'N/A'}\n- Gender: ${ctx.gender ?? 'N/A'}\n- Height (cm): ${ctx.heightCm ?? 'N/A'}\n- Weight (kg): ${ctx.weightKg ?? 'N/A'}\n- Units: ${ctx.unitSystem ?? 'N/A'}`;
-    const prompt = `Create a detailed goal plan for:
-    - Goal: ${goalData.title}
-    - Description: ${goalData.description}
-    - Current Level: ${goalData.baseline}
-    - Target: ${goalData.target}
-    - Timeline: ${goalData.timeline}
-    - Availability: ${goalData.availability}
-    ${contextText}
-
-    Please provide a structured plan with:
-    1. Weekly milestones
-    2. Daily activities
-    3. Tips and recommendations
-    4. Progress tracking suggestions`;
-
-    const messages: ChatMessage[] = [
-      { role: 'system', content: 'You are an expert goal-setting coach. Create detailed, actionable plans.' },
-      { role: 'user', content: prompt }
-    ];
-
-    const response = await this.generateResponse(messages, userContext);
-    
-    // Try to parse as JSON, fallback to structured text
-    try {
-      return JSON.parse(response.message);
-    } catch {
-      return {
-        title: goalData.title,
-        description: goalData.description,
-        milestones: [
-          { week: 1, target: 25, description: "Get started with the basics" },
-          { week: 2, target: 50, description: "Build momentum and consistency" },
-          { week: 3, target: 75, description: "Make significant progress" },
-          { week: 4, target: 100, description: "Achieve your target!" }
-        ],
-        weeklyPlan: [
-          { day: "Monday", activities: ["Focus session", "Review progress"], duration: "30 minutes" },
-          { day: "Wednesday", activities: ["Practice", "Learn new techniques"], duration: "45 minutes" },
-          { day: "Friday", activities: ["Assessment", "Plan next week"], duration: "30 minutes" }
-        ],
-        tips: [
-          "Stay consistent with your schedule",
-          "Track your progress daily",
-          "Celebrate small wins along the way"
-        ]
-      };
-    }
+  /** A dated plan for the goal form's answers; throws StructuredOutputError when the model gives no valid plan. */
+  async generateGoalPlan(goalData: any, userContext?: UserContext): Promise<Plan> {
+    const availability = typeof goalData.availability === 'string'
+      ? goalData.availability
+      : JSON.stringify(goalData.availability ?? {});
+    // coach_chat builds the plan prompt from a transcript; the form's answers are a one-message transcript
+    const summary = `Please create a plan for my goal.
+- Goal: ${goalData.title}
+- Description: ${goalData.description ?? ''}
+- Current level: ${goalData.baseline ?? 'not given'}
+- Target: ${goalData.target ?? 'not given'}${goalData.unit ? ` ${goalData.unit}` : ''}
+- Timeline: ${goalData.timeline ?? 'not given'}
+- Availability: ${availability}`;
+    return this.requestPlan([{ role: 'user', content: summary }], userContext);
   }
 
   async generateGoalPlanWithTasks(goalData: any, userContext?: UserContext): Promise<{ goal: any; tasks: any[] }> {
@@ -392,253 +447,44 @@ class AIService {
     const tasks = this.generateTasksFromPlan(plan, goalData);
     
     return {
-      goal: plan,
+      // The form's own category, target and unit; the plan adds title, description and dates
+      goal: {
+        ...plan.goal,
+        category: goalData.category,
+        target: goalData.target,
+        unit: goalData.unit,
+      },
       tasks: tasks
     };
   }
 
-  private generateTasksFromPlan(plan: any, goalData: any): any[] {
-    const tasks = [];
-    const startDate = new Date();
-    
-    // For fitness goals, use the weekly plan structure
-    if (plan.weeklyPlan && plan.weeklyPlan.length > 0) {
-      // Determine if this is a money-making goal or fitness goal
-      const isMoneyGoal = plan.category === 'career' || plan.unit === '$';
-      const totalWeeks = isMoneyGoal ? 4 : 8; // 4 weeks for money goals, 8 weeks for fitness
-      
-      // Generate tasks for the appropriate number of weeks
-      for (let week = 0; week < totalWeeks; week++) {
-        plan.weeklyPlan.forEach((session: any, dayIndex: number) => {
-          const taskDate = new Date(startDate);
-          
-          if (isMoneyGoal) {
-            // For money goals: Monday, Wednesday, Friday
-            taskDate.setDate(startDate.getDate() + (week * 7) + (dayIndex * 2));
-          } else {
-            // For fitness goals: Tuesday, Thursday, Saturday
-            taskDate.setDate(startDate.getDate() + (week * 7) + (dayIndex * 2) + 1);
-          }
-          
-          const activities = session.activities.join('\n• ');
-          const weekNumber = week + 1;
-          const targetValue = plan.milestones?.[week]?.target || (isMoneyGoal ? (500 + (week * 1000)) : (185 + (week * 5)));
-          const unit = plan.unit || (isMoneyGoal ? '$' : 'lbs');
-          
-          tasks.push({
-            title: `${plan.title} - Week ${weekNumber} ${session.day}`,
-            description: `Week ${weekNumber} ${session.day} ${isMoneyGoal ? 'Work Session' : 'Workout'}:\n• ${activities}\n\nTarget: ${targetValue}${unit}`,
-            date: taskDate.toISOString().split('T')[0],
-            time: isMoneyGoal ? '09:00' : '18:00', // 9 AM for work, 6 PM for fitness
-            estimated_duration: isMoneyGoal ? 240 : 90, // 4 hours for work, 1.5 hours for fitness
-            status: 'pending',
-            priority: 'high',
-            category: plan.category || (isMoneyGoal ? 'career' : 'fitness')
-          });
-        });
-      }
-    } else {
-      // Fallback for other goal types
-      const daysPerWeek = goalData.availability?.daysPerWeek || 3;
-      const timeSlots = goalData.availability?.timeSlots || ['morning', 'afternoon'];
-      const duration = goalData.availability?.duration || 60;
-      
-      // Generate tasks for the next 4 weeks
-      for (let week = 0; week < 4; week++) {
-        for (let day = 0; day < daysPerWeek; day++) {
-          const taskDate = new Date(startDate);
-          taskDate.setDate(startDate.getDate() + (week * 7) + (day * Math.floor(7 / daysPerWeek)));
-          
-          const timeSlot = timeSlots[day % timeSlots.length];
-          const taskTime = this.getTimeForSlot(timeSlot);
-          
-          tasks.push({
-            title: `${plan.title} - Session ${week * daysPerWeek + day + 1}`,
-            description: plan.tasks?.[day % (plan.tasks?.length || 1)]?.description || `Work on ${plan.title}`,
-            date: taskDate.toISOString().split('T')[0],
-            time: taskTime,
-            estimated_duration: duration,
-            status: 'pending',
-            priority: 'medium',
-            category: plan.category || 'personal'
-          });
-        }
-      }
-    }
-    
-    return tasks;
-  }
-
-  private getTimeForSlot(slot: string): string {
-    const timeMap: { [key: string]: string } = {
-      'morning': '08:00',
-      'afternoon': '14:00',
-      'evening': '18:00',
-      'night': '20:00'
-    };
-    return timeMap[slot] || '09:00';
+  /** The plan's dated tasks in the goal form's task shape (local date and time). */
+  private generateTasksFromPlan(plan: Plan, goalData: any): any[] {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return [...plan.tasks]
+      .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0) || Date.parse(a.due_at) - Date.parse(b.due_at))
+      .map(task => {
+        const due = new Date(task.due_at);
+        return {
+          title: task.title,
+          description: task.notes || `Work on ${plan.goal.title}`,
+          date: `${due.getFullYear()}-${pad(due.getMonth() + 1)}-${pad(due.getDate())}`,
+          time: `${pad(due.getHours())}:${pad(due.getMinutes())}`,
+          estimated_duration: task.duration_minutes || 60,
+          status: 'pending',
+          priority: 'medium',
+          category: goalData.category || 'personal'
+        };
+      });
   }
 
   async createGoalFromConversation(
     conversationHistory: Array<{role: string, content: string}>,
-    userContext?: { age?: number | null; gender?: string | null; heightCm?: number | null; weightKg?: number | null }
-  ): Promise<{success: boolean, goal?: any, tasks?: any[], error?: string}> {
-    if (!this.proModel && !this.model) {
-      return { success: false, error: 'AI model not available' };
-    }
-
+    userContext?: { age?: number | null; gender?: string | null; heightCm?: number | null; weightKg?: number | null; timeZone?: string | null; availability?: Availability | null }
+  ): Promise<GoalPlanResult> {
     try {
-      const currentDate = new Date();
-      const currentDateString = currentDate.toISOString().split('T')[0];
-      const currentTimeString = currentDate.toISOString();
-      
-      const systemPrompt = `You are a goal planning AI. Based on the conversation history, create a structured goal plan.
-
-          USER CONTEXT (optional, use only if relevant):
-          - Age: ${userContext?.age ?? 'N/A'}
-          - Gender: ${userContext?.gender ?? 'N/A'}
-          - Height (cm): ${userContext?.heightCm ?? 'N/A'}
-          - Weight (kg): ${userContext?.weightKg ?? 'N/A'}
-
-          Guidance on using user context:
-          - For fitness: tailor session duration, rest, pacing, and progression conservatively for older or deconditioned users; avoid absolute weights and prefer RPE/%1RM as below.
-          - For learning/work: adjust session lengths and break frequency if age suggests attention span differences.
-          - Never output private data; only use it to calibrate the plan design.
-
-          CURRENT DATE AND TIME:
-          - Today's date: ${currentDateString}
-          - Current time: ${currentTimeString}
-
-The user has provided information about their goal through a natural conversation. Extract the following information and create a structured plan:
-
-1. Goal details (title, description, target date)
-2. Training schedule (days per week, session duration, preferred days, time of day)
-3. Specific tasks broken down by week with realistic scheduling
-
-Return ONLY a valid JSON object (no markdown code blocks, no extra text) with this exact structure:
-{
-  "goal": {
-    "title": "string",
-    "description": "string (1-2 sentences)",
-    "target_date": "YYYY-MM-DD",
-    "status": "active"
-  },
-  "tasks": [
-    {
-      "title": "string",
-      "notes": "string (optional)",
-      "due_at": "YYYY-MM-DDTHH:mm:ss.sssZ",
-      "duration_minutes": number,
-      "all_day": false,
-      "status": "pending",
-      "seq": number
-    }
-  ]
-}
-
-          CRITICAL RULES:
-          - ALL task dates must be in the FUTURE, starting from ${currentDateString}
-          - Use UTC format for due_at timestamps
-- Create realistic, achievable tasks
-- Schedule tasks on appropriate days starting from TODAY
-- Make tasks specific and actionable
-- Sequence tasks logically (seq: 1, 2, 3, etc.)
-- Create 8-12 tasks total for a month-long goal
-- Example: If today is ${currentDateString}, first task should be ${currentDateString} or later
-
-TASK TITLE AND DESCRIPTION RULES:
-- Task titles should be GENERIC and simple (e.g., "Go workout", "Practice", "Study", "Work on project")
-- Task descriptions/notes should contain the SPECIFIC details of what to do
-- For fitness goals: title = "Go workout", description = specific exercises and instructions
-- For learning goals: title = "Study", description = specific topics and materials
-- For work goals: title = "Work on project", description = specific tasks and deliverables
-
-FITNESS/WEIGHTLIFTING SPECIFIC RULES:
-- NEVER use absolute weights (e.g., "200lbs", "135lbs") in task descriptions
-- ALWAYS use percentage-based intensity (e.g., "85% of 1RM", "70% intensity", "3 sets of 5 reps at 80%")
-- Use relative terms like "light", "moderate", "heavy" intensity
-- Focus on rep ranges and intensity percentages, not specific weights
-- This applies to all strength training, powerlifting, bodybuilding, etc.
-
-SCHEDULING RULES - CRITICAL FOR ACCURACY:
-- ONLY schedule tasks on the EXACT days the user specified in their conversation
-- You must carefully parse the user's day preferences from the conversation history
-
-DAY PARSING RULES:
-1. If user said "weekdays", "monday-friday", "monday through friday", "mon-fri":
-   → Schedule ONLY on: Monday, Tuesday, Wednesday, Thursday, Friday
-   → Day numbers: 1, 2, 3, 4, 5 (where 0=Sunday, 6=Saturday)
-   → NEVER include Saturday (6) or Sunday (0)
-
-2. If user said "weekends":
-   → Schedule ONLY on: Saturday, Sunday
-   → Day numbers: 6, 0
-   → NEVER include Monday-Friday (1-5)
-
-3. If user said specific days like "Tuesdays, Thursdays, Saturdays":
-   → Schedule ONLY on those specific days mentioned
-   → Parse each day name and use ONLY those days
-
-4. If user said "Monday, Wednesday" or similar:
-   → Schedule ONLY on those specific days
-   → Do NOT add any other days
-
-CRITICAL VALIDATION:
-- After generating the schedule, verify that ALL scheduled task dates fall ONLY on the user's requested days
-- If the user said "monday-friday", verify NO tasks are scheduled on Saturday or Sunday
-- If the user said "weekends", verify NO tasks are scheduled on Monday-Friday
-- Count tasks per day of week and ensure only requested days have tasks
-
-EXAMPLE VALIDATION:
-User said: "monday-friday"
-✓ CORRECT: Tasks scheduled on Mon, Tue, Wed, Thu, Fri
-✗ WRONG: Tasks scheduled on Sat, Sun, Mon, Tue, Wed (includes weekend days!)
-
-User said: "Tuesday, Thursday"
-✓ CORRECT: Tasks scheduled only on Tuesdays and Thursdays
-✗ WRONG: Tasks scheduled on Mon, Tue, Thu, Fri (includes extra days!)`;
-
-      const conversationText = conversationHistory.map(msg => `${msg.role}: ${msg.content}`).join('\n');
-      
-      const prompt = `${systemPrompt}\n\nConversation History:\n${conversationText}`;
-
-      // Prefer Gemini Pro for plan creation, but fall back to Flash if needed.
-      let text: string;
-      try {
-        const resultPrimary = await (this.proModel || this.model).generateContent(prompt);
-        const responsePrimary = await resultPrimary.response;
-        text = responsePrimary.text();
-      } catch (primaryError) {
-        console.warn('⚠️ Primary model failed for plan creation, attempting fallback...', primaryError);
-        if (this.proModel && this.model) {
-          const resultFallback = await this.model.generateContent(prompt);
-          const responseFallback = await resultFallback.response;
-          text = responseFallback.text();
-        } else {
-          throw primaryError;
-        }
-      }
-
-      // Clean the response to extract pure JSON
-      let jsonText = text.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Remove any leading/trailing whitespace and newlines
-      jsonText = jsonText.trim();
-
-      // Parse the JSON response
-      const planData = JSON.parse(jsonText);
-
-      // Validate the structure
-      if (!planData.goal || !planData.tasks || !Array.isArray(planData.tasks)) {
-        throw new Error('Invalid plan structure returned by AI');
-      }
+      // The prompt lives with coach_chat (mode "plan"); scheduling stays here
+      const planData: Plan = await this.requestPlan(conversationHistory, userContext);
       // Extract user's requested scheduling preferences from conversation
       const prefs = this.extractSchedulingPreferences(conversationHistory);
       
@@ -671,11 +517,13 @@ User said: "Tuesday, Thursday"
         preferredDays: effectivePreferredDays,
         dayTimes: prefs.dayTimes,
         sessionMinutes: prefs.sessionMinutes,
-        startFromTomorrow: true
+        startFromTomorrow: true,
+        timeZone: userContext?.timeZone,
+        availability: userContext?.availability
       });
 
       // Merge AI descriptions with deterministic schedule and improve titles for running goals
-      const aiTasks: any[] = Array.isArray(planData.tasks) ? planData.tasks : [];
+      const aiTasks: any[] = planData.tasks;
       const mergedTasks = scheduled.map((slot, idx) => {
         const source = aiTasks[idx % Math.max(1, aiTasks.length)] || {};
         let title = source.title || `Session ${slot.seq}`;
@@ -704,28 +552,50 @@ User said: "Tuesday, Thursday"
         };
       });
 
+      // Same schedule expressed as weekly RRULEs; callers persist these instead of one row per
+      // session. A rule repeats one title and note, so a plan whose sessions differ (a
+      // progression, or the per-day running titles) is only returned as tasks.
+      const ruleSource = mergedTasks[0];
+      const uniform = mergedTasks.every(task => task.title === ruleSource?.title && task.notes === ruleSource?.notes);
+      const rules = ruleSource && uniform
+        ? buildRecurrenceRulesWithDayTimes({
+            targetDateISO: toISODateString(targetDate),
+            preferredDays: effectivePreferredDays,
+            dayTimes: prefs.dayTimes,
+            sessionMinutes: prefs.sessionMinutes,
+            title: ruleSource.title,
+            notes: ruleSource.notes,
+            startFromTomorrow: true,
+            timeZone: userContext?.timeZone,
+            availability: userContext?.availability
+          })
+        : undefined;
+
       // Final goal with enforced target date
       const goalOut = {
         ...planData.goal,
         target_date: toISODateString(targetDate)
       };
 
-      return { success: true, goal: goalOut, tasks: mergedTasks };
+      return { success: true, goal: goalOut, tasks: mergedTasks, rules };
 
         } catch (error: any) {
           console.error('Error creating goal from conversation:', error);
 
           // Provide more specific error messages
           let errorMessage = 'Failed to create goal plan';
-          if (error instanceof SyntaxError) {
-            errorMessage = 'AI returned invalid JSON format. Please try again.';
+          if (error instanceof StructuredOutputError) {
+            errorMessage = error.failure.kind === 'provider'
+              ? 'The AI service is unavailable right now. Please try again.'
+              : 'The AI could not put together a valid plan. Please try again.';
           } else if (error instanceof Error) {
             errorMessage = error.message;
           }
 
           return {
             success: false,
-            error: errorMessage
+            error: errorMessage,
+            failure: error instanceof StructuredOutputError ? error.failure : undefined
           };
         }
   }
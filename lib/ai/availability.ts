@@ -0,0 +1,23 @@
+/**
+ * Client side of the availability profiles. The parsing/matching code lives with
+ * the edge functions (supabase/functions/_shared/availability.ts) so schedule_v1
+ * and the client builders read the same windows the same way.
+ */
+export {
+  activeProfile,
+  DEFAULT_AVAILABILITY,
+  fitSessionStart,
+  formatWindowsText,
+  normalizeAvailability,
+  normalizeWindows,
+  parseWindowsText,
+  timeToMinutes,
+  windowsForDate,
+} from '../../supabase/functions/_shared/availability';
+export type {
+  Availability,
+  AvailabilityProfile,
+  CalendarDate,
+  TimeWindow,
+  WeeklyWindows,
+} from '../../supabase/functions/_shared/availability';
@@ -0,0 +1,110 @@
+import { Availability, DEFAULT_AVAILABILITY, windowsForDate } from './availability';
+import { Interval, overlaps, subtractBusy } from './intervals';
+
+/**
+ * Overlaps between Momentum tasks and external calendar events, and the next free
+ * slot a conflicting task can move to. Dependency-free like rescheduler.ts; days and
+ * availability windows are in the device zone.
+ *
+ * All-day events are placed by their date part, like the day counts in CalendarScreen,
+ * so an event Google stores at UTC midnight never spills into the neighbouring day.
+ * They cover whole local days: the end is either the next midnight (Google, exclusive)
+ * or the last day's 23:59:59 (Apple).
+ */
+
+export interface ConflictTask {
+  key: string; // task id, or session id for one session of a split task
+  start: string; // ISO
+  minutes?: number | null;
+}
+
+export interface ConflictEvent {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  source: string; // calendar provider name
+}
+
+export const DEFAULT_TASK_MINUTES = 30;
+const MINUTE_MS = 60 * 1000;
+const SLOT_STEP_MINUTES = 15;
+
+function localDay(ymd: string, offset = 0): number {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d + offset).getTime();
+}
+
+export function eventInterval(event: Pick<ConflictEvent, 'start' | 'end' | 'allDay'>): Interval | null {
+  if (event.allDay) {
+    const start = localDay(event.start.slice(0, 10));
+    const endsAtMidnight = /^T00:00(:00(\.0+)?)?(Z|[+-]00:?00)?$/.test(event.end.slice(10));
+    const end = endsAtMidnight ? localDay(event.end.slice(0, 10)) : localDay(event.end.slice(0, 10), 1);
+    return Number.isNaN(start) ? null : { start, end: Math.max(end, localDay(event.start.slice(0, 10), 1)) };
+  }
+  const start = new Date(event.start).getTime();
+  const end = new Date(event.end).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return null;
+  return { start, end };
+}
+
+export function taskInterval(task: ConflictTask): Interval {
+  const start = new Date(task.start).getTime();
+  return { start, end: start + (task.minutes || DEFAULT_TASK_MINUTES) * MINUTE_MS };
+}
+
+/** Events each task overlaps, keyed by ConflictTask.key; tasks without conflicts are left out. */
+export function findConflicts(tasks: ConflictTask[], events: ConflictEvent[]): Record<string, ConflictEvent[]> {
+  const placed = events
+    .map(event => ({ event, interval: eventInterval(event) }))
+    .filter((e): e is { event: ConflictEvent; interval: Interval } => e.interval !== null);
+  const result: Record<string, ConflictEvent[]> = {};
+  for (const task of tasks) {
+    const interval = taskInterval(task);
+    if (Number.isNaN(interval.start)) continue;
+    const hits = placed.filter(p => overlaps(interval, p.interval)).map(p => p.event);
+    if (hits.length > 0) result[task.key] = hits;
+  }
+  return result;
+}
+
+/**
+ * Earliest `minutes`-long slot from `after` (rounded up to a quarter hour) inside the
+ * availability windows, or the defaults schedule_v1 uses when never configured, that
+ * overlaps none of `busy`. Null when nothing fits within `horizonDays`.
+ */
+export function findNextFreeSlot(options: {
+  after: Date;
+  minutes: number;
+  busy: Interval[];
+  availability: Availability | null;
+  horizonDays?: number;
+}): Interval | null {
+  const { after, minutes, busy, horizonDays = 14 } = options;
+  const availability = options.availability ?? DEFAULT_AVAILABILITY;
+  const stepMs = SLOT_STEP_MINUTES * MINUTE_MS;
+  const from = Math.ceil(after.getTime() / stepMs) * stepMs;
+  const durationMs = minutes * MINUTE_MS;
+
+  for (let offset = 0; offset < horizonDays; offset++) {
+    const day = new Date(after.getFullYear(), after.getMonth(), after.getDate() + offset);
+    const windows = windowsForDate(availability, {
+      year: day.getFullYear(),
+      month: day.getMonth() + 1,
+      day: day.getDate(),
+      weekday: day.getDay(),
+    }).map(w => {
+      const [sh, sm] = w.start.split(':').map(Number);
+      const [eh, em] = w.end.split(':').map(Number);
+      return {
+        start: Math.max(from, new Date(day.getFullYear(), day.getMonth(), day.getDate(), sh, sm).getTime()),
+        end: new Date(day.getFullYear(), day.getMonth(), day.getDate(), eh, em).getTime(),
+      };
+    }).filter(w => w.end > w.start);
+    const free = subtractBusy(windows, busy).sort((a, b) => a.start - b.start);
+    const slot = free.find(f => f.end - f.start >= durationMs);
+    if (slot) return { start: slot.start, end: slot.start + durationMs };
+  }
+  return null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Client side of the iCalendar writer and reader. The code lives with the edge functions
+ * (supabase/functions/_shared/ics.ts) so exports and the feed use the same UIDs.
+ */
+export { buildIcs, escapeIcsText, goalsToIcsEvents, icsUid, parseIcs } from '../../supabase/functions/_shared/ics';
+export type {
+  IcsCalendar,
+  IcsDateTime,
+  IcsEvent,
+  IcsGoalRow,
+  IcsMappingOptions,
+  IcsParsedCalendar,
+  IcsParsedEvent,
+  IcsRuleRow,
+  IcsTaskRow,
+  IcsWallTime,
+} from '../../supabase/functions/_shared/ics';
@@ -0,0 +1,7 @@
+/**
+ * Client side of the interval helpers. The code lives with the edge functions
+ * (supabase/functions/_shared/intervals.ts) so conflict checks in the app carve
+ * busy time out of free windows exactly like schedule_v1.
+ */
+export { overlaps, subtractBusy } from '../../supabase/functions/_shared/intervals';
+export type { Interval } from '../../supabase/functions/_shared/intervals';
@@ -200,11 +200,23 @@ export class InterviewEngine {
     }
   }
 
-  // Check for unrealistic timeline
-  checkTimelineRealism(minSessionsRequired: number = 10): { isRealistic: boolean; suggestion?: string } {
+  // Check for unrealistic timeline. With the minutes per week still free after the
+  // other goals and calendar events (lib/ai/workload.ts), also check the weekly load.
+  checkTimelineRealism(
+    minSessionsRequired: number = 10,
+    freeMinutesPerWeek?: number
+  ): { isRealistic: boolean; suggestion?: string } {
     const fields = this.getValidatedFields();
     if (!fields) return { isRealistic: true };
 
+    const weeklyMinutes = fields.days_per_week * fields.session_minutes;
+    if (freeMinutesPerWeek !== undefined && weeklyMinutes > freeMinutesPerWeek) {
+      return {
+        isRealistic: false,
+        suggestion: `That is ${weeklyMinutes} minutes a week, but only ${Math.max(0, Math.floor(freeMinutesPerWeek))} are free next to your other goals and events. Fewer days or shorter sessions?`
+      };
+    }
+
     const targetDate = parseISO(fields.target_date);
     const now = new Date();
     const weeksUntilTarget = Math.ceil(differenceInDays(targetDate, now) / 7);
@@ -0,0 +1,15 @@
+/**
+ * Client side of the LLM provider layer (supabase/functions/_shared/llm.ts). Models
+ * are only called from edge functions (coach_chat, planner_v2, ...), which hold the
+ * keys; the app uses the shared types and splits their server-sent events with sseLines.
+ */
+export { extractJson, LlmError, sseLines } from '../../supabase/functions/_shared/llm';
+export type {
+  LlmFixture,
+  LlmJsonRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmTier,
+} from '../../supabase/functions/_shared/llm';
@@ -0,0 +1,121 @@
+import { Availability, windowsForDate } from './availability';
+
+/**
+ * Finds new slots for a missed session. Deterministic and dependency-free so it can
+ * run on every task refresh: a single slot of the full length is preferred ("move"),
+ * otherwise the minutes are spread over several shorter slots ("redistribute").
+ *
+ * Candidate days are the goal's preferred weekdays from tomorrow up to the end of its
+ * target date. On each day the candidate windows are the user's availability windows,
+ * or, when availability was never configured, the missed session's own time of day.
+ * Existing sessions (`busy`) are never overlapped.
+ */
+
+export interface RescheduleSlot {
+  start: string; // ISO
+  end: string; // ISO
+}
+
+export interface RescheduleContext {
+  now: Date;
+  minutes: number;
+  missedAt: Date; // original start; its wall-clock time is reused when there are no availability windows
+  preferredWeekdays: number[]; // 0 = Sunday; empty means any day
+  targetDate?: string | null; // ISO date or timestamp; searched through the end of that day
+  busy: { start: number; end: number }[];
+  availability?: Availability | null;
+  minChunkMinutes?: number;
+  horizonDays?: number; // used when there is no (future) target date
+}
+
+export interface RescheduleResult {
+  kind: 'move' | 'redistribute';
+  slots: RescheduleSlot[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type Interval = { start: number; end: number };
+
+function subtract(free: Interval[], busy: Interval[]): Interval[] {
+  let out = free;
+  for (const b of busy) {
+    const next: Interval[] = [];
+    for (const f of out) {
+      if (b.end <= f.start || b.start >= f.end) { next.push(f); continue; }
+      if (b.start > f.start) next.push({ start: f.start, end: b.start });
+      if (b.end < f.end) next.push({ start: b.end, end: f.end });
+    }
+    out = next;
+  }
+  return out.filter(iv => iv.end > iv.start);
+}
+
+function atTime(day: Date, time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m, 0, 0).getTime();
+}
+
+function searchEnd(ctx: RescheduleContext): number {
+  const horizon = ctx.now.getTime() + (ctx.horizonDays ?? 28) * DAY_MS;
+  if (!ctx.targetDate) return horizon;
+  const target = new Date(/^\d{4}-\d{2}-\d{2}$/.test(ctx.targetDate) ? `${ctx.targetDate}T00:00:00` : ctx.targetDate);
+  if (Number.isNaN(target.getTime())) return horizon;
+  return new Date(target.getFullYear(), target.getMonth(), target.getDate() + 1).getTime();
+}
+
+/** Free intervals per candidate day, earliest day first. */
+function candidateDays(ctx: RescheduleContext): Interval[][] {
+  const end = searchEnd(ctx);
+  const missedTime = `${ctx.missedAt.getHours()}:${String(ctx.missedAt.getMinutes()).padStart(2, '0')}`;
+  const days: Interval[][] = [];
+  const tomorrow = new Date(ctx.now.getFullYear(), ctx.now.getMonth(), ctx.now.getDate() + 1);
+  for (let day = tomorrow; day.getTime() < end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    if (ctx.preferredWeekdays.length > 0 && !ctx.preferredWeekdays.includes(day.getDay())) continue;
+    const windows: Interval[] = ctx.availability
+      ? windowsForDate(ctx.availability, { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), weekday: day.getDay() })
+          .map(w => ({ start: atTime(day, w.start), end: atTime(day, w.end) }))
+      : [{ start: atTime(day, missedTime), end: atTime(day, missedTime) + ctx.minutes * MINUTE_MS }];
+    const free = subtract(windows.map(w => ({ start: w.start, end: Math.min(w.end, end) })), ctx.busy);
+    if (free.length > 0) days.push(free);
+  }
+  return days;
+}
+
+export function proposeReschedule(ctx: RescheduleContext): RescheduleResult | null {
+  if (ctx.minutes <= 0) return null;
+  const durationMs = ctx.minutes * MINUTE_MS;
+  const days = candidateDays(ctx);
+  const toSlot = (start: number, length: number): RescheduleSlot => ({
+    start: new Date(start).toISOString(),
+    end: new Date(start + length).toISOString(),
+  });
+
+  // Move: the earliest day with room for the whole session, at the missed time of day when possible
+  const missedOffset = ctx.missedAt.getHours() * 60 + ctx.missedAt.getMinutes();
+  for (const free of days) {
+    const dayStart = new Date(free[0].start);
+    const preferred = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate()).getTime() + missedOffset * MINUTE_MS;
+    const sameTime = free.find(f => preferred >= f.start && preferred + durationMs <= f.end);
+    if (sameTime) return { kind: 'move', slots: [toSlot(preferred, durationMs)] };
+    const any = free.find(f => f.end - f.start >= durationMs);
+    if (any) return { kind: 'move', slots: [toSlot(any.start, durationMs)] };
+  }
+
+  // Redistribute: fill the earliest free intervals with chunks of at least minChunkMinutes
+  const minChunkMs = (ctx.minChunkMinutes ?? 15) * MINUTE_MS;
+  const slots: RescheduleSlot[] = [];
+  let remaining = durationMs;
+  for (const free of days) {
+    for (const f of free) {
+      if (remaining <= 0) break;
+      const length = Math.min(remaining, f.end - f.start);
+      if (length < Math.min(minChunkMs, remaining)) continue;
+      slots.push(toSlot(f.start, length));
+      remaining -= length;
+    }
+    if (remaining <= 0) break;
+  }
+  return remaining <= 0 ? { kind: 'redistribute', slots } : null;
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { expandRRuleString } from './rrule';
+
+// The test script runs with TZ=UTC, so only the rule's TZID has DST
+const NEW_YORK = 'America/New_York';
+
+function expand(rrule: string, dtstart: string, rangeEnd: string, exdates: string[] = []): string[] {
+  return expandRRuleString(rrule, new Date(dtstart), {
+    rangeEnd: new Date(rangeEnd),
+    exdates: exdates.map((d) => new Date(d)),
+    timeZone: NEW_YORK,
+  }).map((d) => d.toISOString());
+}
+
+describe('expandRRule across the spring-forward gap (America/New_York, 2025-03-09)', () => {
+  it('keeps a daily 18:00 session at 18:00 local', () => {
+    assert.deepEqual(expand('FREQ=DAILY;COUNT=3', '2025-03-08T23:00:00Z', '2025-03-31T00:00:00Z'), [
+      '2025-03-08T23:00:00.000Z', // 18:00 EST
+      '2025-03-09T22:00:00.000Z', // 18:00 EDT
+      '2025-03-10T22:00:00.000Z',
+    ]);
+  });
+
+  it('moves an occurrence that falls in the gap forward by the gap', () => {
+    assert.deepEqual(expand('FREQ=DAILY;COUNT=3', '2025-03-08T07:30:00Z', '2025-03-31T00:00:00Z'), [
+      '2025-03-08T07:30:00.000Z', // 02:30 EST
+      '2025-03-09T07:30:00.000Z', // 02:30 does not exist: 03:30 EDT
+      '2025-03-10T06:30:00.000Z', // 02:30 EDT
+    ]);
+  });
+
+  it('keeps weekly BYDAY sessions at their local time', () => {
+    assert.deepEqual(expand('FREQ=WEEKLY;BYDAY=SA,MO', '2025-03-01T14:00:00Z', '2025-03-11T00:00:00Z'), [
+      '2025-03-01T14:00:00.000Z', // Sat 09:00 EST
+      '2025-03-03T14:00:00.000Z',
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-10T13:00:00.000Z', // Mon 09:00 EDT
+    ]);
+  });
+
+  it('matches EXDATEs against the shifted instants', () => {
+    assert.deepEqual(
+      expand('FREQ=DAILY;COUNT=3', '2025-03-08T23:00:00Z', '2025-03-31T00:00:00Z', ['2025-03-09T22:00:00Z']),
+      ['2025-03-08T23:00:00.000Z', '2025-03-10T22:00:00.000Z']
+    );
+  });
+});
+
+describe('expandRRule across the fall-back overlap (America/New_York, 2025-11-02)', () => {
+  it('keeps a daily 18:00 session at 18:00 local', () => {
+    assert.deepEqual(expand('FREQ=DAILY;COUNT=3', '2025-11-01T22:00:00Z', '2025-11-30T00:00:00Z'), [
+      '2025-11-01T22:00:00.000Z', // 18:00 EDT
+      '2025-11-02T23:00:00.000Z', // 18:00 EST
+      '2025-11-03T23:00:00.000Z',
+    ]);
+  });
+
+  it('places an occurrence in the repeated hour once, at its first instant', () => {
+    assert.deepEqual(expand('FREQ=DAILY;COUNT=3', '2025-11-01T05:30:00Z', '2025-11-30T00:00:00Z'), [
+      '2025-11-01T05:30:00.000Z', // 01:30 EDT
+      '2025-11-02T05:30:00.000Z', // 01:30 EDT, not the later 01:30 EST
+      '2025-11-03T06:30:00.000Z', // 01:30 EST
+    ]);
+  });
+
+  it('stops at an UNTIL given in UTC', () => {
+    assert.deepEqual(
+      expand('FREQ=DAILY;UNTIL=20251103T000000Z', '2025-11-01T22:00:00Z', '2025-11-30T00:00:00Z'),
+      ['2025-11-01T22:00:00.000Z', '2025-11-02T23:00:00.000Z']
+    );
+  });
+});
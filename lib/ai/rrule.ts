@@ -0,0 +1,373 @@
+/**
+ * RFC 5545 recurrence rule (RRULE) parsing, formatting and expansion.
+ *
+ * Occurrences are expanded in wall-clock time so that a rule like "every
+ * Mon/Wed/Fri at 18:00" keeps its local time across DST changes. That is the
+ * device zone by default, or the rule's TZID when one is given.
+ */
+import { fromZonedWallDate, isValidTimeZone, toZonedWallDate } from './timezone';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RRuleWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export const RRULE_WEEKDAYS: RRuleWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  // Ordinal for MONTHLY/YEARLY rules, e.g. 2 for "2MO" or -1 for "-1FR"
+  ordinal?: number;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  wkst: RRuleWeekday;
+}
+
+// Hard cap on generated periods so an unsatisfiable rule can never spin forever
+const MAX_PERIODS = 5000;
+
+function parseIntList(value: string, min: number, max: number, field: string): number[] {
+  return value.split(',').map((part) => {
+    const n = parseInt(part, 10);
+    if (!Number.isFinite(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid ${field} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  // Forms: 20251231, 20251231T235959, 20251231T235959Z
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) throw new Error(`Invalid UNTIL value: ${value}`);
+  const [, y, mo, d, h, mi, s, z] = match;
+  if (h === undefined) {
+    // Date-only UNTIL is inclusive of the whole local day
+    return new Date(Number(y), Number(mo) - 1, Number(d), 23, 59, 59);
+  }
+  if (z) {
+    return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+  }
+  return new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+}
+
+function formatUntil(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20251231T235959Z".
+ * A leading "RRULE:" prefix is accepted. Throws on malformed input.
+ */
+export function parseRRule(input: string): RRule {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  const rule: Partial<RRule> = { interval: 1, wkst: 'MO' };
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = (rawKey || '').toUpperCase();
+    const value = (rawValue || '').toUpperCase();
+    if (!value) throw new Error(`Missing value for ${key}`);
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) {
+          throw new Error(`Unsupported FREQ: ${value}`);
+        }
+        rule.freq = value as RRuleFrequency;
+        break;
+      case 'INTERVAL': {
+        const n = parseInt(value, 10);
+        if (!Number.isFinite(n) || n < 1) throw new Error(`Invalid INTERVAL: ${value}`);
+        rule.interval = n;
+        break;
+      }
+      case 'COUNT': {
+        const n = parseInt(value, 10);
+        if (!Number.isFinite(n) || n < 1) throw new Error(`Invalid COUNT: ${value}`);
+        rule.count = n;
+        break;
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((token) => {
+          const m = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!m) throw new Error(`Invalid BYDAY value: ${token}`);
+          const ordinal = m[1] ? parseInt(m[1], 10) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new Error(`Invalid BYDAY ordinal: ${token}`);
+          }
+          return { weekday: m[2] as RRuleWeekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, 1, 31, 'BYMONTHDAY');
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, 1, 12, 'BYMONTH');
+        if (rule.byMonth.some((m) => m < 0)) throw new Error(`Invalid BYMONTH: ${value}`);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(value, 1, 366, 'BYSETPOS');
+        break;
+      case 'WKST':
+        if (!RRULE_WEEKDAYS.includes(value as RRuleWeekday)) throw new Error(`Invalid WKST: ${value}`);
+        rule.wkst = value as RRuleWeekday;
+        break;
+      default:
+        // Ignore parts we do not support (BYHOUR, BYWEEKNO, ...) rather than failing the whole rule
+        console.warn(`rrule: ignoring unsupported part ${key}`);
+    }
+  }
+
+  if (!rule.freq) throw new Error('RRULE is missing FREQ');
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('RRULE cannot contain both COUNT and UNTIL');
+  }
+  return rule as RRule;
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE string (without the "RRULE:" prefix).
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst && rule.wkst !== 'MO') parts.push(`WKST=${rule.wkst}`);
+  return parts.join(';');
+}
+
+// ---- expansion helpers (all local time, day granularity) ----
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function atTimeOf(year: number, month: number, day: number, template: Date): Date {
+  return new Date(year, month, day, template.getHours(), template.getMinutes(), template.getSeconds(), 0);
+}
+
+function weekdayIndex(weekday: RRuleWeekday): number {
+  return RRULE_WEEKDAYS.indexOf(weekday);
+}
+
+/** Days in the given month matching a BYDAY entry (honouring ordinals like 2MO / -1FR). */
+function monthDaysForByDay(year: number, month: number, byDay: RRuleByDay[]): number[] {
+  const total = daysInMonth(year, month);
+  const result: number[] = [];
+  for (const entry of byDay) {
+    const target = weekdayIndex(entry.weekday);
+    const matches: number[] = [];
+    for (let d = 1; d <= total; d++) {
+      if (new Date(year, month, d).getDay() === target) matches.push(d);
+    }
+    if (entry.ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const idx = entry.ordinal > 0 ? entry.ordinal - 1 : matches.length + entry.ordinal;
+      if (idx >= 0 && idx < matches.length) result.push(matches[idx]);
+    }
+  }
+  return result;
+}
+
+function monthDaysForByMonthDay(year: number, month: number, byMonthDay: number[]): number[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map((d) => (d > 0 ? d : total + d + 1))
+    .filter((d) => d >= 1 && d <= total);
+}
+
+/** Candidate dates (at dtstart's time) for one period, before BYSETPOS/COUNT/UNTIL are applied. */
+function candidatesForPeriod(rule: RRule, dtstart: Date, periodIndex: number): Date[] {
+  const step = periodIndex * rule.interval;
+  const byMonthOk = (d: Date) => !rule.byMonth?.length || rule.byMonth.includes(d.getMonth() + 1);
+  const out: Date[] = [];
+
+  if (rule.freq === 'DAILY') {
+    const d = atTimeOf(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step, dtstart);
+    const dayOk = !rule.byDay?.length || rule.byDay.some((b) => weekdayIndex(b.weekday) === d.getDay());
+    const monthDayOk = !rule.byMonthDay?.length
+      || monthDaysForByMonthDay(d.getFullYear(), d.getMonth(), rule.byMonthDay).includes(d.getDate());
+    if (dayOk && monthDayOk && byMonthOk(d)) out.push(d);
+    return out;
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Align to the start of the week containing dtstart according to WKST
+    const offset = (dtstart.getDay() - weekdayIndex(rule.wkst) + 7) % 7;
+    const weekStartDay = dtstart.getDate() - offset + step * 7;
+    const weekdays = rule.byDay?.length
+      ? rule.byDay.map((b) => weekdayIndex(b.weekday))
+      : [dtstart.getDay()];
+    for (let i = 0; i < 7; i++) {
+      const d = atTimeOf(dtstart.getFullYear(), dtstart.getMonth(), weekStartDay + i, dtstart);
+      if (weekdays.includes(d.getDay()) && byMonthOk(d)) out.push(d);
+    }
+    return out;
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const first = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+    const year = first.getFullYear();
+    const month = first.getMonth();
+    if (!byMonthOk(first)) return out;
+    for (const day of monthCandidateDays(rule, dtstart, year, month)) {
+      out.push(atTimeOf(year, month, day, dtstart));
+    }
+    return out;
+  }
+
+  // YEARLY
+  const year = dtstart.getFullYear() + step;
+  const months = rule.byMonth?.length ? rule.byMonth.map((m) => m - 1) : [dtstart.getMonth()];
+  if (!rule.byMonth?.length && rule.byDay?.some((b) => b.ordinal !== undefined) && !rule.byMonthDay?.length) {
+    // Ordinals without BYMONTH are relative to the whole year (e.g. 20MO = 20th Monday)
+    for (const entry of rule.byDay) {
+      const target = weekdayIndex(entry.weekday);
+      const matches: Date[] = [];
+      for (let m = 0; m < 12; m++) {
+        for (let d = 1; d <= daysInMonth(year, m); d++) {
+          if (new Date(year, m, d).getDay() === target) matches.push(atTimeOf(year, m, d, dtstart));
+        }
+      }
+      if (entry.ordinal === undefined) {
+        out.push(...matches);
+      } else {
+        const idx = entry.ordinal > 0 ? entry.ordinal - 1 : matches.length + entry.ordinal;
+        if (idx >= 0 && idx < matches.length) out.push(matches[idx]);
+      }
+    }
+    return out;
+  }
+  for (const month of months) {
+    for (const day of monthCandidateDays(rule, dtstart, year, month)) {
+      out.push(atTimeOf(year, month, day, dtstart));
+    }
+  }
+  return out;
+}
+
+function monthCandidateDays(rule: RRule, dtstart: Date, year: number, month: number): number[] {
+  const hasByDay = Boolean(rule.byDay?.length);
+  const hasByMonthDay = Boolean(rule.byMonthDay?.length);
+  if (!hasByDay && !hasByMonthDay) {
+    // Months without dtstart's day (e.g. the 31st) are skipped, per RFC 5545
+    return dtstart.getDate() <= daysInMonth(year, month) ? [dtstart.getDate()] : [];
+  }
+  const byDayDays = hasByDay ? monthDaysForByDay(year, month, rule.byDay!) : null;
+  const byMonthDayDays = hasByMonthDay ? monthDaysForByMonthDay(year, month, rule.byMonthDay!) : null;
+  if (byDayDays && byMonthDayDays) return byDayDays.filter((d) => byMonthDayDays.includes(d));
+  return (byDayDays ?? byMonthDayDays)!;
+}
+
+/** Local midnight at which the given period begins. */
+function periodStart(rule: RRule, dtstart: Date, periodIndex: number): Date {
+  const step = periodIndex * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step);
+    case 'WEEKLY': {
+      const offset = (dtstart.getDay() - weekdayIndex(rule.wkst) + 7) % 7;
+      return new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() - offset + step * 7);
+    }
+    case 'MONTHLY':
+      return new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+    default:
+      return new Date(dtstart.getFullYear() + step, 0, 1);
+  }
+}
+
+function applySetPos(sorted: Date[], bySetPos?: number[]): Date[] {
+  if (!bySetPos?.length) return sorted;
+  const picked: Date[] = [];
+  for (const pos of bySetPos) {
+    const idx = pos > 0 ? pos - 1 : sorted.length + pos;
+    if (idx >= 0 && idx < sorted.length) picked.push(sorted[idx]);
+  }
+  return picked.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Expand a rule into occurrence start times within [rangeStart, rangeEnd].
+ * COUNT is always counted from dtstart, so the window does not change which
+ * occurrences exist. Exception dates (EXDATE) are matched by exact instant.
+ * With `timeZone` (the rule's TZID) wall-clock times are kept in that zone.
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: Date,
+  options: { rangeStart?: Date; rangeEnd: Date; exdates?: Date[]; timeZone?: string | null }
+): Date[] {
+  const { rangeStart, rangeEnd, exdates = [], timeZone } = options;
+  const excluded = new Set(exdates.map((d) => d.getTime()));
+
+  if (timeZone && isValidTimeZone(timeZone)) {
+    // Expand on device-local Dates that carry the zone's wall clock, then map back
+    const toWall = (d: Date) => toZonedWallDate(d, timeZone);
+    const wallRule: RRule = rule.until ? { ...rule, until: toWall(rule.until) } : rule;
+    return expandRRule(wallRule, toWall(dtstart), {
+      rangeStart: rangeStart && toWall(rangeStart),
+      rangeEnd: toWall(rangeEnd),
+    })
+      .map((wall) => fromZonedWallDate(wall, timeZone))
+      .filter((occ) => !excluded.has(occ.getTime()));
+  }
+
+  const results: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    // Periods only move forward, so once a period begins after the window (or UNTIL) we are done
+    const start = periodStart(rule, dtstart, period).getTime();
+    if (start > rangeEnd.getTime() || (rule.until && start > rule.until.getTime())) break;
+
+    const seen = new Set<number>();
+    const candidates = candidatesForPeriod(rule, dtstart, period)
+      .filter((d) => !Number.isNaN(d.getTime()) && !seen.has(d.getTime()) && Boolean(seen.add(d.getTime())))
+      .sort((a, b) => a.getTime() - b.getTime());
+    const inPeriod = applySetPos(candidates, rule.bySetPos);
+
+    for (const occ of inPeriod) {
+      if (occ.getTime() < dtstart.getTime()) continue;
+      if (rule.until && occ.getTime() > rule.until.getTime()) return results;
+      if (rule.count !== undefined && emitted >= rule.count) return results;
+      emitted++;
+      if (occ.getTime() > rangeEnd.getTime()) return results;
+      if (excluded.has(occ.getTime())) continue;
+      if (rangeStart && occ.getTime() < rangeStart.getTime()) continue;
+      results.push(occ);
+    }
+  }
+  return results;
+}
+
+/**
+ * Convenience wrapper around parseRRule + expandRRule for stored rule strings.
+ */
+export function expandRRuleString(
+  rrule: string,
+  dtstart: Date,
+  options: { rangeStart?: Date; rangeEnd: Date; exdates?: Date[]; timeZone?: string | null }
+): Date[] {
+  return expandRRule(parseRRule(rrule), dtstart, options);
+}
@@ -1,8 +1,31 @@
 import { addDays, format, parseISO, startOfDay, addMinutes } from 'date-fns';
 import { InterviewFields, ScheduledSlot } from './planSchema';
 import { DAY_NAMES, DAY_NAMES_FULL, dayNamesToNumbers, DayOfWeek, parseDayExpression } from './dayParser';
+import { formatRRule, RRULE_WEEKDAYS, RRuleWeekday } from './rrule';
+import { wallTimeToDate } from './timezone';
+import { Availability, CalendarDate, fitSessionStart, windowsForDate } from './availability';
 
-export function buildSchedule(fields: InterviewFields): ScheduledSlot[] {
+export interface RecurrenceRuleDraft {
+  title: string;
+  notes?: string;
+  rrule: string;
+  dtstart: string; // ISO 8601, first occurrence
+  duration_minutes: number;
+  tzid?: string; // IANA zone the rule is anchored to; omitted for floating rules
+  exdates?: string[]; // ISO instants of occurrences cancelled up front (outside availability)
+}
+
+function calendarDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), weekday: date.getDay() };
+}
+
+/**
+ * `timeZone` (optional on every builder) anchors session times to that IANA zone;
+ * leave it unset to use the device zone. `availability` (the user's working windows,
+ * null when never configured) moves each session into a window on its day and drops
+ * days with no room; if that would drop every session it is ignored.
+ */
+export function buildSchedule(fields: InterviewFields, timeZone?: string | null): ScheduledSlot[] {
   const { target_date, days_per_week, session_minutes, preferred_days, time_of_day } = fields;
   
   const targetDate = parseISO(target_date);
@@ -21,7 +44,7 @@ export function buildSchedule(fields: InterviewFields): ScheduledSlot[] {
   
   // Create scheduled slots
   const scheduledSlots: ScheduledSlot[] = selectedDates.map((date, index) => {
-    const dueAt = createDueAtTimestamp(date, time_of_day);
+    const dueAt = createDueAtTimestamp(date, time_of_day, timeZone);
     
     return {
       title: `Session ${index + 1}`,
@@ -40,8 +63,10 @@ export function buildScheduleWithDayTimes(options: {
   dayTimes?: Partial<Record<DayOfWeek, string>>;
   sessionMinutes: number;
   startFromTomorrow?: boolean;
+  timeZone?: string | null;
+  availability?: Availability | null;
 }): ScheduledSlot[] {
-  const { targetDateISO, preferredDays, dayTimes = {}, sessionMinutes, startFromTomorrow = true } = options;
+  const { targetDateISO, preferredDays, dayTimes = {}, sessionMinutes, startFromTomorrow = true, timeZone, availability } = options;
   const targetDate = parseISO(targetDateISO);
   const now = new Date();
   const start = startFromTomorrow ? addDays(now, 1) : now;
@@ -49,11 +74,18 @@ export function buildScheduleWithDayTimes(options: {
   const availableDates = getAvailableDates(start, targetDate, preferredDays);
   // Ensure we generate sessions for every requested day per week until target
   // getAvailableDates already returns every date matching preferredDays across the range
-  const scheduledSlots: ScheduledSlot[] = availableDates.map((date, index) => {
-    const dayIdx = date.getDay();
-    const dayName = DAY_NAMES[dayIdx] as DayOfWeek;
-    const timeForDay = dayTimes[dayName] || '09:00';
-    const dueAt = createDueAtTimestamp(date, timeForDay);
+  const requested = availableDates.map(date => ({ date, time: dayTimes[DAY_NAMES[date.getDay()] as DayOfWeek] || '09:00' }));
+  let placed = requested;
+  if (availability) {
+    const fitted = requested
+      .map(({ date, time }) => ({ date, time: fitSessionStart(windowsForDate(availability, calendarDate(date)), sessionMinutes, time) }))
+      .filter((slot): slot is { date: Date; time: string } => slot.time !== null);
+    if (fitted.length > 0) placed = fitted;
+    else console.warn('No preferred day fits the availability windows; ignoring availability');
+  }
+
+  const scheduledSlots: ScheduledSlot[] = placed.map(({ date, time }, index) => {
+    const dueAt = createDueAtTimestamp(date, time, timeZone);
     return {
       title: `Session ${index + 1}`,
       due_at: dueAt,
@@ -64,6 +96,89 @@ export function buildScheduleWithDayTimes(options: {
   return scheduledSlots;
 }
 
+/**
+ * Same inputs as buildScheduleWithDayTimes, but returns one weekly RRULE per distinct
+ * time of day (e.g. Mon/Wed at 18:00 and Sat at 10:00 become two rules) instead of
+ * one slot per session. Occurrences are expanded lazily by the client.
+ * With `availability`, each weekday's time is fitted to the weekly windows and dates
+ * where a named profile leaves no room at that time become EXDATEs.
+ */
+export function buildRecurrenceRulesWithDayTimes(options: {
+  targetDateISO: string;
+  preferredDays: DayOfWeek[];
+  dayTimes?: Partial<Record<DayOfWeek, string>>;
+  sessionMinutes: number;
+  title: string;
+  notes?: string;
+  startFromTomorrow?: boolean;
+  timeZone?: string | null;
+  availability?: Availability | null;
+}): RecurrenceRuleDraft[] {
+  const { targetDateISO, preferredDays, dayTimes = {}, sessionMinutes, title, notes, startFromTomorrow = true, timeZone, availability } = options;
+  const targetDate = parseISO(targetDateISO);
+  const now = new Date();
+  const start = startFromTomorrow ? addDays(now, 1) : now;
+  const until = new Date(createDueAtTimestamp(targetDate, '23:59', timeZone));
+  until.setSeconds(59);
+
+  const dayNumbers = dayNamesToNumbers(preferredDays);
+  if (dayNumbers.length === 0) {
+    console.warn('No valid preferred days found, defaulting to weekdays (Mon-Fri)');
+    dayNumbers.push(1, 2, 3, 4, 5);
+  }
+
+  // Time per weekday, fitted to the weekly availability windows when there are any that fit
+  let timeByDay = new Map(dayNumbers.map(day => [day, dayTimes[DAY_NAMES[day]] || '09:00']));
+  if (availability) {
+    const fitted = new Map<number, string>();
+    for (const [day, time] of timeByDay) {
+      const fit = fitSessionStart(availability.weekly[day] ?? [], sessionMinutes, time);
+      if (fit) fitted.set(day, fit);
+    }
+    if (fitted.size > 0) timeByDay = fitted;
+    else console.warn('No preferred day fits the availability windows; ignoring availability');
+  }
+
+  // Group days sharing the same time so each group becomes a single rule
+  const daysByTime = new Map<string, number[]>();
+  for (const [day, time] of timeByDay) {
+    daysByTime.set(time, [...(daysByTime.get(time) ?? []), day]);
+  }
+
+  const drafts: RecurrenceRuleDraft[] = [];
+  for (const [time, days] of daysByTime) {
+    // DTSTART must be the first matching day on or after the start date
+    const dates = getAvailableDates(start, until, days.map(d => DAY_NAMES[d]));
+    const first = dates[0];
+    if (!first) continue;
+    // Named profiles (vacation, exam week) override the weekly windows on their dates
+    const exdates = availability
+      ? dates
+          .filter(date => {
+            const day = calendarDate(date);
+            return fitSessionStart(windowsForDate(availability, day), sessionMinutes, time) !== time;
+          })
+          .map(date => createDueAtTimestamp(date, time, timeZone))
+      : [];
+    drafts.push({
+      title,
+      notes,
+      rrule: formatRRule({
+        freq: 'WEEKLY',
+        interval: 1,
+        until,
+        byDay: days.map(d => ({ weekday: RRULE_WEEKDAYS[d] as RRuleWeekday })),
+        wkst: 'MO',
+      }),
+      dtstart: createDueAtTimestamp(first, time, timeZone),
+      duration_minutes: sessionMinutes,
+      ...(timeZone ? { tzid: timeZone } : {}),
+      ...(exdates.length > 0 ? { exdates } : {}),
+    });
+  }
+  return drafts.sort((a, b) => a.dtstart.localeCompare(b.dtstart));
+}
+
 function getAvailableDates(
   startDate: Date,
   endDate: Date,
@@ -97,29 +212,20 @@ function getAvailableDates(
   return availableDates;
 }
 
-function createDueAtTimestamp(
+export function createDueAtTimestamp(
   date: Date,
-  timeOfDay: string | null | undefined
+  timeOfDay: string | null | undefined,
+  timeZone?: string | null
 ): string {
-  // Start with the date at midnight
+  // The calendar day comes from the device-local date; the wall time is read in
+  // `timeZone` when anchoring to the home zone, otherwise in the device zone
   const startOfDate = startOfDay(date);
-  
-  let dueAt: Date;
-  
-  if (timeOfDay && timeOfDay !== 'default') {
-    // Parse time (HH:MM format)
-    const [hours, minutes] = timeOfDay.split(':').map(Number);
-    
-    // Create date with specific time
-    dueAt = new Date(startOfDate);
-    dueAt.setHours(hours, minutes, 0, 0);
-  } else {
-    // Default to 9 AM
-    dueAt = new Date(startOfDate);
-    dueAt.setHours(9, 0, 0, 0);
-  }
-  
-  return dueAt.toISOString();
+  const calendarDay = { year: startOfDate.getFullYear(), month: startOfDate.getMonth() + 1, day: startOfDate.getDate() };
+
+  // Default to 9 AM
+  const time = timeOfDay && timeOfDay !== 'default' ? timeOfDay : '09:00';
+
+  return wallTimeToDate(calendarDay, time, timeZone).toISOString();
 }
 
 export function validateSchedule(scheduledSlots: ScheduledSlot[]): { isValid: boolean; errors: string[] } {
@@ -0,0 +1,6 @@
+/**
+ * Client side of schedule_v1's slot scoring (supabase/functions/_shared/slotScoring.ts):
+ * the energy levels tasks and goals are tagged with.
+ */
+export { ENERGY_LEVELS, normalizeEnergy } from '../../supabase/functions/_shared/slotScoring';
+export type { EnergyLevel } from '../../supabase/functions/_shared/slotScoring';
@@ -0,0 +1,18 @@
+/**
+ * Client side of supabase/functions/_shared/structuredOutput.ts: the app checks plans
+ * from the edge functions against lib/ai/planSchema.ts and reports the same typed
+ * failures they do.
+ */
+export {
+  DEFAULT_MAX_ATTEMPTS,
+  formatIssues,
+  generateStructured,
+  StructuredOutputError,
+} from '../../supabase/functions/_shared/structuredOutput';
+export type {
+  SchemaIssue,
+  SchemaLike,
+  StructuredFailure,
+  StructuredFailureKind,
+  StructuredResult,
+} from '../../supabase/functions/_shared/structuredOutput';
@@ -0,0 +1,66 @@
+/**
+ * Client side of the shared zone logic. The conversion code lives with the edge
+ * functions (supabase/functions/_shared/timezone.ts) so schedule_v1 and the app
+ * agree on how wall-clock session times map to instants.
+ */
+import { isValidTimeZone, zonedParts, zonedTimeToUtc } from '../../supabase/functions/_shared/timezone';
+
+export {
+  isValidTimeZone,
+  tzOffsetMinutes,
+  zonedDateKey,
+  zonedDaysInRange,
+  zonedParts,
+  zonedTimeToUtc,
+} from '../../supabase/functions/_shared/timezone';
+export type { WallTime, ZonedDay, ZonedParts } from '../../supabase/functions/_shared/timezone';
+
+// 'home': sessions stay at their wall-clock time in the user's home zone (profiles.tz)
+// 'device': sessions float with whatever zone the device is currently in
+export type TimeZoneMode = 'home' | 'device';
+
+export function getDeviceTimeZone(): string {
+  try {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return isValidTimeZone(tz) ? tz : 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Instant for a calendar date + "HH:mm" time. With a zone the wall time is read in
+ * that zone; without one it is read in the device zone (floating).
+ */
+export function wallTimeToDate(
+  date: { year: number; month: number; day: number },
+  timeOfDay: string,
+  timeZone?: string | null
+): Date {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  if (timeZone && isValidTimeZone(timeZone)) {
+    return new Date(zonedTimeToUtc(timeZone, { ...date, hour: hours, minute: minutes }));
+  }
+  return new Date(date.year, date.month - 1, date.day, hours, minutes, 0, 0);
+}
+
+/**
+ * Re-express `instant` as a device-local Date showing the same wall clock it has in
+ * `timeZone`. Lets device-local date math (e.g. RRULE expansion) run in another zone.
+ */
+export function toZonedWallDate(instant: Date, timeZone: string): Date {
+  const p = zonedParts(instant.getTime(), timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, instant.getMilliseconds());
+}
+
+/** Inverse of toZonedWallDate. */
+export function fromZonedWallDate(wall: Date, timeZone: string): Date {
+  return new Date(zonedTimeToUtc(timeZone, {
+    year: wall.getFullYear(),
+    month: wall.getMonth() + 1,
+    day: wall.getDate(),
+    hour: wall.getHours(),
+    minute: wall.getMinutes(),
+    second: wall.getSeconds(),
+  }));
+}
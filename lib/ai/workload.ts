@@ -0,0 +1,187 @@
+import { Availability, DEFAULT_AVAILABILITY, windowsForDate } from './availability';
+import { Interval, subtractBusy } from './intervals';
+
+/**
+ * Workload across all active goals: minutes of pending work per week against the
+ * free time in the availability windows once external calendar events are taken
+ * out, and whether each goal's remaining work still fits before its target date.
+ *
+ * Goals are checked earliest target first (EDF): a goal fits when its remaining
+ * minutes plus those of every goal due no later than it fit in the free time until
+ * its target date, and none of its work is scheduled after that date. Days and
+ * windows are in the device zone, like conflicts.ts. Dependency-free.
+ */
+
+export interface WorkloadGoal {
+  id: string;
+  title: string;
+  targetDate: string | null; // YYYY-MM-DD or ISO; the whole day counts
+  color?: string | null;
+}
+
+export interface WorkItem {
+  goalId: string;
+  start: number; // epoch ms; overdue work is passed in at `now`
+  minutes: number;
+}
+
+export interface WeekLoad {
+  weekStart: number; // local Monday 00:00
+  committedMinutes: number;
+  freeMinutes: number; // availability minus external events (from `now` in the current week)
+  byGoal: Record<string, number>;
+  overcommitted: boolean;
+}
+
+export interface GoalFeasibility {
+  goalId: string;
+  title: string;
+  targetDate: string | null;
+  remainingMinutes: number;
+  // Work of this and earlier-due goals, and the free time for it, up to the target date
+  demandMinutes: number;
+  freeMinutes: number;
+  lateMinutes: number; // scheduled after the target date
+  fits: boolean;
+}
+
+export interface WorkloadInput {
+  goals: WorkloadGoal[];
+  items: WorkItem[];
+  availability: Availability | null;
+  busy: Interval[]; // external calendar events
+  now: Date;
+  weeks?: number; // weeks in the report, from the current one
+}
+
+export interface WorkloadReport {
+  weeks: WeekLoad[];
+  goals: GoalFeasibility[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export function startOfWeek(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+}
+
+/** End (exclusive) of the local day of a target date. */
+export function targetDateEnd(targetDate: string): number {
+  const [y, m, d] = targetDate.slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d + 1).getTime();
+}
+
+/** Minutes inside the availability windows in [from, to) that no busy interval covers. */
+export function freeMinutesBetween(from: number, to: number, availability: Availability | null, busy: Interval[]): number {
+  const profile = availability ?? DEFAULT_AVAILABILITY;
+  const windows: Interval[] = [];
+  const first = new Date(from);
+  for (let day = new Date(first.getFullYear(), first.getMonth(), first.getDate()); day.getTime() < to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    for (const w of windowsForDate(profile, {
+      year: day.getFullYear(),
+      month: day.getMonth() + 1,
+      day: day.getDate(),
+      weekday: day.getDay(),
+    })) {
+      const [sh, sm] = w.start.split(':').map(Number);
+      const [eh, em] = w.end.split(':').map(Number);
+      const start = Math.max(from, new Date(day.getFullYear(), day.getMonth(), day.getDate(), sh, sm).getTime());
+      const end = Math.min(to, new Date(day.getFullYear(), day.getMonth(), day.getDate(), eh, em).getTime());
+      if (end > start) windows.push({ start, end });
+    }
+  }
+  const free = subtractBusy(windows, busy);
+  return Math.floor(free.reduce((sum, f) => sum + (f.end - f.start), 0) / MINUTE_MS);
+}
+
+export function analyzeWorkload(input: WorkloadInput): WorkloadReport {
+  const { goals, items, availability, busy, now, weeks = 6 } = input;
+  const nowMs = now.getTime();
+
+  const firstWeek = startOfWeek(now);
+  const weekLoads: WeekLoad[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const weekStart = new Date(firstWeek.getFullYear(), firstWeek.getMonth(), firstWeek.getDate() + 7 * i).getTime();
+    const weekEnd = new Date(firstWeek.getFullYear(), firstWeek.getMonth(), firstWeek.getDate() + 7 * (i + 1)).getTime();
+    const byGoal: Record<string, number> = {};
+    let committedMinutes = 0;
+    for (const item of items) {
+      if (item.start < weekStart || item.start >= weekEnd) continue;
+      byGoal[item.goalId] = (byGoal[item.goalId] || 0) + item.minutes;
+      committedMinutes += item.minutes;
+    }
+    const freeMinutes = freeMinutesBetween(Math.max(weekStart, nowMs), weekEnd, availability, busy);
+    weekLoads.push({ weekStart, committedMinutes, freeMinutes, byGoal, overcommitted: committedMinutes > freeMinutes });
+  }
+
+  const remaining = new Map<string, number>();
+  for (const item of items) remaining.set(item.goalId, (remaining.get(item.goalId) || 0) + item.minutes);
+
+  const byTarget = goals
+    .filter(g => g.targetDate)
+    .map(g => ({ goal: g, end: targetDateEnd(g.targetDate!) }))
+    .sort((a, b) => a.end - b.end);
+
+  const goalResults: GoalFeasibility[] = goals.map(goal => {
+    const remainingMinutes = remaining.get(goal.id) || 0;
+    const base = { goalId: goal.id, title: goal.title, targetDate: goal.targetDate, remainingMinutes };
+    if (!goal.targetDate) {
+      return { ...base, demandMinutes: remainingMinutes, freeMinutes: 0, lateMinutes: 0, fits: true };
+    }
+    const end = targetDateEnd(goal.targetDate);
+    const demandMinutes = byTarget
+      .filter(t => t.end <= end)
+      .reduce((sum, t) => sum + (remaining.get(t.goal.id) || 0), 0);
+    const freeMinutes = end > nowMs ? freeMinutesBetween(nowMs, end, availability, busy) : 0;
+    const lateMinutes = items
+      .filter(item => item.goalId === goal.id && item.start >= end)
+      .reduce((sum, item) => sum + item.minutes, 0);
+    return {
+      ...base,
+      demandMinutes,
+      freeMinutes,
+      lateMinutes,
+      fits: remainingMinutes === 0 || (demandMinutes <= freeMinutes && lateMinutes === 0),
+    };
+  });
+
+  return { weeks: weekLoads, goals: goalResults };
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return `${hours}h`;
+}
+
+/**
+ * One line per overcommitted week and per goal that does not fit. With `change`
+ * (a report before a new goal was added), only the weeks the new goal has work in,
+ * the new goal itself and the goals it pushes out, to warn before it is created.
+ */
+export function describeWorkload(report: WorkloadReport, change?: { goalId: string; before: WorkloadReport }): string[] {
+  const lines: string[] = [];
+  for (const week of report.weeks) {
+    if (!week.overcommitted || (change && !week.byGoal[change.goalId])) continue;
+    const label = new Date(week.weekStart).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    lines.push(`Week of ${label}: ${formatMinutes(week.committedMinutes)} planned, ${formatMinutes(week.freeMinutes)} free`);
+  }
+  for (const goal of report.goals) {
+    if (goal.fits) continue;
+    if (change && goal.goalId !== change.goalId
+      && !change.before.goals.some(g => g.goalId === goal.goalId && g.fits)) continue;
+    const due = new Date(targetDateEnd(goal.targetDate!) - DAY_MS).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    lines.push(goal.lateMinutes > 0
+      ? `"${goal.title}" has ${formatMinutes(goal.lateMinutes)} scheduled after its target date (${due})`
+      : `"${goal.title}" needs ${formatMinutes(goal.demandMinutes)} by ${due} together with goals due earlier, but only ${formatMinutes(goal.freeMinutes)} are free`);
+  }
+  return lines;
+}
+
+/** Warnings for adding `goal` with its work to the current load; empty when it fits. */
+export function newGoalWarnings(input: WorkloadInput, goal: WorkloadGoal, items: WorkItem[]): string[] {
+  const before = analyzeWorkload(input);
+  const after = analyzeWorkload({ ...input, goals: [...input.goals, goal], items: [...input.items, ...items] });
+  return describeWorkload(after, { goalId: goal.id, before });
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Platform } from "react-native";
 import createContextHook from "@nkzw/create-context-hook";
 import { Task } from "@/types/task";
@@ -6,6 +6,40 @@ import { Goal } from "@/types/goal";
 import { supabase } from "@/lib/supabase-client";
 import { getItem, setItem } from "@/lib/storage";
 import { checkAndUpdateDayStreak } from "@/services/dayStreakService";
+import {
+  countPendingOccurrences,
+  expandRuleOccurrences,
+  fetchRecurrenceRules,
+  isOccurrenceId,
+  materializeOccurrence,
+  parseOccurrenceId,
+  RecurrenceRule,
+} from "@/services/recurrenceService";
+import {
+  sortSessions,
+  TASK_SESSIONS_EMBED,
+  taskCompletionCredit,
+  updateTaskSessionStatus,
+} from "@/services/taskSessionService";
+import {
+  acceptRescheduleProposal,
+  buildRescheduleProposals,
+  RescheduleProposal,
+  skipMissedSession,
+} from "@/services/rescheduleService";
+import { getAvailability } from "@/services/availabilityService";
+import {
+  applyPendingToRows,
+  clearSyncQueue,
+  createLocalId,
+  enqueueMutation,
+  flushSyncQueue,
+  getPendingMutations,
+  nextRetryDelay,
+  resolveServerChange,
+  subscribeSyncQueue,
+} from "@/services/syncQueue";
+import { pullGoogleTaskEdits, requestGoogleTaskPush } from "@/services/googleTaskSyncService";
 import { useSubscription } from "./SubscriptionProvider";
 
 interface GoalsContextType {
@@ -13,9 +47,14 @@ interface GoalsContextType {
   goals: Goal[];
   isGoalLocked: (goalId: string | undefined) => boolean;
   toggleTask: (taskId: string) => void;
+  toggleTaskSession: (taskId: string, sessionId: string) => Promise<void>;
   updateGoal: (goalId: string, updates: Partial<Goal>) => void;
   addGoal: (goal: Goal, tasks?: any[]) => Promise<void>;
   deleteGoal: (goalId: string) => Promise<void>;
+  createTask: (row: Record<string, any>) => Promise<Record<string, any>>;
+  updateTask: (taskId: string, updates: Record<string, any>) => Promise<void>;
+  deleteTask: (taskId: string) => Promise<void>;
+  pendingSyncCount: number;
   isLoading: boolean;
   getTasksStats: () => {
     total: number;
@@ -30,11 +69,53 @@ interface GoalsContextType {
   };
   refreshTasks: () => Promise<void>;
   refreshGoals: () => Promise<void>;
+  getOccurrencesInRange: (start: Date, end: Date) => Task[];
+  rescheduleProposals: RescheduleProposal[];
+  acceptReschedule: (proposalId: string) => Promise<void>;
+  skipMissed: (proposalId: string) => Promise<void>;
 }
 
 const defaultTasks: Task[] = [];
 const defaultGoals: Goal[] = [];
 
+// Window of recurring occurrences merged into `tasks` (Home, notifications, stats)
+const OCCURRENCE_WINDOW_PAST_DAYS = 7;
+const OCCURRENCE_WINDOW_FUTURE_DAYS = 35;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ProgressRow = {
+  status: string;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  task_sessions?: { status: 'pending' | 'done' | 'skipped' }[] | null;
+};
+
+// Progress counts real task rows (split tasks get partial credit per finished session)
+// plus recurring occurrences still due up to the goal's target date
+const computeGoalProgress = (goal: { id: string; target_date?: string | null }, rows: ProgressRow[] | null, rules: RecurrenceRule[]) => {
+  const taskRows = rows || [];
+  const until = goal.target_date ? new Date(goal.target_date) : new Date();
+  until.setHours(23, 59, 59, 999);
+  const pendingOccurrences = countPendingOccurrences(rules.filter(r => r.goal_id === goal.id), taskRows, until);
+  const totalTasks = taskRows.length + pendingOccurrences;
+  const completedTasks = taskRows.reduce((sum, t) => sum + taskCompletionCredit(t), 0);
+  return totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+};
+
+// Local Task for a tasks row written by this client (created offline, not fetched yet)
+const taskFromRow = (row: Record<string, any>, goalTitle?: string): Task => ({
+  id: row.id,
+  title: row.title,
+  description: row.notes || '',
+  completed: row.status === 'done',
+  status: row.status,
+  due_at: row.due_at,
+  goal_id: row.goal_id,
+  goalTitle: goalTitle || 'Untitled Goal',
+  duration_minutes: row.duration_minutes ?? undefined,
+  user_id: row.user_id,
+});
+
 export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(() => {
   const [localTasks, setLocalTasks] = useState<Task[]>(defaultTasks);
   const [localGoals, setLocalGoals] = useState<Goal[]>(defaultGoals);
@@ -42,6 +123,10 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
   const { isPremium } = useSubscription();
   const [lockedGoalIds, setLockedGoalIds] = useState<Set<string>>(new Set());
   const [realtimeRefreshToken, setRealtimeRefreshToken] = useState(0);
+  const [recurrenceRules, setRecurrenceRules] = useState<RecurrenceRule[]>([]);
+  const [rescheduleProposals, setRescheduleProposals] = useState<RescheduleProposal[]>([]);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Monitor auth state changes and clear data only on real sign-outs or user switch
   useEffect(() => {
@@ -57,6 +142,7 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
           setLocalGoals([]);
           setItem('tasks', JSON.stringify([])).catch(console.warn);
           setItem('goals', JSON.stringify([])).catch(console.warn);
+          clearSyncQueue().catch(console.warn);
           setCurrentUserId(null);
           return;
         }
@@ -68,6 +154,7 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
           setLocalGoals([]);
           setItem('tasks', JSON.stringify([])).catch(console.warn);
           setItem('goals', JSON.stringify([])).catch(console.warn);
+          clearSyncQueue().catch(console.warn);
           setCurrentUserId(newUserId);
           return;
         }
@@ -109,6 +196,13 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
           }, 
           (payload) => {
             console.log('Goals table changed:', payload);
+
+            // Queued offline edits older than this server change lose (see syncQueue)
+            if (payload.eventType === 'UPDATE' && payload.new) {
+              resolveServerChange('goals', payload.new.id, payload.new.updated_at ?? null).catch(console.warn);
+            } else if (payload.eventType === 'DELETE' && payload.old) {
+              resolveServerChange('goals', payload.old.id, null).catch(console.warn);
+            }
             
             // Update local state immediately for better UX
             if (payload.eventType === 'UPDATE' && payload.new) {
@@ -162,6 +256,12 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
           (payload) => {
             console.log('Tasks table changed:', payload);
             console.log('Current local tasks count before update:', localTasks.length);
+
+            if (payload.eventType === 'UPDATE' && payload.new) {
+              resolveServerChange('tasks', payload.new.id, payload.new.updated_at ?? null).catch(console.warn);
+            } else if (payload.eventType === 'DELETE' && payload.old) {
+              resolveServerChange('tasks', payload.old.id, null).catch(console.warn);
+            }
             
             // Update local state immediately for better UX
             if (payload.eventType === 'UPDATE' && payload.new) {
@@ -190,6 +290,47 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
             fetchTasks();
             // Refresh goals to update completion ratios when tasks change
             fetchGoalsFromSupabase();
+            // Whatever wrote the task (RPC, reschedule, slot move), its change is queued for Google
+            requestGoogleTaskPush(user.id);
+          }
+        )
+        .subscribe((status: string) => {
+          // Realtime reconnected: we are probably back online
+          if (status === 'SUBSCRIBED') syncPending();
+        });
+
+      // Listen for recurrence rule edits (new series, EXDATEs, truncation)
+      const rulesSubscription = supabase
+        .channel('recurrence_rules_changes')
+        .on('postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'recurrence_rules',
+            filter: `user_id=eq.${user.id}`
+          },
+          () => {
+            fetchRecurrenceRules(user.id).then(setRecurrenceRules);
+            fetchGoalsFromSupabase();
+            requestGoogleTaskPush(user.id);
+          }
+        )
+        .subscribe();
+
+      // Session status changes (the task itself is updated by a trigger once all are done)
+      const sessionsSubscription = supabase
+        .channel('task_sessions_changes')
+        .on('postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'task_sessions',
+            filter: `user_id=eq.${user.id}`
+          },
+          () => {
+            fetchTasks();
+            fetchGoalsFromSupabase();
+            requestGoogleTaskPush(user.id);
           }
         )
         .subscribe();
@@ -198,6 +339,8 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         goalsSubscription.unsubscribe();
         goalProgressSubscription.unsubscribe();
         tasksSubscription.unsubscribe();
+        rulesSubscription.unsubscribe();
+        sessionsSubscription.unsubscribe();
       };
     };
 
@@ -218,7 +361,15 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         }
       }
 
-      // Load goals from Supabase instead of local storage
+      // Cached goals keep the app usable offline until Supabase answers
+      const savedGoals = await getItem("goals");
+      if (savedGoals !== null) {
+        const parsedGoals = JSON.parse(savedGoals);
+        if (Array.isArray(parsedGoals) && parsedGoals.length > 0) {
+          setLocalGoals(parsedGoals);
+        }
+      }
+
       await fetchGoalsFromSupabase();
     } catch (storageError) {
       console.warn("Storage load failed, using defaults:", storageError);
@@ -233,8 +384,10 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         return;
       }
 
+      const rules = await fetchRecurrenceRules(user.id);
+
       // Fetch from goals table directly to get plan field
-      const { data: goals, error } = await supabase
+      const { data: serverGoals, error } = await supabase
         .from('goals')
         .select('*')
         .eq('user_id', user.id)
@@ -263,14 +416,12 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
             const goalsWithProgress = await Promise.all(retryGoals.map(async (goal) => {
               const { data: tasks, error: tasksError } = await supabase
                 .from('tasks')
-                .select('id, status')
+                .select('id, status, recurrence_rule_id, recurrence_instance_at, task_sessions(status)')
                 .eq('goal_id', goal.id);
               if (tasksError) {
                 console.error('Error fetching tasks for goal (retry):', tasksError);
               }
-              const totalTasks = tasks?.length || 0;
-              const completedTasks = tasks?.filter(t => t.status === 'done').length || 0;
-              const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+              const progress = computeGoalProgress(goal, tasks, rules);
               return {
                 id: goal.id,
                 title: goal.title,
@@ -292,7 +443,9 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         return;
       }
 
-      if (!goals || goals.length === 0) {
+      // Edits still waiting in the sync queue stay visible over the server copy
+      const goals: any = applyPendingToRows('goals', serverGoals || [], await getPendingMutations());
+      if (goals.length === 0) {
         console.log('No goals found for user');
         setLocalGoals([]);
         return;
@@ -304,16 +457,14 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
       const goalsWithProgress = await Promise.all(goals.map(async (goal) => {
         const { data: tasks, error: tasksError } = await supabase
           .from('tasks')
-          .select('id, status')
+          .select('id, status, recurrence_rule_id, recurrence_instance_at, task_sessions(status)')
           .eq('goal_id', goal.id);
 
         if (tasksError) {
           console.error('Error fetching tasks for goal:', tasksError);
         }
 
-        const totalTasks = tasks?.length || 0;
-        const completedTasks = tasks?.filter(t => t.status === 'done').length || 0;
-        const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+        const progress = computeGoalProgress(goal, tasks, rules);
 
         return {
           id: goal.id,
@@ -331,6 +482,7 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
 
       console.log(`Setting ${goalsWithProgress.length} goals with progress`);
       setLocalGoals(goalsWithProgress);
+      setItem('goals', JSON.stringify(goalsWithProgress)).catch(console.warn);
     } catch (error) {
       console.error('Error fetching goals from Supabase:', error);
     }
@@ -397,11 +549,13 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         console.log('No user found, skipping task fetch');
         return;
       }
-      
 
-      const { data, error } = await supabase
+      // Rules are expanded lazily into occurrences; see `tasks` below
+      fetchRecurrenceRules(user.id).then(setRecurrenceRules);
+
+      const { data: serverTasks, error } = await supabase
         .from('tasks')
-        .select('*')
+        .select(`*, ${TASK_SESSIONS_EMBED}`)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -412,14 +566,14 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
             await supabase.auth.refreshSession();
             const retry = await supabase
               .from('tasks')
-              .select('*')
+              .select(`*, ${TASK_SESSIONS_EMBED}`)
               .eq('user_id', user.id)
               .order('created_at', { ascending: false });
             if (retry.error) {
               console.error('Retry failed fetching tasks:', retry.error);
               return;
             }
-            const data = retry.data;
+            const data = applyPendingToRows<any>('tasks', retry.data || [], await getPendingMutations());
             if (data) {
               const tasks = await Promise.all(data.map(async (task) => {
                 let goalTitle = localGoals.find(goal => goal.id === task.goal_id)?.title;
@@ -442,10 +596,15 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
                   title: task.title,
                   description: task.notes || '',
                   completed: task.status === 'done',
+                  status: task.status,
                   due_at: task.due_at,
                   goal_id: task.goal_id,
                   goalTitle: goalTitle || 'Untitled Goal',
                   duration_minutes: task.duration_minutes,
+                  updated_at: task.updated_at,
+                  recurrence_rule_id: task.recurrence_rule_id,
+                  recurrence_instance_at: task.recurrence_instance_at,
+                  sessions: sortSessions(task.task_sessions),
                 };
               }));
               setLocalTasks(tasks);
@@ -457,6 +616,8 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         return;
       }
 
+      // Edits still waiting in the sync queue stay visible over the server copy
+      const data = applyPendingToRows<any>('tasks', serverTasks || [], await getPendingMutations());
       if (data) {
         // Convert Supabase data to our Task format
         const tasks = await Promise.all(data.map(async (task) => {
@@ -485,14 +646,20 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
             title: task.title,
             description: task.notes || '',
             completed: task.status === 'done',
+            status: task.status,
             due_at: task.due_at,
             goal_id: task.goal_id,
             goalTitle: goalTitle || 'Untitled Goal', // Add goal title for notifications
             duration_minutes: task.duration_minutes,
+            updated_at: task.updated_at, // Server version queued edits are checked against
+            recurrence_rule_id: task.recurrence_rule_id,
+            recurrence_instance_at: task.recurrence_instance_at,
+            sessions: sortSessions(task.task_sessions), // Split tasks: one entry per placed session
           };
         }));
         
         setLocalTasks(tasks);
+        setItem('tasks', JSON.stringify(tasks)).catch(console.warn);
       }
     } catch (error) {
       console.warn('Error fetching tasks:', error);
@@ -545,6 +712,50 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     }
   }, [fetchTasks, fetchGoalsFromSupabase, currentUserId]);
 
+  // Replay queued writes. Refresh when the server settled any of them (applied or
+  // rejected as a conflict) and retry on a timer while some are backing off.
+  const syncPending = useCallback(async () => {
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+    try {
+      const result = await flushSyncQueue();
+      if (result.applied > 0 || result.conflicts.length > 0 || result.failed.length > 0) {
+        fetchTasks();
+        fetchGoalsFromSupabase();
+      }
+      // Google events follow task writes once they are on the server
+      if (result.synced.length > 0) {
+        requestGoogleTaskPush(result.synced[0].userId);
+      }
+      const delay = await nextRetryDelay();
+      if (delay !== null) {
+        retryTimer.current = setTimeout(() => {
+          syncPending();
+        }, Math.max(delay, 1000));
+      }
+      return result;
+    } catch (error) {
+      console.warn('Error syncing queued changes:', error);
+      return null;
+    }
+  }, [fetchTasks, fetchGoalsFromSupabase]);
+
+  // From the cached session so writes can be queued while offline
+  const resolveUserId = useCallback(async () => {
+    if (currentUserId) return currentUserId;
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+  }, [currentUserId]);
+
+  // Event moves made in Google Calendar land in tasks.due_at; refetch when any did
+  const pullGoogleEdits = useCallback(async () => {
+    const userId = await resolveUserId();
+    if (!userId) return;
+    if (await pullGoogleTaskEdits(userId) > 0) fetchTasks();
+  }, [resolveUserId, fetchTasks]);
+
   // Refresh data and realtime on app resume
   useEffect(() => {
     const { AppState } = require('react-native');
@@ -554,66 +765,104 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
         setRealtimeRefreshToken((t) => t + 1);
         fetchTasks();
         fetchGoalsFromSupabase();
+        syncPending();
+        pullGoogleEdits();
       }
     });
     return () => sub.remove();
-  }, [fetchTasks, fetchGoalsFromSupabase]);
+  }, [fetchTasks, fetchGoalsFromSupabase, syncPending, pullGoogleEdits]);
+
+  // Pending-sync count for the Home and Calendar indicators
+  useEffect(() => subscribeSyncQueue(setPendingSyncCount), []);
+
+  // Replay anything left in the queue by a previous session once the user is known
+  useEffect(() => {
+    if (currentUserId) {
+      syncPending();
+      pullGoogleEdits();
+    }
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [currentUserId, syncPending, pullGoogleEdits]);
+
+  // Expand recurring rules into task-shaped occurrences for any range (calendar views)
+  const getOccurrencesInRange = useCallback((start: Date, end: Date): Task[] => {
+    return expandRuleOccurrences(recurrenceRules, localTasks, { start, end }).map((o) => ({
+      id: o.id,
+      title: o.title,
+      description: o.notes || '',
+      completed: false,
+      due_at: o.due_at,
+      goal_id: o.goal_id,
+      goalTitle: localGoals.find(goal => goal.id === o.goal_id)?.title || 'Untitled Goal',
+      duration_minutes: o.duration_minutes,
+      user_id: o.user_id,
+      recurrence_rule_id: o.recurrence_rule_id,
+      recurrence_instance_at: o.recurrence_instance_at,
+      is_occurrence: true,
+    }));
+  }, [recurrenceRules, localTasks, localGoals]);
 
   // Filter tasks that belong to locked goals (no notifications, no calendar/home display)
   const tasks = useMemo(() => {
-    if (!lockedGoalIds || lockedGoalIds.size === 0) return localTasks;
-    return localTasks.filter((t) => !t.goal_id || !lockedGoalIds.has(t.goal_id));
-  }, [localTasks, lockedGoalIds]);
+    const now = Date.now();
+    const occurrences = getOccurrencesInRange(
+      new Date(now - OCCURRENCE_WINDOW_PAST_DAYS * DAY_MS),
+      new Date(now + OCCURRENCE_WINDOW_FUTURE_DAYS * DAY_MS)
+    );
+    const allTasks = occurrences.length > 0 ? [...localTasks, ...occurrences] : localTasks;
+    if (!lockedGoalIds || lockedGoalIds.size === 0) return allTasks;
+    return allTasks.filter((t) => !t.goal_id || !lockedGoalIds.has(t.goal_id));
+  }, [localTasks, lockedGoalIds, getOccurrencesInRange]);
   const goals = localGoals;
 
-  // Auto-cleanup overdue incomplete tasks after 1 week
+  // Missed sessions are proposed new slots instead of being deleted (see rescheduleService)
   useEffect(() => {
-    const cleanupOverdueTasks = async () => {
+    let cancelled = false;
+    const buildProposals = async () => {
       try {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) return;
-
-        const oneWeekAgo = new Date();
-        oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-
-        // Find overdue incomplete tasks older than 1 week
-        const { data: overdueTasks, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('status', 'pending')
-          .lt('due_at', oneWeekAgo.toISOString());
-
-        if (error) {
-          console.error('Error fetching overdue tasks for cleanup:', error);
-          return;
-        }
-
-        if (overdueTasks && overdueTasks.length > 0) {
-          // Delete the overdue tasks
-          const taskIds = overdueTasks.map(task => task.id);
-          const { error: deleteError } = await supabase
-            .from('tasks')
-            .delete()
-            .in('id', taskIds);
-
-          if (deleteError) {
-            console.error('Error deleting overdue tasks:', deleteError);
-          } else {
-            // Refresh tasks after cleanup
-            fetchTasks();
-          }
-        }
+        const availability = await getAvailability(user.id);
+        if (cancelled) return;
+        // `tasks`: recurring occurrences of the past week are proposals too
+        setRescheduleProposals(buildRescheduleProposals(tasks, localGoals, availability));
       } catch (error) {
-        console.error('Error in task cleanup process:', error);
+        console.error('Error building reschedule proposals:', error);
       }
     };
 
-    // Run cleanup when tasks are loaded
-    if (tasks && tasks.length > 0) {
-      cleanupOverdueTasks();
+    if (tasks.length > 0) {
+      buildProposals();
+    } else {
+      setRescheduleProposals([]);
     }
-  }, [tasks?.length, fetchTasks]);
+    return () => {
+      cancelled = true;
+    };
+  }, [tasks, localGoals]);
+
+  const acceptReschedule = useCallback(async (proposalId: string) => {
+    const proposal = rescheduleProposals.find(p => p.id === proposalId);
+    if (!proposal) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    await acceptRescheduleProposal(user.id, proposal);
+    setRescheduleProposals(prev => prev.filter(p => p.id !== proposalId));
+    await fetchTasks();
+  }, [rescheduleProposals, fetchTasks]);
+
+  const skipMissed = useCallback(async (proposalId: string) => {
+    const proposal = rescheduleProposals.find(p => p.id === proposalId);
+    if (!proposal) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    await skipMissedSession(user.id, proposal);
+    setRescheduleProposals(prev => prev.filter(p => p.id !== proposalId));
+    await fetchTasks();
+    fetchGoalsFromSupabase();
+  }, [rescheduleProposals, fetchTasks, fetchGoalsFromSupabase]);
 
   const isGoalLocked = useCallback((goalId?: string) => {
     if (!goalId) return false;
@@ -626,69 +875,116 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
+    // Virtual occurrences have no row yet: completing one writes its override row
+    if (isOccurrenceId(taskId)) {
+      const ref = parseOccurrenceId(taskId);
+      const rule = ref ? recurrenceRules.find(r => r.id === ref.ruleId) : undefined;
+      if (!ref || !rule) return;
+
+      const completedAt = new Date().toISOString();
+      setLocalTasks(prev => [...prev, { ...task, completed: true, is_occurrence: false }]);
+      try {
+        await materializeOccurrence(rule, ref.instanceAt, { status: 'done', completed_at: completedAt });
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          await checkAndUpdateDayStreak(user.id);
+        }
+        fetchTasks();
+        fetchGoalsFromSupabase();
+      } catch (error) {
+        console.error('Error completing recurring task:', error);
+        setLocalTasks(prev => prev.filter(t => t.id !== taskId));
+      }
+      return;
+    }
+
     const updates = { completed: !task.completed };
     
-    // Optimistic update
-    const updatedTasks = tasks.map((t) =>
-      t.id === taskId ? { ...t, ...updates } : t
-    );
-    setLocalTasks(updatedTasks);
+    // Optimistic update (a split task is toggled as a whole: all of its sessions follow)
+    const sessionStatus: 'done' | 'pending' = updates.completed ? 'done' : 'pending';
+    // Only real rows are kept and stored: the virtual occurrences in `tasks` are rebuilt from their rules
+    const toggled = (t: Task): Task =>
+      t.id === taskId
+        ? { ...t, ...updates, sessions: t.sessions?.map(s => ({ ...s, status: sessionStatus })) }
+        : t;
+    const updatedTasks = localTasks.map(toggled);
+    setLocalTasks(prev => prev.map(toggled));
     
     // Save to local storage
     setItem('tasks', JSON.stringify(updatedTasks)).catch((error) => {
       console.error('Error saving tasks locally:', error);
     });
 
-    // Update in Supabase
+    // Queue the write; it is replayed until it reaches the server, so nothing is rolled back
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          status: updates.completed ? 'done' : 'pending',
-          completed_at: updates.completed ? new Date().toISOString() : null
-        })
-        .eq('id', taskId);
+      const userId = await resolveUserId();
+      if (!userId) return;
+      await enqueueMutation({
+        op: 'toggle',
+        table: 'tasks',
+        rowId: taskId,
+        userId,
+        payload: { status: sessionStatus, completed_at: updates.completed ? new Date().toISOString() : null },
+        baseUpdatedAt: task.updated_at ?? null,
+      });
 
-      if (error) {
-        console.error('Failed to update task in Supabase:', error);
-        // Rollback optimistic update
-        setLocalTasks(tasks);
-        setItem('tasks', JSON.stringify(tasks)).catch(console.warn);
-      } else {
-        // Update goal progress if this task is linked to a goal
-        const task = updatedTasks.find(t => t.id === taskId);
-        if (task && task.goal_id) {
-          const goalTasks = updatedTasks.filter(t => t.goal_id === task.goal_id);
-          const completedGoalTasks = goalTasks.filter(t => t.completed || t.status === 'completed').length;
-          const goalProgress = goalTasks.length > 0 ? Math.round((completedGoalTasks / goalTasks.length) * 100) : 0;
-          
-          // Update goal progress in database
-          await supabase
-            .from('goals')
-            .update({ 
-              status: goalProgress === 100 ? 'completed' : 'active'
-            })
-            .eq('id', task.goal_id);
-        }
+      // Update goal status if this task is linked to a goal
+      if (task.goal_id) {
+        const goalTasks = updatedTasks.filter(t => t.goal_id === task.goal_id && !t.is_occurrence);
+        const completedGoalTasks = goalTasks.reduce((sum, t) => sum + taskCompletionCredit(t), 0);
+        const goalProgress = goalTasks.length > 0 ? Math.round((completedGoalTasks / goalTasks.length) * 100) : 0;
+        await enqueueMutation({
+          op: 'update',
+          table: 'goals',
+          rowId: task.goal_id,
+          userId,
+          payload: { status: goalProgress === 100 ? 'completed' : 'active' },
+          baseUpdatedAt: goals?.find(g => g.id === task.goal_id)?.updated_at ?? null,
+        });
+      }
 
-        // Check and update day streak when task is completed
-        if (updates.completed) {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (user) {
-            await checkAndUpdateDayStreak(user.id);
-          }
-        }
-        
-        // Refresh goals to update completion ratios
-        fetchGoalsFromSupabase();
+      const result = await syncPending();
+
+      // The streak is computed server-side from synced tasks
+      if (updates.completed && result?.pending === 0) {
+        await checkAndUpdateDayStreak(userId);
       }
     } catch (error) {
       console.error('Error updating task:', error);
-      // Rollback optimistic update
-      setLocalTasks(tasks);
-      setItem('tasks', JSON.stringify(tasks)).catch(console.warn);
     }
-  }, [tasks]);
+  }, [tasks, localTasks, goals, recurrenceRules, fetchTasks, fetchGoalsFromSupabase, resolveUserId, syncPending]);
+
+  // Complete or reopen one session of a split task. The database trigger completes the
+  // task once no sessions are pending, so only the session row is written here.
+  const toggleTaskSession = useCallback(async (taskId: string, sessionId: string) => {
+    const task = localTasks.find(t => t.id === taskId);
+    const session = task?.sessions?.find(s => s.id === sessionId);
+    if (!task || !session) return;
+
+    const nextStatus: 'done' | 'pending' = session.status === 'done' ? 'pending' : 'done';
+    const applyStatus = (t: Task): Task => {
+      if (t.id !== taskId) return t;
+      const sessions = (t.sessions || []).map(s => (s.id === sessionId ? { ...s, status: nextStatus } : s));
+      const allFinished = sessions.every(s => s.status !== 'pending') && sessions.some(s => s.status === 'done');
+      return { ...t, sessions, completed: allFinished };
+    };
+    const previous = localTasks;
+    setLocalTasks(prev => prev.map(applyStatus));
+
+    try {
+      await updateTaskSessionStatus(sessionId, nextStatus);
+      if (nextStatus === 'done') {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          await checkAndUpdateDayStreak(user.id);
+        }
+      }
+      fetchGoalsFromSupabase();
+    } catch (error) {
+      console.error('Error updating task session:', error);
+      setLocalTasks(previous);
+    }
+  }, [localTasks, fetchGoalsFromSupabase]);
 
   const updateGoal = useCallback(async (goalId: string, updates: Partial<Goal>) => {
     if (!goals) return;
@@ -704,35 +1000,25 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
       console.error('Error saving goals locally:', error);
     });
 
-    // Update in Supabase
-    try {
-      const supabaseUpdates: any = {};
-      
-      // Map our Goal format to Supabase goals table format
-      if (updates.title !== undefined) supabaseUpdates.title = updates.title;
-      if (updates.description !== undefined) supabaseUpdates.description = updates.description;
-      if (updates.target_date !== undefined) supabaseUpdates.target_date = updates.target_date;
-      if (updates.status !== undefined) supabaseUpdates.status = updates.status;
-      if (updates.color !== undefined) supabaseUpdates.color = updates.color;
-
-      const { error } = await supabase
-        .from('goals')
-        .update(supabaseUpdates)
-        .eq('id', goalId);
+    // Map our Goal format to Supabase goals table format
+    const supabaseUpdates: any = {};
+    if (updates.title !== undefined) supabaseUpdates.title = updates.title;
+    if (updates.description !== undefined) supabaseUpdates.description = updates.description;
+    if (updates.target_date !== undefined) supabaseUpdates.target_date = updates.target_date;
+    if (updates.status !== undefined) supabaseUpdates.status = updates.status;
+    if (updates.color !== undefined) supabaseUpdates.color = updates.color;
+    if (Object.keys(supabaseUpdates).length === 0) return;
 
-      if (error) {
-        console.error('Failed to update goal in Supabase:', error);
-        // Rollback optimistic update
-        setLocalGoals(goals);
-        setItem('goals', JSON.stringify(goals)).catch(console.warn);
-      }
+    try {
+      const userId = await resolveUserId();
+      if (!userId) return;
+      const baseUpdatedAt = goals.find(g => g.id === goalId)?.updated_at ?? null;
+      await enqueueMutation({ op: 'update', table: 'goals', rowId: goalId, userId, payload: supabaseUpdates, baseUpdatedAt });
+      syncPending();
     } catch (error) {
       console.error('Error updating goal:', error);
-      // Rollback optimistic update
-      setLocalGoals(goals);
-      setItem('goals', JSON.stringify(goals)).catch(console.warn);
     }
-  }, [goals]);
+  }, [goals, resolveUserId, syncPending]);
 
   const addGoal = useCallback(async (newGoal: Goal, tasks?: any[]) => {
     if (!newGoal.title) {
@@ -740,10 +1026,23 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     }
     
     if (!goals) return;
-    
-    // Create optimistic goal with temporary ID
-    const optimisticGoal = { ...newGoal, id: `temp-${Date.now()}` };
-    const optimisticGoals = [...goals, optimisticGoal];
+
+    const userId = newGoal.user_id || await resolveUserId();
+    if (!userId) {
+      throw new Error('Not signed in');
+    }
+
+    // The id is generated here so the goal can be created (and edited) while offline
+    const row = {
+      id: createLocalId(),
+      title: newGoal.title,
+      description: newGoal.description,
+      status: newGoal.status || 'active',
+      target_date: newGoal.target_date || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
+      color: newGoal.color || '#3B82F6', // Default blue color
+      user_id: userId,
+    };
+    const optimisticGoals = [...goals, { ...newGoal, ...row, progress: 0 }];
     setLocalGoals(optimisticGoals);
     
     // Save to local storage
@@ -751,88 +1050,30 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
       console.error('Error saving new goal locally:', error);
     });
 
-    // Create in Supabase
-    try {
-      const { data, error } = await supabase
-        .from('goals')
-        .insert({
-          title: newGoal.title,
-          description: newGoal.description,
-          status: newGoal.status || 'active',
-          target_date: newGoal.target_date || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-          color: newGoal.color || '#3B82F6', // Default blue color
-          user_id: newGoal.user_id,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Failed to create goal in Supabase:', error);
-        console.error('Goal data being inserted:', {
-          title: newGoal.title,
-          description: newGoal.description,
-          category: newGoal.category,
-          user_id: newGoal.user_id,
-          target_value: newGoal.target_value,
-          unit: newGoal.unit
-        });
-        // Rollback optimistic update
-        setLocalGoals(goals);
-        setItem('goals', JSON.stringify(goals)).catch(console.warn);
-        throw error;
+    await enqueueMutation({ op: 'create', table: 'goals', rowId: row.id, userId, payload: row });
+
+    // The plan's tasks (the goal form's shape: local date and time) are queued after
+    // the goal, so they replay once it is on the server, also when created offline
+    const taskRows = (tasks ?? []).map((task, index) => ({
+      id: createLocalId(),
+      goal_id: row.id,
+      user_id: userId,
+      title: task.title,
+      notes: task.description || null,
+      due_at: new Date(`${task.date}T${task.time || '09:00'}`).toISOString(),
+      duration_minutes: task.estimated_duration ?? null,
+      all_day: false,
+      status: 'pending',
+      seq: index + 1,
+    }));
+    if (taskRows.length > 0) {
+      setLocalTasks(prev => [...taskRows.map(taskRow => taskFromRow(taskRow, row.title)), ...prev]);
+      for (const taskRow of taskRows) {
+        await enqueueMutation({ op: 'create', table: 'tasks', rowId: taskRow.id, userId, payload: taskRow });
       }
-
-      if (data) {
-        // Replace optimistic goal with real data
-        const realGoal = {
-          id: data.id,
-          title: data.title,
-          description: data.description,
-          current: data.current_value,
-          target: data.target_value,
-          unit: data.unit,
-          status: data.status,
-          plan: data.plan,
-          progress: data.target_value > 0 ? Math.round((data.current_value / data.target_value) * 100) : 0,
-        };
-        
-        const finalGoals = goals.map(g => g.id === optimisticGoal.id ? realGoal : g);
-        setLocalGoals(finalGoals);
-        setItem('goals', JSON.stringify(finalGoals)).catch(console.warn);
-
-        // Create tasks if provided
-        if (tasks && tasks.length > 0) {
-          try {
-            const tasksWithGoalId = tasks.map(task => ({
-              ...task,
-              goal_id: data.id,
-              user_id: newGoal.user_id || data.user_id
-            }));
-
-            const { error: tasksError } = await supabase
-              .from('momentum_tasks')
-              .insert(tasksWithGoalId);
-
-            if (tasksError) {
-              console.error('Failed to create tasks:', tasksError);
-            } else {
-              console.log(`Created ${tasks.length} tasks for goal ${data.id}`);
-              // Refresh tasks from database
-              fetchTasks();
-            }
-          } catch (error) {
-            console.error('Error creating tasks:', error);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error creating goal:', error);
-      // Rollback optimistic update
-      setLocalGoals(goals);
-      setItem('goals', JSON.stringify(goals)).catch(console.warn);
-      throw error;
     }
-  }, [goals]);
+    syncPending();
+  }, [goals, resolveUserId, syncPending]);
 
   const deleteGoal = useCallback(async (goalId: string) => {
     if (!goals) return;
@@ -851,43 +1092,51 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
       console.error('Error saving tasks locally:', error);
     });
 
-    // Delete from Supabase (goal + any orphan tasks as a fallback)
-    try {
-      const { error } = await supabase
-        .from('goals')
-        .delete()
-        .eq('id', goalId);
-
-      if (error) {
-        console.error('Failed to delete goal in Supabase:', error);
-        // Rollback optimistic update
-        setLocalGoals(goals);
-        setItem('goals', JSON.stringify(goals)).catch(console.warn);
-        setLocalTasks(localTasks);
-        setItem('tasks', JSON.stringify(localTasks)).catch(console.warn);
-        throw error;
-      }
-
-      // Best-effort cleanup for tasks (in case DB does not cascade)
-      try {
-        await supabase.from('tasks').delete().eq('goal_id', goalId);
-      } catch (e) {
-        console.warn('Best-effort task cleanup failed (safe to ignore if cascade is enabled):', e);
-      }
-
-      // Re-sync tasks/goals from server to ensure consistency
-      fetchTasks();
-      fetchGoalsFromSupabase();
-    } catch (error) {
-      console.error('Error deleting goal:', error);
-      // Rollback optimistic update
-      setLocalGoals(goals);
-      setItem('goals', JSON.stringify(goals)).catch(console.warn);
-      setLocalTasks(localTasks);
-      setItem('tasks', JSON.stringify(localTasks)).catch(console.warn);
-      throw error;
+    // Queued delete also removes orphan tasks in case the DB does not cascade (see syncQueue)
+    const userId = await resolveUserId();
+    if (!userId) return;
+    await enqueueMutation({ op: 'delete', table: 'goals', rowId: goalId, userId, payload: {} });
+    syncPending();
+  }, [goals, localTasks, resolveUserId, syncPending]);
+
+  // Single task writes from the create/edit modals; queued like toggles so they work offline.
+  // `row` and `updates` use tasks table columns.
+  const createTask = useCallback(async (row: Record<string, any>) => {
+    const userId = row.user_id || await resolveUserId();
+    if (!userId) {
+      throw new Error('Not signed in');
     }
-  }, [goals, localTasks, fetchTasks, fetchGoalsFromSupabase]);
+    const taskRow: Record<string, any> = { ...row, id: createLocalId(), user_id: userId };
+    const goalTitle = localGoals.find(goal => goal.id === taskRow.goal_id)?.title;
+    setLocalTasks(prev => [taskFromRow(taskRow, goalTitle), ...prev]);
+
+    await enqueueMutation({ op: 'create', table: 'tasks', rowId: taskRow.id, userId, payload: taskRow });
+    syncPending();
+    return taskRow;
+  }, [localGoals, resolveUserId, syncPending]);
+
+  const updateTask = useCallback(async (taskId: string, updates: Record<string, any>) => {
+    const baseUpdatedAt = localTasks.find(t => t.id === taskId)?.updated_at ?? null;
+    setLocalTasks(prev => prev.map(t => {
+      if (t.id !== taskId) return t;
+      const { notes, ...rest } = updates;
+      return { ...t, ...rest, ...(notes !== undefined ? { description: notes || '' } : {}) };
+    }));
+
+    const userId = await resolveUserId();
+    if (!userId) return;
+    await enqueueMutation({ op: 'update', table: 'tasks', rowId: taskId, userId, payload: updates, baseUpdatedAt });
+    syncPending();
+  }, [localTasks, resolveUserId, syncPending]);
+
+  const deleteTask = useCallback(async (taskId: string) => {
+    setLocalTasks(prev => prev.filter(t => t.id !== taskId));
+
+    const userId = await resolveUserId();
+    if (!userId) return;
+    await enqueueMutation({ op: 'delete', table: 'tasks', rowId: taskId, userId, payload: {} });
+    syncPending();
+  }, [resolveUserId, syncPending]);
 
   const getTasksStats = useCallback(() => {
     if (!tasks) return { total: 0, completed: 0, weeklyProgress: 0 };
@@ -907,7 +1156,7 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     const goalTasks = tasks.filter(task => task.goal_id === goal.id);
     if (goalTasks.length === 0) return 0;
     
-    const completedTasks = goalTasks.filter(task => task.completed || task.status === 'completed').length;
+    const completedTasks = goalTasks.reduce((sum, task) => sum + taskCompletionCredit(task), 0);
     return Math.round((completedTasks / goalTasks.length) * 100);
   }, [tasks]);
 
@@ -928,7 +1177,7 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     });
     
     const totalTasks = todaysTasks.length;
-    const completedTasks = todaysTasks.filter(task => task.completed || task.status === 'completed').length;
+    const completedTasks = todaysTasks.filter(task => task.completed || task.status === 'done').length;
     
     return {
       totalTasks,
@@ -950,14 +1199,23 @@ export const [GoalsProvider, useGoals] = createContextHook<GoalsContextType>(()
     goals,
     isGoalLocked,
     toggleTask,
+    toggleTaskSession,
     updateGoal,
     addGoal,
     deleteGoal,
+    createTask,
+    updateTask,
+    deleteTask,
+    pendingSyncCount,
     isLoading,
     getTasksStats,
     getGoalProgress,
     getTodaysProgress,
     refreshTasks,
     refreshGoals,
-  }), [tasks, goals, isLoading, isGoalLocked, toggleTask, updateGoal, addGoal, deleteGoal, getTasksStats, getGoalProgress, getTodaysProgress, refreshTasks, refreshGoals]);
+    getOccurrencesInRange,
+    rescheduleProposals,
+    acceptReschedule,
+    skipMissed,
+  }), [tasks, goals, isLoading, isGoalLocked, toggleTask, toggleTaskSession, updateGoal, addGoal, deleteGoal, createTask, updateTask, deleteTask, pendingSyncCount, getTasksStats, getGoalProgress, getTodaysProgress, refreshTasks, refreshGoals, getOccurrencesInRange, rescheduleProposals, acceptReschedule, skipMissed]);
 });
\ No newline at end of file
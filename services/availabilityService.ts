@@ -0,0 +1,46 @@
+import { supabase } from '@/lib/supabase-client';
+import { Availability, normalizeAvailability } from '@/lib/ai/availability';
+
+/**
+ * Availability Service
+ *
+ * Working windows per weekday plus named, date-ranged profiles ("Vacation",
+ * "Exam week"), stored in user_planning_profile.preferences.availability and read
+ * by schedule_v1 and the client schedule builders.
+ */
+
+/** The user's availability, or null when they have never configured it. */
+export async function getAvailability(userId: string): Promise<Availability | null> {
+  try {
+    const { data } = await supabase
+      .from('user_planning_profile')
+      .select('preferences')
+      .eq('user_id', userId)
+      .maybeSingle();
+    return normalizeAvailability(data?.preferences?.availability);
+  } catch (error) {
+    console.error('Error loading availability:', error);
+    return null;
+  }
+}
+
+export async function saveAvailability(userId: string, availability: Availability): Promise<Availability> {
+  const normalized = normalizeAvailability(availability);
+  if (!normalized) {
+    throw new Error('Invalid availability');
+  }
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  const preferences = { ...(data?.preferences || {}), availability: normalized };
+  const { error } = await supabase
+    .from('user_planning_profile')
+    .upsert({ user_id: userId, preferences }, { onConflict: 'user_id' });
+  if (error) {
+    console.error('Error saving availability:', error);
+    throw error;
+  }
+  return normalized;
+}
@@ -0,0 +1,92 @@
+import { supabase } from '@/lib/supabase-client';
+
+/**
+ * CalDAV Service
+ *
+ * Calendars on CalDAV servers (Nextcloud, Fastmail, iCloud, ...), connected through
+ * calendar_proxy /caldav/*, which keeps the passwords. Works on every platform,
+ * unlike app/services/appleCalendar.ts; their busy time is sent to schedule_v1 as
+ * extraBusy next to on-device Apple events.
+ */
+
+export interface CaldavCalendar {
+  url: string;
+  name: string;
+  color: string | null;
+}
+
+export interface CaldavAccount {
+  id: string;
+  server_url: string;
+  username: string;
+  calendars: CaldavCalendar[];
+}
+
+export interface CaldavEvent {
+  id: string;
+  calendarUrl: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+}
+
+// Where each provider serves CalDAV; discovery finds the calendars from there
+export const CALDAV_SERVER_HINTS: { name: string; url: string }[] = [
+  { name: 'Nextcloud', url: 'https://your-nextcloud/remote.php/dav' },
+  { name: 'Fastmail', url: 'https://caldav.fastmail.com/dav/' },
+  { name: 'iCloud', url: 'https://caldav.icloud.com/' },
+];
+
+async function callCaldav(path: string, init: RequestInit = {}): Promise<any> {
+  const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  const { data: { session } } = await supabase.auth.getSession();
+  const jwt = session?.access_token;
+  if (!supaUrl || !jwt) throw new Error('Missing configuration or session.');
+  const projRef = supaUrl.replace('https://', '').split('.')[0];
+
+  const res = await fetch(`https://${projRef}.functions.supabase.co/calendar_proxy/caldav${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(json?.error || `CalDAV request failed (${res.status})`);
+  return json;
+}
+
+export async function listCaldavAccounts(): Promise<CaldavAccount[]> {
+  const json = await callCaldav('/accounts');
+  return json.accounts || [];
+}
+
+/** Checks the login and finds the calendars; reconnecting the same login updates it. */
+export async function connectCaldavAccount(serverUrl: string, username: string, password: string): Promise<CaldavAccount> {
+  const json = await callCaldav('/connect', {
+    method: 'POST',
+    body: JSON.stringify({ server_url: serverUrl.trim(), username: username.trim(), password }),
+  });
+  return json.account;
+}
+
+export async function removeCaldavAccount(accountId: string): Promise<void> {
+  await callCaldav('/remove', { method: 'POST', body: JSON.stringify({ account_id: accountId }) });
+}
+
+/** Events of all CalDAV calendars in the range, recurring ones expanded. */
+export async function getCaldavEvents(start: Date, end: Date): Promise<CaldavEvent[]> {
+  const params = `start=${encodeURIComponent(start.toISOString())}&end=${encodeURIComponent(end.toISOString())}`;
+  const json = await callCaldav(`/events?${params}`);
+  return json.events || [];
+}
+
+/** Busy intervals from all CalDAV calendars; empty when none is connected or on errors. */
+export async function getCaldavBusy(start: Date, end: Date): Promise<{ start: string; end: string }[]> {
+  try {
+    const params = `start=${encodeURIComponent(start.toISOString())}&end=${encodeURIComponent(end.toISOString())}`;
+    const json = await callCaldav(`/busy?${params}`);
+    return json.busy || [];
+  } catch (error) {
+    console.warn('Error fetching CalDAV busy times:', error);
+    return [];
+  }
+}
@@ -0,0 +1,94 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+import { supabase } from '@/lib/supabase-client';
+import { buildIcs, goalsToIcsEvents, IcsWallTime } from '@/lib/ai/ics';
+import { isValidTimeZone, tzOffsetMinutes, zonedParts } from '@/lib/ai/timezone';
+import { getColorName } from '@/lib/colorUtils';
+import { fetchRecurrenceRules, RecurrenceRule } from '@/services/recurrenceService';
+import { TASK_SESSIONS_EMBED } from '@/services/taskSessionService';
+
+/**
+ * Calendar Export Service
+ *
+ * Builds an .ics file from a goal (or all goals) and hands the file to the system:
+ * the share sheet on iOS, a folder picker on Android (its share sheet only takes
+ * text). Events carry UIDs derived from row ids, so importing a newer export into
+ * the same calendar updates the events it already has.
+ */
+
+export interface CalendarExport {
+  name: string;
+  ics: string;
+  eventCount: number;
+}
+
+const TASK_COLUMNS = `id, goal_id, title, notes, due_at, duration_minutes, all_day, status, updated_at, recurrence_rule_id, recurrence_instance_at, ${TASK_SESSIONS_EMBED}`;
+
+// Floating rules follow the device zone, like the in-app expansion does
+function wallTime(instant: number, tzid: string | null): IcsWallTime {
+  if (tzid && isValidTimeZone(tzid)) return zonedParts(instant, tzid);
+  const d = new Date(instant);
+  return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate(), hour: d.getHours(), minute: d.getMinutes(), second: d.getSeconds() };
+}
+
+function colorLabel(color: string): string {
+  const name = getColorName(color);
+  return name === 'Custom' ? color : name;
+}
+
+/** Export one goal, or every goal of the user when `goalId` is omitted. */
+export async function buildCalendarExport(userId: string, goalId?: string): Promise<CalendarExport> {
+  try {
+    let goalsQuery = supabase.from('goals').select('id, title, color').eq('user_id', userId);
+    let tasksQuery = supabase.from('tasks').select(TASK_COLUMNS).eq('user_id', userId);
+    if (goalId) {
+      goalsQuery = goalsQuery.eq('id', goalId);
+      tasksQuery = tasksQuery.eq('goal_id', goalId);
+    }
+
+    const [goalsResult, tasksResult, rules] = await Promise.all([goalsQuery, tasksQuery, fetchRecurrenceRules(userId)]);
+    if (goalsResult.error) throw goalsResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+
+    const goals = goalsResult.data || [];
+    const events = goalsToIcsEvents(
+      goals,
+      tasksResult.data || [],
+      rules.filter((r: RecurrenceRule) => !goalId || r.goal_id === goalId),
+      { toWall: wallTime, colorName: colorLabel }
+    );
+    const name = goalId && goals[0] ? `Momentum: ${goals[0].title}` : 'Momentum';
+    return { name, ics: buildIcs({ name, events, tzOffset: tzOffsetMinutes }), eventCount: events.length };
+  } catch (error) {
+    console.error('Error building calendar export:', error);
+    throw error;
+  }
+}
+
+function fileName(calendarName: string): string {
+  return `${calendarName.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'Momentum'}.ics`;
+}
+
+/** Share the export as an .ics file. Resolves false when the user backed out. */
+export async function shareCalendarExport(userId: string, goalId?: string): Promise<boolean> {
+  const calendar = await buildCalendarExport(userId, goalId);
+  if (calendar.eventCount === 0) {
+    throw new Error('There are no tasks to export yet.');
+  }
+  const name = fileName(calendar.name);
+
+  if (Platform.OS === 'android') {
+    // The picker rejects when it is closed without a folder
+    const folder = await Directory.pickDirectoryAsync().catch(() => null);
+    if (!folder) return false;
+    folder.createFile(name, 'text/calendar').write(calendar.ics);
+    return true;
+  }
+
+  const file = new File(Paths.cache, name);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(calendar.ics);
+  const result = await Share.share({ title: name, url: file.uri });
+  return result.action !== Share.dismissedAction;
+}
@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase-client';
+
+/**
+ * Calendar Feed Service
+ *
+ * Manages calendar_feed_tokens: secret, revocable URLs served by the calendar_feed
+ * edge function that any calendar app can subscribe to (webcal://). A token can be
+ * limited to some goals; `goal_ids` null means all of them.
+ */
+
+export interface CalendarFeedToken {
+  id: string;
+  token: string;
+  name: string;
+  goal_ids: string[] | null;
+  created_at: string;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+}
+
+const TOKEN_COLUMNS = 'id, token, name, goal_ids, created_at, revoked_at, last_accessed_at';
+
+/** https URL of the feed, or null when EXPO_PUBLIC_SUPABASE_URL is not configured. */
+export function feedHttpsUrl(token: string): string | null {
+  const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  if (!supaUrl) return null;
+  const projRef = supaUrl.replace('https://', '').split('.')[0];
+  return `https://${projRef}.functions.supabase.co/calendar_feed/${token}.ics`;
+}
+
+/** webcal:// URL; opening it starts a subscription in the system calendar app. */
+export function feedWebcalUrl(token: string): string | null {
+  return feedHttpsUrl(token)?.replace(/^https:/, 'webcal:') ?? null;
+}
+
+/** Active (not revoked) feeds, newest first. */
+export async function listCalendarFeeds(userId: string): Promise<CalendarFeedToken[]> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading calendar feeds:', error);
+    throw error;
+  }
+  return (data || []) as CalendarFeedToken[];
+}
+
+export async function createCalendarFeed(
+  userId: string,
+  name: string,
+  goalIds: string[] | null
+): Promise<CalendarFeedToken> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: userId, name: name.trim() || 'Momentum', goal_ids: goalIds && goalIds.length > 0 ? goalIds : null })
+    .select(TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating calendar feed:', error);
+    throw error;
+  }
+  return data as CalendarFeedToken;
+}
+
+/** Revoked feeds answer 404, so subscribed calendars stop updating. */
+export async function revokeCalendarFeed(feedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', feedId);
+
+  if (error) {
+    console.error('Error revoking calendar feed:', error);
+    throw error;
+  }
+}
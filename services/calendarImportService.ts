@@ -0,0 +1,220 @@
+import { supabase } from '@/lib/supabase-client';
+import { IcsDateTime, IcsParsedEvent, parseIcs } from '@/lib/ai/ics';
+import { expandRRuleString } from '@/lib/ai/rrule';
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/ai/timezone';
+import type { Goal } from '@/types/goal';
+
+/**
+ * Calendar Import Service
+ *
+ * Turns the VEVENTs of an .ics file into tasks of a new or existing goal. Recurring
+ * events are expanded within the goal's date range, one task per occurrence, and
+ * every task remembers its event (tasks.ics_uid) so importing the file again
+ * updates those tasks instead of duplicating them. The preview is built first and
+ * only written by `commitIcsImport`, through create_goal_with_tasks like AI plans.
+ */
+
+export interface ImportedTask {
+  ics_uid: string;
+  title: string;
+  notes: string | null;
+  due_at: string;
+  duration_minutes: number | null;
+  all_day: boolean;
+  existing: boolean; // imported before; will be updated in place
+}
+
+export interface IcsImportPreview {
+  calendarName: string | null;
+  tasks: ImportedTask[];
+  newCount: number;
+  updateCount: number;
+  skippedCount: number; // outside the date range or cancelled
+  truncated: boolean; // more than MAX_IMPORT_TASKS occurrences
+}
+
+export type ImportTarget = { goalId: string } | { title: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 365;
+const MAX_IMPORT_TASKS = 500;
+
+/** Accepts https:// and webcal:// links. */
+export async function fetchIcsFromUrl(url: string): Promise<string> {
+  const target = url.trim().replace(/^webcals?:\/\//i, 'https://');
+  if (!/^https?:\/\//i.test(target)) {
+    throw new Error('Enter an https:// or webcal:// link.');
+  }
+  const response = await fetch(target);
+  if (!response.ok) {
+    throw new Error(`Could not download the calendar (HTTP ${response.status}).`);
+  }
+  const text = await response.text();
+  if (!text.includes('BEGIN:VCALENDAR')) {
+    throw new Error('That link does not point to an iCalendar (.ics) file.');
+  }
+  return text;
+}
+
+/** Date range occurrences are expanded in: the goal's own dates, or a year from today for a new goal. */
+export function importRangeForGoal(goal?: Pick<Goal, 'start_date' | 'created_at' | 'target_date'> | null): { start: Date; end: Date } {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const startValue = goal?.start_date || goal?.created_at;
+  const start = startValue ? new Date(startValue) : today;
+  const end = goal?.target_date ? new Date(goal.target_date) : new Date(today.getTime() + DEFAULT_RANGE_DAYS * DAY_MS);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+// All-day events are stored at local noon so their UTC date (used by the export) matches the local one
+function toInstant(value: IcsDateTime): Date {
+  if ('utc' in value) return new Date(value.utc);
+  if ('date' in value) {
+    const [year, month, day] = value.date.split('-').map(Number);
+    return new Date(year, month - 1, day, 12, 0, 0, 0);
+  }
+  const { wall, tzid } = value;
+  if (tzid && isValidTimeZone(tzid)) return new Date(zonedTimeToUtc(tzid, wall));
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0);
+}
+
+function eventDuration(event: IcsParsedEvent, allDay: boolean): number | null {
+  if (allDay) return null;
+  if (event.durationMinutes !== null) return event.durationMinutes || null;
+  if (event.end) {
+    const minutes = Math.round((toInstant(event.end).getTime() - toInstant(event.start).getTime()) / 60000);
+    return minutes > 0 ? minutes : null;
+  }
+  return null;
+}
+
+const occurrenceUid = (uid: string, start: Date) => `${uid}#${start.toISOString()}`;
+
+function toTask(event: IcsParsedEvent, uid: string, start: Date): Omit<ImportedTask, 'existing'> {
+  const allDay = 'date' in event.start;
+  return {
+    ics_uid: uid,
+    title: event.summary,
+    notes: event.description,
+    due_at: start.toISOString(),
+    duration_minutes: eventDuration(event, allDay),
+    all_day: allDay,
+  };
+}
+
+/**
+ * Map the file to tasks within [range.start, range.end]. `existingUids` are the
+ * ics_uids already stored for the user (see `fetchImportedUids`).
+ */
+export function previewIcsImport(
+  ics: string,
+  range: { start: Date; end: Date },
+  existingUids: Set<string>
+): IcsImportPreview {
+  const calendar = parseIcs(ics);
+  if (calendar.events.length === 0) {
+    throw new Error('No events found in this calendar.');
+  }
+
+  const inRange = (d: Date) => d.getTime() >= range.start.getTime() && d.getTime() <= range.end.getTime();
+  const byUid = new Map<string, Omit<ImportedTask, 'existing'> | null>(); // null: cancelled occurrence
+  let skippedCount = 0;
+
+  // Series first, so overrides (RECURRENCE-ID) below replace their expanded occurrence
+  for (const event of calendar.events.filter(e => !e.recurrenceId)) {
+    const start = toInstant(event.start);
+    if (!event.rrule) {
+      if (event.status === 'CANCELLED' || !inRange(start)) skippedCount++;
+      else byUid.set(event.uid, toTask(event, event.uid, start));
+      continue;
+    }
+    let occurrences: Date[];
+    try {
+      occurrences = expandRRuleString(event.rrule, start, {
+        rangeStart: range.start,
+        rangeEnd: range.end,
+        exdates: event.exdates.map(toInstant),
+        timeZone: 'wall' in event.start ? event.start.tzid : null,
+      });
+    } catch (error) {
+      console.warn('Skipping event with an unsupported RRULE:', event.uid, error);
+      skippedCount++;
+      continue;
+    }
+    if (event.status === 'CANCELLED') {
+      skippedCount++;
+      continue;
+    }
+    for (const occ of occurrences) {
+      byUid.set(occurrenceUid(event.uid, occ), toTask(event, occurrenceUid(event.uid, occ), occ));
+    }
+  }
+
+  for (const event of calendar.events.filter(e => e.recurrenceId)) {
+    const uid = occurrenceUid(event.uid, toInstant(event.recurrenceId!));
+    const start = toInstant(event.start);
+    if (event.status === 'CANCELLED' || !inRange(start)) {
+      if (byUid.has(uid)) byUid.set(uid, null);
+      skippedCount++;
+    } else {
+      byUid.set(uid, toTask(event, uid, start));
+    }
+  }
+
+  const all = [...byUid.values()]
+    .filter((t): t is Omit<ImportedTask, 'existing'> => t !== null)
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
+  const tasks = all.slice(0, MAX_IMPORT_TASKS).map(t => ({ ...t, existing: existingUids.has(t.ics_uid) }));
+  const updateCount = tasks.filter(t => t.existing).length;
+
+  return {
+    calendarName: calendar.name,
+    tasks,
+    newCount: tasks.length - updateCount,
+    updateCount,
+    skippedCount,
+    truncated: all.length > MAX_IMPORT_TASKS,
+  };
+}
+
+/** ics_uids of tasks the user imported before. */
+export async function fetchImportedUids(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('ics_uid')
+    .eq('user_id', userId)
+    .not('ics_uid', 'is', null);
+
+  if (error) {
+    console.error('Error loading imported task uids:', error);
+    throw error;
+  }
+  return new Set((data || []).map((row: { ics_uid: string }) => row.ics_uid));
+}
+
+/** Write the previewed tasks. Returns the id of the goal they were added to. */
+export async function commitIcsImport(userId: string, target: ImportTarget, preview: IcsImportPreview): Promise<string> {
+  if (preview.tasks.length === 0) {
+    throw new Error('There is nothing to import in this date range.');
+  }
+  const goal = 'goalId' in target
+    ? { id: target.goalId }
+    : {
+        title: target.title.trim() || preview.calendarName || 'Imported calendar',
+        description: preview.calendarName ? `Imported from ${preview.calendarName}` : 'Imported from a calendar file',
+        target_date: preview.tasks[preview.tasks.length - 1].due_at,
+      };
+
+  const { data: goalId, error } = await supabase.rpc('create_goal_with_tasks', {
+    p_user_id: userId,
+    p_goal: goal,
+    p_tasks: preview.tasks.map(({ existing, ...task }) => task),
+  });
+
+  if (error) {
+    console.error('Error importing calendar:', error);
+    throw new Error(`Failed to import calendar: ${error.message}`);
+  }
+  return goalId as string;
+}
@@ -0,0 +1,286 @@
+import { Platform } from 'react-native';
+import { supabase } from '@/lib/supabase-client';
+import {
+  getEventsInRange,
+  hasCalendarPermission,
+  listEventCalendars,
+  requestCalendarPermission,
+} from '@/app/services/appleCalendar';
+import {
+  connectGoogleAccount,
+  getGoogleBusy,
+  listCachedGoogleEvents,
+  listGoogleAccounts,
+  listGoogleCalendars,
+  syncGoogleEvents,
+} from '@/services/googleCalendarService';
+import { getCaldavBusy, getCaldavEvents, listCaldavAccounts } from '@/services/caldavService';
+
+/**
+ * Calendar Providers
+ *
+ * One CalendarProvider per external calendar source, behind the same interface:
+ * connection status and connect, calendars, events in a range and busy intervals.
+ * CalendarScreen, the Settings calendar section and the scheduler go through the
+ * registry below, so a new source only needs a provider here.
+ *
+ * Whether a provider's events are shown is a boolean in user_planning_profile.preferences
+ * (`showEventsPreference`), defaulting to whether it is connected.
+ */
+
+export type CalendarProviderId = 'google' | 'apple' | 'caldav';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface ExternalEvent {
+  id: string; // unique across the provider's calendars
+  calendarId: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  location: string | null;
+  htmlLink: string | null; // where to open the event, when the source has a web UI
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface ProviderStatus {
+  connected: boolean;
+  summary: string; // one line for Settings, e.g. "2 accounts connected"
+}
+
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  name: string;
+  color: string; // accent of its events in CalendarScreen
+  showEventsPreference: string;
+  experimental?: boolean;
+  // schedule_v1 reads this provider's busy time itself; not sent as extraBusy
+  busyOnServer: boolean;
+  isSupported: () => boolean;
+  getStatus: (userId: string) => Promise<ProviderStatus>;
+  // In-place connect (OAuth, permission prompt); left out when connecting needs a form.
+  // Resolves to whether the provider is connected afterwards.
+  connect?: (userId: string) => Promise<boolean>;
+  connectHint?: string; // shown when connect resolves to false
+  listCalendars: (userId: string) => Promise<ExternalCalendar[]>;
+  fetchEvents: (userId: string, range: DateRange) => Promise<ExternalEvent[]>;
+  fetchBusy: (userId: string, range: DateRange) => Promise<BusyInterval[]>;
+  // Ask the server to catch up with the source; changes then arrive on `changesTable`
+  sync?: (userId: string) => Promise<void>;
+  changesTable?: string;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const googleCalendarProvider: CalendarProvider = {
+  id: 'google',
+  name: 'Google Calendar',
+  color: '#34A853',
+  showEventsPreference: 'showGoogleEvents',
+  busyOnServer: true,
+  isSupported: () => true,
+  getStatus: async (userId) => {
+    const accounts = await listGoogleAccounts(userId);
+    return accounts.length > 0
+      ? { connected: true, summary: `${plural(accounts.length, 'account')} connected · choose busy and shown calendars` }
+      : { connected: false, summary: 'Not connected' };
+  },
+  connect: async (userId) => {
+    await connectGoogleAccount();
+    return (await listGoogleAccounts(userId)).length > 0;
+  },
+  listCalendars: async () =>
+    (await listGoogleCalendars()).map(c => ({ id: c.key, name: c.name, color: c.color })),
+  fetchEvents: async (userId, { start, end }) =>
+    (await listCachedGoogleEvents(userId, start, end)).map(e => ({
+      id: `${e.calendarId}:${e.id}`,
+      calendarId: e.calendarId,
+      title: e.title,
+      start: e.start,
+      end: e.end,
+      allDay: e.allDay,
+      location: e.location,
+      htmlLink: e.htmlLink || 'https://calendar.google.com',
+    })),
+  fetchBusy: (_userId, { start, end }) => getGoogleBusy(start, end),
+  sync: async () => {
+    await syncGoogleEvents();
+  },
+  changesTable: 'google_events',
+};
+
+export const appleCalendarProvider: CalendarProvider = {
+  id: 'apple',
+  name: 'Apple Calendar',
+  color: '#007AFF',
+  showEventsPreference: 'showAppleEvents',
+  experimental: true,
+  busyOnServer: false,
+  isSupported: () => Platform.OS === 'ios',
+  getStatus: async () =>
+    (await hasCalendarPermission())
+      ? { connected: true, summary: 'Connected (on-device)' }
+      : { connected: false, summary: 'Not connected' },
+  connect: () => requestCalendarPermission(),
+  connectHint: 'Please allow Calendar access in Settings to show Apple Calendar events.',
+  listCalendars: async () =>
+    (await listEventCalendars()).map(c => ({ id: c.id, name: c.title, color: c.color || null })),
+  fetchEvents: async (_userId, range) =>
+    (await getEventsInRange(range)).map(e => ({
+      id: `${e.calendarId}:${e.id}`,
+      calendarId: e.calendarId,
+      title: e.title,
+      start: e.start,
+      end: e.end,
+      allDay: e.allDay,
+      location: e.location,
+      htmlLink: null,
+    })),
+  // All-day events (holidays, birthdays) do not block time
+  fetchBusy: async (_userId, range) =>
+    (await getEventsInRange(range)).filter(e => !e.allDay).map(e => ({ start: e.start, end: e.end })),
+};
+
+export const caldavCalendarProvider: CalendarProvider = {
+  id: 'caldav',
+  name: 'CalDAV',
+  color: '#8E6CEF',
+  showEventsPreference: 'showCaldavEvents',
+  busyOnServer: false,
+  isSupported: () => true,
+  getStatus: async () => {
+    const accounts = await listCaldavAccounts();
+    return accounts.length > 0
+      ? { connected: true, summary: `${accounts.map(a => a.username).join(', ')} · busy times kept free when scheduling` }
+      : { connected: false, summary: 'Nextcloud, Fastmail, iCloud and other CalDAV servers' };
+  },
+  listCalendars: async () =>
+    (await listCaldavAccounts()).flatMap(a => a.calendars.map(c => ({ id: c.url, name: c.name, color: c.color }))),
+  fetchEvents: async (_userId, { start, end }) =>
+    (await getCaldavEvents(start, end)).map(e => ({
+      id: e.id,
+      calendarId: e.calendarUrl,
+      title: e.title,
+      start: e.start,
+      end: e.end,
+      allDay: e.allDay,
+      location: null,
+      htmlLink: null,
+    })),
+  fetchBusy: (_userId, { start, end }) => getCaldavBusy(start, end),
+};
+
+export const calendarProviders: CalendarProvider[] = [
+  googleCalendarProvider,
+  appleCalendarProvider,
+  caldavCalendarProvider,
+];
+
+/** Providers that can run on this platform. */
+export function getCalendarProviders(): CalendarProvider[] {
+  return calendarProviders.filter(p => p.isSupported());
+}
+
+export function getCalendarProvider(id: CalendarProviderId): CalendarProvider {
+  const provider = calendarProviders.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown calendar provider: ${id}`);
+  return provider;
+}
+
+export type ProviderMap<T> = Partial<Record<CalendarProviderId, T>>;
+
+async function getPreferences(userId: string): Promise<Record<string, any>> {
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.preferences || {};
+}
+
+/**
+ * Status and "show events" choice of every supported provider. Missing choices
+ * default to whether the provider is connected and are saved, so connecting a
+ * source later does not start showing its events unasked.
+ */
+export async function resolveCalendarProviders(userId: string): Promise<{
+  status: ProviderMap<ProviderStatus>;
+  show: ProviderMap<boolean>;
+}> {
+  const providers = getCalendarProviders();
+  const [preferences, statuses] = await Promise.all([
+    getPreferences(userId),
+    Promise.all(providers.map(p => p.getStatus(userId).catch(() => ({ connected: false, summary: 'Not connected' })))),
+  ]);
+  const status: ProviderMap<ProviderStatus> = {};
+  const show: ProviderMap<boolean> = {};
+  const missing: Record<string, boolean> = {};
+  providers.forEach((provider, i) => {
+    status[provider.id] = statuses[i];
+    const key = provider.showEventsPreference;
+    if (Object.prototype.hasOwnProperty.call(preferences, key)) {
+      show[provider.id] = !!preferences[key];
+    } else {
+      show[provider.id] = statuses[i].connected;
+      missing[key] = statuses[i].connected;
+    }
+  });
+  if (Object.keys(missing).length > 0) {
+    await supabase
+      .from('user_planning_profile')
+      .upsert({ user_id: userId, preferences: { ...preferences, ...missing } }, { onConflict: 'user_id' });
+  }
+  return { status, show };
+}
+
+export async function setShowProviderEvents(userId: string, provider: CalendarProvider, show: boolean): Promise<void> {
+  const preferences = { ...(await getPreferences(userId)), [provider.showEventsPreference]: show };
+  const { error } = await supabase
+    .from('user_planning_profile')
+    .upsert({ user_id: userId, preferences }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving calendar preference:', error);
+    throw error;
+  }
+}
+
+async function collectProviderBusy(providers: CalendarProvider[], userId: string, range: DateRange): Promise<BusyInterval[]> {
+  const results = await Promise.all(providers.map(async provider => {
+    try {
+      if (!(await provider.getStatus(userId)).connected) return [];
+      return await provider.fetchBusy(userId, range);
+    } catch (error) {
+      console.warn(`Error fetching ${provider.name} busy times:`, error);
+      return [];
+    }
+  }));
+  return results.flat();
+}
+
+/** Busy intervals of every connected provider. A failing provider is skipped. */
+export function collectBusy(userId: string, range: DateRange): Promise<BusyInterval[]> {
+  return collectProviderBusy(getCalendarProviders(), userId, range);
+}
+
+/**
+ * Busy intervals for schedule_v1's extraBusy: every connected provider whose busy
+ * time the server does not read itself.
+ */
+export function collectExtraBusy(userId: string, range: DateRange): Promise<BusyInterval[]> {
+  return collectProviderBusy(getCalendarProviders().filter(p => !p.busyOnServer), userId, range);
+}
@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabase-client';
+
+/**
+ * Chat History Service
+ *
+ * Past coach chats. coach_chat stores every turn (conversations and messages, keyed
+ * by the chat id it returns), so this only reads, searches and deletes. Deleting a
+ * thread does not give a chat back: its chat_usage row stays until
+ * cleanup_old_chat_usage removes it.
+ */
+
+export interface Conversation {
+  id: string;
+  title: string;
+  last_message_at: string;
+  snippet?: string; // search results: the best-matching message, hits in **bold**
+}
+
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  status: 'stopped' | 'interrupted' | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 50;
+
+export async function listConversations(userId: string): Promise<Conversation[]> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, title, last_message_at')
+    .eq('user_id', userId)
+    .order('last_message_at', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (error) {
+    console.error('Error fetching conversations:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+/** Threads with a message matching the query (web-search syntax: "quoted phrases", -exclusions). */
+export async function searchConversations(query: string): Promise<Conversation[]> {
+  if (!query.trim()) return [];
+  const { data, error } = await supabase.rpc('search_conversations', { p_query: query.trim(), p_limit: PAGE_SIZE });
+
+  if (error) {
+    console.error('Error searching conversations:', error);
+    throw error;
+  }
+  return (data || []).map((row: any) => ({
+    id: row.conversation_id,
+    title: row.title,
+    last_message_at: row.last_message_at,
+    snippet: row.snippet,
+  }));
+}
+
+export async function getConversationMessages(conversationId: string): Promise<StoredMessage[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, role, content, status, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching messages:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+/** Deletes the thread and its messages (cascade). */
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const { error } = await supabase.from('conversations').delete().eq('id', conversationId);
+
+  if (error) {
+    console.error('Error deleting conversation:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { supabase } from '@/lib/supabase-client';
+import { DEFAULT_TASK_MINUTES, findNextFreeSlot } from '@/lib/ai/conflicts';
+import { Interval } from '@/lib/ai/intervals';
+import { getAvailability } from '@/services/availabilityService';
+import { collectBusy } from '@/services/calendarProviders';
+import { isOccurrenceId, materializeOccurrence, resolveOccurrence } from '@/services/recurrenceService';
+import { updateTaskSessionTimes } from '@/services/taskSessionService';
+import { TaskSession } from '@/types/task';
+
+/**
+ * Conflict Service
+ *
+ * Moves a task that overlaps an external event (see lib/ai/conflicts.ts) to the next
+ * free slot: the user's availability minus the busy time of every connected calendar
+ * provider, cut out with schedule_v1's subtractBusy. Callers add what they already
+ * show (other tasks, all-day events) so the new slot is not flagged again.
+ */
+
+export interface MovableTask {
+  id: string;
+  due_at: string;
+  duration_minutes?: number | null;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  session?: TaskSession; // one session of a split task
+}
+
+export interface FreeSlot {
+  start: string;
+  end: string;
+}
+
+const SEARCH_DAYS = 14;
+
+/** Next free slot after the task's current start (or now, if that has passed). */
+export async function findFreeSlotForTask(
+  userId: string,
+  task: MovableTask,
+  knownBusy: Interval[],
+  now: Date = new Date()
+): Promise<FreeSlot | null> {
+  const after = new Date(Math.max(now.getTime(), new Date(task.due_at).getTime()));
+  const range = { start: after, end: new Date(after.getTime() + SEARCH_DAYS * 24 * 60 * 60 * 1000) };
+  const [availability, externalBusy] = await Promise.all([
+    getAvailability(userId),
+    collectBusy(userId, range),
+  ]);
+  const busy = [
+    ...externalBusy.map(b => ({ start: new Date(b.start).getTime(), end: new Date(b.end).getTime() })),
+    ...knownBusy,
+  ];
+  const slot = findNextFreeSlot({
+    after,
+    minutes: task.duration_minutes || DEFAULT_TASK_MINUTES,
+    busy,
+    availability,
+    horizonDays: SEARCH_DAYS,
+  });
+  return slot ? { start: new Date(slot.start).toISOString(), end: new Date(slot.end).toISOString() } : null;
+}
+
+/** Move a task, one session of it, or one occurrence of a recurring task to `slot`. */
+export async function moveTaskToSlot(userId: string, task: MovableTask, slot: FreeSlot): Promise<void> {
+  try {
+    if (task.session) {
+      await updateTaskSessionTimes(task.session.id, slot.start, slot.end);
+      return;
+    }
+    if (isOccurrenceId(task.id)) {
+      const ref = await resolveOccurrence(task);
+      if (!ref) throw new Error('Recurrence rule not found');
+      await materializeOccurrence(ref.rule, ref.instanceAt, { due_at: slot.start });
+      return;
+    }
+    const { error } = await supabase
+      .from('tasks')
+      .update({ due_at: slot.start, updated_at: new Date().toISOString() })
+      .eq('id', task.id)
+      .eq('user_id', userId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error moving task:', error);
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { InterviewFields, ScheduledSlot } from '../lib/ai/planSchema';
+import { StructuredOutputError } from '../lib/ai/structuredOutput';
 import { buildSchedule } from '../lib/ai/scheduler';
 
 // In-memory deduplication cache
@@ -69,6 +70,8 @@ export async function completeGoalFromInterview({
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
+      // No plan matched the schema after re-prompting, or the model failed
+      if (errorData.failure) throw new StructuredOutputError(errorData.failure);
       throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
     }
 
@@ -0,0 +1,201 @@
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { supabase } from '@/lib/supabase-client';
+
+/**
+ * Google Calendar Service
+ *
+ * Connected Google accounts (calendar_accounts, several per user) and the calendars
+ * they hold, as listed by calendar_proxy /calendars. Which calendars count as busy
+ * for scheduling and which are shown in the calendar is stored in
+ * user_planning_profile.preferences.googleCalendars as lists of the ones switched
+ * off, so calendars added later in Google start out busy and shown.
+ *
+ * Events come from google_events, a cache calendar_proxy keeps current with Google
+ * (/events/sync and watch-channel webhooks); subscribe to that table for changes.
+ */
+
+export interface GoogleAccount {
+  id: string;
+  email: string | null;
+}
+
+export interface GoogleCalendar {
+  key: string; // "<account id>:<calendar id>"
+  accountId: string;
+  accountEmail: string | null;
+  id: string;
+  name: string;
+  color: string | null;
+  primary: boolean;
+  busy: boolean;
+  shown: boolean;
+}
+
+export interface GoogleEvent {
+  id: string;
+  calendarId: string;
+  accountId: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  location: string | null;
+  htmlLink: string | null;
+}
+
+export interface GoogleCalendarSelection {
+  hidden: string[];
+  notBusy: string[];
+}
+
+function proxyUrl(path: string): string | null {
+  const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  if (!supaUrl) return null;
+  const projRef = supaUrl.replace('https://', '').split('.')[0];
+  return `https://${projRef}.functions.supabase.co/calendar_proxy${path}`;
+}
+
+async function callProxy(path: string, init: RequestInit = {}): Promise<any> {
+  const url = proxyUrl(path);
+  const { data: { session } } = await supabase.auth.getSession();
+  const jwt = session?.access_token;
+  if (!url || !jwt) throw new Error('Missing configuration or session.');
+
+  const res = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+  });
+  if (!res.ok) throw new Error(`Google Calendar request failed (${res.status})`);
+  return res.json();
+}
+
+/**
+ * Run the OAuth flow of calendar_proxy in an auth session. Connecting an account that
+ * is already connected reconnects it (fresh tokens and scopes).
+ */
+export async function connectGoogleAccount(): Promise<void> {
+  const url = proxyUrl('/oauth/start');
+  const { data: { session } } = await supabase.auth.getSession();
+  const jwt = session?.access_token;
+  if (!url || !jwt) throw new Error('Missing configuration or session.');
+  const returnUrl = Linking.createURL('/calendar-connected');
+  const startUrl = `${url}?token=${encodeURIComponent(jwt)}&return_url=${encodeURIComponent(returnUrl)}`;
+  await WebBrowser.openAuthSessionAsync(startUrl, returnUrl);
+}
+
+/** Busy intervals of the calendars that count as busy, as schedule_v1 sees them. */
+export async function getGoogleBusy(start: Date, end: Date): Promise<{ start: string; end: string }[]> {
+  const params = `start=${encodeURIComponent(start.toISOString())}&end=${encodeURIComponent(end.toISOString())}`;
+  const json = await callProxy(`/freebusy?${params}`);
+  return Object.values(json.calendars || {}).flatMap((calendar: any) => calendar.busy || []);
+}
+
+export async function listGoogleAccounts(userId: string): Promise<GoogleAccount[]> {
+  const { data, error } = await supabase
+    .from('calendar_accounts')
+    .select('id, email')
+    .eq('user_id', userId)
+    .eq('provider', 'google')
+    .order('id');
+
+  if (error) {
+    console.error('Error fetching Google accounts:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+/** Calendars of every connected account, with the user's busy/shown choices applied. */
+export async function listGoogleCalendars(): Promise<GoogleCalendar[]> {
+  const json = await callProxy('/calendars');
+  return json.calendars || [];
+}
+
+/**
+ * Bring the event cache up to date with Google. Cheap after the first run: only
+ * changes since the previous sync are fetched. Resolves to the number of events changed.
+ */
+export async function syncGoogleEvents(): Promise<number> {
+  try {
+    const json = await callProxy('/events/sync', { method: 'POST' });
+    return json.changed ?? 0;
+  } catch (error) {
+    console.warn('Error syncing Google events:', error);
+    return 0;
+  }
+}
+
+/** Cached events overlapping [start, end) from the calendars the user shows. */
+export async function listCachedGoogleEvents(userId: string, start: Date, end: Date): Promise<GoogleEvent[]> {
+  const [{ data, error }, { data: profile }] = await Promise.all([
+    supabase
+      .from('google_events')
+      .select('account_id, calendar_id, event_id, title, start_at, end_at, all_day, location, html_link')
+      .eq('user_id', userId)
+      .lt('start_at', end.toISOString())
+      .gt('end_at', start.toISOString())
+      .order('start_at'),
+    supabase.from('user_planning_profile').select('preferences').eq('user_id', userId).maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error('Error fetching cached Google events:', error);
+    throw error;
+  }
+  const hidden = new Set<string>(profile?.preferences?.googleCalendars?.hidden || []);
+  // A calendar shared with two connected accounts is cached for both; keep one copy
+  const seen = new Set<string>();
+  return (data || []).flatMap((row: any) => {
+    const id = `${row.calendar_id}:${row.event_id}`;
+    if (hidden.has(`${row.account_id}:${row.calendar_id}`) || seen.has(id)) return [];
+    seen.add(id);
+    return [{
+      id: row.event_id,
+      calendarId: row.calendar_id,
+      accountId: row.account_id,
+      title: row.title,
+      start: row.start_at,
+      end: row.end_at,
+      allDay: row.all_day,
+      location: row.location,
+      htmlLink: row.html_link,
+    }];
+  });
+}
+
+/** Disconnect an account: revokes Momentum's access at Google and deletes its tokens. */
+export async function removeGoogleAccount(accountId: string): Promise<void> {
+  await callProxy('/accounts/remove', {
+    method: 'POST',
+    body: JSON.stringify({ account_id: accountId }),
+  });
+}
+
+/**
+ * Save the busy/shown switches of `calendars`. Choices for accounts missing from the
+ * list (e.g. one Google could not be reached for) are kept.
+ */
+export async function setGoogleCalendarSelection(userId: string, calendars: GoogleCalendar[]): Promise<void> {
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  const previous: Partial<GoogleCalendarSelection> = data?.preferences?.googleCalendars || {};
+  const listedAccounts = new Set(calendars.map(c => c.accountId));
+  const keep = (keys: string[] | undefined) => (keys || []).filter(key => !listedAccounts.has(key.split(':')[0]));
+  const selection: GoogleCalendarSelection = {
+    hidden: [...keep(previous.hidden), ...calendars.filter(c => !c.shown).map(c => c.key)],
+    notBusy: [...keep(previous.notBusy), ...calendars.filter(c => !c.busy).map(c => c.key)],
+  };
+  const preferences = { ...(data?.preferences || {}), googleCalendars: selection };
+  const { error } = await supabase
+    .from('user_planning_profile')
+    .upsert({ user_id: userId, preferences }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving Google calendar selection:', error);
+    throw error;
+  }
+}
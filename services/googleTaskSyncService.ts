@@ -0,0 +1,115 @@
+import { supabase } from '@/lib/supabase-client';
+
+/**
+ * Google Task Sync Service
+ *
+ * Client side of the two-way Google Calendar sync in calendar_proxy (/tasks/*).
+ * When enabled (user_planning_profile.preferences.syncTasksToGoogle), database
+ * triggers queue every change to tasks, their sessions and recurrence rules, however
+ * it was made, and the app asks calendar_proxy to write the queue into the "Momentum"
+ * Google calendar whenever it sees one. Edits made to those events in Google are
+ * pulled back into task and session times.
+ */
+
+export class GoogleReconnectRequiredError extends Error {
+  constructor() {
+    super('Reconnect Google Calendar to let Momentum add events.');
+    this.name = 'GoogleReconnectRequiredError';
+  }
+}
+
+// Preference per user, loaded once; setGoogleTaskSyncEnabled keeps it current
+const enabledByUser = new Map<string, boolean>();
+
+// A goal created from a plan arrives as a burst of realtime changes; push them together
+const PUSH_DELAY_MS = 2000;
+const pushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function proxyUrl(path: string): string | null {
+  const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  if (!supaUrl) return null;
+  const projRef = supaUrl.replace('https://', '').split('.')[0];
+  return `https://${projRef}.functions.supabase.co/calendar_proxy${path}`;
+}
+
+async function callTaskRoute(path: string, body: Record<string, any>): Promise<any> {
+  const url = proxyUrl(path);
+  const { data: { session } } = await supabase.auth.getSession();
+  const jwt = session?.access_token;
+  if (!url || !jwt) return null;
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (res.status === 403) throw new GoogleReconnectRequiredError();
+  if (res.status === 404) return null; // not connected
+  if (!res.ok) throw new Error(`Google Calendar sync failed (${res.status})`);
+  return res.json();
+}
+
+export async function isGoogleTaskSyncEnabled(userId: string): Promise<boolean> {
+  const cached = enabledByUser.get(userId);
+  if (cached !== undefined) return cached;
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  const enabled = !!data?.preferences?.syncTasksToGoogle;
+  enabledByUser.set(userId, enabled);
+  return enabled;
+}
+
+/**
+ * Turn task sync on or off. Turning it on writes upcoming tasks to Google first, so
+ * a missing write permission surfaces here as GoogleReconnectRequiredError.
+ */
+export async function setGoogleTaskSyncEnabled(userId: string, enabled: boolean): Promise<void> {
+  if (enabled) {
+    await callTaskRoute('/tasks/upsert', { backfill: true });
+  }
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  const preferences = { ...(data?.preferences || {}), syncTasksToGoogle: enabled };
+  const { error } = await supabase
+    .from('user_planning_profile')
+    .upsert({ user_id: userId, preferences }, { onConflict: 'user_id' });
+  if (error) throw error;
+  enabledByUser.set(userId, enabled);
+}
+
+async function flushQueuedTaskEvents(userId: string): Promise<void> {
+  if (!(await isGoogleTaskSyncEnabled(userId))) return;
+  try {
+    await callTaskRoute('/tasks/flush', {});
+  } catch (error) {
+    console.warn('Error pushing tasks to Google Calendar:', error);
+  }
+}
+
+/** Write the tasks and rules the database queued to Google, after a short pause. */
+export function requestGoogleTaskPush(userId: string): void {
+  const pending = pushTimers.get(userId);
+  if (pending) clearTimeout(pending);
+  pushTimers.set(userId, setTimeout(() => {
+    pushTimers.delete(userId);
+    flushQueuedTaskEvents(userId);
+  }, PUSH_DELAY_MS));
+}
+
+/** Pull event moves made in Google into tasks. Resolves to the number of tasks changed. */
+export async function pullGoogleTaskEdits(userId: string): Promise<number> {
+  if (!(await isGoogleTaskSyncEnabled(userId))) return 0;
+  try {
+    const result = await callTaskRoute('/tasks/pull', {});
+    return result?.updated ?? 0;
+  } catch (error) {
+    console.warn('Error pulling Google Calendar edits:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,431 @@
+import { Alert } from 'react-native';
+import { supabase } from '@/lib/supabase-client';
+import { expandRRule, formatRRule, parseRRule, RRULE_WEEKDAYS, RRule } from '@/lib/ai/rrule';
+import { RecurrenceRuleDraft } from '@/lib/ai/scheduler';
+import { toZonedWallDate } from '@/lib/ai/timezone';
+
+/**
+ * Recurrence Service
+ *
+ * A goal owns one or more recurrence_rules rows. Occurrences are never stored
+ * up front; they are expanded for whatever range the UI is showing. A tasks row
+ * with recurrence_rule_id + recurrence_instance_at overrides a single occurrence
+ * (moved, edited or completed), and rule.exdates cancels occurrences outright.
+ */
+
+export interface RecurrenceRule {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  title: string;
+  notes?: string | null;
+  rrule: string;
+  dtstart: string;
+  duration_minutes?: number | null;
+  exdates: string[];
+  tzid?: string | null; // null = floating (device zone)
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RecurrenceOverrideRef {
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+}
+
+export interface RecurrenceOccurrence {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  title: string;
+  notes?: string;
+  due_at: string;
+  duration_minutes?: number;
+  all_day: boolean;
+  status: 'pending';
+  seq: number;
+  recurrence_rule_id: string;
+  recurrence_instance_at: string;
+  is_occurrence: true;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RecurrenceEditScope = 'this' | 'following';
+
+export interface OccurrenceChanges {
+  title?: string;
+  notes?: string | null;
+  due_at?: string;
+  duration_minutes?: number | null;
+}
+
+const OCCURRENCE_PREFIX = 'rrule:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function occurrenceId(ruleId: string, instanceAt: Date): string {
+  return `${OCCURRENCE_PREFIX}${ruleId}:${instanceAt.getTime()}`;
+}
+
+export function isOccurrenceId(id: string | undefined | null): boolean {
+  return typeof id === 'string' && id.startsWith(OCCURRENCE_PREFIX);
+}
+
+export function parseOccurrenceId(id: string): { ruleId: string; instanceAt: Date } | null {
+  if (!isOccurrenceId(id)) return null;
+  const rest = id.slice(OCCURRENCE_PREFIX.length);
+  const sep = rest.lastIndexOf(':');
+  const ms = Number(rest.slice(sep + 1));
+  if (sep <= 0 || !Number.isFinite(ms)) return null;
+  return { ruleId: rest.slice(0, sep), instanceAt: new Date(ms) };
+}
+
+function safeParse(rule: RecurrenceRule): RRule | null {
+  try {
+    return parseRRule(rule.rrule);
+  } catch (error) {
+    console.warn('Skipping recurrence rule with invalid RRULE:', rule.id, error);
+    return null;
+  }
+}
+
+function overrideKeys(overrides: RecurrenceOverrideRef[]): Set<string> {
+  const keys = new Set<string>();
+  for (const o of overrides) {
+    if (o.recurrence_rule_id && o.recurrence_instance_at) {
+      keys.add(`${o.recurrence_rule_id}:${new Date(o.recurrence_instance_at).getTime()}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Expand rules into task-shaped occurrences for [start, end], skipping cancelled
+ * (EXDATE) and overridden instances. seq is the 1-based position in the series.
+ */
+export function expandRuleOccurrences(
+  rules: RecurrenceRule[],
+  overrides: RecurrenceOverrideRef[],
+  range: { start: Date; end: Date }
+): RecurrenceOccurrence[] {
+  const overridden = overrideKeys(overrides);
+  const out: RecurrenceOccurrence[] = [];
+
+  for (const rule of rules) {
+    const parsed = safeParse(rule);
+    if (!parsed) continue;
+    const dtstart = new Date(rule.dtstart);
+    // Expand from dtstart (without EXDATEs) so seq stays stable as the window moves
+    const all = expandRRule(parsed, dtstart, { rangeEnd: range.end, timeZone: rule.tzid });
+    const excluded = new Set((rule.exdates || []).map((d) => new Date(d).getTime()));
+
+    all.forEach((instant, index) => {
+      const ms = instant.getTime();
+      if (ms < range.start.getTime()) return;
+      if (excluded.has(ms) || overridden.has(`${rule.id}:${ms}`)) return;
+      out.push({
+        id: occurrenceId(rule.id, instant),
+        goal_id: rule.goal_id,
+        user_id: rule.user_id,
+        title: rule.title,
+        notes: rule.notes ?? undefined,
+        due_at: instant.toISOString(),
+        duration_minutes: rule.duration_minutes ?? undefined,
+        all_day: false,
+        status: 'pending',
+        seq: index + 1,
+        recurrence_rule_id: rule.id,
+        recurrence_instance_at: instant.toISOString(),
+        is_occurrence: true,
+        created_at: rule.created_at ?? rule.dtstart,
+        updated_at: rule.updated_at ?? rule.dtstart,
+      });
+    });
+  }
+
+  return out.sort((a, b) => a.due_at.localeCompare(b.due_at));
+}
+
+/**
+ * Number of occurrences through `until` that are neither cancelled nor already
+ * represented by an override row (those are counted with the regular tasks).
+ */
+export function countPendingOccurrences(
+  rules: RecurrenceRule[],
+  overrides: RecurrenceOverrideRef[],
+  until: Date
+): number {
+  const epoch = new Date(0);
+  return expandRuleOccurrences(rules, overrides, { start: epoch, end: until }).length;
+}
+
+// ---- persistence ----
+
+export async function fetchRecurrenceRules(userId: string): Promise<RecurrenceRule[]> {
+  const { data, error } = await supabase
+    .from('recurrence_rules')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching recurrence rules:', error);
+    return [];
+  }
+  return (data || []) as RecurrenceRule[];
+}
+
+export async function fetchRecurrenceRule(ruleId: string): Promise<RecurrenceRule | null> {
+  const { data, error } = await supabase
+    .from('recurrence_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching recurrence rule:', error);
+    return null;
+  }
+  return data as RecurrenceRule | null;
+}
+
+export async function createRecurrenceRules(
+  goalId: string,
+  userId: string,
+  drafts: RecurrenceRuleDraft[]
+): Promise<RecurrenceRule[]> {
+  if (drafts.length === 0) return [];
+  const { data, error } = await supabase
+    .from('recurrence_rules')
+    .insert(drafts.map((d) => ({ ...d, goal_id: goalId, user_id: userId })))
+    .select();
+
+  if (error) throw error;
+  return (data || []) as RecurrenceRule[];
+}
+
+/**
+ * Write a tasks row that overrides one occurrence. An existing override only gets the
+ * fields passed in, so e.g. moving a completed occurrence keeps it completed; a new one
+ * starts from the rule. Upserts on (recurrence_rule_id, recurrence_instance_at) so
+ * repeated edits hit the same row.
+ */
+export async function materializeOccurrence(
+  rule: RecurrenceRule,
+  instanceAt: Date,
+  fields: OccurrenceChanges & { status?: 'pending' | 'done' | 'skipped'; completed_at?: string | null } = {}
+): Promise<any> {
+  const instanceIso = instanceAt.toISOString();
+  const changes = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+  const { data: existing, error: existingError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('recurrence_rule_id', rule.id)
+    .eq('recurrence_instance_at', instanceIso)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  if (existing && Object.keys(changes).length === 0) return existing;
+  if (existing) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(changes)
+      .eq('id', existing.id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  const parsed = safeParse(rule);
+  const seq = parsed
+    ? expandRRule(parsed, new Date(rule.dtstart), { rangeEnd: instanceAt, timeZone: rule.tzid }).length
+    : null;
+
+  const row = {
+    goal_id: rule.goal_id,
+    user_id: rule.user_id,
+    title: rule.title,
+    notes: rule.notes ?? null,
+    due_at: instanceIso,
+    duration_minutes: rule.duration_minutes ?? null,
+    all_day: false,
+    status: 'pending',
+    completed_at: null,
+    ...changes,
+    seq,
+    recurrence_rule_id: rule.id,
+    recurrence_instance_at: instanceIso,
+  };
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .upsert(row, { onConflict: 'recurrence_rule_id,recurrence_instance_at' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Local calendar-day difference between two instants (DST-safe). */
+function localDayDelta(from: Date, to: Date): number {
+  const a = new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime();
+  const b = new Date(to.getFullYear(), to.getMonth(), to.getDate()).getTime();
+  return Math.round((b - a) / DAY_MS);
+}
+
+/** Shift plain weekly BYDAY entries when a series is moved to another weekday. */
+function shiftWeekdays(rule: RRule, dayDelta: number): RRule {
+  if (!dayDelta || rule.freq !== 'WEEKLY' || !rule.byDay?.length) return rule;
+  if (rule.byDay.some((d) => d.ordinal !== undefined)) return rule;
+  const shift = ((dayDelta % 7) + 7) % 7;
+  return {
+    ...rule,
+    byDay: rule.byDay.map((d) => ({
+      weekday: RRULE_WEEKDAYS[(RRULE_WEEKDAYS.indexOf(d.weekday) + shift) % 7],
+    })),
+  };
+}
+
+/** End a series just before `instanceAt`, keeping completed overrides as standalone tasks. */
+async function truncateSeries(rule: RecurrenceRule, parsed: RRule, instanceAt: Date): Promise<void> {
+  const { error: delError } = await supabase
+    .from('tasks')
+    .delete()
+    .eq('recurrence_rule_id', rule.id)
+    .eq('status', 'pending')
+    .gte('recurrence_instance_at', instanceAt.toISOString());
+  if (delError) throw delError;
+
+  if (instanceAt.getTime() <= new Date(rule.dtstart).getTime()) {
+    // Nothing left before the cut: drop the rule entirely (done overrides are detached by FK)
+    const { error } = await supabase.from('recurrence_rules').delete().eq('id', rule.id);
+    if (error) throw error;
+    return;
+  }
+
+  const truncated: RRule = { ...parsed, count: undefined, until: new Date(instanceAt.getTime() - 1000) };
+  const { error } = await supabase
+    .from('recurrence_rules')
+    .update({
+      rrule: formatRRule(truncated),
+      exdates: (rule.exdates || []).filter((d) => new Date(d).getTime() < instanceAt.getTime()),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', rule.id);
+  if (error) throw error;
+}
+
+/**
+ * Apply an edit to one occurrence ("this") or to it and every later one ("following").
+ * `instanceAt` is the occurrence's original start.
+ */
+export async function updateOccurrence(
+  rule: RecurrenceRule,
+  instanceAt: Date,
+  changes: OccurrenceChanges,
+  scope: RecurrenceEditScope
+): Promise<void> {
+  if (scope === 'this') {
+    await materializeOccurrence(rule, instanceAt, changes);
+    return;
+  }
+
+  const parsed = parseRRule(rule.rrule);
+  const newStart = changes.due_at ? new Date(changes.due_at) : instanceAt;
+  const shiftMs = newStart.getTime() - instanceAt.getTime();
+  const inRuleZone = (d: Date) => (rule.tzid ? toZonedWallDate(d, rule.tzid) : d);
+  const nextRule = shiftWeekdays(parsed, localDayDelta(inRuleZone(instanceAt), inRuleZone(newStart)));
+
+  if (parsed.count !== undefined) {
+    // Keep the total number of sessions: the new series gets whatever the old one had left
+    const before = expandRRule(parsed, new Date(rule.dtstart), { rangeEnd: new Date(instanceAt.getTime() - 1), timeZone: rule.tzid }).length;
+    nextRule.count = Math.max(1, parsed.count - before);
+  }
+
+  const following = {
+    goal_id: rule.goal_id,
+    user_id: rule.user_id,
+    title: changes.title ?? rule.title,
+    notes: changes.notes !== undefined ? changes.notes : (rule.notes ?? null),
+    rrule: formatRRule(nextRule),
+    dtstart: newStart.toISOString(),
+    duration_minutes: changes.duration_minutes !== undefined ? changes.duration_minutes : (rule.duration_minutes ?? null),
+    tzid: rule.tzid ?? null,
+    exdates: (rule.exdates || [])
+      .filter((d) => new Date(d).getTime() >= instanceAt.getTime())
+      .map((d) => new Date(new Date(d).getTime() + shiftMs).toISOString()),
+  };
+
+  await truncateSeries(rule, parsed, instanceAt);
+  const { error } = await supabase.from('recurrence_rules').insert(following);
+  if (error) throw error;
+}
+
+/**
+ * Cancel one occurrence (adds an EXDATE) or end the series from this occurrence on.
+ */
+export async function deleteOccurrence(
+  rule: RecurrenceRule,
+  instanceAt: Date,
+  scope: RecurrenceEditScope
+): Promise<void> {
+  if (scope === 'following') {
+    await truncateSeries(rule, parseRRule(rule.rrule), instanceAt);
+    return;
+  }
+
+  const exdates = Array.from(new Set([...(rule.exdates || []), instanceAt.toISOString()]));
+  const { error } = await supabase
+    .from('recurrence_rules')
+    .update({ exdates, updated_at: new Date().toISOString() })
+    .eq('id', rule.id);
+  if (error) throw error;
+
+  await supabase
+    .from('tasks')
+    .delete()
+    .eq('recurrence_rule_id', rule.id)
+    .eq('recurrence_instance_at', instanceAt.toISOString());
+}
+
+/**
+ * Resolve the rule + original instant for either a virtual occurrence id or an
+ * override row, so callers don't need to care which one they are holding.
+ */
+export async function resolveOccurrence(task: {
+  id: string;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+}): Promise<{ rule: RecurrenceRule; instanceAt: Date } | null> {
+  const parsedId = parseOccurrenceId(task.id);
+  const ruleId = parsedId?.ruleId ?? task.recurrence_rule_id;
+  const instanceAt = parsedId?.instanceAt ?? (task.recurrence_instance_at ? new Date(task.recurrence_instance_at) : null);
+  if (!ruleId || !instanceAt) return null;
+  const rule = await fetchRecurrenceRule(ruleId);
+  return rule ? { rule, instanceAt } : null;
+}
+
+/**
+ * Ask whether an edit/delete applies to just this occurrence or to it and all
+ * following ones. Resolves to null when the user cancels.
+ */
+export function promptRecurrenceScope(action: 'edit' | 'delete'): Promise<RecurrenceEditScope | null> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      action === 'edit' ? 'Edit Recurring Task' : 'Delete Recurring Task',
+      'This task is part of a repeating series.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'Just This One', onPress: () => resolve('this') },
+        {
+          text: 'This and Following',
+          style: action === 'delete' ? 'destructive' : 'default',
+          onPress: () => resolve('following'),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
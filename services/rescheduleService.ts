@@ -0,0 +1,254 @@
+import { supabase } from '@/lib/supabase-client';
+import { Availability } from '@/lib/ai/availability';
+import { proposeReschedule, RescheduleSlot } from '@/lib/ai/rescheduler';
+import { fetchRecurrenceRule, materializeOccurrence } from '@/services/recurrenceService';
+import { Goal } from '@/types/goal';
+import { Task } from '@/types/task';
+
+/**
+ * Reschedule Service
+ *
+ * A session is missed when it is still pending after the day it was planned for.
+ * Instead of deleting it, we propose new slots (see lib/ai/rescheduler.ts) and let
+ * the user accept or skip. Either way the task row stays and a task_reschedules
+ * row records what happened. A missed occurrence of a recurring rule has no row yet:
+ * accepting or skipping it materializes an override row for that occurrence.
+ */
+
+export interface RescheduleProposal {
+  id: string; // task id (one proposal per task)
+  taskId: string;
+  goalId?: string;
+  title: string;
+  goalTitle?: string;
+  missedAt: string; // start of the first missed session
+  minutes: number;
+  missedSessionIds: string[]; // empty for tasks without sessions
+  occurrence?: { ruleId: string; instanceAt: string }; // set when taskId is an unmaterialized occurrence
+  kind: 'move' | 'redistribute' | 'none'; // 'none': no free slot before the target date
+  slots: RescheduleSlot[];
+}
+
+const DEFAULT_SESSION_MINUTES = 30;
+
+function startOfToday(now: Date): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+function sessionMinutes(start: string, end: string): number {
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+}
+
+/** Pending work planned before today, including occurrences of recurring rules. */
+function findMissed(task: Task, now: Date): Omit<RescheduleProposal, 'kind' | 'slots' | 'goalTitle'> | null {
+  if (task.completed || task.status === 'skipped') return null;
+  const cutoff = startOfToday(now);
+
+  if (task.sessions && task.sessions.length > 0) {
+    const missed = task.sessions.filter(s => s.status === 'pending' && new Date(s.start_at).getTime() < cutoff);
+    if (missed.length === 0) return null;
+    return {
+      id: task.id,
+      taskId: task.id,
+      goalId: task.goal_id,
+      title: task.title,
+      missedAt: missed[0].start_at,
+      minutes: missed.reduce((sum, s) => sum + sessionMinutes(s.start_at, s.end_at), 0),
+      missedSessionIds: missed.map(s => s.id),
+    };
+  }
+
+  if (!task.due_at || new Date(task.due_at).getTime() >= cutoff) return null;
+  return {
+    id: task.id,
+    taskId: task.id,
+    goalId: task.goal_id,
+    title: task.title,
+    missedAt: task.due_at,
+    minutes: task.duration_minutes || DEFAULT_SESSION_MINUTES,
+    missedSessionIds: [],
+    ...(task.is_occurrence && task.recurrence_rule_id && task.recurrence_instance_at
+      ? { occurrence: { ruleId: task.recurrence_rule_id, instanceAt: task.recurrence_instance_at } }
+      : {}),
+  };
+}
+
+/** Upcoming sessions (or task slots) that new slots must not overlap. */
+function busyIntervals(tasks: Task[], now: Date): { start: number; end: number }[] {
+  const busy: { start: number; end: number }[] = [];
+  for (const task of tasks) {
+    if (task.completed || task.status === 'skipped') continue;
+    if (task.sessions && task.sessions.length > 0) {
+      for (const s of task.sessions) {
+        if (s.status !== 'pending') continue;
+        busy.push({ start: new Date(s.start_at).getTime(), end: new Date(s.end_at).getTime() });
+      }
+    } else if (task.due_at) {
+      const start = new Date(task.due_at).getTime();
+      busy.push({ start, end: start + (task.duration_minutes || DEFAULT_SESSION_MINUTES) * 60000 });
+    }
+  }
+  return busy.filter(iv => iv.end > now.getTime());
+}
+
+/** Weekdays the goal's sessions fall on; new slots stay on the same days. */
+function preferredWeekdays(tasks: Task[], goalId?: string): number[] {
+  const days = new Set<number>();
+  for (const task of tasks) {
+    if (task.goal_id !== goalId) continue;
+    const starts = task.sessions && task.sessions.length > 0 ? task.sessions.map(s => s.start_at) : [task.due_at];
+    for (const start of starts) if (start) days.add(new Date(start).getDay());
+  }
+  return [...days];
+}
+
+export function buildRescheduleProposals(
+  tasks: Task[],
+  goals: Goal[],
+  availability: Availability | null,
+  now: Date = new Date()
+): RescheduleProposal[] {
+  const busy = busyIntervals(tasks, now);
+  const proposals: RescheduleProposal[] = [];
+  for (const task of tasks) {
+    const missed = findMissed(task, now);
+    if (!missed) continue;
+    const goal = goals.find(g => g.id === missed.goalId);
+    const result = proposeReschedule({
+      now,
+      minutes: missed.minutes,
+      missedAt: new Date(missed.missedAt),
+      preferredWeekdays: preferredWeekdays(tasks, missed.goalId),
+      targetDate: goal?.target_date,
+      busy,
+      availability,
+    });
+    proposals.push({
+      ...missed,
+      goalTitle: goal?.title,
+      kind: result?.kind ?? 'none',
+      slots: result?.slots ?? [],
+    });
+    // Later proposals must not reuse the same slots
+    for (const slot of result?.slots ?? []) {
+      busy.push({ start: new Date(slot.start).getTime(), end: new Date(slot.end).getTime() });
+    }
+  }
+  return proposals.sort((a, b) => a.missedAt.localeCompare(b.missedAt));
+}
+
+async function recordHistory(userId: string, proposal: RescheduleProposal, action: 'rescheduled' | 'skipped', taskId = proposal.taskId) {
+  const { error } = await supabase.from('task_reschedules').insert({
+    task_id: taskId,
+    user_id: userId,
+    action,
+    missed_at: proposal.missedAt,
+    minutes: proposal.minutes,
+    new_slots: action === 'rescheduled' ? proposal.slots : [],
+  });
+  if (error) {
+    console.error('Error recording reschedule history:', error);
+    throw error;
+  }
+}
+
+async function markSessionsSkipped(sessionIds: string[]) {
+  if (sessionIds.length === 0) return;
+  const { error } = await supabase
+    .from('task_sessions')
+    .update({ status: 'skipped', updated_at: new Date().toISOString() })
+    .in('id', sessionIds);
+  if (error) throw error;
+}
+
+async function insertSessions(userId: string, taskId: string, slots: RescheduleSlot[]) {
+  const { error } = await supabase.from('task_sessions').insert(
+    slots.map(slot => ({
+      task_id: taskId,
+      user_id: userId,
+      start_at: slot.start,
+      end_at: slot.end,
+    }))
+  );
+  if (error) throw error;
+}
+
+/** The override row for a missed occurrence, with `fields` written to it; returns its id. */
+async function materializeMissed(
+  occurrence: NonNullable<RescheduleProposal['occurrence']>,
+  fields: Parameters<typeof materializeOccurrence>[2]
+): Promise<string> {
+  const rule = await fetchRecurrenceRule(occurrence.ruleId);
+  if (!rule) throw new Error('This recurring session no longer exists');
+  const row = await materializeOccurrence(rule, new Date(occurrence.instanceAt), fields);
+  return row.id;
+}
+
+/**
+ * Apply a proposal. A single-slot move of a plain task just moves its due_at; anything
+ * else becomes task_sessions. New sessions are inserted before the missed ones are
+ * marked skipped so the status trigger never sees a task with nothing left pending.
+ * A missed occurrence is materialized at the first new slot, split the same way.
+ */
+export async function acceptRescheduleProposal(userId: string, proposal: RescheduleProposal): Promise<void> {
+  if (proposal.slots.length === 0) {
+    throw new Error('No free slot to move this session to');
+  }
+  try {
+    if (proposal.occurrence) {
+      const taskId = await materializeMissed(proposal.occurrence, { due_at: proposal.slots[0].start });
+      if (proposal.kind !== 'move') await insertSessions(userId, taskId, proposal.slots);
+      await recordHistory(userId, proposal, 'rescheduled', taskId);
+      return;
+    }
+    if (proposal.kind === 'move' && proposal.missedSessionIds.length === 0) {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ due_at: proposal.slots[0].start, updated_at: new Date().toISOString() })
+        .eq('id', proposal.taskId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    } else {
+      await insertSessions(userId, proposal.taskId, proposal.slots);
+      await markSessionsSkipped(proposal.missedSessionIds);
+      if (proposal.missedSessionIds.length === 0) {
+        // A plain task that was split: its due date follows the first new session
+        const { error } = await supabase
+          .from('tasks')
+          .update({ due_at: proposal.slots[0].start, updated_at: new Date().toISOString() })
+          .eq('id', proposal.taskId)
+          .eq('user_id', userId);
+        if (error) throw error;
+      }
+    }
+    await recordHistory(userId, proposal, 'rescheduled');
+  } catch (error) {
+    console.error('Error accepting reschedule proposal:', error);
+    throw error;
+  }
+}
+
+/** Give up on the missed work: it stays in the plan as skipped. */
+export async function skipMissedSession(userId: string, proposal: RescheduleProposal): Promise<void> {
+  try {
+    if (proposal.occurrence) {
+      const taskId = await materializeMissed(proposal.occurrence, { status: 'skipped' });
+      await recordHistory(userId, proposal, 'skipped', taskId);
+      return;
+    }
+    if (proposal.missedSessionIds.length > 0) {
+      await markSessionsSkipped(proposal.missedSessionIds);
+    } else {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: 'skipped', updated_at: new Date().toISOString() })
+        .eq('id', proposal.taskId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    }
+    await recordHistory(userId, proposal, 'skipped');
+  } catch (error) {
+    console.error('Error skipping missed session:', error);
+    throw error;
+  }
+}
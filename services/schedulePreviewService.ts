@@ -0,0 +1,178 @@
+import { supabase } from '@/lib/supabase-client';
+import { getTimeZoneSettings } from '@/services/timeZoneService';
+import { collectExtraBusy } from '@/services/calendarProviders';
+import { EnergyLevel } from '@/lib/ai/slotScoring';
+
+/**
+ * Schedule Preview Service
+ *
+ * schedule_v1 without committing: places a plan's tasks in the user's free time and
+ * returns the sessions, what did not fit and the busy time it planned around. The
+ * preview screen re-runs it as the user changes days per week or session length, then
+ * commits the sessions as arranged (dragged ones included) in one call.
+ */
+
+export interface PlanTask {
+  id: string;
+  title: string;
+  notes?: string;
+  estimatedMinutes: number;
+  dueDate?: string; // YYYY-MM-DD
+  earliestStartDate?: string;
+  dependencies?: string[];
+  sessionMinMinutes?: number;
+  sessionMaxMinutes?: number;
+  allowSplitting?: boolean;
+  energy?: EnergyLevel; // unset uses the goal's
+}
+
+export interface SchedulePlan {
+  goal: { title: string; description?: string; targetDate?: string; energy?: EnergyLevel };
+  tasks: PlanTask[];
+}
+
+export interface ScheduleOptions {
+  daysPerWeek?: number; // 1-7; unset uses every day with availability
+  sessionMinutes?: number; // 15-480; unset keeps each task's own session limits
+}
+
+export interface PlannedSession {
+  taskId: string;
+  start: number; // epoch ms
+  end: number;
+}
+
+export interface Infeasibility {
+  taskId: string;
+  title: string;
+  minutesShort: number;
+  constraint: 'dependency_cycle' | 'dependency_unplaced' | 'due_date' | 'session_length' | 'horizon';
+  detail: string;
+  blockedBy?: string[];
+}
+
+export interface SchedulePreview {
+  sessions: PlannedSession[];
+  feasible: boolean;
+  infeasible: Infeasibility[];
+  warnings: string[];
+  busy: { start: number; end: number }[];
+}
+
+// schedule_v1 plans this far ahead
+export const SCHEDULE_HORIZON_DAYS = 42;
+
+/** The arranged sessions leave part of a task unscheduled; nothing was saved. */
+export class ScheduleInfeasibleError extends Error {
+  constructor(public infeasible: Infeasibility[]) {
+    super(infeasible.map(i => `${i.title}: ${i.detail}`).join('\n') || 'The plan does not fit');
+    this.name = 'ScheduleInfeasibleError';
+  }
+}
+
+async function callSchedule(userId: string, body: Record<string, unknown>): Promise<{ status: number; json: any }> {
+  const supaUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  const { data: { session } } = await supabase.auth.getSession();
+  const jwt = session?.access_token;
+  if (!supaUrl || !jwt) throw new Error('Missing configuration or session.');
+  const projRef = supaUrl.replace('https://', '').split('.')[0];
+
+  // Busy windows of calendar providers schedule_v1 does not read itself, for its whole horizon
+  const now = new Date();
+  const horizonEnd = new Date(now.getTime() + SCHEDULE_HORIZON_DAYS * 24 * 3600 * 1000);
+  const [zone, extraBusy] = await Promise.all([
+    getTimeZoneSettings(userId),
+    collectExtraBusy(userId, { start: now, end: horizonEnd }),
+  ]);
+
+  const res = await fetch(`https://${projRef}.functions.supabase.co/schedule_v1`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, extraBusy, tz: zone.timeZone }),
+  });
+  const json = await res.json().catch(() => null);
+  return { status: res.status, json };
+}
+
+/** Where schedule_v1 would put the plan's tasks with these options; nothing is saved. */
+export async function previewSchedule(userId: string, plan: SchedulePlan, options: ScheduleOptions = {}): Promise<SchedulePreview> {
+  const { status, json } = await callSchedule(userId, { plan, options, commit: false });
+  if (status !== 200 || !json) {
+    console.error('Error previewing schedule:', json?.error || status);
+    throw new Error(json?.error || `Schedule preview failed (${status})`);
+  }
+  return {
+    sessions: json.sessions || [],
+    feasible: !!json.feasible,
+    infeasible: json.infeasible || [],
+    warnings: json.warnings || [],
+    busy: json.busy || [],
+  };
+}
+
+/**
+ * Creates the goal, its tasks and the given sessions as arranged in the preview.
+ * Throws ScheduleInfeasibleError when the sessions do not cover every task.
+ */
+export async function commitSchedule(
+  userId: string,
+  plan: SchedulePlan,
+  sessions: PlannedSession[],
+  options: ScheduleOptions = {},
+): Promise<string> {
+  const { status, json } = await callSchedule(userId, { plan, options, sessions, commit: true });
+  if (status === 422 && json?.infeasible) throw new ScheduleInfeasibleError(json.infeasible);
+  if (status !== 200 || !json?.goalId) {
+    console.error('Error committing schedule:', json?.error || status);
+    throw new Error(json?.error || `Saving the plan failed (${status})`);
+  }
+  return json.goalId;
+}
+
+export interface ScheduledBlock {
+  id: string;
+  title: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The user's pending tasks in a range, to draw next to proposed sessions: each session
+ * of a split task, otherwise the task at due_at for its duration.
+ */
+export async function getScheduledBlocks(userId: string, start: Date, end: Date): Promise<ScheduledBlock[]> {
+  const [{ data: sessions, error: sessionsError }, { data: tasks, error: tasksError }] = await Promise.all([
+    supabase
+      .from('task_sessions')
+      .select('id, start_at, end_at, tasks(title)')
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .lt('start_at', end.toISOString())
+      .gt('end_at', start.toISOString()),
+    supabase
+      .from('tasks')
+      .select('id, title, due_at, duration_minutes, task_sessions(id)')
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .gte('due_at', start.toISOString())
+      .lt('due_at', end.toISOString()),
+  ]);
+
+  if (sessionsError || tasksError) {
+    console.error('Error fetching scheduled tasks:', sessionsError || tasksError);
+    throw sessionsError || tasksError;
+  }
+
+  const blocks: ScheduledBlock[] = (sessions || []).map((s: any) => ({
+    id: s.id,
+    title: s.tasks?.title || 'Task',
+    start: new Date(s.start_at).getTime(),
+    end: new Date(s.end_at).getTime(),
+  }));
+  for (const t of (tasks || []) as any[]) {
+    if (t.task_sessions?.length) continue;
+    const taskStart = new Date(t.due_at).getTime();
+    blocks.push({ id: t.id, title: t.title, start: taskStart, end: taskStart + (t.duration_minutes || 30) * 60 * 1000 });
+  }
+  return blocks;
+}
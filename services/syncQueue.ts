@@ -0,0 +1,349 @@
+import { supabase } from '@/lib/supabase-client';
+import { getItem, setItem } from '@/lib/storage';
+
+/**
+ * Sync Queue
+ *
+ * Goal and task writes are applied to local state first and queued here; the queue
+ * is persisted so nothing is lost when the app is closed offline. `flushSyncQueue`
+ * replays it in order whenever we may be back online (app resume, realtime
+ * reconnect, a retry timer).
+ *
+ * Conflicts are resolved against `updated_at`, which the touch_updated_at trigger
+ * bumps on every write. An edit carries the row's server `updated_at` as the client
+ * last saw it (`baseUpdatedAt`) and is only applied if the row still has that
+ * version. Otherwise the server copy wins and the queued edit is dropped. Realtime
+ * changes arriving for a row with queued edits do the same (see
+ * `resolveServerChange`). Versions produced by our own writes are remembered, so an
+ * edit made on top of an earlier queued edit, and the realtime echo of that write,
+ * are not taken for changes made elsewhere.
+ */
+
+export type SyncTable = 'goals' | 'tasks';
+export type SyncOp = 'create' | 'update' | 'toggle' | 'delete';
+
+export interface QueuedMutation {
+  id: string;
+  op: SyncOp;
+  table: SyncTable;
+  rowId: string;
+  userId: string;
+  payload: Record<string, any>; // column values (create: the whole row)
+  queuedAt: string; // ISO, device clock; when the edit was first queued
+  baseUpdatedAt?: string | null; // server updated_at the edit was made on; null: unknown, applied unconditionally
+  attempts: number;
+  nextAttemptAt?: number; // epoch ms; set after a failed attempt
+  lastError?: string;
+}
+
+export interface FlushResult {
+  applied: number;
+  synced: QueuedMutation[]; // the applied mutations, in order
+  conflicts: QueuedMutation[]; // dropped because the server row changed (or is gone)
+  failed: QueuedMutation[]; // dropped after MAX_ATTEMPTS server errors
+  pending: number;
+}
+
+type Listener = (pending: number) => void;
+
+const STORAGE_KEY = 'sync_queue';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+let queue: QueuedMutation[] | null = null;
+let flushing: Promise<FlushResult> | null = null;
+let inFlightId: string | null = null; // already sent; must not absorb later edits
+// Per row, the updated_at versions our own writes moved it between (newest last)
+const ownWrites = new Map<string, { from: string | null; to: string }[]>();
+const MAX_OWN_WRITES = 10;
+const listeners = new Set<Listener>();
+
+async function loadQueue(): Promise<QueuedMutation[]> {
+  if (queue) return queue;
+  const saved = await getItem(STORAGE_KEY);
+  try {
+    const parsed = saved ? JSON.parse(saved) : [];
+    queue = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    queue = [];
+  }
+  return queue!;
+}
+
+async function saveQueue(next: QueuedMutation[]) {
+  queue = next;
+  listeners.forEach(listener => listener(next.length));
+  await setItem(STORAGE_KEY, JSON.stringify(next));
+}
+
+/** RFC 4122 v4 id for rows created offline, so queued edits can refer to them. */
+export function createLocalId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/** Called with the number of queued mutations now and on every change. */
+export function subscribeSyncQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  loadQueue().then(q => listener(q.length));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPendingMutations(): Promise<QueuedMutation[]> {
+  return [...(await loadQueue())];
+}
+
+/**
+ * Queue a write. Edits to a row that is itself still queued for creation are folded
+ * into the create, and deleting such a row drops it from the queue altogether.
+ * Consecutive edits to one row are merged and keep the first edit's `baseUpdatedAt`:
+ * the conflict check is against the server version the user started editing from.
+ * Pass the row's `updated_at` as loaded from the server with updates and toggles.
+ */
+export async function enqueueMutation(
+  mutation: Pick<QueuedMutation, 'op' | 'table' | 'rowId' | 'userId' | 'payload' | 'baseUpdatedAt'>
+): Promise<void> {
+  const current = await loadQueue();
+  const sameRow = (m: QueuedMutation) => m.table === mutation.table && m.rowId === mutation.rowId;
+  const waiting = current.filter(m => sameRow(m) && m.id !== inFlightId);
+  const pendingCreate = waiting.find(m => m.op === 'create');
+  const pendingEdit = waiting.find(m => m.op === 'update' || m.op === 'toggle');
+
+  if (pendingCreate && mutation.op === 'delete') {
+    await saveQueue(current.filter(m => !sameRow(m)));
+    return;
+  }
+  if (mutation.op === 'update' || mutation.op === 'toggle') {
+    const target = pendingCreate ?? pendingEdit;
+    if (target) {
+      const op = target.op === 'update' && mutation.op === 'toggle' ? 'toggle' : target.op;
+      await saveQueue(current.map(m => (m === target ? { ...m, op, payload: { ...m.payload, ...mutation.payload } } : m)));
+      return;
+    }
+  }
+
+  await saveQueue([
+    ...current.filter(m => !(mutation.op === 'delete' && sameRow(m))),
+    { ...mutation, baseUpdatedAt: mutation.baseUpdatedAt ?? null, id: createLocalId(), queuedAt: new Date().toISOString(), attempts: 0 },
+  ]);
+}
+
+const rowKey = (table: SyncTable, rowId: string) => `${table}:${rowId}`;
+
+// The same instant, whichever of PostgREST's or realtime's timestamp formats it came in
+function sameVersion(a: string | null, b: string | null): boolean {
+  return a === b || (a !== null && b !== null && Date.parse(a) === Date.parse(b));
+}
+
+function recordOwnWrite(table: SyncTable, rowId: string, from: string | null, to: string | null | undefined) {
+  if (!to) return;
+  const key = rowKey(table, rowId);
+  ownWrites.set(key, [...(ownWrites.get(key) ?? []), { from, to }].slice(-MAX_OWN_WRITES));
+}
+
+/** `base` moved forward past the versions our own writes produced after it. */
+function latestOwnVersion(table: SyncTable, rowId: string, base: string | null): string | null {
+  const writes = ownWrites.get(rowKey(table, rowId)) ?? [];
+  let current = base;
+  for (const write of writes) {
+    if (sameVersion(write.from, current)) current = write.to;
+  }
+  return current;
+}
+
+function isOwnVersion(table: SyncTable, rowId: string, version: string): boolean {
+  return (ownWrites.get(rowKey(table, rowId)) ?? []).some(write => sameVersion(write.to, version));
+}
+
+/** No response from the server at all (offline, DNS, timeout) as opposed to a rejected write. */
+function isNetworkError(error: any): boolean {
+  if (!error) return false;
+  const message = String(error.message || error);
+  return !error.code && /network|fetch|timed? ?out|offline|abort/i.test(message);
+}
+
+/** Applies one mutation; returns false when the server row changed after it was queued. */
+async function applyMutation(m: QueuedMutation): Promise<boolean> {
+  switch (m.op) {
+    case 'create': {
+      // Upsert on id so replaying a create that already reached the server is a no-op
+      const { data, error } = await supabase
+        .from(m.table)
+        .upsert({ ...m.payload, id: m.rowId }, { onConflict: 'id', ignoreDuplicates: true })
+        .select('updated_at');
+      if (error) throw error;
+      recordOwnWrite(m.table, m.rowId, null, data?.[0]?.updated_at);
+      return true;
+    }
+    case 'update':
+    case 'toggle': {
+      // Edits queued after an earlier one of ours to the row were made on top of it
+      const base = latestOwnVersion(m.table, m.rowId, m.baseUpdatedAt ?? null);
+      let query = supabase.from(m.table).update(m.payload).eq('id', m.rowId);
+      if (base) query = query.eq('updated_at', base);
+      const { data, error } = await query.select('updated_at');
+      if (error) throw error;
+      if (!data || data.length === 0) return false;
+      recordOwnWrite(m.table, m.rowId, base, data[0].updated_at);
+      // A split task is toggled as a whole: its sessions follow the task status
+      if (m.op === 'toggle' && m.table === 'tasks' && m.payload.status) {
+        const { error: sessionsError } = await supabase
+          .from('task_sessions')
+          .update({ status: m.payload.status, completed_at: m.payload.completed_at ?? null })
+          .eq('task_id', m.rowId);
+        if (sessionsError) throw sessionsError;
+        // The session trigger may have touched the task again
+        const { data: task } = await supabase.from('tasks').select('updated_at').eq('id', m.rowId).maybeSingle();
+        if (task && !sameVersion(task.updated_at, data[0].updated_at)) {
+          recordOwnWrite(m.table, m.rowId, data[0].updated_at, task.updated_at);
+        }
+      }
+      return true;
+    }
+    case 'delete': {
+      // Deletes always win; removing a row nobody else still has is idempotent
+      const { error } = await supabase.from(m.table).delete().eq('id', m.rowId);
+      if (error) throw error;
+      if (m.table === 'goals') {
+        await supabase.from('tasks').delete().eq('goal_id', m.rowId);
+      }
+      return true;
+    }
+  }
+}
+
+async function removeMutation(id: string) {
+  await saveQueue((await loadQueue()).filter(m => m.id !== id));
+}
+
+async function runFlush(): Promise<FlushResult> {
+  const result: FlushResult = { applied: 0, synced: [], conflicts: [], failed: [], pending: 0 };
+  // The cached session, not getUser(): offline the failed write itself should back off
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+
+  // Strictly in order: a later edit may depend on an earlier create. The queue is
+  // re-read every step because writes and realtime changes keep arriving meanwhile.
+  while (user) {
+    const next = (await loadQueue()).find(m => m.userId === user.id);
+    if (!next || (next.nextAttemptAt && next.nextAttemptAt > Date.now())) break;
+
+    inFlightId = next.id;
+    try {
+      if (await applyMutation(next)) {
+        result.applied++;
+        result.synced.push(next);
+      } else {
+        console.warn('Sync queue: server row changed since the edit was queued, keeping server copy', next);
+        result.conflicts.push(next);
+      }
+      await removeMutation(next.id);
+    } catch (error: any) {
+      const attempts = next.attempts + 1;
+      const lastError = String(error?.message || error);
+      if (!isNetworkError(error) && attempts >= MAX_ATTEMPTS) {
+        console.error('Sync queue: giving up on mutation:', next, error);
+        result.failed.push({ ...next, attempts, lastError });
+        await removeMutation(next.id);
+        continue;
+      }
+      const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+      await saveQueue((await loadQueue()).map(m => (m.id === next.id ? { ...m, attempts, lastError, nextAttemptAt: Date.now() + delay } : m)));
+      break;
+    } finally {
+      inFlightId = null;
+    }
+  }
+
+  result.pending = (await loadQueue()).length;
+  return result;
+}
+
+/** Replay queued mutations. Concurrent calls share the flush already in progress. */
+export function flushSyncQueue(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/** Milliseconds until the next queued retry is due, or null when nothing is waiting. */
+export async function nextRetryDelay(): Promise<number | null> {
+  const head = (await loadQueue())[0];
+  if (!head?.nextAttemptAt) return null;
+  return Math.max(0, head.nextAttemptAt - Date.now());
+}
+
+/**
+ * A realtime change arrived for `rowId`. Queued edits made on an older version than
+ * the server's `updated_at` lose; a server delete drops everything queued for the
+ * row. Echoes of our own writes are ignored, and so is any change while a write to
+ * the row is in flight: its conditional update tells whether someone else got there.
+ */
+export async function resolveServerChange(
+  table: SyncTable,
+  rowId: string,
+  serverUpdatedAt: string | null
+): Promise<QueuedMutation[]> {
+  const current = await loadQueue();
+  const sameRow = (m: QueuedMutation) => m.table === table && m.rowId === rowId;
+  if (serverUpdatedAt !== null) {
+    if (isOwnVersion(table, rowId, serverUpdatedAt)) return [];
+    if (current.some(m => m.id === inFlightId && sameRow(m))) return [];
+  }
+  const isOlder = (m: QueuedMutation) => {
+    const base = latestOwnVersion(table, rowId, m.baseUpdatedAt ?? null);
+    return base !== null && Date.parse(base) < Date.parse(serverUpdatedAt!);
+  };
+  const superseded = current.filter(m =>
+    sameRow(m) &&
+    m.op !== 'create' &&
+    (serverUpdatedAt === null || isOlder(m))
+  );
+  if (superseded.length > 0) {
+    await saveQueue(current.filter(m => !superseded.includes(m)));
+  }
+  return superseded;
+}
+
+/**
+ * Overlay queued edits on rows just fetched from the server, so a refresh does not
+ * undo local changes that have not synced yet. Rows are raw table rows.
+ */
+export function applyPendingToRows<T extends { id: string }>(
+  table: SyncTable,
+  rows: T[],
+  pending: QueuedMutation[]
+): T[] {
+  let out = [...rows];
+  for (const m of pending) {
+    if (m.table !== table) continue;
+    if (m.op === 'delete') {
+      out = out.filter(r => r.id !== m.rowId);
+    } else if (m.op === 'create') {
+      if (!out.some(r => r.id === m.rowId)) out = [{ ...m.payload, id: m.rowId } as unknown as T, ...out];
+    } else {
+      out = out.map(r => {
+        if (r.id !== m.rowId) return r;
+        const next: any = { ...r, ...m.payload };
+        if (m.op === 'toggle' && Array.isArray(next.task_sessions)) {
+          next.task_sessions = next.task_sessions.map((s: any) => ({ ...s, status: m.payload.status }));
+        }
+        return next;
+      });
+    }
+  }
+  return out;
+}
+
+/** Forget everything queued (sign-out or user switch). */
+export async function clearSyncQueue(): Promise<void> {
+  await saveQueue([]);
+}
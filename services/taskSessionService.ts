@@ -0,0 +1,105 @@
+import { supabase } from '@/lib/supabase-client';
+import { TaskSession } from '@/types/task';
+
+/**
+ * Task Session Service
+ *
+ * A task can be split across several scheduled task_sessions rows. A database
+ * trigger marks the task done once none of its sessions are pending (and back
+ * to pending if one is reopened), so callers only ever update sessions.
+ */
+
+// Embed for `tasks` selects: .select(`*, ${TASK_SESSIONS_EMBED}`)
+export const TASK_SESSIONS_EMBED = 'task_sessions(id, task_id, start_at, end_at, status, completed_at)';
+
+export interface SessionProgress {
+  total: number;
+  done: number;
+  fraction: number; // 0..1
+}
+
+/** Sessions ordered by start time. */
+export function sortSessions(sessions: TaskSession[] | null | undefined): TaskSession[] {
+  return [...(sessions || [])].sort((a, b) => a.start_at.localeCompare(b.start_at));
+}
+
+type SessionStatusRow = Pick<TaskSession, 'status'>;
+
+/** How many of a task's sessions are done. */
+export function getSessionProgress(sessions: SessionStatusRow[] | null | undefined): SessionProgress {
+  const list = sessions || [];
+  const done = list.filter(s => s.status === 'done').length;
+  return {
+    total: list.length,
+    done,
+    fraction: list.length > 0 ? done / list.length : 0,
+  };
+}
+
+/**
+ * Completion credit for a task row: 1 when done, otherwise the share of its
+ * sessions already finished. Used for per-task and goal progress.
+ */
+export function taskCompletionCredit(task: {
+  status?: string;
+  completed?: boolean;
+  task_sessions?: SessionStatusRow[] | null;
+  sessions?: SessionStatusRow[] | null;
+}): number {
+  if (task.status === 'done' || task.completed) return 1;
+  const sessions = task.sessions ?? task.task_sessions;
+  if (!sessions || sessions.length === 0) return 0;
+  return getSessionProgress(sessions).fraction;
+}
+
+export async function updateTaskSessionStatus(
+  sessionId: string,
+  status: TaskSession['status']
+): Promise<void> {
+  const { error } = await supabase
+    .from('task_sessions')
+    .update({
+      status,
+      completed_at: status === 'done' ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('Error updating task session:', error);
+    throw error;
+  }
+}
+
+/** Mark every session of a task at once (toggling a split task as a whole). */
+export async function setAllTaskSessionsStatus(
+  taskId: string,
+  status: TaskSession['status']
+): Promise<void> {
+  const { error } = await supabase
+    .from('task_sessions')
+    .update({
+      status,
+      completed_at: status === 'done' ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('task_id', taskId);
+
+  if (error) {
+    console.error('Error updating task sessions:', error);
+    throw error;
+  }
+}
+
+/** Move one session to another slot. */
+export async function updateTaskSessionTimes(sessionId: string, startAt: string, endAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('task_sessions')
+    .update({ start_at: startAt, end_at: endAt, updated_at: new Date().toISOString() })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('Error moving task session:', error);
+    throw error;
+  }
+}
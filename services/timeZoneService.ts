@@ -0,0 +1,64 @@
+import { supabase } from '@/lib/supabase-client';
+import { getDeviceTimeZone, isValidTimeZone, TimeZoneMode } from '@/lib/ai/timezone';
+
+/**
+ * Time Zone Service
+ *
+ * The home zone is profiles.tz. Whether sessions stay anchored to it or float
+ * with the device is a planning preference (user_planning_profile.preferences.timeZoneMode).
+ * Defaults to 'device' so nothing moves for users who never set a home zone.
+ */
+
+export interface TimeZoneSettings {
+  mode: TimeZoneMode;
+  homeTimeZone: string;
+  deviceTimeZone: string;
+  // Zone sessions should be scheduled in right now (home or device, per mode)
+  timeZone: string;
+}
+
+export async function getTimeZoneSettings(userId: string): Promise<TimeZoneSettings> {
+  const deviceTimeZone = getDeviceTimeZone();
+  try {
+    const [{ data: profile }, { data: planning }] = await Promise.all([
+      supabase.from('profiles').select('tz').eq('id', userId).maybeSingle(),
+      supabase.from('user_planning_profile').select('preferences').eq('user_id', userId).maybeSingle(),
+    ]);
+    const homeTimeZone = isValidTimeZone(profile?.tz) ? profile.tz : deviceTimeZone;
+    const mode: TimeZoneMode = planning?.preferences?.timeZoneMode === 'home' ? 'home' : 'device';
+    return { mode, homeTimeZone, deviceTimeZone, timeZone: mode === 'home' ? homeTimeZone : deviceTimeZone };
+  } catch (error) {
+    console.error('Error loading time zone settings:', error);
+    return { mode: 'device', homeTimeZone: deviceTimeZone, deviceTimeZone, timeZone: deviceTimeZone };
+  }
+}
+
+/**
+ * Zone to anchor new sessions/rules to, or undefined when they should float with the device.
+ */
+export function anchorTimeZone(settings: TimeZoneSettings): string | undefined {
+  return settings.mode === 'home' ? settings.homeTimeZone : undefined;
+}
+
+export async function setTimeZoneMode(userId: string, mode: TimeZoneMode): Promise<void> {
+  const { data } = await supabase
+    .from('user_planning_profile')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+  const preferences = { ...(data?.preferences || {}), timeZoneMode: mode };
+  const { error } = await supabase
+    .from('user_planning_profile')
+    .upsert({ user_id: userId, preferences }, { onConflict: 'user_id' });
+  if (error) throw error;
+}
+
+export async function setHomeTimeZone(userId: string, timeZone: string): Promise<void> {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({ id: userId, tz: timeZone });
+  if (error) throw error;
+}
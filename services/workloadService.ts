@@ -0,0 +1,189 @@
+import { Alert } from 'react-native';
+import { supabase } from '@/lib/supabase-client';
+import { DEFAULT_TASK_MINUTES } from '@/lib/ai/conflicts';
+import { expandRRuleString } from '@/lib/ai/rrule';
+import { RecurrenceRuleDraft } from '@/lib/ai/scheduler';
+import { analyzeWorkload, newGoalWarnings, WorkItem, WorkloadGoal, WorkloadInput, WorkloadReport } from '@/lib/ai/workload';
+import { getAvailability } from '@/services/availabilityService';
+import { BusyInterval, collectBusy } from '@/services/calendarProviders';
+import { expandRuleOccurrences, fetchRecurrenceRules, RecurrenceRule } from '@/services/recurrenceService';
+import { TASK_SESSIONS_EMBED } from '@/services/taskSessionService';
+
+/**
+ * Workload Service
+ *
+ * Loads what lib/ai/workload.ts needs for all active goals: pending tasks, sessions
+ * and recurring occurrences up to the latest target date, availability and the busy
+ * time of every connected calendar. Used by the weekly load chart on the Goals
+ * screen and to warn before a new goal is created.
+ */
+
+export const WORKLOAD_WEEKS = 6;
+// Target dates further out than this are checked against this much free time only
+const MAX_HORIZON_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Goal id of a plan that is not saved yet
+export const NEW_GOAL_ID = 'new';
+
+/** How far ahead work is counted: the report weeks or the latest target date, capped. */
+export function workloadHorizonEnd(now: Date, targetDates: (string | null | undefined)[]): Date {
+  const latest = targetDates.reduce((max, d) => {
+    const t = d ? new Date(d).getTime() + DAY_MS : NaN;
+    return Number.isFinite(t) && t > max ? t : max;
+  }, now.getTime() + WORKLOAD_WEEKS * 7 * DAY_MS);
+  return new Date(Math.min(latest, now.getTime() + MAX_HORIZON_DAYS * DAY_MS));
+}
+
+export async function loadWorkloadInput(userId: string, now: Date = new Date()): Promise<WorkloadInput> {
+  const { data: goalRows, error: goalsError } = await supabase
+    .from('goals')
+    .select('id, title, target_date, color')
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  if (goalsError) {
+    console.error('Error fetching goals for workload:', goalsError);
+    throw goalsError;
+  }
+
+  const goals: WorkloadGoal[] = (goalRows || []).map((g: any) => ({
+    id: g.id,
+    title: g.title,
+    targetDate: g.target_date ?? null,
+    color: g.color ?? null,
+  }));
+  const goalIds = new Set(goals.map(g => g.id));
+  const end = workloadHorizonEnd(now, goals.map(g => g.targetDate));
+
+  const [tasksResult, overridesResult, rules, availability, busy] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select(`id, goal_id, due_at, duration_minutes, ${TASK_SESSIONS_EMBED}`)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .lt('due_at', end.toISOString()),
+    supabase
+      .from('tasks')
+      .select('recurrence_rule_id, recurrence_instance_at')
+      .eq('user_id', userId)
+      .not('recurrence_rule_id', 'is', null),
+    fetchRecurrenceRules(userId),
+    getAvailability(userId),
+    collectBusy(userId, { start: now, end }),
+  ]);
+
+  if (tasksResult.error || overridesResult.error) {
+    console.error('Error fetching tasks for workload:', tasksResult.error || overridesResult.error);
+    throw tasksResult.error || overridesResult.error;
+  }
+
+  const nowMs = now.getTime();
+  const items: WorkItem[] = [];
+  for (const task of (tasksResult.data || []) as any[]) {
+    if (!goalIds.has(task.goal_id)) continue;
+    // A split task is its pending sessions
+    if (task.task_sessions?.length) {
+      for (const s of task.task_sessions) {
+        if (s.status !== 'pending') continue;
+        const start = new Date(s.start_at).getTime();
+        items.push({ goalId: task.goal_id, start: Math.max(start, nowMs), minutes: Math.round((new Date(s.end_at).getTime() - start) / MINUTE_MS) });
+      }
+    } else {
+      items.push({ goalId: task.goal_id, start: Math.max(new Date(task.due_at).getTime(), nowMs), minutes: task.duration_minutes || DEFAULT_TASK_MINUTES });
+    }
+  }
+
+  const occurrences = expandRuleOccurrences(
+    rules.filter((r: RecurrenceRule) => goalIds.has(r.goal_id)),
+    overridesResult.data || [],
+    { start: now, end }
+  );
+  for (const o of occurrences) {
+    items.push({ goalId: o.goal_id, start: new Date(o.due_at).getTime(), minutes: o.duration_minutes || DEFAULT_TASK_MINUTES });
+  }
+
+  return {
+    goals,
+    items,
+    availability,
+    busy: busy
+      .map((b: BusyInterval) => ({ start: Date.parse(b.start), end: Date.parse(b.end) }))
+      .filter((b: { start: number; end: number }) => Number.isFinite(b.start) && Number.isFinite(b.end) && b.end > b.start),
+    now,
+    weeks: WORKLOAD_WEEKS,
+  };
+}
+
+/** Weekly load and per-goal feasibility of the user's active goals. */
+export async function getWorkload(userId: string): Promise<{ input: WorkloadInput; report: WorkloadReport }> {
+  const input = await loadWorkloadInput(userId);
+  return { input, report: analyzeWorkload(input) };
+}
+
+/** Work items of a generated plan that is not saved yet: its dated tasks and recurring sessions. */
+export function draftWorkItems(
+  goalId: string,
+  draft: { tasks?: { due_at?: string; duration_minutes?: number }[]; rules?: RecurrenceRuleDraft[] },
+  range: { start: Date; end: Date }
+): WorkItem[] {
+  const items: WorkItem[] = [];
+  if (draft.rules && draft.rules.length > 0) {
+    for (const rule of draft.rules) {
+      try {
+        const starts = expandRRuleString(rule.rrule, new Date(rule.dtstart), {
+          rangeStart: range.start,
+          rangeEnd: range.end,
+          exdates: (rule.exdates || []).map(d => new Date(d)),
+          timeZone: rule.tzid,
+        });
+        for (const start of starts) items.push({ goalId, start: start.getTime(), minutes: rule.duration_minutes || DEFAULT_TASK_MINUTES });
+      } catch (error) {
+        console.warn('Skipping recurrence rule with invalid RRULE:', rule.rrule, error);
+      }
+    }
+    return items;
+  }
+  for (const task of draft.tasks || []) {
+    const start = task.due_at ? new Date(task.due_at).getTime() : NaN;
+    if (!Number.isFinite(start)) continue;
+    items.push({ goalId, start: Math.max(start, range.start.getTime()), minutes: task.duration_minutes || DEFAULT_TASK_MINUTES });
+  }
+  return items;
+}
+
+/**
+ * Warnings for creating a generated goal on top of the current load. Never blocks
+ * creation: when the load cannot be read there are no warnings.
+ */
+export async function getNewGoalWarnings(
+  userId: string,
+  goal: { title: string; targetDate?: string | null },
+  draft: { tasks?: { due_at?: string; duration_minutes?: number }[]; rules?: RecurrenceRuleDraft[] }
+): Promise<string[]> {
+  try {
+    const input = await loadWorkloadInput(userId);
+    const end = workloadHorizonEnd(input.now, [...input.goals.map(g => g.targetDate), goal.targetDate]);
+    const items = draftWorkItems(NEW_GOAL_ID, draft, { start: input.now, end });
+    return newGoalWarnings(input, { id: NEW_GOAL_ID, title: goal.title, targetDate: goal.targetDate ?? null }, items);
+  } catch (error) {
+    console.warn('Error checking workload:', error);
+    return [];
+  }
+}
+
+/** Shows the workload warnings and resolves whether to create the goal anyway. */
+export function confirmWorkload(warnings: string[]): Promise<boolean> {
+  if (warnings.length === 0) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    Alert.alert(
+      'This may be too much',
+      `${warnings.join('\n')}\n\nCreate the goal anyway?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Create Anyway', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Availability profiles shared by schedule_v1 and the client schedule builders
+ * (re-exported from lib/ai/availability.ts). Stored as
+ * user_planning_profile.preferences.availability:
+ *
+ *   {
+ *     weekly: { "1": [{ start: "06:00", end: "07:30" }, { start: "18:00", end: "21:00" }], ... },
+ *     profiles: [{ id, name: "Exam week", startDate: "2025-12-08", endDate: "2025-12-14", weekly: {...} }],
+ *     peak: [{ start: "08:00", end: "11:00" }]
+ *   }
+ *
+ * Weekday keys are 0 = Sunday. Times are wall-clock "HH:mm" in the user's zone and a
+ * window never crosses midnight. A named profile replaces the weekly default on
+ * every date in its (inclusive) range; a weekday missing from it means "not available".
+ * `peak` are the user's peak-energy hours, the same every day; schedule_v1 puts
+ * high-effort work there (see slotScoring.ts).
+ *
+ * Dependency-free like timezone.ts; zone conversion happens in the callers.
+ */
+
+export interface TimeWindow {
+  start: string; // HH:mm
+  end: string; // HH:mm, after start
+}
+
+export type WeeklyWindows = Partial<Record<number, TimeWindow[]>>;
+
+export interface AvailabilityProfile {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  weekly: WeeklyWindows;
+}
+
+export interface Availability {
+  weekly: WeeklyWindows;
+  profiles: AvailabilityProfile[];
+  peak?: TimeWindow[];
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+// What schedule_v1 used before availability was configurable
+export const DEFAULT_AVAILABILITY: Availability = {
+  weekly: Object.fromEntries([1, 2, 3, 4, 5].map((d) => [d, [{ start: "09:00", end: "17:00" }]])),
+  profiles: [],
+};
+
+const TIME_RE = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function normalizeTime(time: string): string {
+  const [h, m] = time.split(":");
+  return `${h.padStart(2, "0")}:${m}`;
+}
+
+/** Sorted, merged, valid windows; anything malformed is dropped. */
+export function normalizeWindows(windows: unknown): TimeWindow[] {
+  if (!Array.isArray(windows)) return [];
+  const valid = windows
+    .filter((w: any) => w && TIME_RE.test(String(w.start)) && TIME_RE.test(String(w.end)))
+    .map((w: any) => ({ start: normalizeTime(String(w.start)), end: normalizeTime(String(w.end)) }))
+    .filter((w) => timeToMinutes(w.end) > timeToMinutes(w.start))
+    .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  const merged: TimeWindow[] = [];
+  for (const w of valid) {
+    const last = merged[merged.length - 1];
+    if (last && timeToMinutes(w.start) <= timeToMinutes(last.end)) {
+      if (timeToMinutes(w.end) > timeToMinutes(last.end)) last.end = w.end;
+    } else {
+      merged.push({ ...w });
+    }
+  }
+  return merged;
+}
+
+function normalizeWeekly(weekly: unknown): WeeklyWindows {
+  const out: WeeklyWindows = {};
+  if (!weekly || typeof weekly !== "object") return out;
+  for (let d = 0; d < 7; d++) {
+    const windows = normalizeWindows((weekly as any)[d] ?? (weekly as any)[String(d)]);
+    if (windows.length > 0) out[d] = windows;
+  }
+  return out;
+}
+
+/**
+ * Parse the stored preference. Returns null when the user never configured
+ * availability so callers can pick their own default.
+ */
+export function normalizeAvailability(raw: unknown): Availability | null {
+  if (!raw || typeof raw !== "object") return null;
+  const profiles = Array.isArray((raw as any).profiles) ? (raw as any).profiles : [];
+  return {
+    weekly: normalizeWeekly((raw as any).weekly),
+    profiles: profiles
+      .filter((p: any) => p && DATE_RE.test(String(p.startDate)) && DATE_RE.test(String(p.endDate)) && p.startDate <= p.endDate)
+      .map((p: any, i: number) => ({
+        id: String(p.id ?? `profile-${i}`),
+        name: String(p.name ?? "Profile"),
+        startDate: p.startDate,
+        endDate: p.endDate,
+        weekly: normalizeWeekly(p.weekly),
+      })),
+    peak: normalizeWindows((raw as any).peak),
+  };
+}
+
+function dateKey(date: CalendarDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+/** Profile in force on `date` (the most recently started one wins when ranges overlap). */
+export function activeProfile(availability: Availability, date: CalendarDate): AvailabilityProfile | null {
+  const key = dateKey(date);
+  const matching = availability.profiles.filter((p) => p.startDate <= key && key <= p.endDate);
+  if (matching.length === 0) return null;
+  return matching.reduce((a, b) => (b.startDate > a.startDate ? b : a));
+}
+
+export function windowsForDate(availability: Availability, date: CalendarDate): TimeWindow[] {
+  const weekly = activeProfile(availability, date)?.weekly ?? availability.weekly;
+  return weekly[date.weekday] ?? [];
+}
+
+/**
+ * Start time ("HH:mm") for a session of `durationMinutes` on a day with `windows`:
+ * `preferred` when the session fits inside a window from there, otherwise the first
+ * window start it fits in after `preferred`, then the first it fits in at all.
+ * Null when no window is long enough.
+ */
+export function fitSessionStart(windows: TimeWindow[], durationMinutes: number, preferred?: string | null): string | null {
+  const fits = (w: TimeWindow, from: number) => from >= timeToMinutes(w.start) && from + durationMinutes <= timeToMinutes(w.end);
+  if (preferred && TIME_RE.test(preferred)) {
+    const p = timeToMinutes(preferred);
+    if (windows.some((w) => fits(w, p))) return normalizeTime(preferred);
+    const later = windows.find((w) => timeToMinutes(w.start) >= p && fits(w, timeToMinutes(w.start)));
+    if (later) return later.start;
+  }
+  return windows.find((w) => fits(w, timeToMinutes(w.start)))?.start ?? null;
+}
+
+/** "06:00–07:30, 18:00–21:00" (also accepts "-" and spaces); null if any part is invalid. */
+export function parseWindowsText(text: string): TimeWindow[] | null {
+  const parts = text.split(",").map((p) => p.trim()).filter(Boolean);
+  const windows: TimeWindow[] = [];
+  for (const part of parts) {
+    const m = /^(\d{1,2}:\d{2})\s*[-–—]\s*(\d{1,2}:\d{2})$/.exec(part);
+    if (!m || !TIME_RE.test(m[1]) || !TIME_RE.test(m[2]) || timeToMinutes(m[2]) <= timeToMinutes(m[1])) return null;
+    windows.push({ start: m[1], end: m[2] });
+  }
+  return normalizeWindows(windows);
+}
+
+export function formatWindowsText(windows: TimeWindow[] | undefined): string {
+  return (windows ?? []).map((w) => `${w.start}–${w.end}`).join(", ");
+}
@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { buildIcs, IcsEvent, parseIcs } from "./ics.ts";
+import { tzOffsetMinutes } from "./timezone.ts";
+
+const NOW = new Date("2025-06-02T12:00:00Z");
+
+function event(uid: string, tzid: string | null, year = 2025): IcsEvent {
+  return {
+    uid,
+    start: { wall: { year, month: 6, day: 3, hour: 18, minute: 0 }, tzid },
+    durationMinutes: 45,
+    summary: `Session ${uid}`,
+  };
+}
+
+/** The lines of every VTIMEZONE, keyed by TZID. */
+function vtimezones(ics: string): Map<string, string[]> {
+  const zones = new Map<string, string[]>();
+  let current: string[] | null = null;
+  for (const line of ics.split("\r\n")) {
+    if (line === "BEGIN:VTIMEZONE") current = [];
+    else if (line === "END:VTIMEZONE") current = null;
+    else if (current && line.startsWith("TZID:")) zones.set(line.slice(5), current);
+    else if (current) current.push(line);
+  }
+  return zones;
+}
+
+describe("buildIcs time zones", () => {
+  it("describes a zone with daylight saving time by its yearly rules", () => {
+    const ics = buildIcs({ name: "Momentum", events: [event("a", "America/New_York")], tzOffset: tzOffsetMinutes }, NOW);
+
+    assert.deepEqual(vtimezones(ics).get("America/New_York"), [
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20240310T020000",
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "END:DAYLIGHT",
+      "BEGIN:STANDARD",
+      "DTSTART:20241103T020000",
+      "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+    ]);
+    assert.ok(ics.indexOf("BEGIN:VTIMEZONE") < ics.indexOf("BEGIN:VEVENT"));
+    assert.match(ics, /DTSTART;TZID=America\/New_York:20250603T180000/);
+  });
+
+  it("writes a last-weekday rule for changes in the last week of the month", () => {
+    const ics = buildIcs({ name: "Momentum", events: [event("a", "Europe/Berlin")], tzOffset: tzOffsetMinutes }, NOW);
+
+    const lines = vtimezones(ics).get("Europe/Berlin")!;
+    assert.ok(lines.includes("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU"), lines.join("\n"));
+    assert.ok(lines.includes("RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU"), lines.join("\n"));
+    assert.ok(lines.includes("DTSTART:20240331T020000"), lines.join("\n"));
+    assert.ok(lines.includes("DTSTART:20241027T030000"), lines.join("\n"));
+  });
+
+  it("gives a zone without daylight saving time one observance", () => {
+    const ics = buildIcs({ name: "Momentum", events: [event("a", "Asia/Kolkata")], tzOffset: tzOffsetMinutes }, NOW);
+
+    assert.deepEqual(vtimezones(ics).get("Asia/Kolkata"), [
+      "BEGIN:STANDARD",
+      "DTSTART:20240101T000000",
+      "TZOFFSETFROM:+0530",
+      "TZOFFSETTO:+0530",
+      "END:STANDARD",
+    ]);
+  });
+
+  it("writes each zone once, starting the year before its earliest event", () => {
+    const ics = buildIcs(
+      {
+        name: "Momentum",
+        events: [event("a", "America/New_York"), event("b", "America/New_York", 2023), event("c", null)],
+        tzOffset: tzOffsetMinutes,
+      },
+      NOW,
+    );
+
+    assert.deepEqual([...vtimezones(ics).keys()], ["America/New_York"]);
+    assert.match(ics, /DTSTART:20220313T020000/);
+  });
+
+  it("needs no offsets for a calendar of UTC and floating times", () => {
+    const ics = buildIcs({ name: "Momentum", events: [event("a", null), { uid: "b", start: { utc: NOW.getTime() }, summary: "UTC" }] }, NOW);
+    assert.doesNotMatch(ics, /VTIMEZONE/);
+  });
+
+  it("refuses to write a TZID it cannot describe", () => {
+    assert.throws(() => buildIcs({ name: "Momentum", events: [event("a", "America/New_York")] }, NOW), /tzOffset/);
+  });
+
+  it("still reads back as the same events", () => {
+    const ics = buildIcs({ name: "Momentum", events: [event("a", "America/New_York")], tzOffset: tzOffsetMinutes }, NOW);
+    const [parsed] = parseIcs(ics).events;
+
+    assert.equal(parsed.uid, "a");
+    assert.deepEqual(parsed.start, { wall: { year: 2025, month: 6, day: 3, hour: 18, minute: 0, second: 0 }, tzid: "America/New_York" });
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * iCalendar (RFC 5545) writer and reader shared by the client (re-exported from
+ * lib/ai/ics.ts) and the edge functions. Only VEVENTs are written or read.
+ *
+ * `goalsToIcsEvents` maps goal/task/recurrence rows to events with UIDs derived
+ * from row ids, so re-importing an export updates events instead of duplicating
+ * them. Recurring rules become one RRULE event; materialized occurrences become
+ * overrides of it (same UID plus RECURRENCE-ID).
+ *
+ * Dependency-free like timezone.ts: zoned wall times and UTC offsets are computed
+ * by the caller. Every TZID the events use gets a VTIMEZONE built from `tzOffset`,
+ * so clients without that zone in their database still place the times right.
+ */
+
+export interface IcsWallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+export type IcsDateTime =
+  | { utc: string | number } // instant (ISO string or epoch ms), written as UTC
+  | { wall: IcsWallTime; tzid?: string | null } // wall clock in tzid; floating without one
+  | { date: string }; // all-day, YYYY-MM-DD
+
+export interface IcsEvent {
+  uid: string;
+  start: IcsDateTime;
+  durationMinutes?: number; // all-day events default to one day, others to 30 minutes
+  summary: string;
+  description?: string | null;
+  categories?: string[];
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  rrule?: string | null; // with or without the "RRULE:" prefix
+  exdates?: IcsDateTime[];
+  recurrenceId?: IcsDateTime; // marks an override of one occurrence of `uid`
+  lastModified?: string | null; // ISO; also used as DTSTAMP
+}
+
+export interface IcsCalendar {
+  name: string;
+  events: IcsEvent[];
+  refreshIntervalMinutes?: number; // hint for subscribed feeds
+  // Minutes east of UTC of `tzid` at `instant`; required once an event uses a TZID
+  tzOffset?: (tzid: string, instant: number) => number;
+}
+
+const PRODID = "-//Momentum//Momentum AI Calendar//EN";
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function formatUtc(instant: string | number): string {
+  const d = new Date(instant);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T` +
+    `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function formatWall(w: IcsWallTime): string {
+  return `${w.year}${pad(w.month)}${pad(w.day)}T${pad(w.hour)}${pad(w.minute)}${pad(w.second ?? 0)}`;
+}
+
+/** ";PARAMS:VALUE" for a date-time property. */
+function dateTimeValue(value: IcsDateTime): string {
+  if ("utc" in value) return `:${formatUtc(value.utc)}`;
+  if ("date" in value) return `;VALUE=DATE:${value.date.replace(/-/g, "")}`;
+  return value.tzid ? `;TZID=${value.tzid}:${formatWall(value.wall)}` : `:${formatWall(value.wall)}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes > 0 && minutes % (24 * 60) === 0) return `P${minutes / (24 * 60)}D`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `PT${h > 0 ? `${h}H` : ""}${m > 0 || h === 0 ? `${m}M` : ""}`;
+}
+
+/** TEXT escaping (RFC 5545 3.3.11). */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/** Fold a content line at 75 octets without splitting a character. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const allDay = "date" in event.start;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART${dateTimeValue(event.start)}`,
+    `DURATION:${formatDuration(event.durationMinutes ?? (allDay ? 24 * 60 : 30))}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.recurrenceId) lines.push(`RECURRENCE-ID${dateTimeValue(event.recurrenceId)}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule.replace(/^RRULE:/i, "")}`);
+  for (const exdate of event.exdates ?? []) lines.push(`EXDATE${dateTimeValue(exdate)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  const categories = (event.categories ?? []).filter(Boolean);
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeIcsText).join(",")}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/** Earliest wall-clock year per TZID used by the events' date-times. */
+function usedTimeZones(events: IcsEvent[]): Map<string, number> {
+  const years = new Map<string, number>();
+  for (const event of events) {
+    for (const value of [event.start, event.recurrenceId, ...(event.exdates ?? [])]) {
+      if (!value || !("wall" in value) || !value.tzid) continue;
+      const year = years.get(value.tzid);
+      if (year === undefined || value.wall.year < year) years.set(value.tzid, value.wall.year);
+    }
+  }
+  return years;
+}
+
+interface OffsetTransition {
+  at: number; // first instant with the new offset
+  from: number;
+  to: number;
+}
+
+/** Offset changes of `tzid` during `year` (UTC), to the minute. */
+function transitionsIn(tzid: string, year: number, offsetAt: (tzid: string, instant: number) => number): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const from = offsetAt(tzid, day);
+    const to = offsetAt(tzid, day + DAY_MS);
+    if (from === to) continue;
+    let lo = day;
+    let hi = day + DAY_MS;
+    while (hi - lo > MINUTE_MS) {
+      const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(tzid, mid) === from) lo = mid;
+      else hi = mid;
+    }
+    transitions.push({ at: hi, from, to });
+  }
+  return transitions;
+}
+
+/**
+ * VTIMEZONE for `tzid` with the rules in force the year before `firstYear`,
+ * repeated yearly as "nth (or last) weekday of the month" like tzdata writes them.
+ * A zone without changes that year gets a single STANDARD observance.
+ */
+function vtimezoneLines(tzid: string, firstYear: number, offsetAt: (tzid: string, instant: number) => number): string[] {
+  const year = firstYear - 1;
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${tzid}`];
+  const transitions = transitionsIn(tzid, year, offsetAt);
+  if (transitions.length === 0) {
+    const offset = formatOffset(offsetAt(tzid, Date.UTC(year, 0, 1)));
+    lines.push("BEGIN:STANDARD", `DTSTART:${year}0101T000000`, `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD");
+  }
+  for (const { at, from, to } of transitions) {
+    // DTSTART is the wall clock just before the change, in the old offset
+    const local = new Date(at + from * MINUTE_MS);
+    const month = local.getUTCMonth() + 1;
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), month, 0)).getUTCDate();
+    const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWall({ year, month, day, hour: local.getUTCHours(), minute: local.getUTCMinutes() })}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${nth}${WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`,
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/** The whole VCALENDAR as text, CRLF line endings as the spec requires. */
+export function buildIcs(calendar: IcsCalendar, now: Date = new Date()): string {
+  const fallbackStamp = formatUtc(now.getTime());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    `NAME:${escapeIcsText(calendar.name)}`,
+  ];
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${formatDuration(calendar.refreshIntervalMinutes)}`);
+    lines.push(`X-PUBLISHED-TTL:${formatDuration(calendar.refreshIntervalMinutes)}`);
+  }
+  for (const [tzid, firstYear] of usedTimeZones(calendar.events)) {
+    if (!calendar.tzOffset) throw new Error(`tzOffset is required to describe TZID ${tzid}`);
+    lines.push(...vtimezoneLines(tzid, firstYear, calendar.tzOffset));
+  }
+  for (const event of calendar.events) {
+    const stamp = event.lastModified ? formatUtc(event.lastModified) : fallbackStamp;
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export interface IcsParsedEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  start: IcsDateTime;
+  end: IcsDateTime | null;
+  durationMinutes: number | null; // from DURATION; DTEND is left to the caller
+  rrule: string | null;
+  exdates: IcsDateTime[];
+  recurrenceId: IcsDateTime | null;
+  status: string | null;
+  transparent: boolean; // TRANSP:TRANSPARENT, i.e. does not block time
+}
+
+export interface IcsParsedCalendar {
+  name: string | null; // X-WR-CALNAME / NAME
+  events: IcsParsedEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Split on `separator` outside double quotes (parameter values may contain ':' and ';'). */
+function splitUnquoted(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const [head, value] = splitUnquoted(line, ":", 2);
+  if (value === undefined) return null;
+  const [name, ...rawParams] = splitUnquoted(head, ";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date) return { date: `${date[1]}-${date[2]}-${date[3]}` };
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+  if (!m) return null;
+  const [year, month, day, hour, minute, second] = m.slice(1, 7).map(Number);
+  if (m[7]) return { utc: new Date(Date.UTC(year, month - 1, day, hour, minute, second)).toISOString() };
+  return { wall: { year, month, day, hour, minute, second }, tzid: params.TZID || null };
+}
+
+function parseDuration(value: string): number | null {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [weeks, days, hours, minutes, seconds] = m.slice(2).map((n) => Number(n ?? 0));
+  return Math.round(weeks * 10080 + days * 1440 + hours * 60 + minutes + seconds / 60);
+}
+
+/**
+ * Read the VEVENTs of an iCalendar file. Lenient: unknown properties are ignored,
+ * nested components (VALARM) are skipped and events without DTSTART are dropped.
+ * Events without a UID get one derived from their start and summary so re-imports
+ * still match. VTIMEZONE blocks are not read; TZIDs are taken as IANA names.
+ */
+export function parseIcs(text: string): IcsParsedCalendar {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const calendar: IcsParsedCalendar = { name: null, events: [] };
+  const stack: string[] = [];
+  let props: ContentLine[] = [];
+
+  for (const line of lines) {
+    const prop = line.trim() ? parseContentLine(line) : null;
+    if (!prop) continue;
+    if (prop.name === "BEGIN") {
+      stack.push(prop.value.toUpperCase());
+      if (prop.value.toUpperCase() === "VEVENT") props = [];
+      continue;
+    }
+    if (prop.name === "END") {
+      if (stack.pop() === "VEVENT") {
+        const event = eventFromProps(props);
+        if (event) calendar.events.push(event);
+      }
+      continue;
+    }
+    const component = stack[stack.length - 1];
+    if (component === "VEVENT") props.push(prop);
+    else if (component === "VCALENDAR" && (prop.name === "X-WR-CALNAME" || (prop.name === "NAME" && !calendar.name))) {
+      calendar.name = unescapeIcsText(prop.value);
+    }
+  }
+  return calendar;
+}
+
+function eventFromProps(props: ContentLine[]): IcsParsedEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseDateTime(dtstart.value, dtstart.params);
+  if (!start) return null;
+
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  const recurrenceId = get("RECURRENCE-ID");
+  const summary = unescapeIcsText(get("SUMMARY")?.value ?? "").trim() || "Untitled event";
+  const exdates = props
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) => p.value.split(",").map((v) => parseDateTime(v, p.params)))
+    .filter((d): d is IcsDateTime => d !== null);
+
+  return {
+    uid: get("UID")?.value.trim() || `${dtstart.value}-${summary}`,
+    summary,
+    description: get("DESCRIPTION") ? unescapeIcsText(get("DESCRIPTION")!.value) : null,
+    start,
+    end: dtend ? parseDateTime(dtend.value, dtend.params) : null,
+    durationMinutes: duration ? parseDuration(duration.value) : null,
+    rrule: get("RRULE")?.value ?? null,
+    exdates,
+    recurrenceId: recurrenceId ? parseDateTime(recurrenceId.value, recurrenceId.params) : null,
+    status: get("STATUS")?.value.toUpperCase() ?? null,
+    transparent: get("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT",
+  };
+}
+
+// Row shapes read by goalsToIcsEvents (subsets of goals, tasks, task_sessions and recurrence_rules)
+export interface IcsGoalRow {
+  id: string;
+  title: string;
+  color?: string | null;
+}
+
+export interface IcsTaskRow {
+  id: string;
+  goal_id?: string | null;
+  title: string;
+  notes?: string | null;
+  due_at: string;
+  duration_minutes?: number | null;
+  all_day?: boolean | null;
+  status?: string | null;
+  updated_at?: string | null;
+  recurrence_rule_id?: string | null;
+  recurrence_instance_at?: string | null;
+  task_sessions?: { id: string; start_at: string; end_at: string; status: string }[] | null;
+}
+
+export interface IcsRuleRow {
+  id: string;
+  goal_id: string;
+  title: string;
+  notes?: string | null;
+  rrule: string;
+  dtstart: string;
+  duration_minutes?: number | null;
+  exdates?: string[] | null;
+  tzid?: string | null;
+  updated_at?: string | null;
+}
+
+export interface IcsMappingOptions {
+  // Wall clock of `instant` in `tzid`; tzid null means the rule floats (device zone)
+  toWall: (instant: number, tzid: string | null) => IcsWallTime;
+  // Display name for a goal color ("#3B82F6" -> "Blue"); the hex value is used without it
+  colorName?: (color: string) => string;
+}
+
+const UID_DOMAIN = "momentumaicalendar.app";
+
+export const icsUid = (kind: "task" | "session" | "rule", id: string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+function eventStatus(status?: string | null): IcsEvent["status"] {
+  return status === "skipped" ? "CANCELLED" : "CONFIRMED";
+}
+
+export function goalsToIcsEvents(
+  goals: IcsGoalRow[],
+  tasks: IcsTaskRow[],
+  rules: IcsRuleRow[],
+  options: IcsMappingOptions
+): IcsEvent[] {
+  const goalsById = new Map(goals.map((g) => [g.id, g]));
+  const categoriesFor = (goalId?: string | null): string[] => {
+    const goal = goalId ? goalsById.get(goalId) : undefined;
+    if (!goal) return [];
+    const color = goal.color ? (options.colorName?.(goal.color) || goal.color) : null;
+    return color ? [goal.title, color] : [goal.title];
+  };
+  const rulesById = new Map(rules.map((r) => [r.id, r]));
+  const ruleTime = (rule: IcsRuleRow, instant: string): IcsDateTime => ({
+    wall: options.toWall(new Date(instant).getTime(), rule.tzid ?? null),
+    tzid: rule.tzid ?? null,
+  });
+  const events: IcsEvent[] = [];
+
+  for (const rule of rules) {
+    if (!goalsById.has(rule.goal_id)) continue;
+    events.push({
+      uid: icsUid("rule", rule.id),
+      start: ruleTime(rule, rule.dtstart),
+      durationMinutes: rule.duration_minutes ?? undefined,
+      summary: rule.title,
+      description: rule.notes,
+      categories: categoriesFor(rule.goal_id),
+      status: "CONFIRMED",
+      rrule: rule.rrule,
+      exdates: (rule.exdates ?? []).map((d) => ruleTime(rule, d)),
+      lastModified: rule.updated_at,
+    });
+  }
+
+  for (const task of tasks) {
+    if (!task.goal_id || !goalsById.has(task.goal_id)) continue;
+    const base = {
+      summary: task.title,
+      description: task.notes,
+      categories: categoriesFor(task.goal_id),
+      lastModified: task.updated_at,
+    };
+
+    const rule = task.recurrence_rule_id ? rulesById.get(task.recurrence_rule_id) : undefined;
+    if (rule && task.recurrence_instance_at) {
+      events.push({
+        ...base,
+        uid: icsUid("rule", rule.id),
+        recurrenceId: ruleTime(rule, task.recurrence_instance_at),
+        start: { utc: task.due_at },
+        durationMinutes: task.duration_minutes ?? rule.duration_minutes ?? undefined,
+        status: eventStatus(task.status),
+      });
+      continue;
+    }
+
+    const sessions = [...(task.task_sessions ?? [])].sort((a, b) => a.start_at.localeCompare(b.start_at));
+    if (sessions.length > 0) {
+      sessions.forEach((session, i) => {
+        events.push({
+          ...base,
+          uid: icsUid("session", session.id),
+          summary: sessions.length > 1 ? `${task.title} (${i + 1}/${sessions.length})` : task.title,
+          start: { utc: session.start_at },
+          durationMinutes: Math.round((new Date(session.end_at).getTime() - new Date(session.start_at).getTime()) / 60000),
+          status: eventStatus(session.status),
+        });
+      });
+      continue;
+    }
+
+    events.push({
+      ...base,
+      uid: icsUid("task", task.id),
+      start: task.all_day ? { date: task.due_at.slice(0, 10) } : { utc: task.due_at },
+      durationMinutes: task.all_day ? undefined : task.duration_minutes ?? undefined,
+      status: eventStatus(task.status),
+    });
+  }
+
+  return events;
+}
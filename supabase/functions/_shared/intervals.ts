@@ -0,0 +1,26 @@
+/**
+ * Time intervals shared by schedule_v1 and the client conflict checks
+ * (re-exported from lib/ai/intervals.ts), so "free time" means the same on both
+ * sides. Intervals are epoch milliseconds, end exclusive.
+ */
+
+export type Interval = { start: number; end: number };
+
+/** `freeWindows` with every `busy` interval cut out; empty pieces are dropped. */
+export function subtractBusy(freeWindows: Interval[], busy: Interval[]): Interval[] {
+  let free = [...freeWindows];
+  for (const b of busy) {
+    const next: Interval[] = [];
+    for (const f of free) {
+      if (b.end <= f.start || b.start >= f.end) { next.push(f); continue; }
+      if (b.start > f.start) next.push({ start: f.start, end: Math.max(f.start, b.start) });
+      if (b.end < f.end) next.push({ start: Math.min(b.end, f.end), end: f.end });
+    }
+    free = next.filter(iv => iv.end - iv.start > 0);
+  }
+  return free;
+}
+
+export function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
@@ -0,0 +1,405 @@
+/**
+ * One interface for the language models behind the app: chat, structured JSON and
+ * streaming, used by the edge functions and (re-exported from lib/ai/llm.ts) the
+ * client. Adapters:
+ *
+ *   gemini   Google AI Studio with an API key, or Vertex AI with an access token
+ *   openai   any OpenAI-compatible /chat/completions server (OpenAI, Ollama,
+ *            llama.cpp, vLLM, LM Studio, ...), e.g. a local model
+ *   fixture  replays canned responses; no network, same output for the same request
+ *
+ * Requests name a tier ("fast" or "quality") instead of a model; each adapter maps
+ * tiers to its own models and a failed "quality" call is retried once on "fast".
+ * Dependency-free (fetch only) so Deno and React Native share it.
+ */
+
+export type LlmRole = "system" | "user" | "assistant";
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+export type LlmTier = "fast" | "quality";
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  tier?: LlmTier; // "fast" when unset
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmJsonRequest extends LlmRequest {
+  schema?: Record<string, unknown>; // JSON Schema (OpenAPI subset for Gemini)
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmRequest): Promise<LlmResult>;
+  generateJson<T = unknown>(request: LlmJsonRequest): Promise<T>;
+  /** Text deltas as they arrive. */
+  stream(request: LlmRequest): AsyncGenerator<string>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public provider: string, public status?: number) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+/** A JSON reply that does not parse; `text` is the reply as the model sent it. */
+export class LlmJsonError extends SyntaxError {
+  constructor(message: string, public text: string) {
+    super(message);
+    this.name = "LlmJsonError";
+  }
+}
+
+export type LlmProviderName = "gemini" | "openai" | "fixture";
+
+export interface LlmFixture {
+  kind?: "chat" | "json" | "stream"; // any when unset
+  match?: string; // case-insensitive substring of the last user message; any when unset
+  // Text, a JSON value, or a function of the request and the provider's clock
+  // (so relative dates stay deterministic)
+  response: string | Record<string, unknown> | unknown[] | ((request: LlmRequest, now: Date) => unknown);
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  apiKey?: string;
+  baseUrl?: string; // openai: up to and including /v1
+  models?: Partial<Record<LlmTier, string>>;
+  // gemini on Vertex AI instead of an API key
+  vertex?: { project: string; location: string; accessToken: () => Promise<string> };
+  fixtures?: LlmFixture[];
+  now?: () => Date; // fixture clock
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_MODELS: Record<Exclude<LlmProviderName, "fixture">, Record<LlmTier, string>> = {
+  gemini: { fast: "gemini-2.0-flash", quality: "gemini-2.5-pro" },
+  openai: { fast: "llama3.1", quality: "llama3.1" },
+};
+
+// Ollama's OpenAI-compatible endpoint
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Config from environment variables; `get` is Deno.env.get on the server.
+ *
+ *   LLM_PROVIDER        gemini (default), openai or fixture
+ *   GEMINI_API_KEY      gemini API key
+ *   LLM_BASE_URL        openai base URL, default Ollama on localhost
+ *   LLM_API_KEY         openai key, when the server wants one
+ *   LLM_MODEL           model for the "quality" tier (GEMINI_MODEL for gemini)
+ *   LLM_MODEL_FAST      model for the "fast" tier (GEMINI_MODEL_FAST for gemini)
+ *   LLM_FIXTURES        fixture: JSON array of fixtures, instead of the caller's defaults
+ */
+export function llmConfigFromEnv(get: (name: string) => string | undefined): LlmConfig {
+  const provider = (get("LLM_PROVIDER") || "gemini").toLowerCase();
+  if (provider === "fixture") {
+    const raw = get("LLM_FIXTURES");
+    return { provider, fixtures: raw ? JSON.parse(raw) : undefined };
+  }
+  if (provider === "openai") {
+    return {
+      provider,
+      baseUrl: get("LLM_BASE_URL") || DEFAULT_OPENAI_BASE_URL,
+      apiKey: get("LLM_API_KEY"),
+      models: { quality: get("LLM_MODEL"), fast: get("LLM_MODEL_FAST") || get("LLM_MODEL") },
+    };
+  }
+  if (provider !== "gemini") throw new LlmError(`Unknown LLM_PROVIDER "${provider}"`, provider);
+  return {
+    provider,
+    apiKey: get("GEMINI_API_KEY"),
+    models: { quality: get("GEMINI_MODEL"), fast: get("GEMINI_MODEL_FAST") },
+  };
+}
+
+/** The provider the environment names; the fixture provider replays `fixtures` unless LLM_FIXTURES is set. */
+export function llmFromEnv(get: (name: string) => string | undefined, fixtures: LlmFixture[] = []): LlmProvider {
+  const config = llmConfigFromEnv(get);
+  return createLlmProvider({ ...config, fixtures: config.fixtures ?? fixtures });
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case "gemini":
+      return withTierFallback(geminiProvider(config));
+    case "openai":
+      return withTierFallback(openAiProvider(config));
+    case "fixture":
+      return fixtureProvider(config.fixtures ?? [], config.now);
+  }
+}
+
+/**
+ * The JSON object in a model reply: code fences and any text around the first
+ * balanced {...} are dropped.
+ */
+export function extractJson(text: string): string {
+  let json = text.trim().replace(/^```(?:json)?\s*/, "").replace(/\s*```$/, "");
+  const start = json.indexOf("{");
+  if (start === -1) throw new SyntaxError("No JSON object found in response");
+  json = json.slice(start);
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (escaped) {
+      escaped = false;
+    } else if (ch === "\\") {
+      escaped = true;
+    } else if (ch === '"') {
+      inString = !inString;
+    } else if (!inString && ch === "{") {
+      depth++;
+    } else if (!inString && ch === "}" && --depth === 0) {
+      return json.slice(0, i + 1);
+    }
+  }
+  return json;
+}
+
+function parseJson<T>(text: string): T {
+  try {
+    return JSON.parse(extractJson(text)) as T;
+  } catch (e) {
+    throw new LlmJsonError(String((e as Error)?.message ?? e), text);
+  }
+}
+
+function lastUserMessage(request: LlmRequest): string {
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    if (request.messages[i].role === "user") return request.messages[i].content;
+  }
+  return "";
+}
+
+/** `data:` payloads of complete server-sent event lines. */
+export function sseLines(chunk: string): string[] {
+  return chunk.split(/\r?\n/).filter((l) => l.startsWith("data:")).map((l) => l.slice(5).trim());
+}
+
+/** `data:` payloads of a server-sent events response, read incrementally where the runtime can. */
+export async function* sseData(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader?.();
+  if (!reader) {
+    // React Native's fetch has no readable body: the events arrive all at once
+    yield* sseLines(await response.text());
+    return;
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const end = buffer.lastIndexOf("\n");
+    if (end === -1) continue;
+    yield* sseLines(buffer.slice(0, end));
+    buffer = buffer.slice(end + 1);
+  }
+  yield* sseLines(buffer);
+}
+
+/** Retries a failed "quality" request once on the "fast" tier (a stream only before its first delta). */
+function withTierFallback(provider: LlmProvider): LlmProvider {
+  const retry = async <T>(request: LlmRequest, call: (r: LlmRequest) => Promise<T>): Promise<T> => {
+    try {
+      return await call(request);
+    } catch (error) {
+      if (request.tier !== "quality") throw error;
+      console.warn(`[llm] ${provider.name} quality model failed, retrying on fast`, error);
+      return await call({ ...request, tier: "fast" });
+    }
+  };
+  return {
+    name: provider.name,
+    chat: (request) => retry(request, (r) => provider.chat(r)),
+    generateJson: <T>(request: LlmJsonRequest) => retry(request, (r) => provider.generateJson<T>(r)),
+    async *stream(request) {
+      let started = false;
+      try {
+        for await (const delta of provider.stream(request)) {
+          started = true;
+          yield delta;
+        }
+      } catch (error) {
+        if (started || request.tier !== "quality") throw error;
+        console.warn(`[llm] ${provider.name} quality model failed, retrying on fast`, error);
+        yield* provider.stream({ ...request, tier: "fast" });
+      }
+    },
+  };
+}
+
+function geminiProvider(config: LlmConfig): LlmProvider {
+  const name = "gemini";
+  const doFetch = config.fetch ?? fetch;
+  const model = (tier: LlmTier = "fast") => config.models?.[tier] || DEFAULT_MODELS.gemini[tier];
+
+  const post = async (request: LlmRequest, method: string, extra: Record<string, unknown>) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    let url: string;
+    if (config.vertex) {
+      const { project, location } = config.vertex;
+      url = `https://${location}-aiplatform.googleapis.com/v1/projects/${project}/locations/${location}/publishers/google/models/${model(request.tier)}:${method}`;
+      headers.Authorization = `Bearer ${await config.vertex.accessToken()}`;
+    } else {
+      if (!config.apiKey) throw new LlmError("Gemini API key is not set", name);
+      url = `https://generativelanguage.googleapis.com/v1beta/models/${model(request.tier)}:${method}`;
+      headers["x-goog-api-key"] = config.apiKey;
+    }
+    const system = request.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const body = {
+      contents: request.messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: m.content }] })),
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        candidateCount: 1,
+        ...extra,
+      },
+    };
+    const resp = await doFetch(url, { method: "POST", headers, body: JSON.stringify(body) });
+    if (!resp.ok) throw new LlmError(`Gemini error: ${resp.status} ${await resp.text()}`, name, resp.status);
+    return resp;
+  };
+
+  const textOf = (json: any): string => (json?.candidates?.[0]?.content?.parts ?? []).map((p: any) => p.text ?? "").join("");
+
+  const generate = async (request: LlmRequest, extra: Record<string, unknown>): Promise<LlmResult> => {
+    const json: any = await (await post(request, "generateContent", extra)).json();
+    const text = textOf(json);
+    if (!text) throw new LlmError("No content returned", name);
+    const usage = json.usageMetadata;
+    return {
+      text,
+      usage: usage
+        ? { promptTokens: usage.promptTokenCount ?? 0, completionTokens: usage.candidatesTokenCount ?? 0, totalTokens: usage.totalTokenCount ?? 0 }
+        : undefined,
+    };
+  };
+
+  return {
+    name,
+    chat: (request) => generate(request, {}),
+    async generateJson<T>(request: LlmJsonRequest) {
+      const { text } = await generate(request, {
+        responseMimeType: "application/json",
+        ...(request.schema ? { responseSchema: request.schema } : {}),
+      });
+      return parseJson<T>(text);
+    },
+    async *stream(request) {
+      const resp = await post(request, "streamGenerateContent?alt=sse", {});
+      for await (const data of sseData(resp)) {
+        const text = textOf(JSON.parse(data));
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+function openAiProvider(config: LlmConfig): LlmProvider {
+  const name = "openai";
+  const doFetch = config.fetch ?? fetch;
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const model = (tier: LlmTier = "fast") => config.models?.[tier] || DEFAULT_MODELS.openai[tier];
+
+  const post = async (request: LlmRequest, extra: Record<string, unknown>) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    const resp = await doFetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: model(request.tier),
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        ...extra,
+      }),
+    });
+    if (!resp.ok) throw new LlmError(`LLM server error: ${resp.status} ${await resp.text()}`, name, resp.status);
+    return resp;
+  };
+
+  const generate = async (request: LlmRequest, extra: Record<string, unknown>): Promise<LlmResult> => {
+    const json: any = await (await post(request, extra)).json();
+    const text = json?.choices?.[0]?.message?.content;
+    if (!text) throw new LlmError("No content returned", name);
+    const usage = json.usage;
+    return {
+      text,
+      usage: usage
+        ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0, totalTokens: usage.total_tokens ?? 0 }
+        : undefined,
+    };
+  };
+
+  return {
+    name,
+    chat: (request) => generate(request, {}),
+    async generateJson<T>(request: LlmJsonRequest) {
+      const { text } = await generate(request, {
+        response_format: request.schema
+          ? { type: "json_schema", json_schema: { name: "response", schema: request.schema } }
+          : { type: "json_object" },
+      });
+      return parseJson<T>(text);
+    },
+    async *stream(request) {
+      const resp = await post(request, { stream: true });
+      for await (const data of sseData(resp)) {
+        if (data === "[DONE]") return;
+        const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+/**
+ * Replays `fixtures`: the first one whose kind and match fit the request answers it,
+ * and a request no fixture fits fails. Streams are the response split into words.
+ */
+export function fixtureProvider(fixtures: LlmFixture[], now: () => Date = () => new Date()): LlmProvider {
+  const name = "fixture";
+
+  const respond = (kind: "chat" | "json" | "stream", request: LlmRequest): unknown => {
+    const message = lastUserMessage(request).toLowerCase();
+    const fixture = fixtures.find((f) => (!f.kind || f.kind === kind) && (!f.match || message.includes(f.match.toLowerCase())));
+    if (!fixture) throw new LlmError(`No ${kind} fixture matches "${lastUserMessage(request).slice(0, 80)}"`, name);
+    return typeof fixture.response === "function" ? fixture.response(request, now()) : fixture.response;
+  };
+  const asText = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+  return {
+    name,
+    chat: async (request) => ({ text: asText(respond("chat", request)) }),
+    // Round-trips through JSON so callers never share (or mutate) a fixture's objects
+    generateJson: async <T>(request: LlmJsonRequest) => parseJson<T>(asText(respond("json", request))),
+    async *stream(request) {
+      for (const word of asText(respond("stream", request)).match(/\S+\s*/g) ?? []) yield word;
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Fixtures for the "fixture" LLM provider (llm.ts) that walk the whole goal-creation
+ * flow with no network: the coach chat asks its questions in order and finishes with
+ * the line AIGoalCreationModal waits for, then each plan generator (planner_v2,
+ * ai_planner, ai_plan and coach_chat's plan mode) gets a small plan.
+ * Dates are relative to the provider's clock, so a fixed clock gives fixed plans.
+ */
+
+import type { LlmFixture, LlmRequest } from "./llm.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COACH_QUESTIONS = [
+  "Great! What specific goal would you like to work on?",
+  "When do you want to achieve it? Please give a specific date, like December 15th.",
+  "How much time can you commit per week?",
+  "What days of the week work best for you? For example, Tuesdays and Thursdays, or weekdays?",
+  "What time of day works best for you?",
+  "I have all the information I need to create your personalized plan. Let me put together a structured goal and training schedule for you.",
+];
+
+/** The question after the last one asked; the first when the coach has not asked any yet. */
+function nextCoachQuestion(request: LlmRequest): string {
+  const asked = request.messages.filter((m) => m.role === "assistant").map((m) => m.content);
+  const last = asked.length ? COACH_QUESTIONS.indexOf(asked[asked.length - 1]) : -1;
+  return COACH_QUESTIONS[Math.min(last + 1, COACH_QUESTIONS.length - 1)];
+}
+
+function dateKey(now: Date, days: number): string {
+  return new Date(now.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Tomorrow onwards, every other day at 18:00 UTC. */
+function sessionStart(now: Date, index: number): string {
+  return `${dateKey(now, 1 + index * 2)}T18:00:00.000Z`;
+}
+
+const PLAN_TITLE = "Practice guitar";
+const PLAN_DESCRIPTION = "Play a full song cleanly by practising chords, changes and strumming a few times a week.";
+const PLAN_STEPS = [
+  "Learn the G, C and D chords",
+  "Practise chord changes with a metronome",
+  "Learn a basic strumming pattern",
+  "Play the verse at half speed",
+  "Play the chorus at half speed",
+  "Play the whole song at full speed",
+];
+
+export const GOAL_CREATION_FIXTURES: LlmFixture[] = [
+  // planner_v2 (structured, tasks without dates)
+  {
+    kind: "json",
+    match: "Create a tailored plan",
+    response: (_request, now) => ({
+      goal: {
+        title: PLAN_TITLE,
+        description: PLAN_DESCRIPTION,
+        targetDate: dateKey(now, 28),
+        successCriteria: ["Play the song start to finish without stopping"],
+        energy: "medium",
+      },
+      tasks: PLAN_STEPS.map((notes, i) => ({
+        id: `t${i + 1}`,
+        title: "Practice",
+        notes,
+        estimatedMinutes: 45,
+        dependencies: i > 0 ? [`t${i}`] : [],
+        energy: i === PLAN_STEPS.length - 1 ? "high" : "medium",
+      })),
+    }),
+  },
+  // coach_chat plan mode (AIService.createGoalFromConversation)
+  {
+    kind: "json",
+    match: "create a structured goal plan",
+    response: (_request, now) => ({
+      goal: { title: PLAN_TITLE, description: PLAN_DESCRIPTION, target_date: dateKey(now, 28), status: "active" },
+      tasks: PLAN_STEPS.map((notes, i) => ({
+        title: "Practice",
+        notes,
+        due_at: sessionStart(now, i),
+        duration_minutes: 45,
+        all_day: false,
+        status: "pending",
+        seq: i + 1,
+      })),
+    }),
+  },
+  // ai_planner question generation
+  {
+    kind: "json",
+    match: "generate the next question",
+    response: {
+      status: "ask",
+      question: "What would you like to achieve?",
+      missing_fields: [],
+      priority: "high",
+      planner_state: { facts: {}, missing_fields: [], version: 1 },
+      rationale: "Fixture question",
+    },
+  },
+  // ai_plan: keeps the scheduled slots listed in the prompt
+  {
+    kind: "json",
+    match: "structuring a goal plan JSON",
+    response: (request) => {
+      const prompt = request.messages[request.messages.length - 1]?.content ?? "";
+      const title = prompt.match(/^User goal: (.*)$/m)?.[1] ?? PLAN_TITLE;
+      const targetDate = prompt.match(/^Target date: (.*)$/m)?.[1];
+      const tasks = [...prompt.matchAll(/^- (.*): (\S+) \((\d+) min, seq: (\d+)\)$/gm)].map((m) => ({
+        title: m[1],
+        due_at: m[2],
+        duration_minutes: Number(m[3]),
+        seq: Number(m[4]),
+      }));
+      return { goal: { title, description: `Regular sessions working towards ${title}.`, target_date: targetDate }, tasks };
+    },
+  },
+  // Coach chat, streamed or not
+  { kind: "chat", response: (request) => nextCoachQuestion(request) },
+  { kind: "stream", response: (request) => nextCoachQuestion(request) },
+];
@@ -0,0 +1,92 @@
+/**
+ * Plan schemas for the edge functions: the same shapes as lib/ai/planSchema.ts,
+ * which the app validates with zod from npm; keep the two in step. Model replies
+ * are checked against these with generateStructured (structuredOutput.ts).
+ *
+ *   PlanZ             a scheduled plan (coach_chat plan mode, ai_plan, ai_planner)
+ *   DraftPlanZ        planner_v2's unscheduled plan, placed later by schedule_v1
+ *   PlannerQuestionZ  ai_planner's next interview question
+ */
+
+import { z } from "https://deno.land/x/zod@v3.16.1/mod.ts";
+
+export const TaskZ = z.object({
+  title: z.string(),
+  notes: z.string().optional(),
+  due_at: z.string().refine((v: string) => !Number.isNaN(Date.parse(v)), "must be an ISO 8601 date-time"),
+  duration_minutes: z.number().int().positive().optional(),
+  all_day: z.boolean().optional(),
+  status: z.enum(["pending","done","skipped"]).optional(),
+  seq: z.number().int().optional(),
+});
+
+export const GoalZ = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  target_date: z.string().optional(),
+  status: z.enum(["active","paused","completed","archived"]).optional(),
+});
+
+export const PlanZ = z.object({
+  goal: GoalZ,
+  tasks: z.array(TaskZ).min(1)
+});
+
+export type Plan = z.infer<typeof PlanZ>;
+export type Task = z.infer<typeof TaskZ>;
+export type Goal = z.infer<typeof GoalZ>;
+
+// planner_v2"s unscheduled plan: schedule_v1 places the tasks
+const EnergyZ = z.enum(["low","medium","high"]);
+
+const LocalWindowZ = z.object({
+  daysOfWeek: z.array(z.string()),
+  startLocal: z.string(), // HH:mm
+  endLocal: z.string(),
+});
+
+export const DraftTaskZ = z.object({
+  id: z.string(),
+  title: z.string(),
+  notes: z.string().optional(),
+  estimatedMinutes: z.number().int().positive(),
+  dueDate: z.string().optional(), // YYYY-MM-DD
+  earliestStartDate: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  preferredWindows: z.array(LocalWindowZ).optional(),
+  avoidWindows: z.array(LocalWindowZ.partial()).optional(),
+  sessionMinMinutes: z.number().int().positive().optional(),
+  sessionMaxMinutes: z.number().int().positive().optional(),
+  allowSplitting: z.boolean().optional(),
+  priority: z.string().optional(),
+  energy: EnergyZ.optional(),
+});
+
+export const DraftPlanZ = z.object({
+  goal: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    targetDate: z.string(), // YYYY-MM-DD
+    successCriteria: z.array(z.string()).optional(),
+    energy: EnergyZ.optional(),
+  }),
+  tasks: z.array(DraftTaskZ).min(1),
+});
+
+export type DraftPlan = z.infer<typeof DraftPlanZ>;
+
+// ai_planner"s next interview question
+export const PlannerQuestionZ = z.object({
+  status: z.literal("ask"),
+  question: z.string().min(1),
+  missing_fields: z.array(z.string()),
+  priority: z.string().optional(),
+  planner_state: z.object({
+    facts: z.record(z.string(), z.unknown()),
+    missing_fields: z.array(z.string()),
+    version: z.number(),
+  }),
+  rationale: z.string().optional(),
+});
+
+export type PlannerQuestion = z.infer<typeof PlannerQuestionZ>;
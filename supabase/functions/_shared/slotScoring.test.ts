@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { bestSlot, BUFFER_MINUTES, Interval, LocalTime, SCORE_WEIGHTS, scoreSlot, SlotContext } from "./slotScoring.ts";
+
+const MINUTE_MS = 60 * 1000;
+const DAY = "2025-06-02";
+const NEXT_DAY = "2025-06-03";
+
+// The tests run in UTC, so local days and times are the ISO ones
+function localTime(instant: number): LocalTime {
+  const d = new Date(instant);
+  return { dayKey: d.toISOString().slice(0, 10), minuteOfDay: d.getUTCHours() * 60 + d.getUTCMinutes() };
+}
+
+function at(day: string, time: string): number {
+  return Date.parse(`${day}T${time}:00Z`);
+}
+
+function span(day: string, from: string, to: string): Interval {
+  return { start: at(day, from), end: at(day, to) };
+}
+
+function context(overrides: Partial<SlotContext> = {}): SlotContext {
+  return { localTime, peak: [], busy: [], placed: [], now: at(DAY, "00:00"), ...overrides };
+}
+
+function clock(slot: Interval | null): string | null {
+  return slot ? new Date(slot.start).toISOString().slice(0, 16) : null;
+}
+
+describe("scoreSlot", () => {
+  const peak = [{ start: 9 * 60, end: 11 * 60 }];
+
+  it("rewards high-effort work inside the peak hours and low-effort work outside them", () => {
+    const ctx = context({ peak, now: at(DAY, "09:00") });
+    const inPeak = span(DAY, "09:00", "10:00");
+    assert.equal(scoreSlot(inPeak, "high", ctx), SCORE_WEIGHTS.energy);
+    assert.equal(scoreSlot(inPeak, "low", ctx), 0);
+    assert.equal(scoreSlot(inPeak, "medium", ctx), 0);
+  });
+
+  it("counts the share of the slot inside the peak hours", () => {
+    const ctx = context({ peak, now: at(DAY, "10:30") });
+    const half = span(DAY, "10:30", "11:30");
+    assert.equal(scoreSlot(half, "high", ctx), SCORE_WEIGHTS.energy / 2);
+    assert.equal(scoreSlot(half, "low", ctx), SCORE_WEIGHTS.energy / 2);
+  });
+
+  it("ignores energy when the user has no peak hours", () => {
+    const ctx = context({ now: at(DAY, "09:00") });
+    assert.equal(scoreSlot(span(DAY, "09:00", "10:00"), "high", ctx), 0);
+  });
+
+  it("penalises every session of the goal already on the same day", () => {
+    const placed = [span(DAY, "06:00", "07:00"), span(DAY, "20:00", "21:00")];
+    const ctx = context({ placed, now: at(DAY, "13:00") });
+    assert.equal(scoreSlot(span(DAY, "13:00", "14:00"), undefined, ctx), -2 * SCORE_WEIGHTS.spread);
+  });
+
+  it("penalises a slot within the buffer of a meeting", () => {
+    const ctx = context({ busy: [span(DAY, "10:00", "11:00")], now: at(DAY, "12:00") });
+    assert.equal(scoreSlot(span(DAY, "11:00", "12:00"), undefined, ctx), -SCORE_WEIGHTS.buffer);
+    const afterBuffer = at(DAY, "11:00") + BUFFER_MINUTES * MINUTE_MS;
+    assert.equal(scoreSlot({ start: afterBuffer, end: afterBuffer + 60 * MINUTE_MS }, undefined, ctx), 0);
+  });
+
+  it("pulls towards earlier slots by the day", () => {
+    const ctx = context();
+    assert.equal(scoreSlot(span(NEXT_DAY, "00:00", "01:00"), undefined, ctx), -SCORE_WEIGHTS.earliness);
+  });
+});
+
+describe("bestSlot", () => {
+  const peak = [{ start: 9 * 60, end: 11 * 60 }];
+  const morning = [span(DAY, "08:00", "12:00")];
+
+  it("puts high-effort work in the peak hours even when an earlier slot is free", () => {
+    assert.equal(clock(bestSlot(morning, 60, "high", context({ peak }))), `${DAY}T09:00`);
+  });
+
+  it("keeps low-effort and medium work at the earliest slot outside the peak hours", () => {
+    assert.equal(clock(bestSlot(morning, 60, "low", context({ peak }))), `${DAY}T08:00`);
+    assert.equal(clock(bestSlot(morning, 60, "medium", context({ peak }))), `${DAY}T08:00`);
+  });
+
+  it("moves a second session of the goal to another day", () => {
+    const free = [span(DAY, "13:00", "14:00"), span(NEXT_DAY, "13:00", "14:00")];
+    const ctx = context({ placed: [span(DAY, "08:00", "09:00")] });
+    assert.equal(clock(bestSlot(free, 60, undefined, ctx)), `${NEXT_DAY}T13:00`);
+  });
+
+  it("leaves a gap after a session placed right before the window", () => {
+    const ctx = context({ placed: [span(DAY, "09:00", "10:00")] });
+    assert.equal(clock(bestSlot([span(DAY, "10:00", "12:00")], 60, undefined, ctx)), `${DAY}T10:15`);
+  });
+
+  it("leaves a buffer after a meeting", () => {
+    const ctx = context({ busy: [span(DAY, "10:00", "11:00")] });
+    assert.equal(clock(bestSlot([span(DAY, "11:00", "13:00")], 60, undefined, ctx)), `${DAY}T11:15`);
+  });
+
+  it("takes the slot next to a meeting when nothing else fits", () => {
+    const ctx = context({ busy: [span(DAY, "10:00", "11:00")] });
+    assert.equal(clock(bestSlot([span(DAY, "11:00", "12:00")], 60, undefined, ctx)), `${DAY}T11:00`);
+  });
+
+  it("breaks ties by the earliest start, whatever the order of the windows", () => {
+    // Every slot is in the past, so none is pulled earlier and all score the same
+    const ctx = context({ now: at(NEXT_DAY, "23:00") });
+    const free = [span(NEXT_DAY, "09:00", "10:00"), span(DAY, "14:00", "15:00"), span(DAY, "09:00", "10:00")];
+    assert.equal(clock(bestSlot(free, 60, undefined, ctx)), `${DAY}T09:00`);
+  });
+
+  it("starts on the window start and then on quarter hours", () => {
+    const ctx = context({ busy: [span(DAY, "09:00", "10:05")] });
+    const slot = bestSlot([span(DAY, "10:05", "12:00")], 60, undefined, ctx);
+    assert.equal(clock(slot), `${DAY}T10:30`);
+  });
+
+  it("returns null when no window is long enough", () => {
+    assert.equal(bestSlot([span(DAY, "10:00", "10:45")], 60, undefined, context()), null);
+  });
+});
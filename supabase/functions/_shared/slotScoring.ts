@@ -0,0 +1,112 @@
+/**
+ * Slot scoring for schedule_v1: instead of the first free slot that fits, every
+ * quarter-hour start in the free windows is scored and the best one wins.
+ *
+ *   energy     high-effort work inside the user's peak hours, low-effort work outside them
+ *   spread     fewer sessions of the same goal on one day
+ *   adjacency  no session directly before or after another placed session
+ *   buffer     a gap around external meetings
+ *   earliness  a small pull towards earlier slots, so a good slot soon beats one weeks out
+ *
+ * Deterministic: candidates are visited in time order and only a strictly higher
+ * score replaces the best so far, so ties go to the earliest start. Dependency-free
+ * like intervals.ts; the caller supplies how instants map to local days and times.
+ */
+
+export type Interval = { start: number; end: number };
+
+export type EnergyLevel = "low" | "medium" | "high";
+
+export const ENERGY_LEVELS: EnergyLevel[] = ["low", "medium", "high"];
+
+export function normalizeEnergy(raw: unknown): EnergyLevel | undefined {
+  return ENERGY_LEVELS.includes(raw as EnergyLevel) ? (raw as EnergyLevel) : undefined;
+}
+
+export interface LocalTime {
+  dayKey: string; // YYYY-MM-DD in the user's zone
+  minuteOfDay: number; // 0-1439
+}
+
+export interface SlotContext {
+  localTime: (instant: number) => LocalTime;
+  peak: { start: number; end: number }[]; // minutes of the day
+  busy: Interval[]; // external calendar events
+  placed: Interval[]; // sessions of this goal placed so far
+  now: number;
+}
+
+export const SCORE_WEIGHTS = {
+  energy: 4,
+  spread: 3,
+  adjacency: 2,
+  buffer: 2,
+  earliness: 0.5, // per day from now
+};
+
+export const SLOT_STEP_MINUTES = 15;
+export const BUFFER_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Share (0-1) of the slot inside the peak hours; a slot running past midnight counts its first day only. */
+function peakShare(slot: Interval, ctx: SlotContext): number {
+  if (ctx.peak.length === 0) return 0;
+  const from = ctx.localTime(slot.start).minuteOfDay;
+  const length = (slot.end - slot.start) / MINUTE_MS;
+  const to = Math.min(from + length, 24 * 60);
+  const inside = ctx.peak.reduce((sum, p) => sum + Math.max(0, Math.min(to, p.end) - Math.max(from, p.start)), 0);
+  return length > 0 ? Math.min(1, inside / length) : 0;
+}
+
+function placedPerDay(ctx: SlotContext): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const p of ctx.placed) {
+    const day = ctx.localTime(p.start).dayKey;
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function scoreSlot(slot: Interval, energy: EnergyLevel | undefined, ctx: SlotContext): number {
+  return scoreWith(slot, energy, ctx, placedPerDay(ctx));
+}
+
+function scoreWith(slot: Interval, energy: EnergyLevel | undefined, ctx: SlotContext, perDay: Map<string, number>): number {
+  let score = 0;
+
+  if (ctx.peak.length > 0 && energy && energy !== "medium") {
+    const share = peakShare(slot, ctx);
+    score += SCORE_WEIGHTS.energy * (energy === "high" ? share : 1 - share);
+  }
+
+  score -= SCORE_WEIGHTS.spread * (perDay.get(ctx.localTime(slot.start).dayKey) ?? 0);
+
+  const gap = BUFFER_MINUTES * MINUTE_MS;
+  const near = (a: Interval, b: Interval) => a.start - b.end < gap && b.start - a.end < gap;
+  if (ctx.placed.some((p) => near(slot, p))) score -= SCORE_WEIGHTS.adjacency;
+  if (ctx.busy.some((b) => near(slot, b))) score -= SCORE_WEIGHTS.buffer;
+
+  score -= SCORE_WEIGHTS.earliness * Math.max(0, slot.start - ctx.now) / DAY_MS;
+  return score;
+}
+
+/**
+ * Best `minutes`-long slot in `free` (which must not overlap busy time), starting on
+ * a quarter hour or at a window start. Null when no window is long enough.
+ */
+export function bestSlot(free: Interval[], minutes: number, energy: EnergyLevel | undefined, ctx: SlotContext): Interval | null {
+  const duration = minutes * MINUTE_MS;
+  const step = SLOT_STEP_MINUTES * MINUTE_MS;
+  const perDay = placedPerDay(ctx);
+  let best: { slot: Interval; score: number } | null = null;
+  for (const f of [...free].sort((a, b) => a.start - b.start)) {
+    for (let start = f.start; start + duration <= f.end; start = Math.floor(start / step) * step + step) {
+      const slot = { start, end: start + duration };
+      const value = scoreWith(slot, energy, ctx, perDay);
+      if (!best || value > best.score) best = { slot, score: value };
+    }
+  }
+  return best?.slot ?? null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Model output checked against a schema. A JSON reply that does not parse or does
+ * not fit is sent back to the model with what is wrong, up to `maxAttempts`
+ * requests in all; a reply that still does not fit is a typed failure for the
+ * caller to report, never a made-up value.
+ *
+ * Takes any schema with zod's safeParse, so the edge functions (zod from deno.land,
+ * planSchema.ts) and the app (zod from npm, lib/ai/planSchema.ts) share it.
+ * Dependency-free like llm.ts.
+ */
+
+import type { LlmJsonRequest, LlmMessage, LlmProvider } from "./llm.ts";
+
+export interface SchemaIssue {
+  path: readonly PropertyKey[];
+  message: string;
+}
+
+export interface SchemaLike<T> {
+  safeParse(value: unknown): { success: true; data: T } | { success: false; error: { issues: readonly SchemaIssue[] } };
+}
+
+export type StructuredFailureKind =
+  | "invalid_json" // the last reply did not parse
+  | "invalid_schema" // the last reply parsed but did not fit
+  | "provider"; // the model could not be reached or returned nothing
+
+export interface StructuredFailure {
+  kind: StructuredFailureKind;
+  message: string;
+  issues: string[]; // "tasks.0.due_at: Required"
+  attempts: number;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(public failure: StructuredFailure) {
+    super(failure.message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export type StructuredResult<T> =
+  | { ok: true; value: T; attempts: number }
+  | { ok: false; failure: StructuredFailure };
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+// Keeps a re-prompt small when the model rambles
+const MAX_ISSUES = 20;
+const MAX_ECHO_CHARS = 8000;
+
+export function formatIssues(issues: readonly SchemaIssue[]): string[] {
+  return issues.slice(0, MAX_ISSUES).map((issue) => {
+    const path = issue.path.map((p) => String(p)).join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+function isJsonError(error: unknown): error is SyntaxError & { text?: string } {
+  return error instanceof SyntaxError;
+}
+
+function retryPrompt(problem: string, issues: string[]): string {
+  return [
+    `Your previous reply ${problem}:`,
+    ...issues.map((i) => `- ${i}`),
+    "Reply again with only the corrected JSON, in the format asked for above.",
+  ].join("\n");
+}
+
+/** `request` answered as JSON that fits `schema`, re-prompting with the problems when it does not. */
+export async function generateStructured<T>(
+  llm: Pick<LlmProvider, "generateJson">,
+  request: LlmJsonRequest,
+  schema: SchemaLike<T>,
+  options: { maxAttempts?: number } = {},
+): Promise<StructuredResult<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const messages: LlmMessage[] = [...request.messages];
+  let failure: StructuredFailure | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let value: unknown;
+    try {
+      value = await llm.generateJson<unknown>({ ...request, messages: [...messages] });
+    } catch (error) {
+      if (!isJsonError(error)) {
+        return { ok: false, failure: { kind: "provider", message: String((error as Error)?.message ?? error), issues: [], attempts: attempt } };
+      }
+      const issues = [error.message];
+      failure = { kind: "invalid_json", message: "The model did not return valid JSON", issues, attempts: attempt };
+      messages.push(
+        { role: "assistant", content: (error.text ?? "").slice(0, MAX_ECHO_CHARS) || "(empty reply)" },
+        { role: "user", content: retryPrompt("was not valid JSON", issues) },
+      );
+      continue;
+    }
+
+    const parsed = schema.safeParse(value);
+    if (parsed.success) return { ok: true, value: parsed.data, attempts: attempt };
+
+    const issues = formatIssues(parsed.error.issues);
+    failure = { kind: "invalid_schema", message: "The model's JSON did not match the expected format", issues, attempts: attempt };
+    messages.push(
+      { role: "assistant", content: JSON.stringify(value).slice(0, MAX_ECHO_CHARS) },
+      { role: "user", content: retryPrompt("did not match the required format", issues) },
+    );
+  }
+
+  return { ok: false, failure: failure! };
+}
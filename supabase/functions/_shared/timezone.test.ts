@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { tzOffsetMinutes, zonedDateKey, zonedDaysInRange, zonedParts, zonedTimeToUtc } from './timezone.ts';
+
+const NEW_YORK = 'America/New_York';
+
+function iso(instant: number): string {
+  return new Date(instant).toISOString();
+}
+
+describe('spring-forward gap (America/New_York, 2025-03-09)', () => {
+  it('switches from EST to EDT at 02:00 local', () => {
+    assert.equal(tzOffsetMinutes(NEW_YORK, Date.parse('2025-03-09T06:59:00Z')), -300);
+    assert.equal(tzOffsetMinutes(NEW_YORK, Date.parse('2025-03-09T07:00:00Z')), -240);
+  });
+
+  it('pushes a wall time inside the gap forward by the gap', () => {
+    const instant = zonedTimeToUtc(NEW_YORK, { year: 2025, month: 3, day: 9, hour: 2, minute: 30 });
+    assert.equal(iso(instant), '2025-03-09T07:30:00.000Z');
+    const local = zonedParts(instant, NEW_YORK);
+    assert.deepEqual([local.hour, local.minute], [3, 30]);
+  });
+
+  it('maps wall times on either side of the gap with their own offset', () => {
+    assert.equal(iso(zonedTimeToUtc(NEW_YORK, { year: 2025, month: 3, day: 9, hour: 1, minute: 59 })), '2025-03-09T06:59:00.000Z');
+    assert.equal(iso(zonedTimeToUtc(NEW_YORK, { year: 2025, month: 3, day: 9, hour: 3, minute: 0 })), '2025-03-09T07:00:00.000Z');
+  });
+
+  it('gives the short day its own offset when walking a range', () => {
+    const days = zonedDaysInRange(Date.parse('2025-03-08T12:00:00Z'), Date.parse('2025-03-10T12:00:00Z'), NEW_YORK);
+    assert.deepEqual(
+      days.map((d) => [d.day, d.weekday, d.offsetMinutes]),
+      [[8, 6, -300], [9, 0, -240], [10, 1, -240]]
+    );
+    const midnight = (day: number) => zonedTimeToUtc(NEW_YORK, { year: 2025, month: 3, day, hour: 0, minute: 0 });
+    assert.equal(midnight(10) - midnight(9), 23 * 60 * 60 * 1000);
+  });
+});
+
+describe('fall-back overlap (America/New_York, 2025-11-02)', () => {
+  it('switches from EDT to EST at 02:00 local', () => {
+    assert.equal(tzOffsetMinutes(NEW_YORK, Date.parse('2025-11-02T05:59:00Z')), -240);
+    assert.equal(tzOffsetMinutes(NEW_YORK, Date.parse('2025-11-02T06:00:00Z')), -300);
+  });
+
+  it('resolves an ambiguous wall time to the earlier instant', () => {
+    const instant = zonedTimeToUtc(NEW_YORK, { year: 2025, month: 11, day: 2, hour: 1, minute: 30 });
+    assert.equal(iso(instant), '2025-11-02T05:30:00.000Z');
+  });
+
+  it('reads both instants of the repeated hour as the same wall time', () => {
+    for (const instant of ['2025-11-02T05:30:00Z', '2025-11-02T06:30:00Z']) {
+      const local = zonedParts(Date.parse(instant), NEW_YORK);
+      assert.deepEqual([local.day, local.hour, local.minute], [2, 1, 30]);
+      assert.equal(zonedDateKey(Date.parse(instant), NEW_YORK), '2025-11-02');
+    }
+  });
+
+  it('gives the long day its own offset when walking a range', () => {
+    const days = zonedDaysInRange(Date.parse('2025-11-01T12:00:00Z'), Date.parse('2025-11-03T12:00:00Z'), NEW_YORK);
+    assert.deepEqual(
+      days.map((d) => [d.day, d.weekday, d.offsetMinutes]),
+      [[1, 6, -240], [2, 0, -300], [3, 1, -300]]
+    );
+    const midnight = (day: number) => zonedTimeToUtc(NEW_YORK, { year: 2025, month: 11, day, hour: 0, minute: 0 });
+    assert.equal(midnight(3) - midnight(2), 25 * 60 * 60 * 1000);
+  });
+});
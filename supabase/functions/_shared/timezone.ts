@@ -0,0 +1,131 @@
+/**
+ * IANA time zone helpers shared by the edge functions (Deno) and the app
+ * (re-exported from lib/ai/timezone.ts). Dependency-free: everything is built
+ * on Intl.DateTimeFormat so the same code runs in Deno and Hermes.
+ *
+ * Offsets are always computed for a specific instant, never "now", so DST
+ * transitions inside a scheduling horizon are handled day by day.
+ */
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+export interface ZonedParts extends Required<WallTime> {
+  weekday: number; // 0 = Sunday
+}
+
+export interface ZonedDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  offsetMinutes: number; // UTC offset at local noon
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of `instant` as seen in `timeZone`. */
+export function zonedParts(instant: number, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  }
+  // Some engines still print midnight as 24 even with h23
+  const hour = values.hour === 24 ? 0 : values.hour;
+  const weekday = new Date(Date.UTC(values.year, values.month - 1, values.day)).getUTCDay();
+  return { year: values.year, month: values.month, day: values.day, hour, minute: values.minute, second: values.second, weekday };
+}
+
+/** UTC offset of `timeZone` at `instant`, in minutes east of UTC (e.g. -420 for PDT). */
+export function tzOffsetMinutes(timeZone: string, instant: number): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const wholeSeconds = Math.floor(instant / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / MINUTE_MS);
+}
+
+/**
+ * Instant (epoch ms) at which the wall clock in `timeZone` reads `wall`.
+ * Ambiguous times (fall-back overlap) resolve to the earlier instant; times that
+ * don't exist (spring-forward gap) are pushed forward by the gap, matching
+ * RFC 5545 and Temporal's "compatible" disambiguation.
+ */
+export function zonedTimeToUtc(timeZone: string, wall: WallTime): number {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0);
+  const before = tzOffsetMinutes(timeZone, asUtc - DAY_MS);
+  const after = tzOffsetMinutes(timeZone, asUtc + DAY_MS);
+
+  const candidates = [before, after]
+    .map((offset) => asUtc - offset * MINUTE_MS)
+    .filter((instant) => tzOffsetMinutes(timeZone, instant) * MINUTE_MS === asUtc - instant)
+    .sort((a, b) => a - b);
+  if (candidates.length > 0) return candidates[0];
+
+  // In a gap: interpret with the offset in force before the transition
+  return asUtc - before * MINUTE_MS;
+}
+
+/** Calendar date (YYYY-MM-DD) of `instant` in `timeZone`. */
+export function zonedDateKey(instant: number, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar days in `timeZone` that overlap [start, end), each with its own
+ * UTC offset at local noon. Used to walk a multi-week horizon across DST changes.
+ */
+export function zonedDaysInRange(
+  start: number,
+  end: number,
+  timeZone: string
+): ZonedDay[] {
+  const first = zonedParts(start, timeZone);
+  const days: ZonedDay[] = [];
+  for (let i = 0; ; i++) {
+    // Date.UTC normalises day overflow, so this walks calendar dates independent of any zone
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+    const wall = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0, minute: 0 };
+    if (zonedTimeToUtc(timeZone, wall) >= end) break;
+    const noon = zonedTimeToUtc(timeZone, { ...wall, hour: 12 });
+    days.push({ ...wall, weekday: date.getUTCDay(), offsetMinutes: tzOffsetMinutes(timeZone, noon) });
+  }
+  return days;
+}
@@ -1,30 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { z } from "https://deno.land/x/zod@v3.16.1/mod.ts";
-
-// Zod schemas (matching client-side)
-const TaskZ = z.object({
-  title: z.string(),
-  notes: z.string().optional(),
-  due_at: z.string(), // ISO 8601
-  duration_minutes: z.number().int().positive().optional(),
-  all_day: z.boolean().optional(),
-  status: z.enum(['pending','done','skipped']).optional(),
-  seq: z.number().int().optional(),
-});
-
-const GoalZ = z.object({
-  title: z.string(),
-  description: z.string().optional(),
-  target_date: z.string().optional(),
-  status: z.enum(['active','paused','completed','archived']).optional(),
-});
-
-const PlanZ = z.object({
-  goal: GoalZ,
-  tasks: z.array(TaskZ).min(1)
-});
-
-type Plan = z.infer<typeof PlanZ>;
+import { llmFromEnv } from "../_shared/llm.ts";
+import { GOAL_CREATION_FIXTURES } from "../_shared/llmFixtures.ts";
+import { Plan, PlanZ } from "../_shared/planSchema.ts";
+import { generateStructured } from "../_shared/structuredOutput.ts";
 
 interface RequestBody {
   transcript: Array<{role: 'user' | 'assistant', content: string}>;
@@ -77,13 +55,11 @@ serve(async (req) => {
     }
 
     // Get environment variables
-    const geminiModel = Deno.env.get("GEMINI_MODEL") || "gemini-1.5-pro";
-    const geminiKey = Deno.env.get("GEMINI_API_KEY");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!geminiKey || !supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
       return new Response(JSON.stringify({ 
         error: 'Missing required environment variables' 
       }), {
@@ -105,7 +81,7 @@ serve(async (req) => {
     // In production, you'd verify the JWT token
     const userId = fields.user_id || '00000000-0000-0000-0000-000000000000';
 
-    // Prepare the prompt for Gemini
+    // Prepare the prompt for the model
     const prompt = `You are structuring a goal plan JSON. Keep due_at unchanged. Output only valid JSON.
 
 User goal: ${fields.goal_title}
@@ -125,53 +101,37 @@ ${transcript.map(t => `${t.role}: ${t.content}`).join('\n')}
 
 Return improved task titles and a 1-2 sentence goal description. Keep the same due_at and seq. Output only JSON matching this schema: { goal: {...}, tasks: [...] }`;
 
-    // Call Gemini API
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${geminiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ 
-            role: "user", 
-            parts: [{ text: prompt }]
-          }],
-          generationConfig: { 
-            responseMimeType: "application/json",
-            temperature: 0.1
-          }
-        })
+    // Call the configured model (LLM_PROVIDER, see _shared/llm.ts); a reply that does
+    // not match PlanZ is sent back with what is wrong before giving up
+    const result = await generateStructured(llmFromEnv((name) => Deno.env.get(name), GOAL_CREATION_FIXTURES), {
+      messages: [{ role: "user", content: prompt }],
+      tier: "quality",
+      temperature: 0.1,
+    }, PlanZ);
+    if (!result.ok) {
+      const { failure } = result;
+      // Model and network failures are ours; a reply that never matched the schema is a bad plan
+      if (failure.kind === 'provider') {
+        console.error('LLM error:', failure.message);
+        return new Response(JSON.stringify({ 
+          error: 'Failed to generate plan from AI',
+          failure
+        }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
       }
-    );
-
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      console.error('Gemini API error:', errorText);
-      return new Response(JSON.stringify({ 
-        error: 'Failed to generate plan from AI' 
-      }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    const geminiData = await geminiResponse.json();
-    const responseText = geminiData?.candidates?.[0]?.content?.parts?.[0]?.text ?? "{}";
-    
-    let plan: Plan;
-    try {
-      const parsedPlan = JSON.parse(responseText);
-      plan = PlanZ.parse(parsedPlan);
-    } catch (error) {
-      console.error('Plan validation error:', error);
+      console.error('Plan validation error:', failure);
       return new Response(JSON.stringify({ 
         error: 'Invalid plan structure from AI',
-        details: error instanceof Error ? error.message : 'Unknown validation error'
+        details: failure.issues.join('; '),
+        failure
       }), {
-        status: 400,
+        status: 422,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
+    const plan: Plan = result.value;
 
     // Insert into database using RPC
     const rpcResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/create_goal_with_tasks`, {
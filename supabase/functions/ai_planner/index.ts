@@ -1,66 +1,12 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { GoogleGenerativeAI } from 'https://esm.sh/@google/generative-ai@0.21.0';
-// Initialize Gemini AI with environment variable
-const genAI = new GoogleGenerativeAI(Deno.env.get('EXPO_PUBLIC_GEMINI_API_KEY') || '');
-// Initialize planner models (prefer PRO, fallback to FLASH)
-let plannerModelPro: any | null = null;
-let plannerModelFlash: any | null = null;
-
-try {
-  plannerModelPro = genAI.getGenerativeModel({
-    model: "gemini-2.0-pro",
-    generationConfig: {
-      temperature: 0.3,
-      topP: 0.9,
-      topK: 50,
-      maxOutputTokens: 1024
-    },
-    systemInstruction: `You are an expert life coach and planner implementing a structured conversational state machine for goal planning across ANY domain.
-
-CONVERSATIONAL STATE MACHINE:
-You must follow this exact sequence to collect mandatory inputs (S0-S5), then dynamically tailor the plan (S6), and finally generate the schedule (S7).
-
-MANDATORY STATES (S0-S5) - UNIVERSAL FOR ALL GOAL TYPES:
-S0: GOAL_INPUT - Ask about their specific goal
-S1: DATE_INPUT - Ask about their target date
-S2: DAYS_INPUT - Ask about which days they want to work on this
-S3: DURATION_INPUT - Ask about time per session
-S4: TIME_INPUT - Ask about preferred time of day
-S5: STARTING_POINT - Ask about their current level/starting point
-
-DYNAMIC TAILORING (S6) - ADAPT TO GOAL TYPE:
-After S5, ask 3-5 additional questions tailored to the specific goal type and context.
-
-GENERATE SCHEDULE (S7):
-Only after collecting S0-S5 mandatory inputs AND sufficient S6 dynamic data, generate the complete plan.
-
-CRITICAL RULES:
-- Follow the state machine sequence exactly
-- Never skip mandatory states S0-S5
-- Generate natural, conversational questions tailored to the specific goal
-- Use vocabulary and terminology appropriate to the goal domain
-- Track progress in planner_state.facts
-- Only generate plan after S7 state
-- Return only valid JSON
-- Be flexible and adaptable to ANY goal domain
-
-CRITICAL: You MUST return ONLY valid JSON. No other text, no explanations, no markdown. Just pure JSON.`
-  });
-  console.log('[ai_planner] ✅ Initialized Gemini PRO planner model');
-} catch (err) {
-  console.warn('[ai_planner] ❌ Failed to initialize Gemini PRO planner model', err);
-}
-
-try {
-  plannerModelFlash = genAI.getGenerativeModel({
-    model: "gemini-2.0-flash",
-    generationConfig: {
-      temperature: 0.3,
-      topP: 0.9,
-      topK: 50,
-      maxOutputTokens: 1024
-    },
-    systemInstruction: `You are an expert life coach and planner implementing a structured conversational state machine for goal planning across ANY domain.
+import { llmFromEnv } from "../_shared/llm.ts";
+import { GOAL_CREATION_FIXTURES } from "../_shared/llmFixtures.ts";
+import { PlannerQuestionZ, PlanZ } from "../_shared/planSchema.ts";
+import { formatIssues, generateStructured, StructuredFailure } from "../_shared/structuredOutput.ts";
+// Planner model from LLM_PROVIDER & co. (see _shared/llm.ts); the older
+// EXPO_PUBLIC_GEMINI_API_KEY secret still works for Gemini
+const llm = llmFromEnv((name)=>Deno.env.get(name) ?? (name === 'GEMINI_API_KEY' ? Deno.env.get('EXPO_PUBLIC_GEMINI_API_KEY') : undefined), GOAL_CREATION_FIXTURES);
+const PLANNER_SYSTEM_PROMPT = `You are an expert life coach and planner implementing a structured conversational state machine for goal planning across ANY domain.
 
 CONVERSATIONAL STATE MACHINE:
 You must follow this exact sequence to collect mandatory inputs (S0-S5), then dynamically tailor the plan (S6), and finally generate the schedule (S7).
@@ -89,12 +35,7 @@ CRITICAL RULES:
 - Return only valid JSON
 - Be flexible and adaptable to ANY goal domain
 
-CRITICAL: You MUST return ONLY valid JSON. No other text, no explanations, no markdown. Just pure JSON.`
-  });
-  console.log('[ai_planner] ✅ Initialized Gemini FLASH planner model');
-} catch (err) {
-  console.warn('[ai_planner] ❌ Failed to initialize Gemini FLASH planner model', err);
-}
+CRITICAL: You MUST return ONLY valid JSON. No other text, no explanations, no markdown. Just pure JSON.`;
 // State machine definitions
 const STATES = {
   S0_GOAL_INPUT: 'S0_GOAL_INPUT',
@@ -442,63 +383,23 @@ function generateTasksForGoalType(goalType, facts, timezone, targetDate) {
     category: 'general'
   };
 }
-// Robust JSON extraction function
-function extractJSONFromResponse(text) {
-  let jsonText = text.trim();
-  if (jsonText.startsWith('```json')) jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-  else if (jsonText.startsWith('```')) jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-  const jsonStart = jsonText.indexOf('{');
-  if (jsonStart === -1) throw new Error('No JSON object found in response');
-  jsonText = jsonText.substring(jsonStart);
-  let braceCount = 0, jsonEnd = -1, inString = false, escapeNext = false;
-  for(let i = 0; i < jsonText.length; i++){
-    const char = jsonText[i];
-    if (escapeNext) {
-      escapeNext = false;
-      continue;
-    }
-    if (char === '\\') {
-      escapeNext = true;
-      continue;
-    }
-    if (char === '"' && !escapeNext) {
-      inString = !inString;
-      continue;
-    }
-    if (!inString) {
-      if (char === '{') braceCount++;
-      else if (char === '}') {
-        braceCount--;
-        if (braceCount === 0) {
-          jsonEnd = i + 1;
-          break;
-        }
-      }
-    }
-  }
-  if (jsonEnd === -1) throw new Error('Incomplete JSON object in response');
-  return jsonText.substring(0, jsonEnd);
+// A typed failure instead of a made-up question or plan
+function failureResponse(failure: StructuredFailure, planner_state: any) {
+  return new Response(JSON.stringify({
+    status: 'error',
+    message: failure.kind === 'provider' ? failure.message : 'The planner returned an invalid response',
+    failure,
+    planner_state,
+    rationale: failure.issues.join('; ')
+  }), {
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    status: failure.kind === 'provider' ? 502 : 422
+  });
 }
 Deno.serve(async (req)=>{
   try {
-    const apiKey = Deno.env.get('EXPO_PUBLIC_GEMINI_API_KEY');
-    if (!apiKey) {
-      return new Response(JSON.stringify({
-        status: 'error',
-        message: 'EXPO_PUBLIC_GEMINI_API_KEY not configured',
-        planner_state: {
-          facts: {},
-          missing_fields: [],
-          version: 1
-        },
-        rationale: 'API key not configured'
-      }), {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        status: 500
-      });
-    }
     const { session_id, user_id, timezone, today_iso, context, transcript, planner_state, mode } = await req.json();
     // Determine current state
     const currentState = determineCurrentState(planner_state.facts);
@@ -547,6 +448,16 @@ Deno.serve(async (req)=>{
         },
         rationale: `Generated ${goalType} plan with ${tasks.length} sessions over ${timelineWeeks} weeks.`
       };
+      // The plan is built here, not by the model, but the app stores it as a PlanZ plan
+      const checked = PlanZ.safeParse(plan.plan);
+      if (!checked.success) {
+        return failureResponse({
+          kind: 'invalid_schema',
+          message: 'Generated plan does not match the plan schema',
+          issues: formatIssues(checked.error.issues),
+          attempts: 1
+        }, planner_state);
+      }
       return new Response(JSON.stringify(plan), {
         headers: {
           'Content-Type': 'application/json'
@@ -568,24 +479,28 @@ Rules:
 
 Return ONLY JSON:
 { "status": "ask", "question": "...", "missing_fields": ["${currentState}"], "priority": "high", "planner_state": { "facts": {}, "missing_fields": ["${currentState}"], "version": 1 }, "rationale": "why" }`;
-    // Prefer PRO for question generation, fallback to FLASH
-    let text: string;
-    try {
-      const resultPro = await (plannerModelPro || plannerModelFlash).generateContent(questionPrompt);
-      const responsePro = await resultPro.response;
-      text = responsePro.text();
-    } catch (primaryErr) {
-      console.warn('[ai_planner] ⚠️ Primary model failed for S0–S6 question generation. Attempting fallback...', primaryErr);
-      if (plannerModelPro && plannerModelFlash) {
-        const resultFlash = await plannerModelFlash.generateContent(questionPrompt);
-        const responseFlash = await resultFlash.response;
-        text = responseFlash.text();
-      } else {
-        throw primaryErr;
-      }
+    // Quality tier for question generation; the provider falls back to the fast tier.
+    // A reply that does not match PlannerQuestionZ is sent back with what is wrong.
+    const result = await generateStructured(llm, {
+      messages: [
+        {
+          role: 'system',
+          content: PLANNER_SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: questionPrompt
+        }
+      ],
+      tier: 'quality',
+      temperature: 0.3,
+      maxOutputTokens: 1024
+    }, PlannerQuestionZ);
+    if (!result.ok) {
+      console.error('ai_planner question failed', result.failure);
+      return failureResponse(result.failure, planner_state);
     }
-    const jsonText = extractJSONFromResponse(text);
-    const plannerResponse = JSON.parse(jsonText);
+    const plannerResponse: any = result.value;
     // Update facts from last user message
     const lastUser = transcript.filter((t)=>t.role === 'user').pop();
     if (lastUser) {
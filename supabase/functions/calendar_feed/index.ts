@@ -0,0 +1,108 @@
+// deno-lint-ignore-file no-explicit-any
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { buildIcs, goalsToIcsEvents, IcsWallTime } from "../_shared/ics.ts";
+import { isValidTimeZone, tzOffsetMinutes, zonedParts } from "../_shared/timezone.ts";
+
+/**
+ * Subscribable ICS feed, one URL per calendar_feed_tokens row:
+ *
+ *   GET /calendar_feed/<token>.ics   (the app hands out webcal://… links to it)
+ *
+ * Calendar apps cannot send a Supabase JWT, so the token in the path is the only
+ * credential (verify_jwt is off for this function in config.toml). Unknown and
+ * revoked tokens get the same 404. The feed holds tasks from a week back through
+ * FEED_DAYS_AHEAD plus every recurring rule, limited to the token's goals if set.
+ */
+
+function env(name: string, fallback = ""): string {
+  const v = Deno.env.get(name);
+  return v ?? fallback;
+}
+
+const SUPABASE_URL = env("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = env("SUPABASE_SERVICE_ROLE_KEY");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_DAYS_BACK = 7;
+const FEED_DAYS_AHEAD = 180;
+const REFRESH_MINUTES = 60;
+const TOKEN_RE = /^[0-9a-f]{32,128}$/;
+
+const TASK_COLUMNS =
+  "id, goal_id, title, notes, due_at, duration_minutes, all_day, status, updated_at, recurrence_rule_id, recurrence_instance_at, task_sessions(id, start_at, end_at, status)";
+
+function notFound() {
+  return new Response("Not found", { status: 404, headers: { "Content-Type": "text/plain" } });
+}
+
+async function buildFeed(sb: any, feed: { user_id: string; name: string; goal_ids: string[] | null }) {
+  const now = Date.now();
+  let goalsQuery = sb.from("goals").select("id, title, color").eq("user_id", feed.user_id);
+  if (feed.goal_ids && feed.goal_ids.length > 0) goalsQuery = goalsQuery.in("id", feed.goal_ids);
+
+  const [{ data: goals, error: goalsError }, { data: profile }] = await Promise.all([
+    goalsQuery,
+    sb.from("profiles").select("tz").eq("id", feed.user_id).maybeSingle(),
+  ]);
+  if (goalsError) throw goalsError;
+  const goalIds = (goals ?? []).map((g: any) => g.id);
+  if (goalIds.length === 0) return buildIcs({ name: feed.name, events: [], refreshIntervalMinutes: REFRESH_MINUTES });
+
+  const [{ data: tasks, error: tasksError }, { data: rules, error: rulesError }] = await Promise.all([
+    sb.from("tasks")
+      .select(TASK_COLUMNS)
+      .in("goal_id", goalIds)
+      .gte("due_at", new Date(now - FEED_DAYS_BACK * DAY_MS).toISOString())
+      .lte("due_at", new Date(now + FEED_DAYS_AHEAD * DAY_MS).toISOString()),
+    sb.from("recurrence_rules").select("*").in("goal_id", goalIds),
+  ]);
+  if (tasksError) throw tasksError;
+  if (rulesError) throw rulesError;
+
+  // Floating rules follow the device zone in the app; the subscriber's device plays
+  // that role here, so their wall time (taken in the home zone) is written without a TZID
+  const homeTz = profile?.tz && isValidTimeZone(profile.tz) ? profile.tz : "UTC";
+  const toWall = (instant: number, tzid: string | null): IcsWallTime =>
+    zonedParts(instant, tzid && isValidTimeZone(tzid) ? tzid : homeTz);
+
+  const events = goalsToIcsEvents(goals ?? [], tasks ?? [], rules ?? [], { toWall });
+  return buildIcs({ name: feed.name, events, refreshIntervalMinutes: REFRESH_MINUTES, tzOffset: tzOffsetMinutes });
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+    const url = new URL(req.url);
+    const token = url.pathname.replace(/^.*\/calendar_feed\/?/, "").replace(/\.ics$/, "") ||
+      url.searchParams.get("token") || "";
+    if (!TOKEN_RE.test(token)) return notFound();
+
+    const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const { data: feed, error } = await sb
+      .from("calendar_feed_tokens")
+      .select("id, user_id, name, goal_ids, revoked_at")
+      .eq("token", token)
+      .maybeSingle();
+    if (error) throw error;
+    if (!feed || feed.revoked_at) return notFound();
+
+    const body = await buildFeed(sb, feed);
+    await sb.from("calendar_feed_tokens").update({ last_accessed_at: new Date().toISOString() }).eq("id", feed.id);
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="momentum.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (e) {
+    console.error("calendar_feed error", e);
+    return new Response(JSON.stringify({ error: String((e as any)?.message ?? e) }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,455 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+
+import {
+  CaldavError,
+  CaldavTargetPolicy,
+  checkCaldavTarget,
+  discoverCalendars,
+  fetchCaldavBusy,
+  fetchCaldavEvents,
+} from "./caldav.ts";
+
+const CREDENTIALS = { username: "alice", password: "s3cret" };
+const BASIC = `Basic ${Buffer.from("alice:s3cret").toString("base64")}`;
+const LOCAL: CaldavTargetPolicy = { allowLocalhost: true };
+const START = "2025-11-10T00:00:00.000Z";
+const END = "2025-11-17T00:00:00.000Z";
+
+const HOME = "/remote.php/dav/calendars/alice/";
+const PERSONAL = `${HOME}personal/`;
+const WORK = `${HOME}work/`;
+
+function multistatus(body: string): string {
+  return `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:x1="http://apple.com/ns/ical/">${body}</d:multistatus>`;
+}
+
+// Responses recorded from a Nextcloud server, trimmed to what the client reads
+const RECORDED: Record<string, { status: number; body?: string; headers?: Record<string, string> }> = {
+  "PROPFIND /": { status: 405, body: "" },
+  "PROPFIND /.well-known/caldav": { status: 301, headers: { Location: "/remote.php/dav/" } },
+  "PROPFIND /remote.php/dav/": {
+    status: 207,
+    body: multistatus(`
+  <d:response>
+    <d:href>/remote.php/dav/</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:current-user-principal><d:href>/remote.php/dav/principals/users/alice/</d:href></d:current-user-principal>
+        <d:resourcetype><d:collection/></d:resourcetype>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+    <d:propstat>
+      <d:prop><cal:calendar-home-set/><d:displayname/><x1:calendar-color/><cal:supported-calendar-component-set/></d:prop>
+      <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:propstat>
+  </d:response>`),
+  },
+  "PROPFIND /remote.php/dav/principals/users/alice/": {
+    status: 207,
+    body: multistatus(`
+  <d:response>
+    <d:href>/remote.php/dav/principals/users/alice/</d:href>
+    <d:propstat>
+      <d:prop>
+        <cal:calendar-home-set><d:href>${HOME}</d:href></cal:calendar-home-set>
+        <d:resourcetype><d:principal/></d:resourcetype>
+        <d:displayname>Alice</d:displayname>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+  },
+  [`PROPFIND ${HOME}`]: {
+    status: 207,
+    body: multistatus(`
+  <d:response>
+    <d:href>${HOME}</d:href>
+    <d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>${PERSONAL}</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>
+        <d:displayname>Personal &amp; family</d:displayname>
+        <x1:calendar-color>#0082C9FF</x1:calendar-color>
+        <cal:supported-calendar-component-set><cal:comp name="VEVENT"/></cal:supported-calendar-component-set>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>${WORK}</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>${HOME}tasks/</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>
+        <d:displayname>Tasks</d:displayname>
+        <cal:supported-calendar-component-set><cal:comp name="VTODO"/></cal:supported-calendar-component-set>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>${HOME}inbox/</d:href>
+    <d:propstat>
+      <d:prop><d:resourcetype><d:collection/><cal:schedule-inbox/></d:resourcetype></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+  },
+  [`REPORT ${PERSONAL} calendar-query`]: {
+    status: 207,
+    body: multistatus(`
+  <d:response>
+    <d:href>${PERSONAL}standup.ics</d:href>
+    <d:propstat>
+      <d:prop><cal:calendar-data>BEGIN:VCALENDAR&#13;
+VERSION:2.0&#13;
+BEGIN:VEVENT&#13;
+UID:standup@example.com&#13;
+SUMMARY:Stand-up&#13;
+DTSTART:20251110T143000Z&#13;
+DTEND:20251110T144500Z&#13;
+END:VEVENT&#13;
+BEGIN:VEVENT&#13;
+UID:standup@example.com&#13;
+RECURRENCE-ID:20251111T143000Z&#13;
+SUMMARY:Stand-up&#13;
+DTSTART:20251111T143000Z&#13;
+DTEND:20251111T144500Z&#13;
+END:VEVENT&#13;
+END:VCALENDAR&#13;
+</cal:calendar-data></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>${PERSONAL}dentist.ics</d:href>
+    <d:propstat>
+      <d:prop><cal:calendar-data><![CDATA[BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:dentist@example.com
+SUMMARY:Dentist
+DTSTART;TZID=America/New_York:20251112T090000
+DURATION:PT1H
+END:VEVENT
+BEGIN:VEVENT
+UID:holiday@example.com
+SUMMARY:Holiday
+DTSTART;VALUE=DATE:20251113
+END:VEVENT
+BEGIN:VEVENT
+UID:reminder@example.com
+SUMMARY:Reminder
+DTSTART:20251114T120000Z
+DTEND:20251114T123000Z
+TRANSP:TRANSPARENT
+END:VEVENT
+BEGIN:VEVENT
+UID:cancelled@example.com
+SUMMARY:Cancelled lunch
+DTSTART:20251114T170000Z
+DTEND:20251114T180000Z
+STATUS:CANCELLED
+END:VEVENT
+BEGIN:VEVENT
+UID:old@example.com
+SUMMARY:Outside the range
+DTSTART:20251101T090000Z
+DTEND:20251101T100000Z
+END:VEVENT
+END:VCALENDAR
+]]></cal:calendar-data></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+  },
+  [`REPORT ${PERSONAL} free-busy-query`]: {
+    status: 200,
+    headers: { "Content-Type": "text/calendar" },
+    body: [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VFREEBUSY",
+      "DTSTART:20251110T000000Z",
+      "DTEND:20251117T000000Z",
+      "FREEBUSY;FBTYPE=BUSY:20251110T143000Z/20251110T144500Z,20251111T143000Z/PT15M",
+      "FREEBUSY;FBTYPE=BUSY-TENTATIVE:20251112T140000Z/PT1H",
+      "FREEBUSY;FBTYPE=FREE:20251113T000000Z/P1D",
+      "END:VFREEBUSY",
+      "END:VCALENDAR",
+      "",
+    ].join("\r\n"),
+  },
+  // This calendar's server has no free-busy report
+  [`REPORT ${WORK} free-busy-query`]: { status: 501, body: "" },
+  [`REPORT ${WORK} calendar-query`]: {
+    status: 207,
+    body: multistatus(`
+  <d:response>
+    <d:href>${WORK}review.ics</d:href>
+    <d:propstat>
+      <d:prop><cal:calendar-data>BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:review@example.com
+SUMMARY:Review
+DTSTART:20251112T150000Z
+DTEND:20251112T160000Z
+END:VEVENT
+BEGIN:VEVENT
+UID:offsite@example.com
+SUMMARY:Offsite
+DTSTART;VALUE=DATE:20251113
+DTEND;VALUE=DATE:20251114
+END:VEVENT
+END:VCALENDAR
+</cal:calendar-data></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+  },
+};
+
+interface Recorded {
+  method: string;
+  path: string;
+  depth: string | undefined;
+  authorization: string | undefined;
+  body: string;
+}
+
+let server: Server;
+let origin: string;
+let requests: Recorded[];
+let overrides: typeof RECORDED;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const path = new URL(req.url ?? "/", "http://stub").pathname;
+      requests.push({ method: req.method ?? "", path, depth: req.headers.depth as string | undefined, authorization: req.headers.authorization, body });
+      const report = req.method === "REPORT" ? (body.includes("free-busy-query") ? " free-busy-query" : " calendar-query") : "";
+      const key = `${req.method} ${path}${report}`;
+      const recorded = overrides[key] ?? RECORDED[key] ?? { status: 404, body: "" };
+      if (req.headers.authorization !== BASIC) {
+        res.writeHead(401, { "WWW-Authenticate": 'Basic realm="Nextcloud"' }).end();
+        return;
+      }
+      res.writeHead(recorded.status, { "Content-Type": "application/xml; charset=utf-8", ...recorded.headers }).end(recorded.body ?? "");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  overrides = {};
+});
+
+describe("discoverCalendars", () => {
+  it("walks from the server root to the event calendars with PROPFIND", async () => {
+    const calendars = await discoverCalendars(`${origin}/`, CREDENTIALS, LOCAL);
+
+    assert.deepEqual(calendars, [
+      { url: `${origin}${PERSONAL}`, name: "Personal & family", color: "#0082C9" },
+      { url: `${origin}${WORK}`, name: "work", color: null },
+    ]);
+    assert.deepEqual(
+      requests.map((r) => [r.method, r.path, r.depth]),
+      [
+        ["PROPFIND", "/", "0"],
+        ["PROPFIND", "/.well-known/caldav", "0"],
+        ["PROPFIND", "/remote.php/dav/", "0"],
+        ["PROPFIND", "/remote.php/dav/principals/users/alice/", "0"],
+        ["PROPFIND", HOME, "1"],
+      ],
+    );
+    assert.ok(requests.every((r) => r.authorization === BASIC));
+    assert.match(requests[0].body, /<d:propfind[^>]*>[\s\S]*<d:current-user-principal\/>/);
+  });
+
+  it("returns a single calendar when given its address", async () => {
+    overrides[`PROPFIND ${PERSONAL}`] = {
+      status: 207,
+      body: multistatus(`
+  <d:response>
+    <d:href>${PERSONAL}</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>
+        <d:displayname>Personal &amp; family</d:displayname>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+    };
+    const calendars = await discoverCalendars(`${origin}${PERSONAL}`, CREDENTIALS, LOCAL);
+
+    assert.deepEqual(calendars.map((c) => c.name), ["Personal & family"]);
+    assert.equal(requests.length, 1);
+  });
+
+  it("reports a wrong password", async () => {
+    await assert.rejects(
+      discoverCalendars(`${origin}/remote.php/dav/`, { username: "alice", password: "wrong" }, LOCAL),
+      (e: unknown) => e instanceof CaldavError && e.status === 401,
+    );
+  });
+
+  it("does not follow a calendar home on a private address", async () => {
+    overrides["PROPFIND /remote.php/dav/principals/users/alice/"] = {
+      status: 207,
+      body: multistatus(`
+  <d:response>
+    <d:href>/remote.php/dav/principals/users/alice/</d:href>
+    <d:propstat>
+      <d:prop><cal:calendar-home-set><d:href>http://169.254.169.254/latest/meta-data/</d:href></cal:calendar-home-set></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`),
+    };
+
+    await assert.rejects(discoverCalendars(`${origin}/remote.php/dav/`, CREDENTIALS, LOCAL), /not allowed/);
+    assert.equal(requests.at(-1)!.path, "/remote.php/dav/principals/users/alice/");
+  });
+
+  it("does not follow a redirect to a private address", async () => {
+    overrides["PROPFIND /.well-known/caldav"] = { status: 301, headers: { Location: "https://10.0.0.5/remote.php/dav/" } };
+
+    await assert.rejects(discoverCalendars(`${origin}/`, CREDENTIALS, LOCAL), /not allowed/);
+    assert.equal(requests.length, 2);
+  });
+
+  it("refuses the local server without the development policy", async () => {
+    await assert.rejects(discoverCalendars(`${origin}/`, CREDENTIALS), /not allowed/);
+    assert.equal(requests.length, 0);
+  });
+});
+
+describe("fetchCaldavEvents", () => {
+  it("reads the events of a calendar-query REPORT in the range", async () => {
+    const events = await fetchCaldavEvents(`${origin}${PERSONAL}`, CREDENTIALS, START, END, LOCAL);
+
+    assert.deepEqual(
+      events.map((e) => [e.uid, e.start, e.end, e.allDay, e.busy]),
+      [
+        ["standup@example.com", "2025-11-10T14:30:00.000Z", "2025-11-10T14:45:00.000Z", false, true],
+        ["standup@example.com", "2025-11-11T14:30:00.000Z", "2025-11-11T14:45:00.000Z", false, true],
+        ["dentist@example.com", "2025-11-12T14:00:00.000Z", "2025-11-12T15:00:00.000Z", false, true],
+        ["holiday@example.com", "2025-11-13T00:00:00.000Z", "2025-11-14T00:00:00.000Z", true, true],
+        ["reminder@example.com", "2025-11-14T12:00:00.000Z", "2025-11-14T12:30:00.000Z", false, false],
+        ["cancelled@example.com", "2025-11-14T17:00:00.000Z", "2025-11-14T18:00:00.000Z", false, false],
+      ],
+    );
+    const [report] = requests;
+    assert.equal(report.method, "REPORT");
+    assert.equal(report.depth, "1");
+    assert.match(report.body, /<c:calendar-query/);
+    assert.match(report.body, /<c:expand start="20251110T000000Z" end="20251117T000000Z"\/>/);
+    assert.match(report.body, /<c:comp-filter name="VEVENT"><c:time-range start="20251110T000000Z" end="20251117T000000Z"\/>/);
+  });
+});
+
+describe("fetchCaldavBusy", () => {
+  it("uses the free-busy report when the server answers one", async () => {
+    const busy = await fetchCaldavBusy(`${origin}${PERSONAL}`, CREDENTIALS, START, END, LOCAL);
+
+    assert.deepEqual(busy, [
+      { start: "2025-11-10T14:30:00.000Z", end: "2025-11-10T14:45:00.000Z" },
+      { start: "2025-11-11T14:30:00.000Z", end: "2025-11-11T14:45:00.000Z" },
+      { start: "2025-11-12T14:00:00.000Z", end: "2025-11-12T15:00:00.000Z" },
+    ]);
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].body, /<c:free-busy-query[^>]*>\s*<c:time-range start="20251110T000000Z" end="20251117T000000Z"\/>/);
+  });
+
+  it("falls back to the busy timed events when there is no free-busy report", async () => {
+    const busy = await fetchCaldavBusy(`${origin}${WORK}`, CREDENTIALS, START, END, LOCAL);
+
+    assert.deepEqual(busy, [{ start: "2025-11-12T15:00:00.000Z", end: "2025-11-12T16:00:00.000Z" }]);
+    assert.deepEqual(requests.map((r) => /free-busy-query/.test(r.body)), [true, false]);
+  });
+
+  it("does not fall back when the password is wrong", async () => {
+    await assert.rejects(
+      fetchCaldavBusy(`${origin}${WORK}`, { username: "alice", password: "wrong" }, START, END, LOCAL),
+      (e: unknown) => e instanceof CaldavError && e.status === 401,
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  it("refuses a stored calendar URL on a private address", async () => {
+    await assert.rejects(fetchCaldavBusy("https://192.168.1.10/dav/cal/", CREDENTIALS, START, END, LOCAL), /not allowed/);
+    assert.equal(requests.length, 0);
+  });
+});
+
+describe("checkCaldavTarget", () => {
+  const allowed = async (url: string, policy: CaldavTargetPolicy = {}) =>
+    checkCaldavTarget(url, policy).then(() => true, (e) => (e instanceof CaldavError ? false : Promise.reject(e)));
+
+  it("requires https", async () => {
+    assert.equal(await allowed("https://caldav.example.com/dav/"), true);
+    assert.equal(await allowed("http://caldav.example.com/dav/"), false);
+    assert.equal(await allowed("http://caldav.example.com/dav/", LOCAL), false);
+    assert.equal(await allowed("ftp://caldav.example.com/"), false);
+    assert.equal(await allowed("caldav.example.com"), false);
+  });
+
+  it("rejects private, link-local and loopback addresses", async () => {
+    for (const url of [
+      "https://10.1.2.3/",
+      "https://172.16.0.1/",
+      "https://192.168.0.1/",
+      "https://169.254.169.254/",
+      "https://100.64.0.1/",
+      "https://0.0.0.0/",
+      "https://127.0.0.1/",
+      "https://2130706433/", // 127.0.0.1 in decimal
+      "https://[::1]/",
+      "https://[fd00::1]/",
+      "https://[fe80::1]/",
+      "https://[::ffff:192.168.0.1]/",
+      "https://localhost/",
+      "https://calendar.localhost/",
+    ]) {
+      assert.equal(await allowed(url), false, url);
+    }
+    assert.equal(await allowed("https://[2606:4700::1111]/"), true);
+    assert.equal(await allowed("https://1.1.1.1/"), true);
+  });
+
+  it("allows plain http to loopback only under the development policy", async () => {
+    assert.equal(await allowed("http://localhost:5232/", LOCAL), true);
+    assert.equal(await allowed("http://127.0.0.1:5232/", LOCAL), true);
+    assert.equal(await allowed("http://[::1]:5232/", LOCAL), true);
+    assert.equal(await allowed("http://192.168.0.1/", LOCAL), false);
+  });
+
+  it("judges a host name by every address it resolves to", async () => {
+    const resolveHost = async (host: string) =>
+      ({ "caldav.example.com": ["93.184.216.34", "2606:2800:220:1::1"], "rebind.example.com": ["93.184.216.34", "10.0.0.1"] })[host] ?? [];
+
+    assert.equal(await allowed("https://caldav.example.com/", { resolveHost }), true);
+    assert.equal(await allowed("https://rebind.example.com/", { resolveHost }), false);
+    await assert.rejects(checkCaldavTarget("https://unknown.example.com/", { resolveHost }), /Could not reach the server/);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * CalDAV (RFC 4791) client for calendar_proxy, for Nextcloud, Fastmail, iCloud and
+ * any other standards-compliant server.
+ *
+ * Discovery starts from the address the user typed (server root, principal, calendar
+ * home or a single calendar) and PROPFINDs its way to the calendars that hold events:
+ * current-user-principal, then calendar-home-set, then the collections in that home.
+ * A server root that is not a DAV resource is retried at /.well-known/caldav.
+ *
+ * Busy time comes from a free-busy-query REPORT where the server answers one, else
+ * from a calendar-query with recurrences expanded by the server.
+ *
+ * Multistatus responses are read with a namespace-prefix-agnostic matcher instead of
+ * a full XML parser; only the handful of properties above are needed.
+ *
+ * The server address comes from the user, so every request (discovered calendars on
+ * other hosts and redirects included) must be https to a public address; see
+ * CaldavTargetPolicy for the exceptions allowed in development.
+ */
+import { parseIcs, type IcsDateTime } from "../_shared/ics.ts";
+import { isValidTimeZone, zonedTimeToUtc } from "../_shared/timezone.ts";
+
+export interface CaldavCredentials {
+  username: string;
+  password: string;
+}
+
+export interface CaldavCalendar {
+  url: string;
+  name: string;
+  color: string | null;
+}
+
+export interface CaldavEvent {
+  uid: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  busy: boolean; // false for transparent or cancelled events
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export class CaldavError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface CaldavTargetPolicy {
+  // http and loopback addresses, for a CalDAV server running next to the function in development
+  allowLocalhost?: boolean;
+  // The addresses of a host name, each checked like an IP literal; names are not checked without it
+  resolveHost?: (hostname: string) => Promise<string[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REDIRECTS = 5;
+
+const NAMESPACES = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/"';
+
+const DISCOVERY_PROPS = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${NAMESPACES}>
+  <d:prop>
+    <d:current-user-principal/>
+    <c:calendar-home-set/>
+    <d:resourcetype/>
+    <d:displayname/>
+    <a:calendar-color/>
+    <c:supported-calendar-component-set/>
+  </d:prop>
+</d:propfind>`;
+
+function basicAuth({ username, password }: CaldavCredentials): string {
+  let binary = "";
+  for (const b of new TextEncoder().encode(`${username}:${password}`)) binary += String.fromCharCode(b);
+  return `Basic ${btoa(binary)}`;
+}
+
+type AddressKind = "public" | "loopback" | "private";
+
+function ipv4Parts(address: string): number[] | null {
+  const m = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  const parts = m?.slice(1).map(Number);
+  return parts && parts.every((n) => n <= 255) ? parts : null;
+}
+
+/** The eight 16-bit groups of an IPv6 address, with or without brackets. */
+function ipv6Groups(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, "");
+  if (!text.includes(":")) return null;
+  const v4 = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const parts = ipv4Parts(v4[1]);
+    if (!parts) return null;
+    text = `${text.slice(0, -v4[1].length)}${((parts[0] << 8) | parts[1]).toString(16)}:${((parts[2] << 8) | parts[3]).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const [head, tail] = halves.map((h) => (h ? h.split(":") : []));
+  const groups = tail === undefined ? head : [...head, ...Array(8 - head.length - tail.length).fill("0"), ...tail];
+  if (groups.length !== 8 || groups.some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function ipv4Kind([a, b, c]: number[]): AddressKind {
+  if (a === 127) return "loopback";
+  const reserved =
+    a === 0 || a === 10 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19));
+  return reserved ? "private" : "public";
+}
+
+/** What kind of address `host` is; null when it is a host name, not an IP literal. */
+function addressKind(host: string): AddressKind | null {
+  const v4 = ipv4Parts(host);
+  if (v4) return ipv4Kind(v4);
+  const g = ipv6Groups(host);
+  if (!g) return null;
+  const embeddedV4 = [g[6] >> 8, g[6] & 0xff, g[7] >> 8, g[7] & 0xff];
+  if (g.slice(0, 7).every((n) => n === 0) && g[7] === 1) return "loopback";
+  if (g.slice(0, 5).every((n) => n === 0) && g[5] === 0xffff) return ipv4Kind(embeddedV4); // IPv4-mapped
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((n) => n === 0)) return ipv4Kind(embeddedV4); // NAT64
+  const reserved =
+    g.slice(0, 6).every((n) => n === 0) || // unspecified, IPv4-compatible
+    (g[0] & 0xfe00) === 0xfc00 || // unique local
+    (g[0] & 0xffc0) === 0xfe80 || // link-local
+    (g[0] & 0xff00) === 0xff00; // multicast
+  return reserved ? "private" : "public";
+}
+
+/**
+ * `url` when the policy lets requests go there, else a CaldavError for the user. A
+ * host name is judged by all of its addresses. The request resolves the name again,
+ * so this does not stop a name that changes its address in between.
+ */
+export async function checkCaldavTarget(url: string, policy: CaldavTargetPolicy = {}): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new CaldavError(400, "Enter the server address as https://…");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new CaldavError(400, "Enter the server address as https://…");
+  }
+  const host = parsed.hostname.toLowerCase();
+  let kinds: AddressKind[];
+  const literal = addressKind(host);
+  if (literal) {
+    kinds = [literal];
+  } else if (host === "localhost" || host.endsWith(".localhost")) {
+    kinds = ["loopback"];
+  } else if (policy.resolveHost) {
+    const addresses = await policy.resolveHost(host);
+    if (addresses.length === 0) throw new CaldavError(400, "Could not reach the server");
+    kinds = addresses.map((a) => addressKind(a) ?? "private");
+  } else {
+    kinds = ["public"];
+  }
+
+  const local = kinds.every((k) => k === "loopback") && Boolean(policy.allowLocalhost);
+  if (!local && kinds.some((k) => k !== "public")) {
+    throw new CaldavError(400, "This server address is not allowed");
+  }
+  if (parsed.protocol !== "https:" && !local) {
+    throw new CaldavError(400, "The server address must start with https://");
+  }
+  return parsed;
+}
+
+/** One DAV request, following redirects itself so every hop passes checkCaldavTarget. */
+async function davRequest(
+  url: string,
+  method: "PROPFIND" | "REPORT",
+  body: string,
+  credentials: CaldavCredentials,
+  depth: "0" | "1",
+  targets: CaldavTargetPolicy,
+): Promise<{ status: number; text: string; url: string }> {
+  let target = url;
+  for (let redirects = 0; ; redirects++) {
+    await checkCaldavTarget(target, targets);
+    const resp = await fetch(target, {
+      method,
+      headers: {
+        Authorization: basicAuth(credentials),
+        "Content-Type": "application/xml; charset=utf-8",
+        Depth: depth,
+      },
+      body,
+      redirect: "manual",
+    });
+    const location = resp.headers.get("location");
+    if (resp.status >= 300 && resp.status < 400 && location) {
+      await resp.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) throw new CaldavError(502, `${method} ${url}: too many redirects`);
+      target = new URL(location, target).toString();
+      continue;
+    }
+    const text = await resp.text();
+    if (resp.status === 401 || resp.status === 403) throw new CaldavError(resp.status, "Wrong username or password");
+    if (!resp.ok) throw new CaldavError(resp.status, `${method} ${target} failed: ${resp.status}`);
+    return { status: resp.status, text, url: target };
+  }
+}
+
+function decodeXml(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n: string) => String.fromCharCode(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n: string) => String.fromCharCode(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Elements named `name` (any namespace prefix): their inner XML, "" when self-closing. */
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}(?=[\\s/>])[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`, "g");
+  return [...xml.matchAll(pattern)].map((m) => m[1] ?? "");
+}
+
+function element(xml: string, name: string): string | null {
+  return elements(xml, name)[0] ?? null;
+}
+
+interface DavResponse {
+  url: string;
+  props: string; // inner XML of the <prop> elements with a 200 status
+}
+
+function parseMultistatus(xml: string, baseUrl: string): DavResponse[] {
+  return elements(xml, "response").flatMap((response) => {
+    const href = element(response, "href");
+    if (!href) return [];
+    const props = elements(response, "propstat")
+      .filter((propstat) => {
+        const status = element(propstat, "status");
+        return !status || /\s2\d\d\b/.test(status);
+      })
+      .map((propstat) => element(propstat, "prop") ?? "")
+      .join("");
+    return [{ url: new URL(decodeXml(href.trim()), baseUrl).toString(), props }];
+  });
+}
+
+function hrefOf(props: string, name: string, baseUrl: string): string | null {
+  const value = element(props, name);
+  const href = value && element(value, "href");
+  return href ? new URL(decodeXml(href.trim()), baseUrl).toString() : null;
+}
+
+function isEventCalendar(props: string): boolean {
+  const resourceType = element(props, "resourcetype");
+  if (resourceType === null || element(resourceType, "calendar") === null) return false;
+  const components = element(props, "supported-calendar-component-set");
+  // Servers that leave the set out accept every component
+  return components === null || /name\s*=\s*["']VEVENT["']/i.test(components);
+}
+
+function calendarFrom(response: DavResponse): CaldavCalendar {
+  const name = decodeXml(element(response.props, "displayname")?.trim() ?? "");
+  const color = decodeXml(element(response.props, "calendar-color")?.trim() ?? "");
+  return {
+    url: response.url,
+    name: name || decodeURIComponent(new URL(response.url).pathname.split("/").filter(Boolean).pop() ?? "Calendar"),
+    // Apple colors carry an alpha byte (#RRGGBBAA)
+    color: color ? color.slice(0, 7) : null,
+  };
+}
+
+async function propfind(
+  url: string,
+  credentials: CaldavCredentials,
+  depth: "0" | "1",
+  targets: CaldavTargetPolicy,
+): Promise<DavResponse[]> {
+  const response = await davRequest(url, "PROPFIND", DISCOVERY_PROPS, credentials, depth, targets);
+  return parseMultistatus(response.text, response.url);
+}
+
+/** The event calendars reachable from `serverUrl`; throws CaldavError when there are none. */
+export async function discoverCalendars(
+  serverUrl: string,
+  credentials: CaldavCredentials,
+  targets: CaldavTargetPolicy = {},
+): Promise<CaldavCalendar[]> {
+  let url = (await checkCaldavTarget(serverUrl, targets)).toString();
+  let start: DavResponse[];
+  try {
+    start = await propfind(url, credentials, "0", targets);
+  } catch (e) {
+    if (!(e instanceof CaldavError) || (e.status !== 404 && e.status !== 405)) throw e;
+    url = new URL("/.well-known/caldav", url).toString();
+    start = await propfind(url, credentials, "0", targets);
+  }
+  const self = start[0];
+  if (!self) throw new CaldavError(404, "No calendars found at this address");
+  if (isEventCalendar(self.props)) return [calendarFrom(self)];
+
+  let home = hrefOf(self.props, "calendar-home-set", self.url);
+  if (!home) {
+    const principal = hrefOf(self.props, "current-user-principal", self.url);
+    if (principal) {
+      const [principalResponse] = await propfind(principal, credentials, "0", targets);
+      home = principalResponse ? hrefOf(principalResponse.props, "calendar-home-set", principalResponse.url) : null;
+    }
+  }
+  if (!home) throw new CaldavError(404, "No calendars found at this address");
+
+  const calendars = (await propfind(home, credentials, "1", targets))
+    .filter((r) => r.url !== home && isEventCalendar(r.props))
+    .map(calendarFrom);
+  if (calendars.length === 0) throw new CaldavError(404, "No calendars found at this address");
+  return calendars;
+}
+
+/** 20251110T090000Z, the form time-range attributes take. */
+function davTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function toInstant(value: IcsDateTime): number {
+  if ("utc" in value) return new Date(value.utc).getTime();
+  if ("date" in value) return Date.parse(`${value.date}T00:00:00Z`);
+  const zone = value.tzid && isValidTimeZone(value.tzid) ? value.tzid : "UTC";
+  return zonedTimeToUtc(zone, value.wall);
+}
+
+/** Events overlapping [start, end), recurring ones expanded into instances by the server. */
+export async function fetchCaldavEvents(
+  calendarUrl: string,
+  credentials: CaldavCredentials,
+  start: string,
+  end: string,
+  targets: CaldavTargetPolicy = {},
+): Promise<CaldavEvent[]> {
+  const range = `start="${davTime(start)}" end="${davTime(end)}"`;
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${NAMESPACES}>
+  <d:prop>
+    <c:calendar-data><c:expand ${range}/></c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT"><c:time-range ${range}/></c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+  const report = await davRequest(calendarUrl, "REPORT", body, credentials, "1", targets);
+  const rangeStart = Date.parse(start);
+  const rangeEnd = Date.parse(end);
+
+  const events: CaldavEvent[] = [];
+  for (const response of parseMultistatus(report.text, report.url)) {
+    const data = element(response.props, "calendar-data");
+    if (!data) continue;
+    for (const event of parseIcs(decodeXml(data)).events) {
+      const allDay = "date" in event.start;
+      const startMs = toInstant(event.start);
+      const endMs = event.end
+        ? toInstant(event.end)
+        : startMs + (event.durationMinutes !== null ? event.durationMinutes * 60000 : allDay ? DAY_MS : 0);
+      if (endMs <= rangeStart || startMs >= rangeEnd) continue;
+      events.push({
+        uid: event.uid,
+        title: event.summary,
+        start: new Date(startMs).toISOString(),
+        end: new Date(Math.max(endMs, startMs)).toISOString(),
+        allDay,
+        busy: !event.transparent && event.status !== "CANCELLED",
+      });
+    }
+  }
+  return events;
+}
+
+/** FREEBUSY periods of a VFREEBUSY reply, FBTYPE=FREE left out. */
+function parseFreeBusy(ics: string): BusyInterval[] {
+  const busy: BusyInterval[] = [];
+  for (const line of ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)) {
+    const m = line.match(/^FREEBUSY((?:;[^:]*)?):(.+)$/i);
+    if (!m || /FBTYPE=FREE\b/i.test(m[1])) continue;
+    for (const period of m[2].split(",")) {
+      const [from, to] = period.trim().split("/");
+      const startMs = Date.parse(fromDavTime(from));
+      const duration = to?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+      const endMs = duration
+        ? startMs + ((Number(duration[1] ?? 0) * 24 + Number(duration[2] ?? 0)) * 60 + Number(duration[3] ?? 0)) * 60000 +
+          Number(duration[4] ?? 0) * 1000
+        : Date.parse(fromDavTime(to ?? ""));
+      if (Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs) {
+        busy.push({ start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() });
+      }
+    }
+  }
+  return busy;
+}
+
+function fromDavTime(value: string): string {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}Z` : "";
+}
+
+/**
+ * Busy intervals of one calendar in [start, end). When the server has no free-busy
+ * report, all-day events are left out like on-device Apple events.
+ */
+export async function fetchCaldavBusy(
+  calendarUrl: string,
+  credentials: CaldavCredentials,
+  start: string,
+  end: string,
+  targets: CaldavTargetPolicy = {},
+): Promise<BusyInterval[]> {
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:free-busy-query ${NAMESPACES}>
+  <c:time-range start="${davTime(start)}" end="${davTime(end)}"/>
+</c:free-busy-query>`;
+  // Up front, so a disallowed address is not taken for a server without free-busy support
+  await checkCaldavTarget(calendarUrl, targets);
+  try {
+    const { text } = await davRequest(calendarUrl, "REPORT", body, credentials, "1", targets);
+    if (/BEGIN:VFREEBUSY/i.test(text)) return parseFreeBusy(text);
+  } catch (e) {
+    if (e instanceof CaldavError && (e.status === 401 || e.status === 403)) throw e;
+    // free-busy-query is optional for servers; fall back to the events
+  }
+  return (await fetchCaldavEvents(calendarUrl, credentials, start, end, targets))
+    .filter((e) => e.busy && !e.allDay)
+    .map((e) => ({ start: e.start, end: e.end }));
+}
@@ -0,0 +1,236 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+import {
+  CHANNEL_TTL_SECONDS,
+  channelNotification,
+  channelTokenMatches,
+  fetchEventChanges,
+  needsRenewal,
+  RENEW_BEFORE_MS,
+  stopChannel,
+  SYNC_LOOKBACK_DAYS,
+  SyncApiError,
+  watchEvents,
+} from "./eventSync.ts";
+
+const NOW = Date.parse("2025-06-02T12:00:00Z");
+const CALENDAR = "team@example.com";
+const EVENTS_PATH = `/calendars/${encodeURIComponent(CALENDAR)}/events`;
+
+interface Recorded {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  authorization: string | undefined;
+  body: any;
+}
+
+type Route = (req: Recorded) => { status: number; body?: unknown };
+
+// Google Calendar API stub: each test sets `route`, every request is recorded
+let server: Server;
+let apiBase: string;
+let route: Route;
+let requests: Recorded[];
+
+before(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://stub");
+      const recorded: Recorded = {
+        method: req.method ?? "GET",
+        path: url.pathname,
+        query: url.searchParams,
+        authorization: req.headers.authorization,
+        body: raw ? JSON.parse(raw) : null,
+      };
+      requests.push(recorded);
+      const { status, body } = route(recorded);
+      if (body === undefined) {
+        res.writeHead(status).end();
+      } else {
+        res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  route = () => ({ status: 404, body: { error: "not found" } });
+});
+
+function event(id: string, start: string, extra: Record<string, unknown> = {}) {
+  const end = new Date(Date.parse(start) + 60 * 60 * 1000).toISOString();
+  return { id, status: "confirmed", summary: `Event ${id}`, start: { dateTime: start }, end: { dateTime: end }, ...extra };
+}
+
+function changes(syncToken: string | null) {
+  return fetchEventChanges({ apiBase, accessToken: "access-1", calendarId: CALENDAR, syncToken, now: NOW });
+}
+
+describe("fetchEventChanges", () => {
+  it("lists every page from the lookback window on the first sync and keeps the sync token", async () => {
+    route = (req) =>
+      req.query.get("pageToken") === "page-2"
+        ? { status: 200, body: { items: [event("b", "2025-06-04T09:00:00Z")], nextSyncToken: "sync-1" } }
+        : {
+          status: 200,
+          body: {
+            items: [event("a", "2025-06-03T09:00:00Z"), { id: "all-day", summary: "Trip", start: { date: "2025-06-05" }, end: { date: "2025-06-06" } }],
+            nextPageToken: "page-2",
+          },
+        };
+
+    const result = await changes(null);
+
+    assert.equal(result.full, true);
+    assert.equal(result.nextSyncToken, "sync-1");
+    assert.deepEqual(result.changed.map((e) => e.event_id), ["a", "all-day", "b"]);
+    assert.deepEqual(result.removed, []);
+    assert.equal(result.changed[1].all_day, true);
+    assert.equal(result.changed[1].start_at, "2025-06-05T00:00:00Z");
+
+    assert.equal(requests.length, 2);
+    const first = requests[0];
+    assert.equal(first.path, EVENTS_PATH);
+    assert.equal(first.authorization, "Bearer access-1");
+    assert.equal(first.query.get("singleEvents"), "true");
+    assert.equal(first.query.get("syncToken"), null);
+    assert.equal(first.query.get("timeMin"), new Date(NOW - SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString());
+    assert.equal(requests[1].query.get("pageToken"), "page-2");
+  });
+
+  it("asks only for changes with the sync token and reports cancelled events as removed", async () => {
+    route = () => ({
+      status: 200,
+      body: {
+        items: [
+          event("a", "2025-06-03T10:00:00Z", { summary: "Moved" }),
+          { id: "b", status: "cancelled" },
+        ],
+        nextSyncToken: "sync-2",
+      },
+    });
+
+    const result = await changes("sync-1");
+
+    assert.equal(result.full, false);
+    assert.equal(result.nextSyncToken, "sync-2");
+    assert.deepEqual(result.changed.map((e) => [e.event_id, e.title, e.start_at]), [["a", "Moved", "2025-06-03T10:00:00Z"]]);
+    assert.deepEqual(result.removed, ["b"]);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].query.get("syncToken"), "sync-1");
+    assert.equal(requests[0].query.get("timeMin"), null);
+  });
+
+  it("treats events without a usable start or end as removed", async () => {
+    route = () => ({ status: 200, body: { items: [{ id: "broken", status: "confirmed", summary: "No times" }], nextSyncToken: "sync-2" } });
+
+    const result = await changes("sync-1");
+
+    assert.deepEqual(result.changed, []);
+    assert.deepEqual(result.removed, ["broken"]);
+  });
+
+  it("lists the calendar in full again when Google answers 410 for an old sync token", async () => {
+    route = (req) =>
+      req.query.get("syncToken")
+        ? { status: 410, body: { error: { code: 410, message: "Sync token is no longer valid" } } }
+        : { status: 200, body: { items: [event("a", "2025-06-03T09:00:00Z")], nextSyncToken: "sync-fresh" } };
+
+    const result = await changes("sync-expired");
+
+    assert.equal(result.full, true);
+    assert.equal(result.nextSyncToken, "sync-fresh");
+    assert.deepEqual(result.changed.map((e) => e.event_id), ["a"]);
+    assert.deepEqual(
+      requests.map((r) => [r.query.get("syncToken"), r.query.has("timeMin")]),
+      [["sync-expired", false], [null, true]],
+    );
+  });
+
+  it("passes other API errors on", async () => {
+    route = () => ({ status: 401, body: { error: "unauthorized" } });
+
+    await assert.rejects(changes("sync-1"), (e: unknown) => e instanceof SyncApiError && e.status === 401);
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe("watch channels", () => {
+  it("opens a channel that echoes our token and expires when Google says", async () => {
+    const expiration = NOW + 2 * 24 * 60 * 60 * 1000;
+    route = () => ({ status: 200, body: { resourceId: "resource-1", expiration: String(expiration) } });
+
+    const channel = await watchEvents({
+      apiBase,
+      accessToken: "access-1",
+      calendarId: CALENDAR,
+      address: "https://example.functions.supabase.co/calendar_proxy/webhook",
+      token: "channel-token",
+      now: NOW,
+    });
+
+    assert.equal(channel.resourceId, "resource-1");
+    assert.equal(channel.expiresAt, new Date(expiration).toISOString());
+    const [req] = requests;
+    assert.equal(req.method, "POST");
+    assert.equal(req.path, `${EVENTS_PATH}/watch`);
+    assert.equal(req.body.id, channel.channelId);
+    assert.equal(req.body.type, "web_hook");
+    assert.equal(req.body.token, "channel-token");
+    assert.equal(req.body.params.ttl, String(CHANNEL_TTL_SECONDS));
+  });
+
+  it("does not mind stopping a channel that is already gone", async () => {
+    route = () => ({ status: 404, body: { error: "not found" } });
+    await stopChannel({ apiBase, accessToken: "access-1", channelId: "channel-1", resourceId: "resource-1" });
+    assert.deepEqual(requests.map((r) => [r.path, r.body]), [["/channels/stop", { id: "channel-1", resourceId: "resource-1" }]]);
+
+    route = () => ({ status: 500, body: { error: "backend" } });
+    await assert.rejects(stopChannel({ apiBase, accessToken: "access-1", channelId: "channel-1", resourceId: "resource-1" }), SyncApiError);
+  });
+
+  it("renews a channel that is missing or about to expire", () => {
+    assert.equal(needsRenewal(null, NOW), true);
+    assert.equal(needsRenewal(new Date(NOW + RENEW_BEFORE_MS - 1).toISOString(), NOW), true);
+    assert.equal(needsRenewal(new Date(NOW + RENEW_BEFORE_MS + 60 * 1000).toISOString(), NOW), false);
+  });
+});
+
+describe("webhook notifications", () => {
+  function headers(values: Record<string, string>): Headers {
+    return new Headers(values);
+  }
+
+  it("reads the channel and token of a change notification", () => {
+    const notification = channelNotification(
+      headers({ "X-Goog-Channel-ID": "channel-1", "X-Goog-Channel-Token": "channel-token", "X-Goog-Resource-State": "exists" }),
+    );
+    assert.deepEqual(notification, { channelId: "channel-1", token: "channel-token" });
+  });
+
+  it("ignores the sync message of a new channel and posts without a channel", () => {
+    assert.equal(channelNotification(headers({ "X-Goog-Channel-ID": "channel-1", "X-Goog-Resource-State": "sync" })), null);
+    assert.equal(channelNotification(headers({ "X-Goog-Resource-State": "exists" })), null);
+  });
+
+  it("accepts only the token stored for the channel", () => {
+    assert.equal(channelTokenMatches("channel-token", "channel-token"), true);
+    assert.equal(channelTokenMatches("channel-token", "channel-tokem"), false);
+    assert.equal(channelTokenMatches("channel-token", "channel"), false);
+    assert.equal(channelTokenMatches("channel-token", null), false);
+    assert.equal(channelTokenMatches(null, "channel-token"), false);
+    assert.equal(channelTokenMatches(null, null), false);
+  });
+});
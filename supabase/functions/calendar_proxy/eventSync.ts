@@ -0,0 +1,182 @@
+/**
+ * Incremental Google Calendar event sync for calendar_proxy.
+ *
+ * The first sync of a calendar lists its events from SYNC_LOOKBACK_DAYS ago onwards
+ * and keeps Google's nextSyncToken; later syncs send that token and get only what
+ * changed since (cancelled events included). Google answers 410 when a token is too
+ * old, and the calendar is then listed in full again.
+ *
+ * Watch channels make Google POST to our webhook when a calendar changes; they expire
+ * and are renewed RENEW_BEFORE_MS ahead of time by the next sync.
+ *
+ * Every call takes the API base URL, so the module runs against a local stub.
+ */
+
+export const SYNC_LOOKBACK_DAYS = 180;
+export const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60; // Google's maximum for event channels
+export const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+/** A row of google_events without the owner columns. */
+export interface CachedEvent {
+  event_id: string;
+  title: string;
+  start_at: string;
+  end_at: string;
+  all_day: boolean;
+  location: string | null;
+  html_link: string | null;
+}
+
+export interface EventChanges {
+  changed: CachedEvent[];
+  removed: string[]; // event ids
+  nextSyncToken: string | null;
+  full: boolean; // the cache of the calendar has to be replaced, not patched
+}
+
+export interface WatchChannel {
+  channelId: string;
+  resourceId: string;
+  expiresAt: string;
+}
+
+export class SyncApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function apiFetch(apiBase: string, accessToken: string, path: string, init: RequestInit = {}): Promise<any> {
+  const resp = await fetch(`${apiBase}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+  });
+  if (!resp.ok) throw new SyncApiError(resp.status, `${init.method ?? "GET"} ${path} failed: ${resp.status}`);
+  return resp.status === 204 ? null : await resp.json();
+}
+
+/** null for events without a usable start and end (they are skipped like in /events). */
+export function toCachedEvent(e: any): CachedEvent | null {
+  const start = e.start?.dateTime || (e.start?.date ? `${e.start.date}T00:00:00Z` : undefined);
+  const end = e.end?.dateTime || (e.end?.date ? `${e.end.date}T00:00:00Z` : undefined);
+  if (!e.id || !start || !end) return null;
+  return {
+    event_id: e.id,
+    title: e.summary || "(no title)",
+    start_at: start,
+    end_at: end,
+    all_day: Boolean(e.start?.date) || Boolean(e.end?.date),
+    location: e.location || null,
+    html_link: e.htmlLink || null,
+  };
+}
+
+/** Changes since `syncToken`, or every event when there is no (valid) token. */
+export async function fetchEventChanges(options: {
+  apiBase: string;
+  accessToken: string;
+  calendarId: string;
+  syncToken: string | null;
+  now?: number;
+}): Promise<EventChanges> {
+  const { apiBase, accessToken, calendarId, syncToken } = options;
+  const result: EventChanges = { changed: [], removed: [], nextSyncToken: null, full: !syncToken };
+  let pageToken: string | undefined = undefined;
+  do {
+    const params = new URLSearchParams({ singleEvents: "true", maxResults: "2500" });
+    if (syncToken) {
+      params.set("syncToken", syncToken);
+    } else {
+      const timeMin = new Date((options.now ?? Date.now()) - SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      params.set("timeMin", timeMin.toISOString());
+    }
+    if (pageToken) params.set("pageToken", pageToken);
+    let json: any;
+    try {
+      json = await apiFetch(apiBase, accessToken, `/calendars/${encodeURIComponent(calendarId)}/events?${params}`);
+    } catch (e) {
+      if (syncToken && e instanceof SyncApiError && e.status === 410) {
+        return await fetchEventChanges({ ...options, syncToken: null });
+      }
+      throw e;
+    }
+    for (const item of json.items ?? []) {
+      const event = item.status === "cancelled" ? null : toCachedEvent(item);
+      if (event) result.changed.push(event);
+      else if (item.id) result.removed.push(item.id);
+    }
+    pageToken = json.nextPageToken;
+    result.nextSyncToken = json.nextSyncToken ?? result.nextSyncToken;
+  } while (pageToken);
+  return result;
+}
+
+/** Ask Google to POST to `address` when events of the calendar change. */
+export async function watchEvents(options: {
+  apiBase: string;
+  accessToken: string;
+  calendarId: string;
+  address: string;
+  token: string; // echoed back in X-Goog-Channel-Token
+  now?: number;
+}): Promise<WatchChannel> {
+  const channelId = crypto.randomUUID();
+  const json = await apiFetch(
+    options.apiBase,
+    options.accessToken,
+    `/calendars/${encodeURIComponent(options.calendarId)}/events/watch`,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        id: channelId,
+        type: "web_hook",
+        address: options.address,
+        token: options.token,
+        params: { ttl: String(CHANNEL_TTL_SECONDS) },
+      }),
+    },
+  );
+  const expiration = Number(json?.expiration) || (options.now ?? Date.now()) + CHANNEL_TTL_SECONDS * 1000;
+  return { channelId, resourceId: json.resourceId, expiresAt: new Date(expiration).toISOString() };
+}
+
+/** Best effort: a channel that is already gone is fine. */
+export async function stopChannel(options: {
+  apiBase: string;
+  accessToken: string;
+  channelId: string;
+  resourceId: string;
+}): Promise<void> {
+  try {
+    await apiFetch(options.apiBase, options.accessToken, "/channels/stop", {
+      method: "POST",
+      body: JSON.stringify({ id: options.channelId, resourceId: options.resourceId }),
+    });
+  } catch (e) {
+    if (!(e instanceof SyncApiError) || (e.status !== 404 && e.status !== 410)) throw e;
+  }
+}
+
+export interface ChannelNotification {
+  channelId: string;
+  token: string | null; // X-Goog-Channel-Token, the token we gave watchEvents
+}
+
+/** The channel a webhook POST is about; null when it carries no changes ("sync" only confirms a new channel). */
+export function channelNotification(headers: Headers): ChannelNotification | null {
+  const channelId = headers.get("x-goog-channel-id");
+  if (!channelId || headers.get("x-goog-resource-state") === "sync") return null;
+  return { channelId, token: headers.get("x-goog-channel-token") };
+}
+
+/** Anyone can POST to the webhook; only the channel's own token makes it ours. Constant time. */
+export function channelTokenMatches(expected: string | null | undefined, received: string | null): boolean {
+  if (!expected || !received || expected.length !== received.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  return diff === 0;
+}
+
+export function needsRenewal(channelExpiresAt: string | null, now = Date.now()): boolean {
+  return !channelExpiresAt || new Date(channelExpiresAt).getTime() - now < RENEW_BEFORE_MS;
+}
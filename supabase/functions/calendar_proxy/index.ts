@@ -1,13 +1,18 @@
 // deno-lint-ignore-file no-explicit-any
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
-
-type TokenResponse = {
-  access_token: string;
-  expires_in: number;
-  refresh_token?: string;
-  scope?: string;
-  token_type?: string;
-};
+import {
+  createPkcePair,
+  GOOGLE_TOKEN_URL,
+  handleOAuthCallback,
+  idTokenEmail,
+  isAllowedReturnUrl,
+  randomToken,
+  signState,
+  STATE_TTL_MS,
+  type TokenResponse,
+} from "./oauth.ts";
+import { channelNotification, channelTokenMatches, fetchEventChanges, needsRenewal, stopChannel, watchEvents } from "./eventSync.ts";
+import { CaldavError, CaldavTargetPolicy, discoverCalendars, fetchCaldavBusy, fetchCaldavEvents } from "./caldav.ts";
 
 function env(name: string, fallback = ""): string {
   const v = Deno.env.get(name);
@@ -19,16 +24,17 @@ const SUPABASE_ANON_KEY = env("SUPABASE_ANON_KEY");
 const SUPABASE_SERVICE_ROLE_KEY = env("SUPABASE_SERVICE_ROLE_KEY");
 const GOOGLE_CAL_CLIENT_ID = env("GOOGLE_CAL_CLIENT_ID");
 const GOOGLE_CAL_CLIENT_SECRET = env("GOOGLE_CAL_CLIENT_SECRET");
+// Signs OAuth state; falls back to the service role key, which is just as secret
+const OAUTH_STATE_SECRET = env("OAUTH_STATE_SECRET", SUPABASE_SERVICE_ROLE_KEY);
+// Comma-separated prefixes (or bare schemes) /oauth/start may send the user back to
+const OAUTH_RETURN_URL_ALLOWLIST = env("OAUTH_RETURN_URL_ALLOWLIST", "momentum")
+  .split(",")
+  .map((p) => p.trim())
+  .filter(Boolean);
 
-function b64urlEncode(s: string) {
-  return btoa(s).replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
-}
-
-function b64urlDecode(s: string) {
-  const pad = (4 - (s.length % 4)) % 4;
-  const str = s.replaceAll("-", "+").replaceAll("_", "/") + "=".repeat(pad);
-  return atob(str);
-}
+const APP_CALENDAR_SCOPE = "https://www.googleapis.com/auth/calendar.app.created";
+// Overridable to point the function at a local stub of the Calendar API
+const CALENDAR_API = env("GOOGLE_CALENDAR_API_URL", "https://www.googleapis.com/calendar/v3");
 
 async function getUserFromAuthHeader(req: Request) {
   const authHeader = req.headers.get("authorization") || req.headers.get("Authorization");
@@ -41,23 +47,6 @@ async function getUserFromAuthHeader(req: Request) {
   return data.user ?? null;
 }
 
-async function exchangeCodeForTokens(code: string, redirectUri: string): Promise<TokenResponse> {
-  const body = new URLSearchParams({
-    code,
-    client_id: GOOGLE_CAL_CLIENT_ID,
-    client_secret: GOOGLE_CAL_CLIENT_SECRET,
-    grant_type: "authorization_code",
-    redirect_uri: redirectUri,
-  });
-  const resp = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body,
-  });
-  if (!resp.ok) throw new Error(`token exchange failed: ${resp.status}`);
-  return await resp.json();
-}
-
 async function refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
   const body = new URLSearchParams({
     client_id: GOOGLE_CAL_CLIENT_ID,
@@ -65,7 +54,7 @@ async function refreshAccessToken(refreshToken: string): Promise<TokenResponse>
     grant_type: "refresh_token",
     refresh_token: refreshToken,
   });
-  const resp = await fetch("https://oauth2.googleapis.com/token", {
+  const resp = await fetch(GOOGLE_TOKEN_URL, {
     method: "POST",
     headers: { "Content-Type": "application/x-www-form-urlencoded" },
     body,
@@ -74,7 +63,7 @@ async function refreshAccessToken(refreshToken: string): Promise<TokenResponse>
   return await resp.json();
 }
 
-function makeOAuthUrl(origin: string, state: string) {
+function makeOAuthUrl(origin: string, state: string, codeChallenge: string) {
   const redirect = `${origin}/calendar_proxy/callback`;
   const params = new URLSearchParams({
     client_id: GOOGLE_CAL_CLIENT_ID,
@@ -84,102 +73,185 @@ function makeOAuthUrl(origin: string, state: string) {
     prompt: "consent",
     scope: [
       "https://www.googleapis.com/auth/calendar.readonly",
-      // Uncomment to allow event creation later
-      // "https://www.googleapis.com/auth/calendar.events",
+      // The account's address, to tell several connected accounts apart
+      "openid",
+      "email",
+      // Create the "Momentum" calendar and manage its events (task sync), nothing else
+      APP_CALENDAR_SCOPE,
     ].join(" "),
     state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
   });
   return { url: `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`, redirect };
 }
 
-async function upsertCalendarAccount(
-  userId: string,
-  tokens: { access_token: string; refresh_token?: string; expires_in: number; scope?: string },
-  email?: string,
-) {
-  const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-  const tokenExpiry = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
-  const { data: existing } = await sb
-    .from("calendar_accounts")
-    .select("id")
-    .eq("user_id", userId)
-    .eq("provider", "google")
-    .maybeSingle();
+type CalendarAccount = {
+  id: string;
+  email: string | null;
+  access_token: string;
+  refresh_token: string | null;
+  token_expiry: string | null;
+  scopes: string[] | null;
+  momentum_calendar_id: string | null;
+  momentum_pulled_at: string | null;
+};
 
-  const row = {
-    user_id: userId,
-    provider: "google",
-    email: email ?? null,
+type GoogleAccess = { account: CalendarAccount; accessToken: string };
+
+// Calendars the user switched off, as "<account id>:<calendar id>" keys
+// (user_planning_profile.preferences.googleCalendars). New calendars count and show by default.
+type CalendarSelection = { hidden: string[]; notBusy: string[] };
+
+const ACCOUNT_COLUMNS = "id, email, access_token, refresh_token, token_expiry, scopes, momentum_calendar_id, momentum_pulled_at";
+
+const calendarKey = (accountId: string, calendarId: string) => `${accountId}:${calendarId}`;
+
+function tokenColumns(tokens: TokenResponse) {
+  return {
     access_token: tokens.access_token,
-    refresh_token: tokens.refresh_token ?? null,
-    token_expiry: tokenExpiry,
-    scopes: tokens.scope ? tokens.scope.split(" ") : ["https://www.googleapis.com/auth/calendar.readonly"],
+    token_expiry: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+    // Refresh responses carry neither a new refresh token nor always the scopes
+    ...(tokens.refresh_token ? { refresh_token: tokens.refresh_token } : {}),
+    ...(tokens.scope ? { scopes: tokens.scope.split(" ") } : {}),
     updated_at: new Date().toISOString(),
-  } as any;
+  };
+}
 
-  if (existing?.id) {
-    await sb.from("calendar_accounts").update(row).eq("id", existing.id);
-  } else {
-    await sb.from("calendar_accounts").insert(row);
-  }
+/**
+ * Connect (or reconnect) one Google account of the user; accounts are told apart by
+ * email. A row from before emails were recorded is taken over by the next connect.
+ */
+async function upsertCalendarAccount(userId: string, tokens: TokenResponse, email: string | null) {
+  const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { data: accounts } = await sb
+    .from("calendar_accounts")
+    .select("id, email")
+    .eq("user_id", userId)
+    .eq("provider", "google");
+  const existing = (accounts ?? []).find((a: any) => email && a.email === email) ??
+    (accounts ?? []).find((a: any) => !a.email);
+
+  const row = { email, ...tokenColumns(tokens) };
+  const { error } = existing?.id
+    ? await sb.from("calendar_accounts").update(row).eq("id", existing.id)
+    : await sb.from("calendar_accounts").insert({
+      user_id: userId,
+      provider: "google",
+      scopes: ["https://www.googleapis.com/auth/calendar.readonly"],
+      ...row,
+    });
+  if (error) throw error;
 }
 
-async function getTokensForUser(userId: string) {
+async function getAccountsForUser(userId: string): Promise<CalendarAccount[]> {
   const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   const { data, error } = await sb
     .from("calendar_accounts")
-    .select("id, access_token, refresh_token, token_expiry")
+    .select(ACCOUNT_COLUMNS)
     .eq("user_id", userId)
     .eq("provider", "google")
-    .maybeSingle();
+    .order("id");
   if (error) throw error;
-  return data;
+  return (data ?? []).filter((a: any) => a.access_token);
+}
+
+/** The account with a usable access token (refreshed when about to expire). */
+async function withAccessToken(account: CalendarAccount): Promise<GoogleAccess> {
+  let accessToken = account.access_token;
+  const expiry = account.token_expiry ? new Date(account.token_expiry).getTime() : 0;
+  if (Date.now() > expiry - 60_000 && account.refresh_token) {
+    try {
+      const refreshed = await refreshAccessToken(account.refresh_token);
+      accessToken = refreshed.access_token;
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      await sb.from("calendar_accounts").update(tokenColumns(refreshed)).eq("id", account.id);
+    } catch (_) {
+      // ignore refresh errors; will try with existing
+    }
+  }
+  return { account, accessToken };
+}
+
+/** Every connected Google account of the user; empty when none is connected. */
+async function getGoogleAccess(userId: string): Promise<GoogleAccess[]> {
+  return await Promise.all((await getAccountsForUser(userId)).map(withAccessToken));
+}
+
+/**
+ * Tasks go to one account: the one already holding the Momentum calendar, else the
+ * first that granted write access, else the first (which then asks to reconnect).
+ */
+async function getTaskSyncAccess(userId: string): Promise<GoogleAccess | null> {
+  const accounts = await getAccountsForUser(userId);
+  const account = accounts.find((a) => a.momentum_calendar_id) ??
+    accounts.find((a) => hasAppCalendarScope(a)) ??
+    accounts[0];
+  return account ? await withAccessToken(account) : null;
 }
 
-async function listCalendarIds(accessToken: string): Promise<string[]> {
-  const calendars: string[] = [];
+async function getCalendarSelection(userId: string): Promise<CalendarSelection> {
+  const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { data } = await sb.from("user_planning_profile").select("preferences").eq("user_id", userId).maybeSingle();
+  const selection = data?.preferences?.googleCalendars ?? {};
+  return {
+    hidden: Array.isArray(selection.hidden) ? selection.hidden : [],
+    notBusy: Array.isArray(selection.notBusy) ? selection.notBusy : [],
+  };
+}
+
+// The Momentum calendar holds our own tasks; it is left out of the list
+async function listCalendars(google: GoogleAccess): Promise<any[]> {
+  const calendars: any[] = [];
   let pageToken: string | undefined = undefined;
   do {
-    const url = new URL("https://www.googleapis.com/calendar/v3/users/me/calendarList");
+    const url = new URL(`${CALENDAR_API}/users/me/calendarList`);
     if (pageToken) url.searchParams.set("pageToken", pageToken);
-    const resp = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    const resp = await fetch(url, { headers: { Authorization: `Bearer ${google.accessToken}` } });
     if (!resp.ok) throw new Error(`calendarList failed: ${resp.status}`);
     const json: any = await resp.json();
-    for (const item of json.items ?? []) calendars.push(item.id);
+    for (const item of json.items ?? []) {
+      if (item.id !== google.account.momentum_calendar_id) calendars.push(item);
+    }
     pageToken = json.nextPageToken;
   } while (pageToken);
-  return calendars.length ? calendars : ["primary"];
+  return calendars.length ? calendars : [{ id: "primary", summary: google.account.email ?? "Primary", primary: true }];
 }
 
-async function fetchFreeBusy(accessToken: string, timeMin: string, timeMax: string) {
-  const calendars = await listCalendarIds(accessToken);
+/** Busy intervals per calendar, keyed by calendarKey so several accounts can be merged. */
+async function fetchFreeBusy(google: GoogleAccess, timeMin: string, timeMax: string, include: (key: string) => boolean) {
+  const calendars = (await listCalendars(google)).filter((c) => include(calendarKey(google.account.id, c.id)));
+  if (calendars.length === 0) return {};
   const body = {
     timeMin,
     timeMax,
-    items: calendars.map((id) => ({ id })),
+    items: calendars.map((c) => ({ id: c.id })),
   };
-  const resp = await fetch("https://www.googleapis.com/calendar/v3/freeBusy", {
+  const resp = await fetch(`${CALENDAR_API}/freeBusy`, {
     method: "POST",
-    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+    headers: { Authorization: `Bearer ${google.accessToken}`, "Content-Type": "application/json" },
     body: JSON.stringify(body),
   });
   if (!resp.ok) throw new Error(`freeBusy failed: ${resp.status}`);
-  return await resp.json();
+  const json: any = await resp.json();
+  return Object.fromEntries(
+    Object.entries(json.calendars ?? {}).map(([id, value]) => [calendarKey(google.account.id, id), value]),
+  );
 }
 
-async function fetchEvents(accessToken: string, timeMin: string, timeMax: string) {
-  const calendars = await listCalendarIds(accessToken);
+async function fetchEvents(google: GoogleAccess, timeMin: string, timeMax: string, include: (key: string) => boolean) {
+  const calendars = (await listCalendars(google)).filter((c) => include(calendarKey(google.account.id, c.id)));
   const results: any[] = [];
-  for (const id of calendars) {
+  for (const { id } of calendars) {
     let pageToken: string | undefined = undefined;
     do {
-      const url = new URL(`https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(id)}/events`);
+      const url = new URL(`${CALENDAR_API}/calendars/${encodeURIComponent(id)}/events`);
       url.searchParams.set("timeMin", timeMin);
       url.searchParams.set("timeMax", timeMax);
       url.searchParams.set("singleEvents", "true");
       url.searchParams.set("orderBy", "startTime");
       if (pageToken) url.searchParams.set("pageToken", pageToken);
-      const resp = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+      const resp = await fetch(url, { headers: { Authorization: `Bearer ${google.accessToken}` } });
       if (!resp.ok) throw new Error(`events list failed: ${resp.status}`);
       const json: any = await resp.json();
       for (const e of json.items ?? []) {
@@ -189,6 +261,8 @@ async function fetchEvents(accessToken: string, timeMin: string, timeMax: string
         results.push({
           id: e.id,
           calendarId: id,
+          accountId: google.account.id,
+          accountEmail: google.account.email,
           title: e.summary || '(no title)',
           start,
           end,
@@ -203,6 +277,616 @@ async function fetchEvents(accessToken: string, timeMin: string, timeMax: string
   return results;
 }
 
+/** Runs `fn` for every account; an account that fails (e.g. access revoked) is skipped. */
+async function forEachAccount<T>(accesses: GoogleAccess[], fn: (google: GoogleAccess) => Promise<T>): Promise<T[]> {
+  const results: T[] = [];
+  for (const google of accesses) {
+    try {
+      results.push(await fn(google));
+    } catch (e) {
+      console.warn(`calendar_proxy: skipping account ${google.account.id}`, e);
+    }
+  }
+  return results;
+}
+
+/** Revoke our grant at Google (best effort) and forget the account and its task events. */
+async function removeAccount(sb: any, userId: string, accountId: string) {
+  const account = (await getAccountsForUser(userId)).find((a) => a.id === accountId);
+  if (!account) return false;
+  try {
+    await fetch("https://oauth2.googleapis.com/revoke", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ token: account.refresh_token || account.access_token }),
+    });
+  } catch {
+    // the grant stays listed in the Google account; the tokens are deleted below either way
+  }
+  const { data: syncs } = await sb
+    .from("google_calendar_syncs")
+    .select("channel_id, channel_resource_id")
+    .eq("account_id", account.id);
+  for (const sync of syncs ?? []) await stopWatch(sb, account.access_token, sync).catch(() => {});
+  if (account.momentum_calendar_id) {
+    await sb.from("task_google_events").delete().eq("user_id", userId).eq("google_calendar_id", account.momentum_calendar_id);
+  }
+  await sb.from("calendar_accounts").delete().eq("id", account.id);
+  return true;
+}
+
+/*
+ * Task sync. Momentum tasks are written as events in a "Momentum" calendar the app
+ * creates in the connected account (calendar.app.created scope), with one
+ * task_google_events row per event: a task's own, or one per session of a split
+ * task. Recurrence rules become recurring events (rule_google_events). Triggers on
+ * tasks, task_sessions and recurrence_rules queue every change in google_push_queue,
+ * whichever path made it, and the app asks for /tasks/flush when it sees one. Edits
+ * made on the Google side are pulled (/tasks/pull): a moved or resized event moves
+ * its task or session. Momentum stays the source of truth for which tasks exist, so
+ * an event deleted in Google only unlinks its task and is written again on the
+ * task's next change.
+ */
+
+class GoogleApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const TASK_SYNC_COLUMNS =
+  "id, title, notes, due_at, duration_minutes, all_day, status, goals(title), task_sessions(id, start_at, end_at, status)";
+const RULE_SYNC_COLUMNS = "id, title, notes, rrule, dtstart, duration_minutes, exdates, tzid, goals(title)";
+const DEFAULT_EVENT_MINUTES = 30;
+const BACKFILL_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function googleFetch(accessToken: string, path: string, init: RequestInit = {}): Promise<any> {
+  const resp = await fetch(`${CALENDAR_API}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+  });
+  if (!resp.ok) throw new GoogleApiError(resp.status, `${init.method ?? "GET"} ${path} failed: ${resp.status}`);
+  return resp.status === 204 ? null : await resp.json();
+}
+
+const isGone = (e: unknown) => e instanceof GoogleApiError && (e.status === 404 || e.status === 410);
+
+function hasAppCalendarScope(account: CalendarAccount): boolean {
+  return (account.scopes ?? []).includes(APP_CALENDAR_SCOPE);
+}
+
+async function ensureMomentumCalendar(sb: any, accessToken: string, account: CalendarAccount, userId: string): Promise<string> {
+  if (account.momentum_calendar_id) return account.momentum_calendar_id;
+  const { data: profile } = await sb.from("profiles").select("tz").eq("id", userId).maybeSingle();
+  const created = await googleFetch(accessToken, "/calendars", {
+    method: "POST",
+    body: JSON.stringify({
+      summary: "Momentum",
+      description: "Tasks from Momentum. Moving an event here moves the task in the app.",
+      ...(profile?.tz ? { timeZone: profile.tz } : {}),
+    }),
+  });
+  await sb.from("calendar_accounts").update({ momentum_calendar_id: created.id }).eq("id", account.id);
+  account.momentum_calendar_id = created.id;
+  return created.id;
+}
+
+function nextDay(date: string): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS).toISOString().slice(0, 10);
+}
+
+function taskToEvent(task: any) {
+  const description = [task.notes, task.goals?.title ? `Goal: ${task.goals.title}` : null].filter(Boolean).join("\n\n");
+  const start = new Date(task.due_at);
+  // All-day tasks sit at local noon, so their UTC date is the local one (as in the .ics export)
+  const day = start.toISOString().slice(0, 10);
+  const minutes = task.duration_minutes || DEFAULT_EVENT_MINUTES;
+  return {
+    summary: task.status === "done" ? `✓ ${task.title}` : task.title,
+    description: description || undefined,
+    start: task.all_day ? { date: day } : { dateTime: start.toISOString() },
+    end: task.all_day ? { date: nextDay(day) } : { dateTime: new Date(start.getTime() + minutes * 60_000).toISOString() },
+    extendedProperties: { private: { momentumTaskId: task.id } },
+  };
+}
+
+function sessionToEvent(task: any, session: any) {
+  return {
+    ...taskToEvent({ ...task, due_at: session.start_at, all_day: false, status: session.status }),
+    end: { dateTime: new Date(session.end_at).toISOString() },
+    extendedProperties: { private: { momentumTaskId: task.id, momentumSessionId: session.id } },
+  };
+}
+
+/** The events a task is shown as: one per session of a split task, else its own. Skipped work has none. */
+function taskEvents(task: any): { sessionId: string | null; body: any }[] {
+  if (task.status === "skipped") return [];
+  const sessions: any[] = task.task_sessions ?? [];
+  if (sessions.length === 0) return [{ sessionId: null, body: taskToEvent(task) }];
+  return sessions
+    .filter((session) => session.status !== "skipped")
+    .map((session) => ({ sessionId: session.id, body: sessionToEvent(task, session) }));
+}
+
+// 20251103T180000Z, the UTC form of an RFC 5545 DATE-TIME
+const utcStamp = (instant: string) => new Date(instant).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * A rule as a recurring event, anchored to the rule's zone (floating rules: the
+ * profile zone). `overridden` are instances that have a tasks row, and so an event,
+ * of their own.
+ */
+function ruleToEvent(rule: any, overridden: string[], timeZone: string) {
+  const description = [rule.notes, rule.goals?.title ? `Goal: ${rule.goals.title}` : null].filter(Boolean).join("\n\n");
+  const start = new Date(rule.dtstart);
+  const minutes = rule.duration_minutes || DEFAULT_EVENT_MINUTES;
+  const exdates = [...(rule.exdates ?? []), ...overridden].map(utcStamp);
+  return {
+    summary: rule.title,
+    description: description || undefined,
+    start: { dateTime: start.toISOString(), timeZone },
+    end: { dateTime: new Date(start.getTime() + minutes * 60_000).toISOString(), timeZone },
+    recurrence: [`RRULE:${rule.rrule.replace(/^RRULE:/i, "")}`, ...(exdates.length > 0 ? [`EXDATE:${exdates.join(",")}`] : [])],
+    extendedProperties: { private: { momentumRuleId: rule.id } },
+  };
+}
+
+/** Task columns to change so the task matches a Google event, or null when it already does. */
+function eventTimeChanges(event: any, task: any): Record<string, any> | null {
+  if (event.start?.date) {
+    if (task.all_day && new Date(task.due_at).toISOString().slice(0, 10) === event.start.date) return null;
+    return { due_at: `${event.start.date}T12:00:00.000Z`, all_day: true };
+  }
+  if (!event.start?.dateTime) return null;
+  const start = new Date(event.start.dateTime).getTime();
+  const end = event.end?.dateTime ? new Date(event.end.dateTime).getTime() : start;
+  const minutes = Math.round((end - start) / 60_000);
+  const changes: Record<string, any> = {};
+  if (task.all_day || new Date(task.due_at).getTime() !== start) {
+    changes.due_at = new Date(start).toISOString();
+    changes.all_day = false;
+  }
+  if (minutes > 0 && minutes !== (task.duration_minutes || DEFAULT_EVENT_MINUTES)) changes.duration_minutes = minutes;
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/** Session times to change so the session matches a Google event, or null when it already does. */
+function sessionTimeChanges(event: any, session: any): Record<string, any> | null {
+  // A session is never all-day; such an edit is left for the next push to undo
+  if (!event.start?.dateTime || !event.end?.dateTime) return null;
+  const start = new Date(event.start.dateTime).getTime();
+  const end = new Date(event.end.dateTime).getTime();
+  if (end <= start) return null;
+  if (start === new Date(session.start_at).getTime() && end === new Date(session.end_at).getTime()) return null;
+  return { start_at: new Date(start).toISOString(), end_at: new Date(end).toISOString() };
+}
+
+/** Update the linked event, or create one when there is no link or its event is gone. */
+async function writeEvent(accessToken: string, calendarId: string, link: any, body: string): Promise<{ event: any; calendarId: string }> {
+  if (link) {
+    try {
+      const event = await googleFetch(
+        accessToken,
+        `/calendars/${encodeURIComponent(link.google_calendar_id)}/events/${encodeURIComponent(link.google_event_id)}`,
+        { method: "PATCH", body },
+      );
+      return { event, calendarId: link.google_calendar_id };
+    } catch (e) {
+      if (!isGone(e)) throw e;
+    }
+  }
+  const event = await googleFetch(accessToken, `/calendars/${encodeURIComponent(calendarId)}/events`, { method: "POST", body });
+  return { event, calendarId };
+}
+
+async function deleteLinkedEvent(sb: any, accessToken: string, link: any, table = "task_google_events") {
+  try {
+    await googleFetch(
+      accessToken,
+      `/calendars/${encodeURIComponent(link.google_calendar_id)}/events/${encodeURIComponent(link.google_event_id)}`,
+      { method: "DELETE" },
+    );
+  } catch (e) {
+    if (!isGone(e)) throw e;
+  }
+  await sb.from(table).delete().eq("id", link.id);
+}
+
+/** Create or update the events of `taskIds` (null: upcoming tasks, for the first sync). Skipped work loses its events. */
+async function pushTasks(sb: any, userId: string, google: GoogleAccess, taskIds: string[] | null) {
+  let query = sb.from("tasks").select(TASK_SYNC_COLUMNS).eq("user_id", userId);
+  query = taskIds
+    ? query.in("id", taskIds)
+    : query
+      .neq("status", "skipped")
+      .gte("due_at", new Date(Date.now() - DAY_MS).toISOString())
+      .lte("due_at", new Date(Date.now() + BACKFILL_DAYS * DAY_MS).toISOString());
+  const { data: tasks, error } = await query;
+  if (error) throw error;
+  if (!tasks?.length) return 0;
+
+  const { data: links, error: linksError } = await sb
+    .from("task_google_events")
+    .select("*")
+    .in("task_id", tasks.map((t: any) => t.id));
+  if (linksError) throw linksError;
+  const linksByTask = new Map<string, any[]>();
+  for (const link of links ?? []) linksByTask.set(link.task_id, [...(linksByTask.get(link.task_id) ?? []), link]);
+  const calendarId = await ensureMomentumCalendar(sb, google.accessToken, google.account, userId);
+
+  let written = 0;
+  for (const task of tasks) {
+    const taskLinks = linksByTask.get(task.id) ?? [];
+    const wanted = taskEvents(task);
+    // Events of sessions that are gone or skipped, or of a task that was split since
+    for (const link of taskLinks) {
+      if (!wanted.some((w) => w.sessionId === (link.session_id ?? null))) await deleteLinkedEvent(sb, google.accessToken, link);
+    }
+    for (const { sessionId, body } of wanted) {
+      const link = taskLinks.find((l) => (l.session_id ?? null) === sessionId);
+      const { event, calendarId: eventCalendarId } = await writeEvent(google.accessToken, calendarId, link, JSON.stringify(body));
+      await sb.from("task_google_events").upsert({
+        user_id: userId,
+        task_id: task.id,
+        session_id: sessionId,
+        google_calendar_id: eventCalendarId,
+        google_event_id: event.id,
+        etag: event.etag ?? null,
+        synced_at: event.updated ?? new Date().toISOString(),
+      }, { onConflict: "task_id,session_id" });
+      written++;
+    }
+  }
+  return written;
+}
+
+/**
+ * Create or update the recurring events of `ruleIds` (null: all of the user's rules)
+ * and remove those of rules that are gone. Momentum owns the series: changes made to
+ * it in Google are not pulled and give way to the rule's next push.
+ */
+async function pushRules(sb: any, userId: string, google: GoogleAccess, ruleIds: string[] | null) {
+  let rulesQuery = sb.from("recurrence_rules").select(RULE_SYNC_COLUMNS).eq("user_id", userId);
+  let linksQuery = sb.from("rule_google_events").select("*").eq("user_id", userId);
+  if (ruleIds) {
+    rulesQuery = rulesQuery.in("id", ruleIds);
+    linksQuery = linksQuery.in("recurrence_rule_id", ruleIds);
+  }
+  const [{ data: rules, error }, { data: links, error: linksError }] = await Promise.all([rulesQuery, linksQuery]);
+  if (error) throw error;
+  if (linksError) throw linksError;
+  const ruleById = new Map((rules ?? []).map((r: any) => [r.id, r]));
+  for (const link of links ?? []) {
+    if (!ruleById.has(link.recurrence_rule_id)) await deleteLinkedEvent(sb, google.accessToken, link, "rule_google_events");
+  }
+  if (!rules?.length) return 0;
+
+  const [{ data: overrides, error: overridesError }, { data: profile }] = await Promise.all([
+    sb.from("tasks").select("recurrence_rule_id, recurrence_instance_at").in("recurrence_rule_id", [...ruleById.keys()]),
+    sb.from("profiles").select("tz").eq("id", userId).maybeSingle(),
+  ]);
+  if (overridesError) throw overridesError;
+  const linkByRule = new Map((links ?? []).map((l: any) => [l.recurrence_rule_id, l]));
+  const calendarId = await ensureMomentumCalendar(sb, google.accessToken, google.account, userId);
+
+  let written = 0;
+  for (const rule of rules) {
+    const overridden = (overrides ?? [])
+      .filter((o: any) => o.recurrence_rule_id === rule.id && o.recurrence_instance_at)
+      .map((o: any) => o.recurrence_instance_at);
+    const body = JSON.stringify(ruleToEvent(rule, overridden, rule.tzid || profile?.tz || "UTC"));
+    const { event, calendarId: eventCalendarId } = await writeEvent(google.accessToken, calendarId, linkByRule.get(rule.id), body);
+    await sb.from("rule_google_events").upsert({
+      user_id: userId,
+      recurrence_rule_id: rule.id,
+      google_calendar_id: eventCalendarId,
+      google_event_id: event.id,
+      etag: event.etag ?? null,
+      synced_at: event.updated ?? new Date().toISOString(),
+    }, { onConflict: "recurrence_rule_id" });
+    written++;
+  }
+  return written;
+}
+
+async function deleteTaskEvents(sb: any, userId: string, accessToken: string, taskIds: string[]) {
+  const { data: links, error } = await sb.from("task_google_events").select("*").eq("user_id", userId).in("task_id", taskIds);
+  if (error) throw error;
+  for (const link of links ?? []) await deleteLinkedEvent(sb, accessToken, link);
+  return links?.length ?? 0;
+}
+
+/**
+ * Write what the database queued since the last flush. Entries queued again while
+ * this ran stay for the next one.
+ */
+async function flushPushQueue(sb: any, userId: string, google: GoogleAccess) {
+  const { data: queued, error } = await sb.from("google_push_queue").select("kind, row_id, queued_at").eq("user_id", userId);
+  if (error) throw error;
+  if (!queued?.length) return { written: 0, deleted: 0 };
+
+  const taskIds: string[] = queued.filter((q: any) => q.kind === "task").map((q: any) => q.row_id);
+  const ruleIds = new Set<string>(queued.filter((q: any) => q.kind === "rule").map((q: any) => q.row_id));
+  let written = 0;
+  let deleted = 0;
+  if (taskIds.length > 0) {
+    const { data: existing, error: existingError } = await sb.from("tasks").select("id, recurrence_rule_id").in("id", taskIds);
+    if (existingError) throw existingError;
+    const existingIds = new Set((existing ?? []).map((t: any) => t.id));
+    // An override added or moved changes its series' EXDATEs
+    for (const task of existing ?? []) if (task.recurrence_rule_id) ruleIds.add(task.recurrence_rule_id);
+    written += await pushTasks(sb, userId, google, [...existingIds] as string[]);
+    const gone = taskIds.filter((id) => !existingIds.has(id));
+    if (gone.length > 0) deleted += await deleteTaskEvents(sb, userId, google.accessToken, gone);
+  }
+  if (ruleIds.size > 0) written += await pushRules(sb, userId, google, [...ruleIds]);
+
+  for (const q of queued) {
+    await sb.from("google_push_queue").delete().eq("kind", q.kind).eq("row_id", q.row_id).lte("queued_at", q.queued_at);
+  }
+  return { written, deleted };
+}
+
+/**
+ * Apply edits made in Google to task times. Only events changed after we last wrote
+ * or read them count, so our own writes never echo back. Also removes the events of
+ * tasks and sessions that are gone before a flush got to them.
+ */
+async function pullTaskEdits(sb: any, userId: string, google: GoogleAccess) {
+  const calendarId = google.account.momentum_calendar_id;
+  if (!calendarId) return 0;
+  const startedAt = new Date().toISOString();
+  const pulledAt = google.account.momentum_pulled_at ? new Date(google.account.momentum_pulled_at).getTime() : 0;
+
+  const events: any[] = [];
+  let pageToken: string | undefined = undefined;
+  do {
+    const params = new URLSearchParams({ showDeleted: "true", maxResults: "250" });
+    // A minute of overlap covers clock skew between Google and us
+    if (pulledAt) params.set("updatedMin", new Date(pulledAt - 60_000).toISOString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const json = await googleFetch(google.accessToken, `/calendars/${encodeURIComponent(calendarId)}/events?${params}`);
+    events.push(...(json.items ?? []));
+    pageToken = json.nextPageToken;
+  } while (pageToken);
+
+  const [{ data: links, error: linksError }, { data: tasks, error: tasksError }, { data: sessions, error: sessionsError }] =
+    await Promise.all([
+      sb.from("task_google_events").select("*").eq("user_id", userId),
+      sb.from("tasks").select("id, due_at, duration_minutes, all_day").eq("user_id", userId),
+      sb.from("task_sessions").select("id, start_at, end_at").eq("user_id", userId),
+    ]);
+  if (linksError) throw linksError;
+  if (tasksError) throw tasksError;
+  if (sessionsError) throw sessionsError;
+  const linkByEvent = new Map((links ?? []).map((l: any) => [l.google_event_id, l]));
+  const taskById = new Map((tasks ?? []).map((t: any) => [t.id, t]));
+  const sessionById = new Map((sessions ?? []).map((s: any) => [s.id, s]));
+
+  let updated = 0;
+  for (const event of events) {
+    const link: any = linkByEvent.get(event.id);
+    if (!link || new Date(event.updated).getTime() <= new Date(link.synced_at).getTime()) continue;
+    const task = taskById.get(link.task_id);
+    const session = link.session_id ? sessionById.get(link.session_id) : null;
+    if (!task || (link.session_id && !session)) continue;
+    if (event.status === "cancelled") {
+      await sb.from("task_google_events").delete().eq("id", link.id);
+      continue;
+    }
+    const changes = session ? sessionTimeChanges(event, session) : eventTimeChanges(event, task);
+    if (changes) {
+      const { error } = session
+        ? await sb.from("task_sessions").update(changes).eq("id", link.session_id)
+        : await sb.from("tasks").update(changes).eq("id", link.task_id);
+      if (error) throw error;
+      updated++;
+    }
+    await sb.from("task_google_events").update({ etag: event.etag ?? null, synced_at: event.updated }).eq("id", link.id);
+  }
+
+  for (const link of links ?? []) {
+    if (!taskById.has(link.task_id) || (link.session_id && !sessionById.has(link.session_id))) {
+      await deleteLinkedEvent(sb, google.accessToken, link);
+    }
+  }
+  await sb.from("calendar_accounts").update({ momentum_pulled_at: startedAt }).eq("id", google.account.id);
+  return updated;
+}
+
+/*
+ * Event cache. google_events holds the events of every connected calendar, kept
+ * current with sync tokens (eventSync.ts) whenever Google notifies /webhook or the
+ * app asks for /events/sync. The app reads the cache directly and hears about changes
+ * over realtime. One google_calendar_syncs row per calendar holds the sync token and
+ * the watch channel.
+ */
+
+const UPSERT_CHUNK = 500;
+
+async function stopWatch(sb: any, accessToken: string, sync: any) {
+  if (!sync.channel_id || !sync.channel_resource_id) return;
+  await stopChannel({ apiBase: CALENDAR_API, accessToken, channelId: sync.channel_id, resourceId: sync.channel_resource_id });
+  await sb.from("google_calendar_syncs").update({ channel_id: null, channel_resource_id: null, channel_expires_at: null }).eq("channel_id", sync.channel_id);
+}
+
+/** Apply the changes since the calendar's last sync to google_events. */
+async function syncCalendarEvents(sb: any, google: GoogleAccess, sync: any) {
+  const changes = await fetchEventChanges({
+    apiBase: CALENDAR_API,
+    accessToken: google.accessToken,
+    calendarId: sync.calendar_id,
+    syncToken: sync.sync_token,
+  });
+  const owner = { user_id: sync.user_id, account_id: google.account.id, calendar_id: sync.calendar_id };
+  if (changes.full) {
+    await sb.from("google_events").delete().eq("account_id", owner.account_id).eq("calendar_id", owner.calendar_id);
+  }
+  const updatedAt = new Date().toISOString();
+  for (let i = 0; i < changes.changed.length; i += UPSERT_CHUNK) {
+    const rows = changes.changed.slice(i, i + UPSERT_CHUNK).map((e) => ({ ...owner, ...e, updated_at: updatedAt }));
+    const { error } = await sb.from("google_events").upsert(rows, { onConflict: "account_id,calendar_id,event_id" });
+    if (error) throw error;
+  }
+  if (changes.removed.length > 0) {
+    await sb
+      .from("google_events")
+      .delete()
+      .eq("account_id", owner.account_id)
+      .eq("calendar_id", owner.calendar_id)
+      .in("event_id", changes.removed);
+  }
+  await sb
+    .from("google_calendar_syncs")
+    .update({ sync_token: changes.nextSyncToken, synced_at: updatedAt })
+    .eq("id", sync.id);
+  return changes.changed.length + changes.removed.length;
+}
+
+/** (Re)open the watch channel of a calendar when it is missing or about to expire. */
+async function ensureWatch(sb: any, google: GoogleAccess, sync: any, origin: string) {
+  if (!needsRenewal(sync.channel_expires_at)) return;
+  await stopWatch(sb, google.accessToken, sync).catch(() => {});
+  const token = randomToken();
+  const channel = await watchEvents({
+    apiBase: CALENDAR_API,
+    accessToken: google.accessToken,
+    calendarId: sync.calendar_id,
+    address: `${origin}/calendar_proxy/webhook`,
+    token,
+  });
+  await sb
+    .from("google_calendar_syncs")
+    .update({
+      channel_id: channel.channelId,
+      channel_resource_id: channel.resourceId,
+      channel_token: token,
+      channel_expires_at: channel.expiresAt,
+    })
+    .eq("id", sync.id);
+}
+
+/** Sync every calendar of the account and drop the cache of calendars it no longer lists. */
+async function syncAccountEvents(sb: any, userId: string, google: GoogleAccess, origin: string) {
+  const calendars = await listCalendars(google);
+  const { data: existing, error } = await sb
+    .from("google_calendar_syncs")
+    .select("*")
+    .eq("account_id", google.account.id);
+  if (error) throw error;
+
+  let changed = 0;
+  for (const calendar of calendars) {
+    let sync = (existing ?? []).find((s: any) => s.calendar_id === calendar.id);
+    if (!sync) {
+      const { data, error: insertError } = await sb
+        .from("google_calendar_syncs")
+        .insert({ user_id: userId, account_id: google.account.id, calendar_id: calendar.id })
+        .select("*")
+        .single();
+      if (insertError) throw insertError;
+      sync = data;
+    }
+    changed += await syncCalendarEvents(sb, google, sync);
+    try {
+      await ensureWatch(sb, google, sync, origin);
+    } catch (e) {
+      // Without a channel the cache still catches up on the next /events/sync
+      console.warn(`calendar_proxy: could not watch calendar ${sync.id}`, e);
+    }
+  }
+
+  const listed = new Set(calendars.map((c) => c.id));
+  for (const sync of (existing ?? []).filter((s: any) => !listed.has(s.calendar_id))) {
+    await stopWatch(sb, google.accessToken, sync).catch(() => {});
+    await sb.from("google_events").delete().eq("account_id", google.account.id).eq("calendar_id", sync.calendar_id);
+    await sb.from("google_calendar_syncs").delete().eq("id", sync.id);
+  }
+  return changed;
+}
+
+/** POST from Google on a watch channel. Always 200 so Google does not retry. */
+async function handleWebhook(req: Request) {
+  const notification = channelNotification(req.headers);
+  if (!notification) return new Response("ok");
+
+  const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { data: sync } = await sb.from("google_calendar_syncs").select("*").eq("channel_id", notification.channelId).maybeSingle();
+  if (!sync || !channelTokenMatches(sync.channel_token, notification.token)) return new Response("ok");
+  const account = (await getAccountsForUser(sync.user_id)).find((a) => a.id === sync.account_id);
+  if (!account) return new Response("ok");
+  try {
+    await syncCalendarEvents(sb, await withAccessToken(account), sync);
+  } catch (e) {
+    console.warn(`calendar_proxy: webhook sync failed for ${sync.id}`, e);
+  }
+  return new Response("ok");
+}
+
+/*
+ * CalDAV accounts (caldav.ts). Passwords stay server-side; the app lists accounts
+ * and asks for busy intervals through the routes below.
+ */
+
+const CALDAV_PUBLIC_COLUMNS = "id, server_url, username, calendars";
+
+// Where CalDAV requests may go: public https servers, plus http://localhost when
+// CALDAV_ALLOW_LOCALHOST=true (development only)
+const CALDAV_TARGETS: CaldavTargetPolicy = {
+  allowLocalhost: env("CALDAV_ALLOW_LOCALHOST") === "true",
+  resolveHost: async (hostname) => {
+    const lookups = await Promise.allSettled([Deno.resolveDns(hostname, "A"), Deno.resolveDns(hostname, "AAAA")]);
+    return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+  },
+};
+
+async function connectCaldavAccount(sb: any, userId: string, body: any) {
+  const serverUrl = String(body.server_url ?? "").trim();
+  const credentials = { username: String(body.username ?? "").trim(), password: String(body.password ?? "") };
+  if (!serverUrl || !credentials.username || !credentials.password) {
+    throw new CaldavError(400, "Server address, username and password are required");
+  }
+  const calendars = await discoverCalendars(serverUrl, credentials, CALDAV_TARGETS).catch((e) => {
+    throw e instanceof CaldavError ? e : new CaldavError(400, "Could not reach the server");
+  });
+  const { data, error } = await sb
+    .from("caldav_accounts")
+    .upsert(
+      { user_id: userId, server_url: serverUrl, ...credentials, calendars, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,server_url,username" },
+    )
+    .select(CALDAV_PUBLIC_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** `fn` over every CalDAV calendar of the user; unreachable calendars are skipped. */
+async function forEachCaldavCalendar<T>(
+  sb: any,
+  userId: string,
+  fn: (calendarUrl: string, account: any) => Promise<T[]>,
+): Promise<T[]> {
+  const { data: accounts, error } = await sb.from("caldav_accounts").select("*").eq("user_id", userId);
+  if (error) throw error;
+  const results: T[] = [];
+  for (const account of accounts ?? []) {
+    for (const calendar of account.calendars ?? []) {
+      try {
+        results.push(...await fn(calendar.url, account));
+      } catch (e) {
+        console.warn(`calendar_proxy: skipping CalDAV calendar of account ${account.id}`, e);
+      }
+    }
+  }
+  return results;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
 Deno.serve(async (req) => {
   try {
     const url = new URL(req.url);
@@ -221,34 +905,49 @@ Deno.serve(async (req) => {
         }
       }
       if (!user) return new Response("Unauthorized", { status: 401 });
-      const returnUrl = url.searchParams.get("return_url") || undefined;
-      const stateObj = { uid: user.id, ts: Date.now(), returnUrl };
-      const state = b64urlEncode(JSON.stringify(stateObj));
-      const { url: authUrl } = makeOAuthUrl(origin, state);
+      const returnUrl = url.searchParams.get("return_url");
+      if (returnUrl && !isAllowedReturnUrl(returnUrl, OAUTH_RETURN_URL_ALLOWLIST)) {
+        return new Response("return_url not allowed", { status: 400 });
+      }
+      const nonce = randomToken();
+      const pkce = await createPkcePair();
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const { error } = await sb.from("calendar_oauth_sessions").insert({
+        nonce,
+        user_id: user.id,
+        code_verifier: pkce.verifier,
+        return_url: returnUrl,
+        expires_at: new Date(Date.now() + STATE_TTL_MS).toISOString(),
+      });
+      if (error) throw error;
+      const state = await signState({ uid: user.id, nonce, exp: Date.now() + STATE_TTL_MS }, OAUTH_STATE_SECRET);
+      const { url: authUrl } = makeOAuthUrl(origin, state, pkce.challenge);
       return Response.redirect(authUrl, 302);
     }
 
     if (pathname === "/callback") {
-      const code = url.searchParams.get("code");
-      const state = url.searchParams.get("state");
-      if (!code || !state) return new Response("Missing code/state", { status: 400 });
-      let uid = "";
-      let returnUrl: string | undefined = undefined;
-      try {
-        const decoded = JSON.parse(b64urlDecode(state));
-        uid = decoded.uid;
-        returnUrl = decoded.returnUrl;
-      } catch {
-        return new Response("Invalid state", { status: 400 });
-      }
-      const redirect = `${origin}/calendar_proxy/callback`;
-      const tokens = await exchangeCodeForTokens(code, redirect);
-      await upsertCalendarAccount(uid, tokens);
-      if (returnUrl) {
-        return Response.redirect(returnUrl, 302);
-      }
-      const successHtml = `<!doctype html><meta charset="utf-8"><title>Connected</title><body style="font-family:system-ui;padding:24px;">Calendar connected. You can close this window.</body>`;
-      return new Response(successHtml, { headers: { "Content-Type": "text/html" } });
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      return await handleOAuthCallback(url, {
+        stateSecret: OAUTH_STATE_SECRET,
+        clientId: GOOGLE_CAL_CLIENT_ID,
+        clientSecret: GOOGLE_CAL_CLIENT_SECRET,
+        redirectUri: `${origin}/calendar_proxy/callback`,
+        returnUrlAllowList: OAUTH_RETURN_URL_ALLOWLIST,
+        consumeSession: async (nonce, uid) => {
+          const { data, error } = await sb
+            .from("calendar_oauth_sessions")
+            .update({ used_at: new Date().toISOString() })
+            .eq("nonce", nonce)
+            .eq("user_id", uid)
+            .is("used_at", null)
+            .gt("expires_at", new Date().toISOString())
+            .select("code_verifier, return_url")
+            .maybeSingle();
+          if (error) throw error;
+          return data;
+        },
+        saveTokens: (uid, tokens) => upsertCalendarAccount(uid, tokens, idTokenEmail(tokens.id_token)),
+      });
     }
 
     if (pathname === "/freebusy") {
@@ -257,21 +956,14 @@ Deno.serve(async (req) => {
       const start = url.searchParams.get("start");
       const end = url.searchParams.get("end");
       if (!start || !end) return new Response("Missing start/end", { status: 400 });
-      let ca = await getTokensForUser(user.id);
-      if (!ca?.access_token) return new Response("Not connected", { status: 404 });
-      let accessToken = ca.access_token;
-      const expiry = ca.token_expiry ? new Date(ca.token_expiry).getTime() : 0;
-      if (Date.now() > expiry - 60_000 && ca.refresh_token) {
-        try {
-          const refreshed = await refreshAccessToken(ca.refresh_token);
-          accessToken = refreshed.access_token;
-          await upsertCalendarAccount(user.id, refreshed);
-        } catch (_) {
-          // ignore refresh errors; will try with existing
-        }
-      }
-      const data = await fetchFreeBusy(accessToken, start, end);
-      return new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+      const accesses = await getGoogleAccess(user.id);
+      if (accesses.length === 0) return new Response("Not connected", { status: 404 });
+      const selection = await getCalendarSelection(user.id);
+      const busy = await forEachAccount(accesses, (google) =>
+        fetchFreeBusy(google, start, end, (key) => !selection.notBusy.includes(key))
+      );
+      const calendars = Object.assign({}, ...busy);
+      return new Response(JSON.stringify({ calendars }), { headers: { "Content-Type": "application/json" } });
     }
 
     if (pathname === "/events") {
@@ -280,19 +972,151 @@ Deno.serve(async (req) => {
       const start = url.searchParams.get("start");
       const end = url.searchParams.get("end");
       if (!start || !end) return new Response("Missing start/end", { status: 400 });
-      let ca = await getTokensForUser(user.id);
-      if (!ca?.access_token) return new Response("Not connected", { status: 404 });
-      let accessToken = ca.access_token;
-      const expiry = ca.token_expiry ? new Date(ca.token_expiry).getTime() : 0;
-      if (Date.now() > expiry - 60_000 && ca.refresh_token) {
+      const accesses = await getGoogleAccess(user.id);
+      if (accesses.length === 0) return new Response("Not connected", { status: 404 });
+      const selection = await getCalendarSelection(user.id);
+      const perAccount = await forEachAccount(accesses, (google) =>
+        fetchEvents(google, start, end, (key) => !selection.hidden.includes(key))
+      );
+      // A calendar shared with two connected accounts is listed by both; keep one copy
+      const seen = new Set<string>();
+      const data = perAccount.flat().filter((e) => {
+        const id = `${e.calendarId}:${e.id}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      });
+      return new Response(JSON.stringify({ events: data }), { headers: { "Content-Type": "application/json" } });
+    }
+
+    if (pathname === "/webhook") {
+      return await handleWebhook(req);
+    }
+
+    if (pathname === "/events/sync") {
+      if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+      const user = await getUserFromAuthHeader(req);
+      if (!user) return new Response("Unauthorized", { status: 401 });
+      const accesses = await getGoogleAccess(user.id);
+      if (accesses.length === 0) return new Response("Not connected", { status: 404 });
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const changed = await forEachAccount(accesses, (google) => syncAccountEvents(sb, user.id, google, origin));
+      return json({ changed: changed.reduce((sum, n) => sum + n, 0) });
+    }
+
+    if (pathname.startsWith("/caldav/")) {
+      const user = await getUserFromAuthHeader(req);
+      if (!user) return new Response("Unauthorized", { status: 401 });
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+      if (pathname === "/caldav/accounts") {
+        const { data, error } = await sb.from("caldav_accounts").select(CALDAV_PUBLIC_COLUMNS).eq("user_id", user.id).order("created_at");
+        if (error) throw error;
+        return json({ accounts: data ?? [] });
+      }
+      if (pathname === "/caldav/busy") {
+        const start = url.searchParams.get("start");
+        const end = url.searchParams.get("end");
+        if (!start || !end) return new Response("Missing start/end", { status: 400 });
+        const busy = await forEachCaldavCalendar(sb, user.id, (calendarUrl, account) => fetchCaldavBusy(calendarUrl, account, start, end, CALDAV_TARGETS));
+        return json({ busy: busy.sort((a, b) => a.start.localeCompare(b.start)) });
+      }
+      if (pathname === "/caldav/events") {
+        const start = url.searchParams.get("start");
+        const end = url.searchParams.get("end");
+        if (!start || !end) return new Response("Missing start/end", { status: 400 });
+        const events = await forEachCaldavCalendar(sb, user.id, async (calendarUrl, account) =>
+          (await fetchCaldavEvents(calendarUrl, account, start, end, CALDAV_TARGETS)).map((e) => ({
+            // Instances of a recurring event share the UID
+            id: `${e.uid}:${e.start}`,
+            calendarUrl,
+            title: e.title,
+            start: e.start,
+            end: e.end,
+            allDay: e.allDay,
+          }))
+        );
+        return json({ events });
+      }
+      if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+      const body = await req.json().catch(() => ({}));
+      if (pathname === "/caldav/connect") {
         try {
-          const refreshed = await refreshAccessToken(ca.refresh_token);
-          accessToken = refreshed.access_token;
-          await upsertCalendarAccount(user.id, refreshed);
-        } catch (_) {}
+          return json({ account: await connectCaldavAccount(sb, user.id, body) });
+        } catch (e) {
+          // Wrong password, bad address, no calendars: shown to the user as is
+          if (e instanceof CaldavError) return json({ error: e.message }, 400);
+          throw e;
+        }
+      }
+      if (pathname === "/caldav/remove") {
+        if (!body.account_id) return new Response("Missing account_id", { status: 400 });
+        await sb.from("caldav_accounts").delete().eq("id", String(body.account_id)).eq("user_id", user.id);
+        return json({ removed: true });
+      }
+    }
+
+    if (pathname === "/calendars") {
+      const user = await getUserFromAuthHeader(req);
+      if (!user) return new Response("Unauthorized", { status: 401 });
+      const accesses = await getGoogleAccess(user.id);
+      const selection = await getCalendarSelection(user.id);
+      const perAccount = await forEachAccount(accesses, async (google) =>
+        (await listCalendars(google)).map((c) => {
+          const key = calendarKey(google.account.id, c.id);
+          return {
+            key,
+            accountId: google.account.id,
+            accountEmail: google.account.email,
+            id: c.id,
+            name: c.summaryOverride || c.summary || c.id,
+            color: c.backgroundColor || null,
+            primary: !!c.primary,
+            busy: !selection.notBusy.includes(key),
+            shown: !selection.hidden.includes(key),
+          };
+        })
+      );
+      return json({ calendars: perAccount.flat() });
+    }
+
+    if (pathname === "/accounts/remove") {
+      if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+      const user = await getUserFromAuthHeader(req);
+      if (!user) return new Response("Unauthorized", { status: 401 });
+      const body = await req.json().catch(() => ({}));
+      if (!body.account_id) return new Response("Missing account_id", { status: 400 });
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const removed = await removeAccount(sb, user.id, String(body.account_id));
+      if (!removed) return new Response("Not found", { status: 404 });
+      return json({ removed: true });
+    }
+
+    if (pathname.startsWith("/tasks/")) {
+      if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+      const user = await getUserFromAuthHeader(req);
+      if (!user) return new Response("Unauthorized", { status: 401 });
+      const google = await getTaskSyncAccess(user.id);
+      if (!google) return new Response("Not connected", { status: 404 });
+      // Accounts connected before task sync only granted read access
+      if (!hasAppCalendarScope(google.account)) return json({ error: "reconnect_required" }, 403);
+      const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const body = await req.json().catch(() => ({}));
+      const taskIds: string[] = Array.isArray(body.task_ids) ? body.task_ids.map(String) : [];
+
+      if (pathname === "/tasks/upsert") {
+        if (!body.backfill && taskIds.length === 0) return json({ written: 0 });
+        if (!body.backfill) return json({ written: await pushTasks(sb, user.id, google, taskIds) });
+        const written = await pushTasks(sb, user.id, google, null) + await pushRules(sb, user.id, google, null);
+        return json({ written });
+      }
+      if (pathname === "/tasks/flush") {
+        return json(await flushPushQueue(sb, user.id, google));
+      }
+      if (pathname === "/tasks/pull") {
+        const updated = await pullTaskEdits(sb, user.id, google);
+        return json({ updated });
       }
-      const data = await fetchEvents(accessToken, start, end);
-      return new Response(JSON.stringify({ events: data }), { headers: { "Content-Type": "application/json" } });
     }
 
     return new Response("Not found", { status: 404 });
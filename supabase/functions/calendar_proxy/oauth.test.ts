@@ -0,0 +1,208 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+
+import {
+  CallbackDeps,
+  handleOAuthCallback,
+  isAllowedReturnUrl,
+  OAuthSession,
+  signState,
+  STATE_TTL_MS,
+  TokenResponse,
+} from "./oauth.ts";
+
+const SECRET = "state-secret";
+const REDIRECT_URI = "https://example.functions.supabase.co/calendar_proxy/callback";
+const ALLOW_LIST = ["momentum"];
+const NOW = Date.parse("2025-06-02T12:00:00Z");
+
+// Fake Google token endpoint: records every form it gets and answers with tokens
+let server: Server;
+let tokenUrl: string;
+let tokenRequests: URLSearchParams[] = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const form = new URLSearchParams(body);
+      tokenRequests.push(form);
+      if (form.get("code") === "bad-code") {
+        res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "invalid_grant" }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(
+        JSON.stringify({ access_token: "access-1", refresh_token: "refresh-1", expires_in: 3599, token_type: "Bearer" }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// In-memory calendar_oauth_sessions with the same rules as the update in index.ts
+interface StoredSession extends OAuthSession {
+  uid: string;
+  expiresAt: number;
+  used: boolean;
+}
+
+let sessions: Map<string, StoredSession>;
+let saved: { uid: string; tokens: TokenResponse }[];
+
+beforeEach(() => {
+  tokenRequests = [];
+  saved = [];
+  sessions = new Map([
+    ["nonce-a", { uid: "user-a", code_verifier: "verifier-a", return_url: "momentum://calendar/connected", expiresAt: NOW + STATE_TTL_MS, used: false }],
+    ["nonce-b", { uid: "user-b", code_verifier: "verifier-b", return_url: null, expiresAt: NOW + STATE_TTL_MS, used: false }],
+  ]);
+});
+
+function deps(overrides: Partial<CallbackDeps> = {}): CallbackDeps {
+  return {
+    stateSecret: SECRET,
+    clientId: "client-id",
+    clientSecret: "client-secret",
+    redirectUri: REDIRECT_URI,
+    tokenUrl,
+    returnUrlAllowList: ALLOW_LIST,
+    consumeSession: async (nonce, uid) => {
+      const session = sessions.get(nonce);
+      if (!session || session.uid !== uid || session.used || session.expiresAt <= NOW) return null;
+      session.used = true;
+      return { code_verifier: session.code_verifier, return_url: session.return_url };
+    },
+    saveTokens: async (uid, tokens) => {
+      saved.push({ uid, tokens });
+    },
+    now: NOW,
+    ...overrides,
+  };
+}
+
+async function state(uid: string, nonce: string, options: { secret?: string; exp?: number } = {}): Promise<string> {
+  return await signState({ uid, nonce, exp: options.exp ?? NOW + STATE_TTL_MS }, options.secret ?? SECRET);
+}
+
+function callbackUrl(params: Record<string, string>): URL {
+  return new URL(`${REDIRECT_URI}?${new URLSearchParams(params)}`);
+}
+
+describe("handleOAuthCallback", () => {
+  it("exchanges the code with the session's PKCE verifier and redirects to the return URL", async () => {
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: await state("user-a", "nonce-a") }), deps());
+
+    assert.equal(resp.status, 302);
+    assert.equal(resp.headers.get("location"), "momentum://calendar/connected");
+    assert.equal(tokenRequests.length, 1);
+    const form = tokenRequests[0];
+    assert.equal(form.get("code"), "code-1");
+    assert.equal(form.get("code_verifier"), "verifier-a");
+    assert.equal(form.get("grant_type"), "authorization_code");
+    assert.equal(form.get("redirect_uri"), REDIRECT_URI);
+    assert.equal(form.get("client_id"), "client-id");
+    assert.deepEqual(saved.map((s) => [s.uid, s.tokens.refresh_token]), [["user-a", "refresh-1"]]);
+  });
+
+  it("shows a page when the session has no return URL", async () => {
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: await state("user-b", "nonce-b") }), deps());
+
+    assert.equal(resp.status, 200);
+    assert.match(await resp.text(), /Calendar connected/);
+    assert.equal(tokenRequests[0].get("code_verifier"), "verifier-b");
+  });
+
+  it("rejects a callback without code or state", async () => {
+    const resp = await handleOAuthCallback(callbackUrl({ state: await state("user-a", "nonce-a") }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(tokenRequests.length, 0);
+    assert.equal(sessions.get("nonce-a")!.used, false);
+  });
+
+  it("rejects a state signed with another secret", async () => {
+    const forged = await state("user-a", "nonce-a", { secret: "attacker-secret" });
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: forged }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(tokenRequests.length, 0);
+    assert.equal(sessions.get("nonce-a")!.used, false);
+  });
+
+  it("rejects a state whose payload was changed after signing", async () => {
+    const [, signature] = (await state("user-a", "nonce-a")).split(".");
+    const [otherBody] = (await state("user-b", "nonce-a")).split(".");
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: `${otherBody}.${signature}` }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(tokenRequests.length, 0);
+  });
+
+  it("rejects an expired state", async () => {
+    const expired = await state("user-a", "nonce-a", { exp: NOW - 1 });
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: expired }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(tokenRequests.length, 0);
+  });
+
+  it("rejects a replayed state once its nonce was used", async () => {
+    const url = callbackUrl({ code: "code-1", state: await state("user-a", "nonce-a") });
+    assert.equal((await handleOAuthCallback(url, deps())).status, 302);
+
+    const replay = await handleOAuthCallback(url, deps());
+    assert.equal(replay.status, 400);
+    assert.equal(tokenRequests.length, 1);
+    assert.equal(saved.length, 1);
+  });
+
+  it("rejects a state whose uid does not own the session", async () => {
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: await state("user-b", "nonce-a") }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(tokenRequests.length, 0);
+    assert.equal(sessions.get("nonce-a")!.used, false);
+  });
+
+  it("rejects a stored return URL outside the allow-list without exchanging the code", async () => {
+    sessions.get("nonce-a")!.return_url = "https://evil.example/steal";
+    const resp = await handleOAuthCallback(callbackUrl({ code: "code-1", state: await state("user-a", "nonce-a") }), deps());
+
+    assert.equal(resp.status, 400);
+    assert.equal(resp.headers.get("location"), null);
+    assert.equal(tokenRequests.length, 0);
+    assert.equal(saved.length, 0);
+  });
+
+  it("fails when the token endpoint refuses the code", async () => {
+    await assert.rejects(
+      handleOAuthCallback(callbackUrl({ code: "bad-code", state: await state("user-a", "nonce-a") }), deps()),
+      /token exchange failed: 400/,
+    );
+    assert.equal(saved.length, 0);
+  });
+});
+
+describe("isAllowedReturnUrl", () => {
+  it("matches a bare scheme as a whole scheme only", () => {
+    assert.equal(isAllowedReturnUrl("momentum://calendar/connected", ["momentum"]), true);
+    assert.equal(isAllowedReturnUrl("momentum-evil://calendar", ["momentum"]), false);
+    assert.equal(isAllowedReturnUrl("https://momentum.example/cb", ["momentum"]), false);
+  });
+
+  it("matches URL prefixes", () => {
+    const allowList = ["https://app.example.com/"];
+    assert.equal(isAllowedReturnUrl("https://app.example.com/settings", allowList), true);
+    assert.equal(isAllowedReturnUrl("https://app.example.com.evil.example/settings", allowList), false);
+  });
+
+  it("rejects anything that is not a URL", () => {
+    assert.equal(isAllowedReturnUrl("not a url", ["momentum"]), false);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * OAuth connect flow helpers for calendar_proxy.
+ *
+ * `state` is `<payload>.<signature>`: base64url JSON `{ uid, nonce, exp }` signed with
+ * HMAC-SHA256, valid for STATE_TTL_MS. The nonce names a calendar_oauth_sessions row
+ * holding the PKCE code verifier and the (allow-listed) return URL; the callback
+ * consumes that row, so a state works once. The verifier never leaves the server.
+ *
+ * The callback handler takes its collaborators as arguments so it can run against a
+ * fake token endpoint and in-memory storage.
+ */
+
+export const STATE_TTL_MS = 10 * 60 * 1000;
+export const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+export interface StatePayload {
+  uid: string;
+  nonce: string;
+  exp: number; // epoch ms
+}
+
+export interface OAuthSession {
+  code_verifier: string;
+  return_url: string | null;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+  token_type?: string;
+  id_token?: string; // present when the "openid" scope was granted
+}
+
+const encoder = new TextEncoder();
+
+function b64url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
+}
+
+function b64urlToString(s: string): string {
+  const pad = (4 - (s.length % 4)) % 4;
+  return atob(s.replaceAll("-", "+").replaceAll("_", "/") + "=".repeat(pad));
+}
+
+/**
+ * The email claim of an ID token from the token endpoint. The token came straight
+ * from Google over TLS, so its signature is not checked again here.
+ */
+export function idTokenEmail(idToken: string | undefined): string | null {
+  const payload = idToken?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(b64urlToString(payload));
+    return typeof claims?.email === "string" ? claims.email.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function randomToken(byteLength = 32): string {
+  return b64url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function hmac(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return b64url(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data))));
+}
+
+// Constant time, so the signature check does not leak how many characters matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function signState(payload: StatePayload, secret: string): Promise<string> {
+  const body = b64url(encoder.encode(JSON.stringify(payload)));
+  return `${body}.${await hmac(secret, body)}`;
+}
+
+/** The payload of a state we signed that has not expired, otherwise null. */
+export async function verifyState(state: string, secret: string, now = Date.now()): Promise<StatePayload | null> {
+  const [body, signature, extra] = state.split(".");
+  if (!body || !signature || extra !== undefined) return null;
+  if (!safeEqual(signature, await hmac(secret, body))) return null;
+  try {
+    const payload = JSON.parse(b64urlToString(body));
+    if (typeof payload?.uid !== "string" || typeof payload?.nonce !== "string" || typeof payload?.exp !== "number") return null;
+    return payload.exp > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** PKCE (RFC 7636) S256 pair. */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomToken(48);
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(verifier));
+  return { verifier, challenge: b64url(new Uint8Array(digest)) };
+}
+
+/**
+ * Return URLs must start with one of the allowed prefixes (the app's own scheme by
+ * default). Prefixes without "://" are matched as whole schemes only.
+ */
+export function isAllowedReturnUrl(returnUrl: string, allowList: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(returnUrl);
+  } catch {
+    return false;
+  }
+  return allowList.some((prefix) => {
+    if (!prefix.includes("://")) return parsed.protocol === `${prefix.replace(/:$/, "")}:`;
+    return returnUrl.startsWith(prefix);
+  });
+}
+
+export async function exchangeCodeForTokens(options: {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  clientId: string;
+  clientSecret: string;
+  tokenUrl?: string;
+}): Promise<TokenResponse> {
+  const body = new URLSearchParams({
+    code: options.code,
+    client_id: options.clientId,
+    client_secret: options.clientSecret,
+    grant_type: "authorization_code",
+    redirect_uri: options.redirectUri,
+    code_verifier: options.codeVerifier,
+  });
+  const resp = await fetch(options.tokenUrl ?? GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+  if (!resp.ok) throw new Error(`token exchange failed: ${resp.status}`);
+  return await resp.json();
+}
+
+export interface CallbackDeps {
+  stateSecret: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  tokenUrl?: string;
+  returnUrlAllowList: string[];
+  // Marks the session used and returns it; null when unknown, used, expired or not `uid`'s
+  consumeSession: (nonce: string, uid: string) => Promise<OAuthSession | null>;
+  saveTokens: (uid: string, tokens: TokenResponse) => Promise<void>;
+  now?: number;
+}
+
+/** GET /callback?code&state from Google. */
+export async function handleOAuthCallback(url: URL, deps: CallbackDeps): Promise<Response> {
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  if (!code || !state) return new Response("Missing code/state", { status: 400 });
+
+  const payload = await verifyState(state, deps.stateSecret, deps.now);
+  if (!payload) return new Response("Invalid or expired state", { status: 400 });
+  const session = await deps.consumeSession(payload.nonce, payload.uid);
+  if (!session) return new Response("Invalid or expired state", { status: 400 });
+  // Checked again here: the stored URL may predate a change to the allow-list
+  if (session.return_url && !isAllowedReturnUrl(session.return_url, deps.returnUrlAllowList)) {
+    return new Response("return_url not allowed", { status: 400 });
+  }
+
+  const tokens = await exchangeCodeForTokens({
+    code,
+    redirectUri: deps.redirectUri,
+    codeVerifier: session.code_verifier,
+    clientId: deps.clientId,
+    clientSecret: deps.clientSecret,
+    tokenUrl: deps.tokenUrl,
+  });
+  await deps.saveTokens(payload.uid, tokens);
+
+  if (session.return_url) {
+    return Response.redirect(session.return_url, 302);
+  }
+  const successHtml = `<!doctype html><meta charset="utf-8"><title>Connected</title><body style="font-family:system-ui;padding:24px;">Calendar connected. You can close this window.</body>`;
+  return new Response(successHtml, { headers: { "Content-Type": "text/html" } });
+}
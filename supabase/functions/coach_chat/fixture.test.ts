@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { LlmProvider, llmFromEnv } from "../_shared/llm.ts";
+import { GOAL_CREATION_FIXTURES } from "../_shared/llmFixtures.ts";
+import { generateStructured } from "../_shared/structuredOutput.ts";
+// The app's copy of the plan schemas: _shared/planSchema.ts loads zod from deno.land
+import { PlanZ } from "../../../lib/ai/planSchema.ts";
+import { coachHistory, goalPlanPrompt, TranscriptMessage } from "./prompts.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What coach_chat is started with in the fixture setup
+function fixtureLlm(vars: Record<string, string> = {}): LlmProvider {
+  return llmFromEnv((name) => ({ LLM_PROVIDER: "fixture", ...vars })[name], GOAL_CREATION_FIXTURES);
+}
+
+/** One chat turn the way coach_chat streams it: the reply is the deltas joined. */
+async function coachReply(llm: LlmProvider, messages: TranscriptMessage[]): Promise<{ text: string; deltas: number }> {
+  let text = "";
+  let deltas = 0;
+  for await (const delta of llm.stream({ messages: coachHistory(messages) })) {
+    text += delta;
+    deltas++;
+  }
+  return { text, deltas };
+}
+
+const ANSWERS = [
+  "I want to learn something new",
+  "Learn to play a song on the guitar",
+  "In four weeks",
+  "About three hours a week",
+  "Tuesdays, Thursdays and Saturdays",
+  "Evenings after 6pm",
+];
+
+describe("coach_chat with LLM_PROVIDER=fixture", () => {
+  it("asks the goal questions in order and ends with the line the app waits for", async () => {
+    const llm = fixtureLlm();
+    assert.equal(llm.name, "fixture");
+
+    const messages: TranscriptMessage[] = [];
+    const replies: string[] = [];
+    for (const answer of ANSWERS) {
+      messages.push({ role: "user", content: answer });
+      const reply = await coachReply(llm, messages);
+      assert.ok(reply.deltas > 1, "the reply is streamed in pieces");
+      messages.push({ role: "assistant", content: reply.text });
+      replies.push(reply.text);
+    }
+
+    assert.equal(new Set(replies).size, replies.length, "no question is asked twice");
+    assert.match(replies[0], /What specific goal/);
+    assert.match(replies[1], /When do you want to achieve it/);
+    assert.match(replies[replies.length - 1], /I have all the information I need/);
+  });
+
+  it("turns the finished chat into a plan that fits PlanZ", async () => {
+    const llm = fixtureLlm();
+    const messages: TranscriptMessage[] = [];
+    for (const answer of ANSWERS) {
+      messages.push({ role: "user", content: answer });
+      messages.push({ role: "assistant", content: (await coachReply(llm, messages)).text });
+    }
+
+    const before = Date.now();
+    const result = await generateStructured(
+      llm,
+      { messages: [{ role: "user", content: goalPlanPrompt(messages, { unitSystem: "metric" }) }], tier: "quality" },
+      PlanZ,
+    );
+
+    assert.ok(result.ok, "the fixture plan is valid");
+    assert.equal(result.attempts, 1);
+    const { goal, tasks } = result.value;
+    assert.equal(goal.title, "Practice guitar");
+    assert.equal(tasks.length, 6);
+    assert.deepEqual(tasks.map((t) => t.seq), [1, 2, 3, 4, 5, 6]);
+    for (const task of tasks) {
+      const due = Date.parse(task.due_at);
+      assert.ok(due > before && due < before + 28 * DAY_MS, `${task.due_at} is within the plan`);
+    }
+  });
+
+  it("reports a fixture plan that does not fit PlanZ after re-prompting", async () => {
+    // No match, so the re-prompt gets the same reply
+    const broken = [{ kind: "json", response: { goal: { title: "No tasks" } } }];
+    const llm = fixtureLlm({ LLM_FIXTURES: JSON.stringify(broken) });
+    const prompt = goalPlanPrompt([{ role: "user", content: "Learn the guitar" }]);
+
+    const result = await generateStructured(llm, { messages: [{ role: "user", content: prompt }] }, PlanZ, { maxAttempts: 2 });
+
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.failure.kind, "invalid_schema");
+    assert.equal(result.failure.attempts, 2);
+    assert.ok(result.failure.issues.some((issue) => issue.startsWith("tasks")), result.failure.issues.join("; "));
+  });
+
+  it("fails a chat no fixture answers instead of making a reply up", async () => {
+    const llm = fixtureLlm({ LLM_FIXTURES: "[]" });
+    await assert.rejects(coachReply(llm, [{ role: "user", content: "Hello" }]), /No stream fixture matches/);
+  });
+});
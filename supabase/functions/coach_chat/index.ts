@@ -0,0 +1,205 @@
+// deno-lint-ignore-file no-explicit-any
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { llmFromEnv } from "../_shared/llm.ts";
+import { GOAL_CREATION_FIXTURES } from "../_shared/llmFixtures.ts";
+import { PlanZ } from "../_shared/planSchema.ts";
+import { generateStructured } from "../_shared/structuredOutput.ts";
+import { coachHistory, CoachUserContext, goalPlanPrompt, TranscriptMessage } from "./prompts.ts";
+
+/**
+ * The app's AI coach, so no model key ships in the app.
+ *
+ *   POST { mode: "chat", chatId?, messages, userContext? }
+ *     Streams the reply as server-sent events: { chatId } first, then { delta } per
+ *     chunk and { done: true }, or { error } if the model fails midway. Free tiers
+ *     get can_create_chat's weekly number of chats; the first request of a chat
+ *     (a chatId not in chat_usage yet, or none) is checked and recorded. The turn
+ *     and the reply (also a stopped or cut-off one) go to the caller's chat history,
+ *     the conversations row with id chatId.
+ *   POST { mode: "plan", messages, userContext? }
+ *     { plan }: the structured goal plan the app schedules, checked against PlanZ
+ *     (the model is re-prompted with what is wrong). Premium only, like AI goal
+ *     creation in the app.
+ *
+ * 429 { error: "chat_limit_reached" } and 403 { error: "premium_required" } when the
+ * tier does not allow the request; for plans, 422 { error: "invalid_plan", failure }
+ * when no reply fit PlanZ and 502 { error, failure } when the model failed.
+ */
+
+function env(n: string, d = ""): string { const v = Deno.env.get(n); if (!v && !d) throw new Error(`Missing env ${n}`); return v ?? d; }
+const SUPABASE_URL = env("SUPABASE_URL");
+const SUPABASE_ANON_KEY = env("SUPABASE_ANON_KEY");
+
+const MAX_MESSAGES = 50;
+const MAX_MESSAGE_CHARS = 8000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TITLE_CHARS = 80;
+
+const llm = llmFromEnv((name) => Deno.env.get(name), GOAL_CREATION_FIXTURES);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+async function authUser(req: Request) {
+  const auth = req.headers.get("authorization") || req.headers.get("Authorization");
+  if (!auth) return { user: null, sb: null } as any;
+  const sb = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { global: { headers: { Authorization: auth } } });
+  const { data } = await sb.auth.getUser();
+  return { user: data.user ?? null, sb } as any;
+}
+
+/** get_effective_subscription weighs status, expiry, the admin override and trials, not just the tier. */
+async function isPremium(sb: any, userId: string): Promise<boolean> {
+  const { data, error } = await sb.rpc("get_effective_subscription", { p_user_id: userId });
+  if (error) throw error;
+  const row = Array.isArray(data) ? data[0] : data;
+  return row?.is_premium === true;
+}
+
+/**
+ * Counts a new chat against the weekly quota; false when the quota is used up. A
+ * known chatId is free. admit_chat checks and records under a per-user lock.
+ */
+async function admitChat(sb: any, chatId: string): Promise<boolean> {
+  const { data, error } = await sb.rpc("admit_chat", { p_chat_id: chatId });
+  if (error) throw error;
+  return data === true;
+}
+
+function transcript(raw: unknown): TranscriptMessage[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_MESSAGES) return null;
+  const messages = raw.map((m: any) => ({ role: m?.role === "assistant" ? "assistant" : "user", content: typeof m?.content === "string" ? m.content : "" }));
+  return messages.every((m) => m.content && m.content.length <= MAX_MESSAGE_CHARS) ? messages : null;
+}
+
+function threadTitle(messages: TranscriptMessage[]): string {
+  const first = (messages.find((m) => m.role === "user")?.content ?? "").replace(/\s+/g, " ").trim();
+  return first.length > TITLE_CHARS ? `${first.slice(0, TITLE_CHARS - 1)}…` : first || "New chat";
+}
+
+/**
+ * Stores the incoming turn in the caller's history: the whole transcript when the
+ * thread is new (the app may open with its own greeting), else the last message.
+ * History is best effort and never fails the chat.
+ */
+async function saveTurn(sb: any, userId: string, chatId: string, messages: TranscriptMessage[]): Promise<void> {
+  try {
+    const { data: existing, error: existingError } = await sb.from("conversations").select("id").eq("id", chatId).maybeSingle();
+    if (existingError) throw existingError;
+    if (!existing) {
+      const { error } = await sb.from("conversations").insert({ id: chatId, user_id: userId, title: threadTitle(messages) });
+      if (error) throw error;
+    }
+    const turn = existing ? messages.slice(-1) : messages;
+    // One insert shares one now(): spread the timestamps so the order survives
+    const base = Date.now() - turn.length;
+    const { error } = await sb.from("messages").insert(turn.map((m, i) => ({
+      conversation_id: chatId,
+      user_id: userId,
+      role: m.role,
+      content: m.content,
+      created_at: new Date(base + i).toISOString(),
+    })));
+    if (error) throw error;
+  } catch (e) {
+    console.error("coach_chat could not save the turn", e);
+  }
+}
+
+type ReplyEnd = "done" | "stopped" | "interrupted";
+
+async function saveReply(sb: any, userId: string, chatId: string, content: string, end: ReplyEnd): Promise<void> {
+  if (!content) return;
+  const { error } = await sb.from("messages").insert({
+    conversation_id: chatId,
+    user_id: userId,
+    role: "assistant",
+    content,
+    status: end === "done" ? null : end,
+  });
+  if (error) console.error("coach_chat could not save the reply", error);
+}
+
+/**
+ * Server-sent events: `first`, then the deltas, then done (or an error). When the
+ * client goes away (the user stopped the answer) the model stream is closed too.
+ * `onEnd` gets the text sent so far and how the reply ended.
+ */
+function streamReply(
+  first: Record<string, unknown>,
+  deltas: AsyncGenerator<string>,
+  onEnd: (text: string, end: ReplyEnd) => Promise<void>,
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let text = "";
+  let ended = false;
+  const end = async (how: ReplyEnd) => {
+    if (ended) return;
+    ended = true;
+    await onEnd(text, how);
+  };
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      send(first);
+      try {
+        for await (const delta of deltas) {
+          if (cancelled) return;
+          text += delta;
+          send({ delta });
+        }
+        await end("done");
+        send({ done: true });
+      } catch (e) {
+        if (cancelled) return;
+        console.error("coach_chat stream failed", e);
+        await end("interrupted");
+        send({ error: String((e as any)?.message ?? e) });
+      }
+      controller.close();
+    },
+    async cancel() {
+      cancelled = true;
+      await end("stopped");
+      await deltas.return(undefined);
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" } });
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+    const { user, sb } = await authUser(req);
+    if (!user || !sb) return new Response("Unauthorized", { status: 401 });
+    const payload = await req.json();
+    const messages = transcript(payload.messages);
+    if (!messages) return json({ error: `messages must be 1-${MAX_MESSAGES} non-empty messages` }, 400);
+    const userContext: CoachUserContext = payload.userContext ?? {};
+    const premium = await isPremium(sb, user.id);
+
+    if (payload.mode === "plan") {
+      if (!premium) return json({ error: "premium_required" }, 403);
+      const result = await generateStructured(llm, { messages: [{ role: "user", content: goalPlanPrompt(messages, userContext) }], tier: "quality" }, PlanZ);
+      if (!result.ok) {
+        const { failure } = result;
+        console.error("coach_chat plan failed", failure);
+        return failure.kind === "provider"
+          ? json({ error: failure.message, failure }, 502)
+          : json({ error: "invalid_plan", failure }, 422);
+      }
+      return json({ plan: result.value });
+    }
+
+    const chatId = typeof payload.chatId === "string" && UUID_RE.test(payload.chatId) ? payload.chatId : crypto.randomUUID();
+    if (!premium && !(await admitChat(sb, chatId))) return json({ error: "chat_limit_reached" }, 429);
+
+    await saveTurn(sb, user.id, chatId, messages);
+    return streamReply({ chatId }, llm.stream({ messages: coachHistory(messages, userContext) }), (text, end) => saveReply(sb, user.id, chatId, text, end));
+  } catch (e) {
+    console.error("coach_chat failed", e);
+    return json({ error: String((e as any)?.message ?? e) }, 500);
+  }
+});
@@ -1,5 +1,9 @@
 // deno-lint-ignore-file no-explicit-any
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { createLlmProvider, LlmProvider, llmConfigFromEnv, llmFromEnv } from "../_shared/llm.ts";
+import { GOAL_CREATION_FIXTURES } from "../_shared/llmFixtures.ts";
+import { DraftPlanZ } from "../_shared/planSchema.ts";
+import { generateStructured } from "../_shared/structuredOutput.ts";
 
 type SaKey = {
   client_email: string;
@@ -15,10 +19,9 @@ function env(name: string, def = ""): string {
 
 const SUPABASE_URL = env("SUPABASE_URL");
 const SUPABASE_ANON_KEY = env("SUPABASE_ANON_KEY");
-const GCP_SA_KEY = env("GCP_SA_KEY");
-const GCP_PROJECT_ID = env("GCP_PROJECT_ID");
+// Gemini goes through Vertex AI when a service account is set, else AI Studio (GEMINI_API_KEY)
+const GCP_SA_KEY = Deno.env.get("GCP_SA_KEY");
 const GCP_LOCATION = env("GCP_LOCATION", "us-central1");
-const MODEL_NAME = env("GEMINI_MODEL", "gemini-2.5-pro");
 
 function b64url(input: string | ArrayBuffer): string {
   let bin = typeof input === "string" ? input : String.fromCharCode(...new Uint8Array(input as ArrayBuffer));
@@ -63,34 +66,20 @@ async function getAccessToken(sa: SaKey): Promise<string> {
   return json.access_token as string;
 }
 
-async function callGemini(accessToken: string, prompt: string, schema: any) {
-  const url = `https://${GCP_LOCATION}-aiplatform.googleapis.com/v1/projects/${GCP_PROJECT_ID}/locations/${GCP_LOCATION}/publishers/google/models/${MODEL_NAME}:generateContent`;
-  const body = {
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.3,
-      candidateCount: 1,
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    },
-  };
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
-    body: JSON.stringify(body),
+function plannerLlm(): LlmProvider {
+  const get = (name: string) => Deno.env.get(name);
+  const config = llmConfigFromEnv(get);
+  if (config.provider !== "gemini" || !GCP_SA_KEY) return llmFromEnv(get, GOAL_CREATION_FIXTURES);
+  const sa: SaKey = JSON.parse(GCP_SA_KEY);
+  return createLlmProvider({
+    ...config,
+    vertex: { project: Deno.env.get("GCP_PROJECT_ID") || sa.project_id, location: GCP_LOCATION, accessToken: () => getAccessToken(sa) },
   });
-  if (!resp.ok) throw new Error(`Gemini error: ${resp.status}`);
-  const json: any = await resp.json();
-  const text = json.candidates?.[0]?.content?.parts?.[0]?.text ?? json.candidates?.[0]?.content?.parts?.[0]?.inline_data?.data;
-  if (!text) throw new Error("No content returned");
-  return JSON.parse(text);
 }
 
+const llm = plannerLlm();
+
+// JSON Schema for the model's structured output mode; DraftPlanZ checks the reply
 function plannerSchema() {
   return {
     type: "object",
@@ -102,6 +91,7 @@ function plannerSchema() {
           description: { type: "string" },
           targetDate: { type: "string" },
           successCriteria: { type: "array", items: { type: "string" } },
+          energy: { type: "string", enum: ["low", "medium", "high"] },
         },
         required: ["title", "targetDate"],
       },
@@ -144,6 +134,7 @@ function plannerSchema() {
             sessionMaxMinutes: { type: "integer" },
             allowSplitting: { type: "boolean" },
             priority: { type: "string" },
+            energy: { type: "string", enum: ["low", "medium", "high"] },
           },
           required: ["id", "title", "estimatedMinutes"],
         },
@@ -160,6 +151,7 @@ User profile (JSON): ${JSON.stringify(profile)}
 Constraints (JSON): ${JSON.stringify(constraints)}
 Chat summary: ${chatSummary ?? ""}
 Intent: ${intent}
+Tag the goal and each task with energy (low, medium or high) by how demanding the work is.
 Return only JSON that matches the provided schema.`;
 }
 
@@ -198,11 +190,14 @@ Deno.serve(async (req) => {
     const body = await req.json();
     const ctx = await getContext(user.id);
     const prompt = buildPrompt({ intent: body.intent, constraints: body.constraints ?? {}, chatSummary: body.chatSummary ?? "", profile: { ...ctx.profile, tz: ctx.tz, preferences: ctx.preferences } });
-    const sa: SaKey = JSON.parse(GCP_SA_KEY);
-    const token = await getAccessToken(sa);
-    const schema = plannerSchema();
-    const plan = await callGemini(token, prompt, schema);
-    return new Response(JSON.stringify({ plan }), { headers: { "Content-Type": "application/json" } });
+    const result = await generateStructured(llm, { messages: [{ role: "user", content: prompt }], schema: plannerSchema(), tier: "quality", temperature: 0.3 }, DraftPlanZ);
+    if (!result.ok) {
+      const { failure } = result;
+      console.error("planner_v2 plan failed", failure);
+      const error = failure.kind === "provider" ? failure.message : "invalid_plan";
+      return new Response(JSON.stringify({ error, failure }), { status: failure.kind === "provider" ? 502 : 422, headers: { "Content-Type": "application/json" } });
+    }
+    return new Response(JSON.stringify({ plan: result.value }), { headers: { "Content-Type": "application/json" } });
   } catch (e) {
     return new Response(JSON.stringify({ error: String(e?.message ?? e) }), { status: 500, headers: { "Content-Type": "application/json" } });
   }
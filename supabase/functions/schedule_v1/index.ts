@@ -1,5 +1,9 @@
 // deno-lint-ignore-file no-explicit-any
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { isValidTimeZone, zonedDaysInRange, zonedParts, zonedTimeToUtc } from "../_shared/timezone.ts";
+import { Availability, DEFAULT_AVAILABILITY, normalizeAvailability, timeToMinutes, windowsForDate } from "../_shared/availability.ts";
+import { Interval, subtractBusy } from "../_shared/intervals.ts";
+import { bestSlot, EnergyLevel, normalizeEnergy, SlotContext } from "../_shared/slotScoring.ts";
 
 function env(n: string, d = ""): string { const v = Deno.env.get(n); if (!v && !d) throw new Error(`Missing env ${n}`); return v ?? d; }
 const SUPABASE_URL = env("SUPABASE_URL");
@@ -16,68 +20,306 @@ type Task = {
   sessionMinMinutes?: number;
   sessionMaxMinutes?: number;
   allowSplitting?: boolean;
+  energy?: EnergyLevel; // effort the task takes; the goal's when unset
 };
 
 function iso(date: Date) { return date.toISOString(); }
 
-type Interval = { start: number; end: number };
+function minutes(ms: number) { return Math.floor(ms / 60000); }
 
-function subtractBusy(freeWindows: Interval[], busy: Interval[]): Interval[] {
-  let free = [...freeWindows];
-  for (const b of busy) {
-    const next: Interval[] = [];
-    for (const f of free) {
-      if (b.end <= f.start || b.start >= f.end) { next.push(f); continue; }
-      if (b.start > f.start) next.push({ start: f.start, end: Math.max(f.start, b.start) });
-      if (b.end < f.end) next.push({ start: Math.min(b.end, f.end), end: f.end });
-    }
-    free = next.filter(iv => iv.end - iv.start > 0);
-  }
-  return free;
+// Preview knobs the app lets the user turn before committing a plan
+type ScheduleOptions = {
+  daysPerWeek?: number; // use only this many weekdays, spread over the week
+  sessionMinutes?: number; // every session this long (the last one of a task may be shorter)
+};
+
+function normalizeOptions(raw: any): ScheduleOptions {
+  const days = Math.round(Number(raw?.daysPerWeek));
+  const mins = Math.round(Number(raw?.sessionMinutes));
+  return {
+    daysPerWeek: days >= 1 && days <= 7 ? days : undefined,
+    sessionMinutes: mins >= 15 && mins <= 480 ? mins : undefined,
+  };
 }
 
-function minutes(ms: number) { return Math.floor(ms / 60000); }
+/**
+ * `count` of the weekdays that have availability windows, spread evenly over the week
+ * (Monday first): 3 of Mon-Fri gives Mon, Wed, Fri. Null means every weekday.
+ */
+function pickWeekdays(availability: Availability, count: number | undefined): Set<number> | null {
+  const available = [1, 2, 3, 4, 5, 6, 0].filter((d) => (availability.weekly[d]?.length ?? 0) > 0);
+  if (!count || count >= available.length) return null;
+  return new Set(Array.from({ length: count }, (_, i) => available[Math.floor(((i + 0.5) * available.length) / count)]));
+}
 
-function toIntervalsFromWorkingHours(start: Date, end: Date, tzOffsetMin: number, hours: { start: string; end: string; days: number[] }) {
-  // We keep in UTC; interpret working hours as local then convert to UTC by subtracting tzOffset
+function toIntervalsFromAvailability(start: Date, end: Date, tz: string, availability: Availability, weekdays: Set<number> | null = null) {
+  // Windows are wall-clock times in the user's zone; each local day is converted
+  // on its own so the UTC offset follows DST changes inside the horizon
   const result: Interval[] = [];
-  const cur = new Date(start);
-  while (cur < end) {
-    const day = cur.getUTCDay();
-    if (hours.days.includes(day)) {
-      const [sh, sm] = hours.start.split(":").map(Number);
-      const [eh, em] = hours.end.split(":").map(Number);
-      const dayStartLocal = new Date(Date.UTC(cur.getUTCFullYear(), cur.getUTCMonth(), cur.getUTCDate(), sh, sm));
-      const dayEndLocal = new Date(Date.UTC(cur.getUTCFullYear(), cur.getUTCMonth(), cur.getUTCDate(), eh, em));
-      const startUtc = dayStartLocal.getTime() - tzOffsetMin * 60000;
-      const endUtc = dayEndLocal.getTime() - tzOffsetMin * 60000;
+  for (const day of zonedDaysInRange(start.getTime(), end.getTime(), tz)) {
+    if (weekdays && !weekdays.has(day.weekday)) continue;
+    for (const w of windowsForDate(availability, day)) {
+      const [sh, sm] = w.start.split(":").map(Number);
+      const [eh, em] = w.end.split(":").map(Number);
+      const startUtc = zonedTimeToUtc(tz, { year: day.year, month: day.month, day: day.day, hour: sh, minute: sm });
+      const endUtc = zonedTimeToUtc(tz, { year: day.year, month: day.month, day: day.day, hour: eh, minute: em });
       result.push({ start: Math.max(startUtc, start.getTime()), end: Math.min(endUtc, end.getTime()) });
     }
-    cur.setUTCDate(cur.getUTCDate() + 1);
   }
   return result.filter(iv => iv.end > iv.start);
 }
 
-function placeTaskSessions(task: Task, free: Interval[]): { placed: Interval[]; free: Interval[] } {
-  const min = Math.max(15, task.sessionMinMinutes ?? 30);
-  const max = Math.max(min, task.sessionMaxMinutes ?? 90);
+type Session = { taskId: string; start: number; end: number };
+
+// Why a task could not be placed. `minutesShort` is how much of its estimate did not fit.
+type Infeasibility = {
+  taskId: string;
+  title: string;
+  minutesShort: number;
+  constraint: "dependency_cycle" | "dependency_unplaced" | "due_date" | "session_length" | "horizon";
+  detail: string;
+  blockedBy?: string[]; // task ids of the cycle / unplaced dependencies
+};
+
+function dayStartUtc(tz: string, ymd: string, dayOffset = 0): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(ymd);
+  if (!m) return null;
+  return zonedTimeToUtc(tz, { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) + dayOffset, hour: 0, minute: 0 });
+}
+
+function clip(free: Interval[], from: number, to: number): Interval[] {
+  return free
+    .map((f) => ({ start: Math.max(f.start, from), end: Math.min(f.end, to) }))
+    .filter((iv) => iv.end > iv.start);
+}
+
+/**
+ * Kahn's algorithm over task dependencies. Among ready tasks the earliest due date
+ * goes first, then plan order. Tasks left over sit on (or behind) a cycle; each
+ * cycle is returned as the list of task ids it runs through.
+ */
+function topoOrder(tasks: Task[]): { order: Task[]; cycles: string[][]; unknownDeps: { taskId: string; dep: string }[] } {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const index = new Map(tasks.map((t, i) => [t.id, i]));
+  const deps = new Map<string, string[]>();
+  const unknownDeps: { taskId: string; dep: string }[] = [];
+  for (const t of tasks) {
+    const known: string[] = [];
+    for (const d of new Set(t.dependencies ?? [])) {
+      if (byId.has(d) && d !== t.id) known.push(d);
+      else unknownDeps.push({ taskId: t.id, dep: d });
+    }
+    deps.set(t.id, known);
+  }
+
+  const indegree = new Map(tasks.map((t) => [t.id, deps.get(t.id)!.length]));
+  const dependents = new Map<string, string[]>();
+  for (const t of tasks) for (const d of deps.get(t.id)!) dependents.set(d, [...(dependents.get(d) ?? []), t.id]);
+
+  const rank = (t: Task) => [t.dueDate ?? "9999-12-31", index.get(t.id)!] as const;
+  const ready = tasks.filter((t) => indegree.get(t.id) === 0);
+  const order: Task[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => {
+      const [da, ia] = rank(a);
+      const [db, ib] = rank(b);
+      return da === db ? ia - ib : da < db ? -1 : 1;
+    });
+    const t = ready.shift()!;
+    order.push(t);
+    for (const n of dependents.get(t.id) ?? []) {
+      indegree.set(n, indegree.get(n)! - 1);
+      if (indegree.get(n) === 0) ready.push(byId.get(n)!);
+    }
+  }
+
+  // Walk dependency edges from each leftover task until a node repeats to recover the cycle
+  const cycles: string[][] = [];
+  const inCycle = new Set<string>();
+  for (const t of tasks) {
+    if (indegree.get(t.id) === 0 || inCycle.has(t.id)) continue;
+    const path: string[] = [];
+    const seen = new Map<string, number>();
+    let cur: string | undefined = t.id;
+    while (cur && !seen.has(cur) && !inCycle.has(cur)) {
+      seen.set(cur, path.length);
+      path.push(cur);
+      cur = deps.get(cur)!.find((d) => indegree.get(d)! > 0);
+    }
+    if (cur && seen.has(cur)) {
+      const cycle = path.slice(seen.get(cur)!);
+      cycle.forEach((id) => inCycle.add(id));
+      cycles.push(cycle);
+    }
+  }
+  return { order, cycles, unknownDeps };
+}
+
+/**
+ * Sessions as long as possible (up to sessionMaxMinutes), each in the best-scoring
+ * slot (slotScoring.ts) given what is already placed; shorter only when no free
+ * window is long enough.
+ */
+function placeTaskSessions(task: Task, free: Interval[], ctx: SlotContext): { placed: Interval[]; free: Interval[]; remaining: number } {
+  const splitting = task.allowSplitting !== false;
+  const min = splitting ? Math.max(15, task.sessionMinMinutes ?? 30) : task.estimatedMinutes;
+  const max = splitting ? Math.max(min, task.sessionMaxMinutes ?? 90) : task.estimatedMinutes;
   let remaining = task.estimatedMinutes;
   const placed: Interval[] = [];
-  const out: Interval[] = [...free];
-  for (let i = 0; i < out.length && remaining > 0; i++) {
-    const f = out[i];
-    const fmin = minutes(f.end - f.start);
-    if (fmin < min) continue;
-    const ses = Math.min(max, remaining, fmin);
-    const sesMs = ses * 60000;
-    const start = f.start;
-    const end = start + sesMs;
-    placed.push({ start, end });
-    out[i] = { start: end, end: f.end };
+  let out: Interval[] = [...free];
+  while (remaining > 0) {
+    const longest = out.reduce((m, f) => Math.max(m, minutes(f.end - f.start)), 0);
+    if (longest < Math.min(min, remaining)) break;
+    const ses = Math.min(max, remaining, longest);
+    const slot = bestSlot(out, ses, task.energy, { ...ctx, placed: [...ctx.placed, ...placed] });
+    if (!slot) break;
+    placed.push(slot);
+    out = subtractBusy(out, [slot]);
     remaining -= ses;
   }
-  if (remaining > 0) throw new Error(`Not enough time to place task ${task.title}`);
-  return { placed, free: out.filter(iv => iv.end - iv.start > 0) };
+  return { placed, free: out, remaining };
+}
+
+/** Scoring context for one plan: local days and times in `tz`, peak hours and external events. */
+function slotContext(tz: string, availability: Availability, busy: Interval[], now: number): SlotContext {
+  return {
+    localTime: (instant) => {
+      const p = zonedParts(instant, tz);
+      return {
+        dayKey: `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`,
+        minuteOfDay: p.hour * 60 + p.minute,
+      };
+    },
+    peak: (availability.peak ?? []).map((w) => ({ start: timeToMinutes(w.start), end: timeToMinutes(w.end) })),
+    busy,
+    placed: [],
+    now,
+  };
+}
+
+/**
+ * Place every task in dependency order inside its own window: no earlier than its
+ * earliestStartDate or the end of its dependencies' last session, and finished by the
+ * end of its dueDate (local to `tz`). A task that does not fit is left out entirely,
+ * its free time is not consumed, and everything depending on it is reported as blocked.
+ */
+function schedulePlan(tasks: Task[], free: Interval[], tz: string, now: number, horizonEnd: number, scoring: SlotContext): { sessions: Session[]; infeasible: Infeasibility[]; warnings: string[] } {
+  const { order, cycles, unknownDeps } = topoOrder(tasks);
+  const titleOf = (id: string) => tasks.find((t) => t.id === id)?.title ?? id;
+  const sessions: Session[] = [];
+  const infeasible: Infeasibility[] = [];
+  const warnings = unknownDeps.map(({ taskId, dep }) => `Task "${titleOf(taskId)}" depends on unknown task "${dep}"; dependency ignored`);
+
+  const failed = new Set<string>();
+  for (const cycle of cycles) {
+    for (const id of cycle) {
+      failed.add(id);
+      infeasible.push({
+        taskId: id,
+        title: titleOf(id),
+        minutesShort: tasks.find((t) => t.id === id)?.estimatedMinutes ?? 0,
+        constraint: "dependency_cycle",
+        detail: `Circular dependency: ${[...cycle, cycle[0]].map(titleOf).join(" → ")}`,
+        blockedBy: cycle.filter((c) => c !== id),
+      });
+    }
+  }
+
+  const finishedAt = new Map<string, number>();
+  let remainingFree = free;
+  const placeable = order.concat(tasks.filter((t) => !order.includes(t) && !failed.has(t.id)));
+  for (const t of placeable) {
+    const deps = (t.dependencies ?? []).filter((d) => tasks.some((x) => x.id === d) && d !== t.id);
+    const blockedBy = deps.filter((d) => failed.has(d) || !finishedAt.has(d));
+    if (blockedBy.length > 0) {
+      failed.add(t.id);
+      infeasible.push({
+        taskId: t.id,
+        title: t.title,
+        minutesShort: t.estimatedMinutes,
+        constraint: "dependency_unplaced",
+        detail: `Waits on ${blockedBy.map((d) => `"${titleOf(d)}"`).join(", ")}, which could not be scheduled`,
+        blockedBy,
+      });
+      continue;
+    }
+
+    const earliest = t.earliestStartDate ? dayStartUtc(tz, t.earliestStartDate) : null;
+    const due = t.dueDate ? dayStartUtc(tz, t.dueDate, 1) : null;
+    const windowStart = Math.max(now, earliest ?? now, ...deps.map((d) => finishedAt.get(d)!));
+    const windowEnd = Math.min(horizonEnd, due ?? horizonEnd);
+
+    // Every session so far belongs to this plan's goal, so they are spread against each other
+    const ctx = { ...scoring, placed: sessions.map((s) => ({ start: s.start, end: s.end })) };
+    const res = placeTaskSessions(t, clip(remainingFree, windowStart, windowEnd), ctx);
+    if (res.remaining === 0) {
+      const placedIvs = res.placed;
+      remainingFree = subtractBusy(remainingFree, placedIvs);
+      for (const iv of placedIvs) sessions.push({ taskId: t.id, start: iv.start, end: iv.end });
+      finishedAt.set(t.id, Math.max(...placedIvs.map((iv) => iv.end)));
+      continue;
+    }
+
+    // Work out which constraint is binding by relaxing the due date
+    failed.add(t.id);
+    const relaxed = due !== null && due < horizonEnd
+      ? placeTaskSessions(t, clip(remainingFree, windowStart, horizonEnd), ctx)
+      : null;
+    let constraint: Infeasibility["constraint"];
+    let detail: string;
+    if (relaxed && relaxed.remaining === 0) {
+      constraint = "due_date";
+      const reason = windowStart >= windowEnd ? "its dependencies or earliest start push it past" : "there is not enough free time before";
+      detail = `${reason} the due date ${t.dueDate}`;
+    } else if (t.allowSplitting === false && res.placed.length === 0) {
+      constraint = "session_length";
+      detail = `No single free slot of ${t.estimatedMinutes} minutes (splitting is disabled)`;
+    } else {
+      constraint = "horizon";
+      detail = `Not enough free time in the availability windows before ${new Date(windowEnd).toISOString().slice(0, 10)}`;
+    }
+    infeasible.push({ taskId: t.id, title: t.title, minutesShort: res.remaining, constraint, detail: detail.charAt(0).toUpperCase() + detail.slice(1) });
+  }
+
+  sessions.sort((a, b) => a.start - b.start);
+  return { sessions, infeasible, warnings };
+}
+
+/** Fixed session length from the preview: splitting on, min = max = sessionMinutes. */
+function applySessionMinutes(tasks: Task[], sessionMinutes: number | undefined): Task[] {
+  if (!sessionMinutes) return tasks;
+  return tasks.map((t) => ({ ...t, allowSplitting: true, sessionMinMinutes: sessionMinutes, sessionMaxMinutes: sessionMinutes }));
+}
+
+/**
+ * Sessions the user arranged in the preview (dragged, possibly onto busy time; that is
+ * their call). Sessions of unknown tasks are dropped; a task whose sessions no longer
+ * cover its estimate is reported like a task that did not fit.
+ */
+function clientSessions(tasks: Task[], raw: any[]): { sessions: Session[]; infeasible: Infeasibility[] } {
+  const ids = new Set(tasks.map((t) => t.id));
+  const sessions: Session[] = raw
+    .map((s: any) => ({
+      taskId: String(s?.taskId ?? ""),
+      start: typeof s?.start === "string" ? Date.parse(s.start) : Number(s?.start),
+      end: typeof s?.end === "string" ? Date.parse(s.end) : Number(s?.end),
+    }))
+    .filter((s) => ids.has(s.taskId) && Number.isFinite(s.start) && Number.isFinite(s.end) && s.end > s.start)
+    .sort((a, b) => a.start - b.start);
+  const infeasible: Infeasibility[] = [];
+  for (const t of tasks) {
+    const placed = sessions.filter((s) => s.taskId === t.id).reduce((sum, s) => sum + minutes(s.end - s.start), 0);
+    if (placed < t.estimatedMinutes) {
+      infeasible.push({
+        taskId: t.id,
+        title: t.title,
+        minutesShort: t.estimatedMinutes - placed,
+        constraint: "horizon",
+        detail: `Only ${placed} of ${t.estimatedMinutes} minutes are scheduled`,
+      });
+    }
+  }
+  return { sessions, infeasible };
 }
 
 async function authUser(req: Request) {
@@ -88,45 +330,58 @@ async function authUser(req: Request) {
   return { user: data.user ?? null, authHeader: auth } as any;
 }
 
-async function getTz(userId: string) {
-  const sb = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+// profiles.tz, read with the caller's JWT (RLS) like getAvailability; UTC when unset
+async function getTz(authHeader: string, userId: string) {
+  const sb = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { global: { headers: { Authorization: authHeader } } });
   const { data } = await sb.from("profiles").select("tz").eq("id", userId).maybeSingle();
-  return data?.tz ?? "UTC";
+  return isValidTimeZone(data?.tz) ? data.tz : "UTC";
 }
 
-function tzOffsetMinutes(tz: string) {
-  try { return -new Date().toLocaleString("en-US", { timeZone: tz, timeZoneName: "short" }).match(/GMT([+-]\d+)/) ? 0 : 0; } catch { return 0; }
+// user_planning_profile.preferences.availability, read with the caller's JWT (RLS); weekdays 09:00-17:00 when unset
+async function getAvailability(authHeader: string, userId: string): Promise<Availability> {
+  const sb = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { global: { headers: { Authorization: authHeader } } });
+  const { data } = await sb.from("user_planning_profile").select("preferences").eq("user_id", userId).maybeSingle();
+  return normalizeAvailability(data?.preferences?.availability) ?? DEFAULT_AVAILABILITY;
 }
 
-async function fetchBusy(authHeader: string, startIso: string, endIso: string) {
+async function fetchBusy(authHeader: string, startIso: string, endIso: string): Promise<Interval[]> {
   const projRef = (new URL(SUPABASE_URL)).host.split(".")[0];
   const url = `https://${projRef}.functions.supabase.co/calendar_proxy/freebusy?start=${encodeURIComponent(startIso)}&end=${encodeURIComponent(endIso)}`;
   const r = await fetch(url, { headers: { Authorization: authHeader } });
+  // 404: no calendar connected, so nothing is busy
+  if (r.status === 404) return [];
   if (!r.ok) throw new Error(`freebusy ${r.status}`);
   const json: any = await r.json();
   const out: Interval[] = [];
-  for (const k of Object.keys(json.calendars ?? json?.calendars ?? {})) {
-    const e = json.calendars[k];
-    for (const b of e.busy ?? []) out.push({ start: Date.parse(b.start), end: Date.parse(b.end) });
-  }
-  // Also support alternate response shape under json.calendars: {} else json?.calendars never mind
-  for (const cal of Object.values(json.calendars ?? {} as any)) {
-    for (const b of (cal as any).busy ?? []) out.push({ start: Date.parse(b.start), end: Date.parse(b.end) });
+  for (const cal of Object.values(json.calendars ?? {}) as any[]) {
+    for (const b of cal.busy ?? []) out.push({ start: Date.parse(b.start), end: Date.parse(b.end) });
   }
   return out.sort((a, b) => a.start - b.start);
 }
 
-async function commitPlan(authHeader: string, userId: string, goal: any, tasks: Task[], sessions: { taskId: string; start: number; end: number }[]) {
+async function commitPlan(authHeader: string, userId: string, goal: any, tasks: Task[], sessions: Session[]) {
   const sb = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { global: { headers: { Authorization: authHeader } } });
-  const { data: g, error: ge } = await sb.from("goals").insert({ user_id: userId, title: goal.title, description: goal.description ?? null, target_date: goal.targetDate ? new Date(goal.targetDate).toISOString() : null }).select("id").single();
+  const { data: g, error: ge } = await sb.from("goals").insert({ user_id: userId, title: goal.title, description: goal.description ?? null, target_date: goal.targetDate ? new Date(goal.targetDate).toISOString() : null, energy: normalizeEnergy(goal.energy) ?? null }).select("id").single();
   if (ge) throw ge;
   const goalId = g.id as string;
-  const toInsertTasks = tasks.map((t, idx) => ({ goal_id: goalId, user_id: userId, title: t.title, notes: t.notes ?? null, due_at: t.dueDate ? new Date(t.dueDate).toISOString() : null, duration_minutes: t.estimatedMinutes, seq: idx + 1 }));
-  const { data: trows, error: te } = await sb.from("tasks").insert(toInsertTasks).select("id, title");
+  // tasks.due_at is required: use the first placed session, else the plan's due date
+  const firstSession = (taskId: string) => sessions.filter(s => s.taskId === taskId).reduce<number | null>((m, s) => m === null || s.start < m ? s.start : m, null);
+  const toInsertTasks = tasks.map((t, idx) => {
+    const first = firstSession(t.id);
+    const dueAt = first !== null ? new Date(first) : t.dueDate ? new Date(t.dueDate) : new Date();
+    return { goal_id: goalId, user_id: userId, title: t.title, notes: t.notes ?? null, due_at: dueAt.toISOString(), duration_minutes: t.estimatedMinutes, energy: t.energy ?? null, seq: idx + 1 };
+  });
+  const { data: trows, error: te } = await sb.from("tasks").insert(toInsertTasks).select("id, seq");
   if (te) throw te;
-  const titleToId = new Map<string, string>();
-  for (const r of trows as any[]) titleToId.set(r.title, r.id);
-  const sesRows = sessions.map((s) => ({ task_id: titleToId.get(tasks.find(x => x.id === s.taskId)?.title ?? "")!, user_id: userId, start_at: new Date(s.start).toISOString(), end_at: new Date(s.end).toISOString() }));
+  // Map plan task ids to inserted rows by seq (titles are not unique)
+  const planIdToRowId = new Map<string, string>();
+  for (const r of trows as any[]) {
+    const t = tasks[(r.seq as number) - 1];
+    if (t) planIdToRowId.set(t.id, r.id);
+  }
+  const sesRows = sessions
+    .filter((s) => planIdToRowId.has(s.taskId))
+    .map((s) => ({ task_id: planIdToRowId.get(s.taskId)!, user_id: userId, start_at: new Date(s.start).toISOString(), end_at: new Date(s.end).toISOString() }));
   if (sesRows.length) {
     const { error: se } = await sb.from("task_sessions").insert(sesRows);
     if (se) throw se;
@@ -143,11 +398,12 @@ Deno.serve(async (req) => {
     const plan = payload.plan ?? payload; // allow raw planner json
     const commit = Boolean(payload.commit);
     const now = new Date();
-    const tz = await getTz(user.id);
-    const tzOff = tzOffsetMinutes(tz);
+    // Clients floating with the device send their current zone; otherwise use the home zone (profiles.tz)
+    const tz = isValidTimeZone(payload.tz) ? payload.tz : await getTz(authHeader, user.id);
     const horizonEnd = new Date(now.getTime() + 42 * 24 * 3600 * 1000);
-    const working = { start: "09:00", end: "17:00", days: [1,2,3,4,5] }; // Mon-Fri
-    let free = toIntervalsFromWorkingHours(now, horizonEnd, tzOff, working);
+    const options = normalizeOptions(payload.options);
+    const availability = await getAvailability(authHeader, user.id);
+    let free = toIntervalsFromAvailability(now, horizonEnd, tz, availability, pickWeekdays(availability, options.daysPerWeek));
 
     const busy = await fetchBusy(authHeader, iso(now), iso(horizonEnd));
     free = subtractBusy(free, busy);
@@ -161,21 +417,30 @@ Deno.serve(async (req) => {
       })).filter((b) => Number.isFinite(b.start) && Number.isFinite(b.end) && b.end > b.start);
       if (extraBusy.length > 0) {
         free = subtractBusy(free, extraBusy);
+        busy.push(...extraBusy);
       }
     }
 
-    // naive dependency order: topo by given order with deps simple filter
-    const tasks: Task[] = (plan.tasks ?? []).slice();
-    const placedSessions: { taskId: string; start: number; end: number }[] = [];
-    for (const t of tasks) {
-      const res = placeTaskSessions(t, free);
-      free = res.free;
-      for (const iv of res.placed) placedSessions.push({ taskId: t.id, start: iv.start, end: iv.end });
-    }
+    // A task's energy tag falls back to the goal's
+    const goalEnergy = normalizeEnergy(plan.goal?.energy);
+    const tasks: Task[] = applySessionMinutes(
+      (plan.tasks ?? []).map((t: any) => ({ ...t, energy: normalizeEnergy(t.energy) ?? goalEnergy })),
+      options.sessionMinutes,
+    );
+    // A commit may carry the sessions the user arranged in the preview instead of re-placing
+    const { sessions: placedSessions, infeasible, warnings } = commit && Array.isArray(payload.sessions)
+      ? { ...clientSessions(tasks, payload.sessions), warnings: [] as string[] }
+      : schedulePlan(tasks, free, tz, now.getTime(), horizonEnd.getTime(), slotContext(tz, availability, busy, now.getTime()));
+    const feasible = infeasible.length === 0;
 
-    if (!commit) return new Response(JSON.stringify({ sessions: placedSessions }), { headers: { "Content-Type": "application/json" } });
+    // The preview also gets the busy time it planned around, to draw next to the sessions
+    if (!commit) return new Response(JSON.stringify({ sessions: placedSessions, feasible, infeasible, warnings, busy }), { headers: { "Content-Type": "application/json" } });
+    // Never commit a partial plan: the caller gets the report and can adjust or fall back
+    if (!feasible) {
+      return new Response(JSON.stringify({ ok: false, error: "infeasible", infeasible, warnings }), { status: 422, headers: { "Content-Type": "application/json" } });
+    }
     const commitRes = await commitPlan(authHeader, user.id, plan.goal, tasks, placedSessions);
-    return new Response(JSON.stringify({ ok: true, ...commitRes }), { headers: { "Content-Type": "application/json" } });
+    return new Response(JSON.stringify({ ok: true, ...commitRes, warnings }), { headers: { "Content-Type": "application/json" } });
   } catch (e) {
     return new Response(JSON.stringify({ error: String(e?.message ?? e) }), { status: 500, headers: { "Content-Type": "application/json" } });
   }
@@ -0,0 +1,90 @@
+-- Recurring task rules (RFC 5545 RRULE) owned by goals.
+-- Occurrences are expanded lazily on the client for the visible range instead of
+-- being pre-materialized as one tasks row per session.
+create table if not exists public.recurrence_rules (
+  id uuid primary key default gen_random_uuid(),
+  goal_id uuid not null references public.goals(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  notes text,
+  rrule text not null,                       -- e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20251231T235959Z
+  dtstart timestamptz not null,              -- first occurrence; its local time-of-day is reused for every instance
+  duration_minutes int,
+  exdates timestamptz[] not null default '{}', -- EXDATE: cancelled occurrences (original start instants)
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_recurrence_rules_user_id on public.recurrence_rules(user_id);
+create index if not exists idx_recurrence_rules_goal_id on public.recurrence_rules(goal_id);
+
+alter table public.recurrence_rules enable row level security;
+
+create policy "own recurrence rules" on public.recurrence_rules
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- A tasks row can override a single occurrence of a rule (moved, edited or completed).
+-- recurrence_instance_at holds the occurrence's ORIGINAL start so the expander can skip it.
+-- Deleting a rule keeps completed overrides around as standalone tasks (set null).
+alter table public.tasks
+  add column if not exists recurrence_rule_id uuid references public.recurrence_rules(id) on delete set null,
+  add column if not exists recurrence_instance_at timestamptz;
+
+-- Plain (non-partial) unique index so PostgREST upserts can target it; NULLs never collide
+create unique index if not exists idx_tasks_recurrence_instance
+  on public.tasks(recurrence_rule_id, recurrence_instance_at);
+
+comment on table public.recurrence_rules is 'RFC 5545 recurrence rules for goal sessions; expanded lazily on the client';
+comment on column public.tasks.recurrence_instance_at is 'Original start of the recurrence occurrence this row overrides';
+
+-- Create a goal together with its recurrence rules in one call (mirrors create_goal_with_tasks)
+create or replace function public.create_goal_with_rules(p_user_id uuid, p_goal jsonb, p_rules jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_goal_id uuid;
+  v_idx int := 0;
+  v_rule jsonb;
+  v_goal_color text;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'not allowed';
+  end if;
+
+  v_goal_color := get_next_goal_color(p_user_id);
+  if p_goal ? 'color' and p_goal->>'color' is not null then
+    v_goal_color := p_goal->>'color';
+  end if;
+
+  insert into public.goals (user_id, title, description, target_date, status, color)
+  values (
+    p_user_id,
+    p_goal->>'title',
+    p_goal->>'description',
+    (p_goal->>'target_date')::timestamptz,
+    coalesce((p_goal->>'status')::public.goal_status, 'active'),
+    v_goal_color
+  )
+  returning id into v_goal_id;
+
+  for v_idx in 0 .. jsonb_array_length(p_rules)-1 loop
+    v_rule := p_rules->v_idx;
+    insert into public.recurrence_rules (goal_id, user_id, title, notes, rrule, dtstart, duration_minutes)
+    values (
+      v_goal_id,
+      p_user_id,
+      v_rule->>'title',
+      v_rule->>'notes',
+      v_rule->>'rrule',
+      (v_rule->>'dtstart')::timestamptz,
+      nullif((v_rule->>'duration_minutes')::int, 0)
+    );
+  end loop;
+
+  return v_goal_id;
+end $$;
+
+grant execute on function public.create_goal_with_rules(uuid, jsonb, jsonb) to authenticated;
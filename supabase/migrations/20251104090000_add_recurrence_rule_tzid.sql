@@ -0,0 +1,59 @@
+-- Anchor recurring sessions to an IANA zone (RFC 5545 DTSTART;TZID=...).
+-- NULL keeps the rule floating: occurrences follow whatever zone the device is in.
+alter table public.recurrence_rules
+  add column if not exists tzid text;
+
+comment on column public.recurrence_rules.tzid is 'IANA zone the rule''s wall-clock times are anchored to; NULL = floating (device zone)';
+
+-- Carry tzid through goal creation
+create or replace function public.create_goal_with_rules(p_user_id uuid, p_goal jsonb, p_rules jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_goal_id uuid;
+  v_idx int := 0;
+  v_rule jsonb;
+  v_goal_color text;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'not allowed';
+  end if;
+
+  v_goal_color := get_next_goal_color(p_user_id);
+  if p_goal ? 'color' and p_goal->>'color' is not null then
+    v_goal_color := p_goal->>'color';
+  end if;
+
+  insert into public.goals (user_id, title, description, target_date, status, color)
+  values (
+    p_user_id,
+    p_goal->>'title',
+    p_goal->>'description',
+    (p_goal->>'target_date')::timestamptz,
+    coalesce((p_goal->>'status')::public.goal_status, 'active'),
+    v_goal_color
+  )
+  returning id into v_goal_id;
+
+  for v_idx in 0 .. jsonb_array_length(p_rules)-1 loop
+    v_rule := p_rules->v_idx;
+    insert into public.recurrence_rules (goal_id, user_id, title, notes, rrule, dtstart, duration_minutes, tzid)
+    values (
+      v_goal_id,
+      p_user_id,
+      v_rule->>'title',
+      v_rule->>'notes',
+      v_rule->>'rrule',
+      (v_rule->>'dtstart')::timestamptz,
+      nullif((v_rule->>'duration_minutes')::int, 0),
+      v_rule->>'tzid'
+    );
+  end loop;
+
+  return v_goal_id;
+end $$;
+
+grant execute on function public.create_goal_with_rules(uuid, jsonb, jsonb) to authenticated;
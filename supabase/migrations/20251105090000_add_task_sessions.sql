@@ -0,0 +1,63 @@
+-- Placed work sessions for a task. schedule_v1 splits a task's estimate across
+-- several sessions; the task is complete once none of its sessions are pending.
+create table if not exists public.task_sessions (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  start_at timestamptz not null,
+  end_at timestamptz not null,
+  status task_status not null default 'pending',
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint task_sessions_valid_range check (end_at > start_at)
+);
+
+create index if not exists idx_task_sessions_task_id on public.task_sessions(task_id);
+create index if not exists idx_task_sessions_user_start on public.task_sessions(user_id, start_at);
+
+alter table public.task_sessions enable row level security;
+
+create policy "own task sessions" on public.task_sessions
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+comment on table public.task_sessions is 'Scheduled work sessions; a task with sessions is done when none are pending';
+
+-- Keep the parent task's status in step with its sessions
+create or replace function public.sync_task_status_from_sessions()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+  v_pending int;
+  v_done int;
+  v_last_done timestamptz;
+begin
+  select
+    count(*) filter (where status = 'pending'),
+    count(*) filter (where status = 'done'),
+    max(completed_at) filter (where status = 'done')
+  into v_pending, v_done, v_last_done
+  from public.task_sessions
+  where task_id = v_task_id;
+
+  if v_pending = 0 and v_done > 0 then
+    update public.tasks
+      set status = 'done', completed_at = coalesce(v_last_done, now()), updated_at = now()
+      where id = v_task_id and status <> 'done';
+  elsif v_pending > 0 then
+    update public.tasks
+      set status = 'pending', completed_at = null, updated_at = now()
+      where id = v_task_id and status = 'done';
+  end if;
+
+  return null;
+end $$;
+
+drop trigger if exists trg_task_sessions_sync_task on public.task_sessions;
+create trigger trg_task_sessions_sync_task
+  after insert or update of status or delete on public.task_sessions
+  for each row execute function public.sync_task_status_from_sessions();
+
@@ -0,0 +1,22 @@
+-- History of missed sessions: moved/redistributed into new slots, or skipped.
+-- Replaces the client-side cleanup that deleted pending tasks a week after they were due.
+create table if not exists public.task_reschedules (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  action text not null check (action in ('rescheduled', 'skipped')),
+  missed_at timestamptz not null,               -- original start of the missed session
+  minutes int,                                  -- minutes that were missed
+  new_slots jsonb not null default '[]'::jsonb, -- [{ start, end }] for 'rescheduled'
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_reschedules_task_id on public.task_reschedules(task_id);
+create index if not exists idx_task_reschedules_user_created on public.task_reschedules(user_id, created_at desc);
+
+alter table public.task_reschedules enable row level security;
+
+create policy "own task reschedules" on public.task_reschedules
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+comment on table public.task_reschedules is 'What happened to missed sessions: rescheduled into new slots or skipped';
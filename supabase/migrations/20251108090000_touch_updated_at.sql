@@ -0,0 +1,27 @@
+-- Maintain updated_at on every write. The client sync queue replays offline edits
+-- only onto rows that have not changed since the edit was made, which needs a
+-- server-side timestamp that every writer (app, functions, triggers) bumps.
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists trg_goals_touch_updated_at on public.goals;
+create trigger trg_goals_touch_updated_at
+  before update on public.goals
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists trg_tasks_touch_updated_at on public.tasks;
+create trigger trg_tasks_touch_updated_at
+  before update on public.tasks
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists trg_task_sessions_touch_updated_at on public.task_sessions;
+create trigger trg_task_sessions_touch_updated_at
+  before update on public.task_sessions
+  for each row execute function public.touch_updated_at();
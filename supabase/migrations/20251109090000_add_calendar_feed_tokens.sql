@@ -0,0 +1,36 @@
+-- Secret tokens for subscribable ICS feeds (served by the calendar_feed function).
+-- Anyone holding the feed URL can read it, so every token is revocable on its own
+-- and can be limited to a subset of goals.
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.calendar_feed_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  token text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+  name text not null default 'Momentum',
+  goal_ids uuid[], -- null = all goals
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  last_accessed_at timestamptz
+);
+
+create index if not exists idx_calendar_feed_tokens_user on public.calendar_feed_tokens(user_id);
+
+alter table public.calendar_feed_tokens enable row level security;
+
+create policy "read own calendar feed tokens" on public.calendar_feed_tokens
+  for select using (user_id = auth.uid());
+
+create policy "create own calendar feed tokens" on public.calendar_feed_tokens
+  for insert with check (user_id = auth.uid() and revoked_at is null);
+
+-- Revoking is one way: an owner's update can only set revoked_at on an active token,
+-- and revoked_at is the only column the app may update
+create policy "revoke own calendar feed tokens" on public.calendar_feed_tokens
+  for update using (user_id = auth.uid() and revoked_at is null)
+  with check (user_id = auth.uid() and revoked_at is not null);
+
+revoke update on public.calendar_feed_tokens from anon, authenticated;
+grant update (revoked_at) on public.calendar_feed_tokens to authenticated;
+
+comment on table public.calendar_feed_tokens is 'Per-user webcal feed tokens; revoked_at set means the feed URL no longer works';
@@ -0,0 +1,77 @@
+-- Tasks imported from an .ics file remember the event they came from, so importing
+-- the same file again updates those tasks instead of adding duplicates.
+-- For recurring events the uid carries the occurrence: "<UID>#<start instant>".
+alter table public.tasks
+  add column if not exists ics_uid text;
+
+-- Plain (non-partial) unique index so ON CONFLICT can target it; NULLs never collide
+create unique index if not exists idx_tasks_user_ics_uid on public.tasks(user_id, ics_uid);
+
+comment on column public.tasks.ics_uid is 'UID of the imported iCalendar event (plus occurrence start for recurring ones)';
+
+-- create_goal_with_tasks now also adds tasks to an existing goal (p_goal->>'id', which
+-- must belong to p_user_id) and upserts tasks that carry an ics_uid. Re-imported
+-- tasks take the new title, notes and times but keep their goal and status.
+create or replace function public.create_goal_with_tasks(p_user_id uuid, p_goal jsonb, p_tasks jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_goal_id uuid;
+  v_idx int := 0;
+  v_task jsonb;
+  v_goal_color text;
+begin
+  if p_goal ? 'id' and p_goal->>'id' is not null then
+    select id into v_goal_id
+    from public.goals
+    where id = (p_goal->>'id')::uuid and user_id = p_user_id;
+    if v_goal_id is null then
+      raise exception 'goal not found';
+    end if;
+  else
+    v_goal_color := get_next_goal_color(p_user_id);
+    if p_goal ? 'color' and p_goal->>'color' is not null then
+      v_goal_color := p_goal->>'color';
+    end if;
+
+    insert into public.goals (user_id, title, description, target_date, status, color)
+    values (
+      p_user_id,
+      p_goal->>'title',
+      p_goal->>'description',
+      (p_goal->>'target_date')::timestamptz,
+      coalesce((p_goal->>'status')::public.goal_status, 'active'),
+      v_goal_color
+    )
+    returning id into v_goal_id;
+  end if;
+
+  for v_idx in 0 .. jsonb_array_length(p_tasks)-1 loop
+    v_task := p_tasks->v_idx;
+    insert into public.tasks (
+      goal_id, user_id, title, notes, due_at, duration_minutes, all_day, status, seq, ics_uid
+    ) values (
+      v_goal_id,
+      p_user_id,
+      v_task->>'title',
+      v_task->>'notes',
+      (v_task->>'due_at')::timestamptz,
+      nullif((v_task->>'duration_minutes')::int,0),
+      coalesce((v_task->>'all_day')::boolean,false),
+      coalesce((v_task->>'status')::public.task_status,'pending'),
+      nullif((v_task->>'seq')::int,0),
+      v_task->>'ics_uid'
+    )
+    on conflict (user_id, ics_uid) do update set
+      title = excluded.title,
+      notes = excluded.notes,
+      due_at = excluded.due_at,
+      duration_minutes = excluded.duration_minutes,
+      all_day = excluded.all_day;
+  end loop;
+
+  return v_goal_id;
+end $$;
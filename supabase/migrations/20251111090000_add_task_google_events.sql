@@ -0,0 +1,28 @@
+-- Two-way Google Calendar sync: Momentum tasks are written as events in a dedicated
+-- "Momentum" calendar owned by the connected Google account (calendar_proxy /tasks/*).
+alter table if exists public.calendar_accounts
+  add column if not exists momentum_calendar_id text,     -- Google calendar the app created for tasks
+  add column if not exists momentum_pulled_at timestamptz; -- last pull of edits made on the Google side
+
+-- One Google event per task. No foreign key on task_id: the row has to outlive a
+-- deleted task until calendar_proxy has removed its event.
+create table if not exists public.task_google_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  task_id uuid not null unique,
+  google_calendar_id text not null,
+  google_event_id text not null,
+  etag text,
+  synced_at timestamptz not null default now(), -- Google's `updated` of the version we last wrote or read
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_task_google_events_event on public.task_google_events(google_calendar_id, google_event_id);
+create index if not exists idx_task_google_events_user_id on public.task_google_events(user_id);
+
+alter table public.task_google_events enable row level security;
+
+create policy "own task google events" on public.task_google_events
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+comment on table public.task_google_events is 'Google Calendar event written for each synced task (calendar_proxy /tasks/*)';
@@ -0,0 +1,19 @@
+-- Pending Google connect attempts started by calendar_proxy /oauth/start. The signed
+-- OAuth state names a row by its nonce; /callback consumes it (used_at) so each state
+-- works once, and reads the PKCE code verifier, which never leaves the server.
+create table if not exists public.calendar_oauth_sessions (
+  nonce text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  code_verifier text not null,
+  return_url text,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_calendar_oauth_sessions_expires_at on public.calendar_oauth_sessions(expires_at);
+
+-- Service role only: RLS on without policies
+alter table public.calendar_oauth_sessions enable row level security;
+
+comment on table public.calendar_oauth_sessions is 'Single-use OAuth state for the Google Calendar connect flow (PKCE verifier, return URL)';
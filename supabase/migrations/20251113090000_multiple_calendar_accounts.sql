@@ -0,0 +1,10 @@
+-- Several Google accounts per user: calendar_proxy tells connected accounts apart by
+-- the email from the ID token, so (user, provider) is no longer unique.
+alter table if exists public.calendar_accounts
+  drop constraint if exists calendar_accounts_user_id_provider_key;
+drop index if exists public.calendar_accounts_user_id_provider_key;
+
+-- Rows from before emails were recorded keep a null email until their next connect
+create unique index if not exists idx_calendar_accounts_user_provider_email
+  on public.calendar_accounts(user_id, provider, email);
+
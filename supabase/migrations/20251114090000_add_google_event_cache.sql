@@ -0,0 +1,60 @@
+-- Server-side cache of Google Calendar events (calendar_proxy). Each calendar is kept
+-- current incrementally with Google sync tokens, triggered by watch-channel webhooks
+-- and by the app; CalendarScreen reads its window from google_events and listens for
+-- changes over realtime instead of asking Google on every navigation.
+create table if not exists public.google_calendar_syncs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  account_id uuid not null references public.calendar_accounts(id) on delete cascade,
+  calendar_id text not null,
+  sync_token text,            -- Google's nextSyncToken; null until the first full sync
+  synced_at timestamptz,
+  channel_id text unique,     -- watch channel Google notifies /webhook on
+  channel_resource_id text,
+  channel_token text,         -- echoed by Google in X-Goog-Channel-Token
+  channel_expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_google_calendar_syncs_calendar on public.google_calendar_syncs(account_id, calendar_id);
+
+-- Sync tokens and channel secrets stay with the service role: RLS on without policies
+alter table public.google_calendar_syncs enable row level security;
+
+create table if not exists public.google_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  account_id uuid not null references public.calendar_accounts(id) on delete cascade,
+  calendar_id text not null,
+  event_id text not null,
+  title text not null,
+  start_at timestamptz not null,  -- all-day events start and end at 00:00 UTC of their dates
+  end_at timestamptz not null,
+  all_day boolean not null default false,
+  location text,
+  html_link text,
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_google_events_event on public.google_events(account_id, calendar_id, event_id);
+create index if not exists idx_google_events_user_start on public.google_events(user_id, start_at);
+
+alter table public.google_events enable row level security;
+
+-- Written by calendar_proxy only
+create policy "own google events" on public.google_events
+  for select using (user_id = auth.uid());
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'google_events'
+     ) then
+    alter publication supabase_realtime add table public.google_events;
+  end if;
+end $$;
+
+comment on table public.google_calendar_syncs is 'Sync token and watch channel per connected Google calendar (calendar_proxy event cache)';
+comment on table public.google_events is 'Cached Google Calendar events, kept current by calendar_proxy';
@@ -0,0 +1,20 @@
+-- CalDAV servers (Nextcloud, Fastmail, iCloud, ...) connected through calendar_proxy.
+-- Busy time from their calendars is added to schedule_v1's extraBusy on any platform.
+create table if not exists public.caldav_accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  server_url text not null,
+  username text not null,
+  password text not null,                   -- usually an app-specific password
+  calendars jsonb not null default '[]'::jsonb, -- [{ url, name, color }] found at connect
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_caldav_accounts_login on public.caldav_accounts(user_id, server_url, username);
+
+-- Holds passwords: service role only (RLS on without policies); the app goes
+-- through calendar_proxy /caldav/*
+alter table public.caldav_accounts enable row level security;
+
+comment on table public.caldav_accounts is 'CalDAV logins and their discovered calendars (calendar_proxy /caldav/*)';
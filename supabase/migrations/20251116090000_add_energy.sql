@@ -0,0 +1,11 @@
+-- Effort tags for energy-aware scheduling: schedule_v1 puts high-effort work in
+-- the user's peak hours (user_planning_profile.preferences.availability.peak) and
+-- low-effort work outside them. A task without a tag uses its goal's.
+alter table public.goals
+  add column if not exists energy text check (energy in ('low', 'medium', 'high'));
+
+alter table public.tasks
+  add column if not exists energy text check (energy in ('low', 'medium', 'high'));
+
+comment on column public.goals.energy is 'Effort the goal''s work usually takes: low, medium or high';
+comment on column public.tasks.energy is 'Effort the task takes: low, medium or high; null uses the goal''s';
@@ -0,0 +1,47 @@
+-- coach_chat records a chat_usage row per chat and lets later turns of the same
+-- chat through without counting them again against the weekly limit
+alter table public.chat_usage
+  add column if not exists chat_id uuid;
+
+create unique index if not exists idx_chat_usage_user_chat
+  on public.chat_usage(user_id, chat_id)
+  where chat_id is not null;
+
+comment on column public.chat_usage.chat_id is 'Chat this row counts (coach_chat); null for rows recorded by older app versions';
+
+-- Rows are only written by admit_chat, so the quota cannot be skipped by inserting
+-- a chat's row from the client
+drop policy if exists "Users can insert their own chat usage" on public.chat_usage;
+
+-- Checks the weekly quota and records the chat in one step. The per-user lock keeps
+-- two first requests from both passing can_create_chat before either row exists.
+create or replace function public.admit_chat(p_chat_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('chat_usage:' || v_user_id::text));
+
+  if exists (select 1 from public.chat_usage where user_id = v_user_id and chat_id = p_chat_id) then
+    return true;
+  end if;
+
+  if not public.can_create_chat(v_user_id) then
+    return false;
+  end if;
+
+  insert into public.chat_usage (user_id, chat_id) values (v_user_id, p_chat_id);
+  return true;
+end $$;
+
+grant execute on function public.admit_chat(uuid) to authenticated;
+
+comment on function public.admit_chat(uuid) is 'Counts a new chat against the caller''s weekly quota (coach_chat); false when it is used up, true for a known chat';
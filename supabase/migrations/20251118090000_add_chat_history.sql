@@ -0,0 +1,107 @@
+-- Chat history: coach_chat stores every turn so past threads can be listed, searched
+-- and resumed. A conversation's id is the chat_id coach_chat counts in chat_usage,
+-- but the two are not linked: deleting a thread leaves its chat_usage row, so it
+-- still counts this week and cleanup_old_chat_usage removes it with the rest.
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null default 'New chat',
+  last_message_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_conversations_user_recent on public.conversations(user_id, last_message_at desc);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  status text check (status in ('stopped', 'interrupted')), -- an assistant reply that did not finish
+  created_at timestamptz not null default now(),
+  search tsvector generated always as (to_tsvector('english', content)) stored
+);
+
+create index if not exists idx_messages_conversation on public.messages(conversation_id, created_at);
+create index if not exists idx_messages_search on public.messages using gin(search);
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+create policy "own conversations" on public.conversations
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "own messages" on public.messages
+  for all using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.conversations c where c.id = conversation_id and c.user_id = auth.uid())
+  );
+
+drop trigger if exists trg_conversations_touch_updated_at on public.conversations;
+create trigger trg_conversations_touch_updated_at
+  before update on public.conversations
+  for each row execute function public.touch_updated_at();
+
+-- Keep the thread list ordered by its latest message
+create or replace function public.touch_conversation_last_message()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  update public.conversations
+    set last_message_at = greatest(last_message_at, new.created_at)
+    where id = new.conversation_id;
+  return null;
+end $$;
+
+drop trigger if exists trg_messages_touch_conversation on public.messages;
+create trigger trg_messages_touch_conversation
+  after insert on public.messages
+  for each row execute function public.touch_conversation_last_message();
+
+-- Full-text search over the caller's threads: one row per matching thread with its
+-- best-matching message highlighted. Runs as the caller, so RLS applies.
+create or replace function public.search_conversations(p_query text, p_limit int default 30)
+returns table (
+  conversation_id uuid,
+  title text,
+  last_message_at timestamptz,
+  snippet text,
+  rank real
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with q as (select websearch_to_tsquery('english', p_query) as query),
+  hits as (
+    select distinct on (m.conversation_id)
+      m.conversation_id,
+      m.content,
+      ts_rank(m.search, q.query) as rank
+    from public.messages m, q
+    where m.search @@ q.query
+    order by m.conversation_id, ts_rank(m.search, q.query) desc
+  )
+  select
+    c.id,
+    c.title,
+    c.last_message_at,
+    ts_headline('english', h.content, q.query, 'StartSel=**, StopSel=**, MaxWords=20, MinWords=8'),
+    h.rank
+  from hits h
+  join public.conversations c on c.id = h.conversation_id
+  cross join q
+  order by h.rank desc, c.last_message_at desc
+  limit greatest(1, least(p_limit, 100));
+$$;
+
+grant execute on function public.search_conversations(text, int) to authenticated;
+
+comment on table public.conversations is 'Coach chat threads; id is the chat_id counted in chat_usage';
+comment on table public.messages is 'Turns of a coach chat thread, stored by coach_chat';
+comment on function public.search_conversations(text, int) is 'Full-text search across the caller''s chat threads';
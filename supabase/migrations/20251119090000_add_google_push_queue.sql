@@ -0,0 +1,95 @@
+-- Google task sync for every write path. Tasks reach the database through the sync
+-- queue, goal-creation RPCs, occurrence overrides, sessions, reschedules and slot
+-- moves; triggers note each changed task or rule here and calendar_proxy
+-- (/tasks/flush) writes the Momentum calendar from the queue.
+-- No foreign keys: an entry has to outlive its deleted row until the event is gone.
+create table if not exists public.google_push_queue (
+  user_id uuid not null,
+  kind text not null check (kind in ('task', 'rule')),
+  row_id uuid not null,
+  queued_at timestamptz not null default now(),
+  primary key (kind, row_id)
+);
+
+create index if not exists idx_google_push_queue_user_id on public.google_push_queue(user_id);
+
+-- Only calendar_proxy (service role) reads and drains the queue
+alter table public.google_push_queue enable row level security;
+
+comment on table public.google_push_queue is 'Tasks and recurrence rules to write to Google Calendar (calendar_proxy /tasks/flush)';
+
+create or replace function public.queue_google_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_row jsonb := to_jsonb(coalesce(new, old));
+  v_user_id uuid := (v_row->>'user_id')::uuid;
+  v_kind text := case when tg_table_name = 'recurrence_rules' then 'rule' else 'task' end;
+  -- A session change rewrites its task's events
+  v_row_id uuid := (case when tg_table_name = 'task_sessions' then v_row->>'task_id' else v_row->>'id' end)::uuid;
+begin
+  if not exists (
+    select 1 from public.user_planning_profile
+    where user_id = v_user_id and coalesce((preferences->>'syncTasksToGoogle')::boolean, false)
+  ) then
+    return null;
+  end if;
+
+  insert into public.google_push_queue (user_id, kind, row_id)
+  values (v_user_id, v_kind, v_row_id)
+  on conflict (kind, row_id) do update set queued_at = now();
+  return null;
+end $$;
+
+drop trigger if exists trg_tasks_queue_google_push on public.tasks;
+create trigger trg_tasks_queue_google_push
+  after insert or update or delete on public.tasks
+  for each row execute function public.queue_google_push();
+
+drop trigger if exists trg_task_sessions_queue_google_push on public.task_sessions;
+create trigger trg_task_sessions_queue_google_push
+  after insert or update or delete on public.task_sessions
+  for each row execute function public.queue_google_push();
+
+drop trigger if exists trg_recurrence_rules_queue_google_push on public.recurrence_rules;
+create trigger trg_recurrence_rules_queue_google_push
+  after insert or update or delete on public.recurrence_rules
+  for each row execute function public.queue_google_push();
+
+-- A split task is written as one event per session; session_id is null for the
+-- event of a task without sessions
+alter table public.task_google_events
+  add column if not exists session_id uuid;
+
+alter table public.task_google_events
+  drop constraint if exists task_google_events_task_id_key;
+
+create unique index if not exists idx_task_google_events_task_session
+  on public.task_google_events(task_id, session_id) nulls not distinct;
+
+comment on column public.task_google_events.session_id is 'task_sessions row the event shows; null for the whole task';
+
+-- One recurring Google event per recurrence rule. Overridden occurrences are tasks
+-- rows with their own events, and are EXDATEs of the series.
+create table if not exists public.rule_google_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  recurrence_rule_id uuid not null unique,
+  google_calendar_id text not null,
+  google_event_id text not null,
+  etag text,
+  synced_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_rule_google_events_user_id on public.rule_google_events(user_id);
+
+alter table public.rule_google_events enable row level security;
+
+create policy "own rule google events" on public.rule_google_events
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+comment on table public.rule_google_events is 'Recurring Google Calendar event written for each synced recurrence rule (calendar_proxy /tasks/*)';
@@ -19,4 +19,5 @@ export interface Goal {
   created_at?: string;
   updated_at?: string;
   color?: string; // Goal color for visual identification
+  energy?: 'low' | 'medium' | 'high' | null; // Effort its work usually takes
 }
\ No newline at end of file
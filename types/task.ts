@@ -1,8 +1,18 @@
+export interface TaskSession {
+  id: string;
+  task_id: string;
+  start_at: string; // ISO date string
+  end_at: string; // ISO date string
+  status: 'pending' | 'done' | 'skipped';
+  completed_at?: string | null;
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   completed: boolean; // For backward compatibility
+  status?: 'pending' | 'done' | 'skipped'; // Database status; skipped tasks stay as history
   due_at: string; // ISO date string
   goal_id?: string;
   goalTitle?: string; // Goal title for notifications
@@ -10,4 +20,9 @@ export interface Task {
   user_id?: string;
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+  recurrence_rule_id?: string | null; // Set for occurrences of a recurring rule
+  recurrence_instance_at?: string | null; // Original start of that occurrence
+  is_occurrence?: boolean; // True for lazily expanded occurrences with no tasks row yet
+  energy?: 'low' | 'medium' | 'high' | null; // Effort tag for scheduling; null uses the goal's
+  sessions?: TaskSession[]; // Placed work sessions when the task is split across several slots
+}